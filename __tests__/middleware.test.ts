@@ -12,6 +12,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { middleware } from '../middleware';
 import jwt from 'jsonwebtoken';
+import {
+  matchesPattern,
+  matchRouteRule,
+  isRouteAllowed,
+  isTierAtLeast,
+  highestTier,
+  ROUTE_RULES,
+  type RouteRule,
+} from '@/lib/route-rules';
 
 // Mock jwt module
 jest.mock('jsonwebtoken', () => ({
@@ -169,7 +178,7 @@ describe('Middleware - Protected Route Tests', () => {
 
     await middleware(request);
 
-    expect(jwt.verify).toHaveBeenCalledWith('valid-token', JWT_SECRET);
+    expect(jwt.verify).toHaveBeenCalledWith('valid-token', JWT_SECRET, { algorithms: ['HS256'] });
   });
 
   test('Valid token allows access', async () => {
@@ -261,6 +270,19 @@ describe('Middleware - Token Validation Tests', () => {
     expect(response.status).toBe(307);
   });
 
+  test('Two-factor challenge token rejected as an access token', async () => {
+    (jwt.verify as jest.Mock).mockReturnValue({
+      purpose: 'two_factor',
+      sub: 'user-123',
+      exp: Math.floor(Date.now() / 1000) + 300,
+    });
+    const request = createMockRequest('/account', { access_token: 'challenge.jwt.token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toContain('/signin');
+  });
+
   test('Missing token redirects', async () => {
     const request = createMockRequest('/account');
     const response = await middleware(request);
@@ -307,7 +329,7 @@ describe('Middleware - Token Validation Tests', () => {
     await middleware(request);
 
     expect(jwt.verify).toHaveBeenCalledTimes(1);
-    expect(jwt.verify).toHaveBeenCalledWith('test-token', JWT_SECRET);
+    expect(jwt.verify).toHaveBeenCalledWith('test-token', JWT_SECRET, { algorithms: ['HS256'] });
   });
 
   test('Error handling for jwt.verify() failure', async () => {
@@ -332,94 +354,186 @@ describe('Middleware - Token Validation Tests', () => {
 });
 
 describe('Middleware - Token Refresh Tests', () => {
+  const mockFetch = global.fetch as jest.Mock;
+
+  const refreshedSession = {
+    access_token: 'new-access-token',
+    token_type: 'Bearer',
+    expires_in: 900,
+    user: { id: 'user-123', email: 'test@example.com' },
+  };
+
+  // The refresh route only sends the rotated refresh token as a cookie
+  const refreshResponse = (body: object) =>
+    new Response(JSON.stringify(body), {
+      headers: { 'set-cookie': 'refresh_token=new-refresh-token; Path=/; HttpOnly' },
+    });
+
   beforeEach(() => {
     jest.clearAllMocks();
+    mockFetch.mockReset();
   });
 
-  test('Token refresh for soon-to-expire tokens (< 1 hour)', async () => {
-    const mockPayload = {
-      userId: 'user-123',
-      email: 'test@example.com',
-      exp: Math.floor(Date.now() / 1000) + 1800, // 30 minutes from now
-    };
-    (jwt.verify as jest.Mock).mockReturnValue(mockPayload);
-    (jwt.sign as jest.Mock).mockReturnValue('new-refreshed-token');
+  function mockExpiredToken() {
+    (jwt.verify as jest.Mock).mockImplementation(() => {
+      const error = new Error('jwt expired');
+      error.name = 'TokenExpiredError';
+      throw error;
+    });
+  }
 
-    const request = createMockRequest('/account', { access_token: 'expiring-token' });
+  test('Expired access token is renewed with the refresh token', async () => {
+    mockExpiredToken();
+    mockFetch.mockResolvedValue(refreshResponse(refreshedSession));
+
+    const request = createMockRequest('/account', {
+      access_token: 'expired-token',
+      refresh_token: 'refresh-token',
+    });
     const response = await middleware(request);
 
-    expect(jwt.sign).toHaveBeenCalledWith(
-      { userId: 'user-123', email: 'test@example.com' },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    expect(response.status).toBe(200);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url.toString()).toBe('http://localhost:3000/api/auth/refresh');
+    expect(init.method).toBe('POST');
+    expect(init.headers.cookie).toContain('refresh_token=refresh-token');
 
-    // Check that new token is set in cookie
     const setCookie = response.headers.get('set-cookie');
-    expect(setCookie).toContain('access_token=new-refreshed-token');
+    expect(setCookie).toContain('access_token=new-access-token');
+    expect(setCookie).toContain('refresh_token=new-refresh-token');
     expect(setCookie).toContain('HttpOnly');
   });
 
-  test('No token refresh for tokens with > 1 hour remaining', async () => {
-    const mockPayload = {
-      userId: 'user-123',
-      email: 'test@example.com',
-      exp: Math.floor(Date.now() / 1000) + 7200, // 2 hours from now
-    };
-    (jwt.verify as jest.Mock).mockReturnValue(mockPayload);
+  test('Missing access token is renewed with the refresh token', async () => {
+    mockFetch.mockResolvedValue(refreshResponse(refreshedSession));
 
-    const request = createMockRequest('/account', { access_token: 'valid-token' });
+    const request = createMockRequest('/account', { refresh_token: 'refresh-token' });
     const response = await middleware(request);
 
-    expect(jwt.sign).not.toHaveBeenCalled();
     expect(response.status).toBe(200);
+    expect(jwt.verify).not.toHaveBeenCalled();
+    expect(response.headers.get('x-middleware-request-x-user-id')).toBe('user-123');
+  });
+
+  test('Renewed tokens are forwarded to the current request', async () => {
+    mockExpiredToken();
+    mockFetch.mockResolvedValue(refreshResponse(refreshedSession));
+
+    const request = createMockRequest('/account', {
+      access_token: 'expired-token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
+
+    expect(response.headers.get('x-middleware-request-cookie')).toContain(
+      'access_token=new-access-token'
+    );
   });
 
-  test('Token refresh sets secure flag in production', async () => {
+  test('Renewed cookies set secure flag in production', async () => {
     const originalEnv = process.env.NODE_ENV;
     process.env.NODE_ENV = 'production';
+    mockExpiredToken();
+    mockFetch.mockResolvedValue(refreshResponse(refreshedSession));
 
-    const mockPayload = {
-      userId: 'user-123',
-      email: 'test@example.com',
-      exp: Math.floor(Date.now() / 1000) + 1800,
-    };
-    (jwt.verify as jest.Mock).mockReturnValue(mockPayload);
-    (jwt.sign as jest.Mock).mockReturnValue('new-token');
+    const request = createMockRequest('/account', {
+      access_token: 'expired-token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
 
-    const request = createMockRequest('/account', { access_token: 'token' });
+    expect(response.headers.get('set-cookie')).toContain('Secure');
+
+    process.env.NODE_ENV = originalEnv;
+  });
+
+  test('Rejected refresh clears both cookies and redirects', async () => {
+    mockExpiredToken();
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ error: 'Refresh token reuse detected' }), { status: 401 })
+    );
+
+    const request = createMockRequest('/account', {
+      access_token: 'expired-token',
+      refresh_token: 'reused-token',
+    });
     const response = await middleware(request);
 
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toContain('/signin');
     const setCookie = response.headers.get('set-cookie');
-    expect(setCookie).toContain('Secure');
+    expect(setCookie).toContain('access_token=;');
+    expect(setCookie).toContain('refresh_token=;');
+  });
 
-    process.env.NODE_ENV = originalEnv;
+  test('Refresh responses without a refresh token cookie redirect to signin', async () => {
+    mockExpiredToken();
+    mockFetch.mockResolvedValue(new Response(JSON.stringify(refreshedSession)));
+
+    const request = createMockRequest('/account', {
+      access_token: 'expired-token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toContain('/signin');
   });
 
-  test('Token refresh threshold at exactly 1 hour', async () => {
-    const mockPayload = {
+  test('Refresh network errors redirect to signin', async () => {
+    mockExpiredToken();
+    mockFetch.mockRejectedValue(new Error('fetch failed'));
+
+    const request = createMockRequest('/account', {
+      access_token: 'expired-token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+  });
+
+  test('Valid access tokens are not refreshed', async () => {
+    (jwt.verify as jest.Mock).mockReturnValue({
       userId: 'user-123',
       email: 'test@example.com',
-      exp: Math.floor(Date.now() / 1000) + 3599, // 3599 seconds = just under 1 hour
-    };
-    (jwt.verify as jest.Mock).mockReturnValue(mockPayload);
-    (jwt.sign as jest.Mock).mockReturnValue('new-token');
+      exp: Math.floor(Date.now() / 1000) + 600,
+    });
 
-    const request = createMockRequest('/account', { access_token: 'token' });
-    await middleware(request);
+    const request = createMockRequest('/account', {
+      access_token: 'valid-token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
 
-    expect(jwt.sign).toHaveBeenCalled();
+    expect(response.status).toBe(200);
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(jwt.sign).not.toHaveBeenCalled();
+    expect(response.headers.get('set-cookie')).toBeNull();
   });
 
-  test('No refresh for expired tokens (handled by error)', async () => {
+  test('Tampered access tokens are not refreshed', async () => {
     (jwt.verify as jest.Mock).mockImplementation(() => {
-      throw new jwt.TokenExpiredError('jwt expired', new Date());
+      throw new Error('invalid signature');
+    });
+
+    const request = createMockRequest('/account', {
+      access_token: 'tampered-token',
+      refresh_token: 'refresh-token',
     });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test('No refresh for expired tokens without a refresh token', async () => {
+    mockExpiredToken();
 
     const request = createMockRequest('/account', { access_token: 'expired' });
     const response = await middleware(request);
 
-    expect(jwt.sign).not.toHaveBeenCalled();
+    expect(mockFetch).not.toHaveBeenCalled();
     expect(response.status).toBe(307); // Redirect to signin
   });
 });
@@ -445,20 +559,30 @@ describe('Middleware - User Header Injection Tests', () => {
   });
 
   test('User headers set during token refresh', async () => {
-    const mockPayload = {
-      userId: 'user-456',
-      email: 'refresh@example.com',
-      exp: Math.floor(Date.now() / 1000) + 1800,
-    };
-    (jwt.verify as jest.Mock).mockReturnValue(mockPayload);
-    (jwt.sign as jest.Mock).mockReturnValue('new-token');
+    (jwt.verify as jest.Mock).mockImplementation(() => {
+      const error = new Error('jwt expired');
+      error.name = 'TokenExpiredError';
+      throw error;
+    });
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          access_token: 'new-token',
+          user: { id: 'user-456', email: 'refresh@example.com' },
+        }),
+        { headers: { 'set-cookie': 'refresh_token=new-refresh-token; Path=/; HttpOnly' } }
+      )
+    );
 
-    const request = createMockRequest('/account', { access_token: 'expiring-token' });
+    const request = createMockRequest('/account', {
+      access_token: 'expired-token',
+      refresh_token: 'refresh-token',
+    });
     const response = await middleware(request);
 
-    // Check response headers
-    expect(response.headers.get('x-user-id')).toBe('user-456');
-    expect(response.headers.get('x-user-email')).toBe('refresh@example.com');
+    // Check forwarded request headers
+    expect(response.headers.get('x-middleware-request-x-user-id')).toBe('user-456');
+    expect(response.headers.get('x-middleware-request-x-user-email')).toBe('refresh@example.com');
   });
 
   test('User headers not set for public routes', async () => {
@@ -469,6 +593,33 @@ describe('Middleware - User Header Injection Tests', () => {
     expect(response.headers.get('x-user-email')).toBeNull();
   });
 
+  test('Forged user headers stripped on public routes', async () => {
+    const request = new NextRequest(new URL('/', 'http://localhost:3000'), {
+      headers: { 'x-user-id': 'victim-id', 'x-user-email': 'victim@example.com' },
+    });
+    const response = await middleware(request);
+
+    const forwarded = response.headers.get('x-middleware-override-headers') ?? '';
+    expect(forwarded.split(',')).not.toContain('x-user-id');
+    expect(forwarded.split(',')).not.toContain('x-user-email');
+    expect(response.headers.get('x-middleware-request-x-user-id')).toBeNull();
+  });
+
+  test('Forged user headers replaced on protected routes', async () => {
+    (jwt.verify as jest.Mock).mockReturnValue({
+      userId: 'user-123',
+      email: 'test@example.com',
+      exp: Math.floor(Date.now() / 1000) + 7200,
+    });
+
+    const request = new NextRequest(new URL('/account', 'http://localhost:3000'), {
+      headers: { cookie: 'access_token=valid-token', 'x-user-id': 'victim-id' },
+    });
+    const response = await middleware(request);
+
+    expect(response.headers.get('x-middleware-request-x-user-id')).toBe('user-123');
+  });
+
   test('User headers not set on authentication failure', async () => {
     (jwt.verify as jest.Mock).mockImplementation(() => {
       throw new Error('invalid token');
@@ -488,12 +639,13 @@ describe('Middleware - User Header Injection Tests', () => {
       exp: Math.floor(Date.now() / 1000) + 1800,
     };
     (jwt.verify as jest.Mock).mockReturnValue(mockPayload);
-    (jwt.sign as jest.Mock).mockReturnValue('new-token');
 
     const request = createMockRequest('/account', { access_token: 'token' });
     const response = await middleware(request);
 
-    expect(response.headers.get('x-user-email')).toBe('test+special@example.com');
+    expect(response.headers.get('x-middleware-request-x-user-email')).toBe(
+      'test+special@example.com'
+    );
   });
 });
 
@@ -513,7 +665,7 @@ describe('Middleware - Cookie Management Tests', () => {
 
     await middleware(request);
 
-    expect(jwt.verify).toHaveBeenCalledWith('my-token-value', JWT_SECRET);
+    expect(jwt.verify).toHaveBeenCalledWith('my-token-value', JWT_SECRET, { algorithms: ['HS256'] });
   });
 
   test('Clear access_token on invalid token', async () => {
@@ -571,7 +723,7 @@ describe('Middleware - Cookie Management Tests', () => {
     const response = await middleware(request);
 
     expect(response.status).toBe(200);
-    expect(jwt.verify).toHaveBeenCalledWith('access-token', JWT_SECRET);
+    expect(jwt.verify).toHaveBeenCalledWith('access-token', JWT_SECRET, { algorithms: ['HS256'] });
   });
 
   test('Cookie security flags respected', async () => {
@@ -684,7 +836,7 @@ describe('Middleware - Edge Case Tests', () => {
     const response = await middleware(request);
 
     expect(response.status).toBe(307);
-    expect(jwt.verify).toHaveBeenCalledWith(longToken, JWT_SECRET);
+    expect(jwt.verify).toHaveBeenCalledWith(longToken, JWT_SECRET, { algorithms: ['HS256'] });
   });
 
   test('Special characters in redirect URL', async () => {
@@ -881,7 +1033,7 @@ describe('Middleware - Integration Tests', () => {
     const response = await middleware(request);
 
     expect(response.status).toBe(200);
-    expect(jwt.verify).toHaveBeenCalledWith('valid-token', JWT_SECRET);
+    expect(jwt.verify).toHaveBeenCalledWith('valid-token', JWT_SECRET, { algorithms: ['HS256'] });
   });
 
   test('Performance: middleware execution time < 50ms', async () => {
@@ -1008,3 +1160,261 @@ describe('Middleware - Additional Coverage Tests', () => {
     expect(jwt.verify).not.toHaveBeenCalled();
   });
 });
+
+describe('Middleware - Route Rule Matching Tests', () => {
+  test('Trailing wildcard matches the path and everything below it', () => {
+    expect(matchesPattern('/app/reports', '/app/reports/*')).toBe(true);
+    expect(matchesPattern('/app/reports/', '/app/reports/*')).toBe(true);
+    expect(matchesPattern('/app/reports/2024/q1', '/app/reports/*')).toBe(true);
+  });
+
+  test('Trailing wildcard does not match sibling paths', () => {
+    expect(matchesPattern('/app/reportsx', '/app/reports/*')).toBe(false);
+    expect(matchesPattern('/app', '/app/reports/*')).toBe(false);
+  });
+
+  test('Inner wildcard matches exactly one segment', () => {
+    expect(matchesPattern('/teams/acme/billing', '/teams/*/billing')).toBe(true);
+    expect(matchesPattern('/teams/acme/eu/billing', '/teams/*/billing')).toBe(false);
+  });
+
+  test('Patterns without wildcards match exactly', () => {
+    expect(matchesPattern('/app/export', '/app/export')).toBe(true);
+    expect(matchesPattern('/app/export/csv', '/app/export')).toBe(false);
+  });
+
+  test('First matching rule wins', () => {
+    const rules: RouteRule[] = [
+      { pattern: '/app/reports/public', minTier: 'hobby' },
+      { pattern: '/app/reports/*', minTier: 'pro' },
+    ];
+
+    expect(matchRouteRule('/app/reports/public', rules)?.minTier).toBe('hobby');
+    expect(matchRouteRule('/app/reports/revenue', rules)?.minTier).toBe('pro');
+    expect(matchRouteRule('/account', rules)).toBeUndefined();
+  });
+
+  test('Default rules gate reports behind Pro', () => {
+    expect(matchRouteRule('/app/reports/revenue', ROUTE_RULES)?.minTier).toBe('pro');
+  });
+
+  test('Tiers compare by plan order', () => {
+    expect(isTierAtLeast('enterprise', 'pro')).toBe(true);
+    expect(isTierAtLeast('pro', 'pro')).toBe(true);
+    expect(isTierAtLeast('freelancer', 'pro')).toBe(false);
+    expect(isTierAtLeast(null, 'hobby')).toBe(false);
+  });
+
+  test('Highest tier ignores unknown values', () => {
+    expect(highestTier(['hobby', 'enterprise', 'pro'])).toBe('enterprise');
+    expect(highestTier(['platinum', undefined])).toBeNull();
+  });
+
+  test('Rules can require a tier and a feature', () => {
+    const rule: RouteRule = { pattern: '/app/api-keys', minTier: 'pro', feature: 'api_access' };
+
+    expect(isRouteAllowed(rule, { tier: 'pro', features: ['api_access'] })).toBe(true);
+    expect(isRouteAllowed(rule, { tier: 'pro', features: [] })).toBe(false);
+    expect(isRouteAllowed(rule, { tier: 'hobby', features: ['api_access'] })).toBe(false);
+  });
+});
+
+describe('Middleware - Plan-Gated Route Tests', () => {
+  const mockFetch = global.fetch as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+    (jwt.verify as jest.Mock).mockReturnValue({
+      userId: 'user-123',
+      email: 'test@example.com',
+      exp: Math.floor(Date.now() / 1000) + 7200,
+    });
+  });
+
+  function mockEntitlements(body: object, status = 200) {
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify(body), { status })
+    );
+  }
+
+  test('Pro users can access gated routes', async () => {
+    mockEntitlements({ tier: 'pro', features: [], limits: {} });
+
+    const request = createMockRequest('/app/reports/revenue', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(200);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url.toString()).toBe('http://localhost:3000/api/entitlements');
+    expect(init.headers.cookie).toContain('access_token=token');
+  });
+
+  test('Higher tiers can access gated routes', async () => {
+    mockEntitlements({ tier: 'enterprise', features: [], limits: {} });
+
+    const request = createMockRequest('/app/reports', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(200);
+  });
+
+  test('Lower tiers are redirected to pricing with an error toast', async () => {
+    mockEntitlements({ tier: 'hobby', features: [], limits: {} });
+
+    const request = createMockRequest('/app/reports/revenue', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    const location = new URL(response.headers.get('location')!);
+    expect(location.pathname).toBe('/');
+    expect(location.searchParams.get('error')).toBe('Upgrade required');
+    expect(location.searchParams.get('error_description')).toBe(
+      'Reports are available on the Pro plan or higher.'
+    );
+  });
+
+  test('Users without a plan are redirected to pricing', async () => {
+    mockEntitlements({ tier: null, features: [], limits: {} });
+
+    const request = createMockRequest('/app/reports', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/');
+  });
+
+  test('Failed entitlement lookups deny access', async () => {
+    mockEntitlements({ error: 'Unauthorized' }, 401);
+
+    const request = createMockRequest('/app/reports', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/');
+  });
+
+  test('Network errors deny access', async () => {
+    mockFetch.mockRejectedValue(new Error('fetch failed'));
+
+    const request = createMockRequest('/app/reports', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+  });
+
+  test('Ungated routes skip the entitlement lookup', async () => {
+    const request = createMockRequest('/account', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test('Gated routes still require a session first', async () => {
+    const request = createMockRequest('/app/reports');
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toContain('/signin');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('Middleware - Revoked Session Tests', () => {
+  const mockFetch = global.fetch as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+  });
+
+  function mockSessionToken(sid?: string) {
+    (jwt.verify as jest.Mock).mockReturnValue({
+      userId: 'user-123',
+      email: 'test@example.com',
+      sid,
+      exp: Math.floor(Date.now() / 1000) + 600,
+    });
+  }
+
+  test('Active sessions are allowed', async () => {
+    mockSessionToken('session-123');
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ active: true })));
+
+    const request = createMockRequest('/account', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(200);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url.toString()).toBe('http://localhost:3000/api/auth/session');
+    expect(init.headers.cookie).toContain('access_token=token');
+  });
+
+  test('Revoked sessions are signed out', async () => {
+    mockSessionToken('session-123');
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ active: false }), { status: 401 })
+    );
+
+    const request = createMockRequest('/account', {
+      access_token: 'token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toContain('/signin');
+    expect(response.headers.get('set-cookie')).toContain('refresh_token=;');
+    // The revoked session is not refreshed
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('Failed session lookups deny access without signing out', async () => {
+    mockSessionToken('session-123');
+    mockFetch.mockRejectedValue(new Error('fetch failed'));
+
+    const request = createMockRequest('/account', {
+      access_token: 'token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('set-cookie')).toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('Session route errors deny access without signing out', async () => {
+    mockSessionToken('session-123');
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ error: 'Internal Server Error' }), { status: 500 })
+    );
+
+    const request = createMockRequest('/account', {
+      access_token: 'token',
+      refresh_token: 'refresh-token',
+    });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('set-cookie')).toBeNull();
+  });
+
+  test('Tokens without a session ID skip the lookup', async () => {
+    mockSessionToken(undefined);
+
+    const request = createMockRequest('/account', { access_token: 'token' });
+    const response = await middleware(request);
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test('Auth API routes are public', async () => {
+    const response = await middleware(createMockRequest('/api/auth/session'));
+
+    expect(response.status).toBe(200);
+    expect(jwt.verify).not.toHaveBeenCalled();
+  });
+});
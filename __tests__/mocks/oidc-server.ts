@@ -0,0 +1,176 @@
+/**
+ * Mock OpenID Connect Server
+ * In-process provider for OAuth tests: serves discovery, JWKS and the token
+ * endpoint through a fetch implementation, and checks PKCE, client
+ * credentials and redirect URIs like a real provider would.
+ */
+
+import jwt from 'jsonwebtoken';
+import { createHash, generateKeyPairSync, randomUUID } from 'crypto';
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  user: MockOidcUser;
+}
+
+export interface MockOidcServer {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /**
+   * Act as the user approving the request at the authorization endpoint
+   * @returns Callback URL the provider would redirect the browser to
+   */
+  authorize(authorizationUrl: string, user: MockOidcUser): string;
+  /** fetch implementation to install as global.fetch */
+  fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+  /** Sign an ID token with the server's key, for tampering tests */
+  signIdToken(claims: Record<string, unknown>, options?: jwt.SignOptions): string;
+  /** Claims merged into the next ID token issued, e.g. a wrong nonce */
+  overrideNextIdToken(claims: Record<string, unknown>): void;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Create a mock OIDC provider
+ */
+export function createMockOidcServer({
+  issuer = 'https://oidc.example.test',
+  clientId = 'test-client',
+  clientSecret = 'test-client-secret',
+} = {}): MockOidcServer {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = 'mock-oidc-key';
+  const codes = new Map<string, PendingCode>();
+  let nextIdTokenOverride: Record<string, unknown> = {};
+
+  const signIdToken = (claims: Record<string, unknown>, options: jwt.SignOptions = {}) =>
+    jwt.sign(claims, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer,
+      audience: clientId,
+      expiresIn: 300,
+      ...options,
+    });
+
+  const handleToken = (body: URLSearchParams) => {
+    if (body.get('client_id') !== clientId || body.get('client_secret') !== clientSecret) {
+      return json({ error: 'invalid_client' }, 401);
+    }
+
+    const code = body.get('code') ?? '';
+    const pending = codes.get(code);
+    // Codes are single-use
+    codes.delete(code);
+
+    if (!pending || body.get('grant_type') !== 'authorization_code') {
+      return json({ error: 'invalid_grant' }, 400);
+    }
+
+    if (body.get('redirect_uri') !== pending.redirectUri) {
+      return json({ error: 'invalid_grant', error_description: 'redirect_uri mismatch' }, 400);
+    }
+
+    const challenge = createHash('sha256')
+      .update(body.get('code_verifier') ?? '')
+      .digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return json({ error: 'invalid_grant', error_description: 'PKCE verification failed' }, 400);
+    }
+
+    const idToken = signIdToken({
+      ...pending.user,
+      nonce: pending.nonce,
+      ...nextIdTokenOverride,
+    });
+    nextIdTokenOverride = {};
+
+    return json({
+      access_token: randomUUID(),
+      token_type: 'Bearer',
+      expires_in: 3600,
+      id_token: idToken,
+    });
+  };
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+
+    authorize(authorizationUrl, user) {
+      const url = new URL(authorizationUrl);
+      const params = url.searchParams;
+
+      if (`${url.origin}${url.pathname}` !== `${issuer}/authorize`) {
+        throw new Error(`Unexpected authorization endpoint: ${url.origin}${url.pathname}`);
+      }
+      if (params.get('client_id') !== clientId || params.get('response_type') !== 'code') {
+        throw new Error('Invalid authorization request');
+      }
+      if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+        throw new Error('PKCE is required');
+      }
+
+      const code = randomUUID();
+      codes.set(code, {
+        redirectUri: params.get('redirect_uri')!,
+        codeChallenge: params.get('code_challenge')!,
+        nonce: params.get('nonce') ?? '',
+        user,
+      });
+
+      const callback = new URL(params.get('redirect_uri')!);
+      callback.searchParams.set('code', code);
+      callback.searchParams.set('state', params.get('state') ?? '');
+      return callback.toString();
+    },
+
+    async fetch(input, init) {
+      const url = String(input instanceof Request ? input.url : input);
+
+      switch (url) {
+        case `${issuer}/.well-known/openid-configuration`:
+          return json({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+            response_types_supported: ['code'],
+            code_challenge_methods_supported: ['S256'],
+            id_token_signing_alg_values_supported: ['RS256'],
+          });
+        case `${issuer}/jwks`:
+          return json({
+            keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }],
+          });
+        case `${issuer}/token`:
+          return handleToken(new URLSearchParams(String(init?.body ?? '')));
+        default:
+          return json({ error: 'not_found' }, 404);
+      }
+    },
+
+    signIdToken,
+
+    overrideNextIdToken(claims) {
+      nextIdTokenOverride = claims;
+    },
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Software WebAuthn Authenticator
+ * In-process stand-in for a platform authenticator: creates passkeys with
+ * real ES256 or RS256 keys and answers registration and sign-in ceremonies
+ * with the same base64url JSON the browser client posts to the server.
+ */
+
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'crypto';
+import type {
+  AuthenticationCredentialJSON,
+  RegistrationCredentialJSON,
+} from '@/lib/webauthn';
+
+type CborValue = number | string | Buffer | boolean | null | CborValue[] | Map<CborValue, CborValue>;
+
+interface StoredCredential {
+  id: Buffer;
+  privateKey: KeyObject;
+  rpId: string;
+  userHandle: string;
+  signCount: number;
+}
+
+export interface CeremonyOverrides {
+  /** Origin reported in the client data, e.g. a phishing site */
+  origin?: string;
+  /** Relying party ID hashed into the authenticator data */
+  rpId?: string;
+  /** Authenticator data flags; defaults to user present and verified */
+  flags?: number;
+  /** Sign counter to report instead of the next value */
+  signCount?: number;
+}
+
+export interface SoftwareAuthenticator {
+  /** Act as navigator.credentials.create() */
+  create(
+    options: Record<string, any>,
+    overrides?: CeremonyOverrides
+  ): RegistrationCredentialJSON;
+  /**
+   * Act as navigator.credentials.get(), using the newest passkey for the
+   * relying party unless one is named
+   */
+  get(
+    options: Record<string, any>,
+    overrides?: CeremonyOverrides & { credentialId?: string }
+  ): AuthenticationCredentialJSON;
+}
+
+const FLAGS_USER_PRESENT_AND_VERIFIED = 0x05;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+function encodeLength(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  if (length < 0x10000) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = (major << 5) | 25;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(5);
+  buffer[0] = (major << 5) | 26;
+  buffer.writeUInt32BE(length, 1);
+  return buffer;
+}
+
+/**
+ * Encode a value as CBOR (RFC 8949)
+ */
+export function encodeCbor(value: CborValue): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? encodeLength(0, value) : encodeLength(1, -1 - value);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeLength(2, value.length), value]);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeLength(3, bytes.length), bytes]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([encodeLength(4, value.length), ...value.map(encodeCbor)]);
+  }
+  if (value instanceof Map) {
+    const entries: Buffer[] = [];
+    value.forEach((entry, key) => entries.push(encodeCbor(key), encodeCbor(entry)));
+    return Buffer.concat([encodeLength(5, value.size), ...entries]);
+  }
+  if (value === false) return Buffer.from([0xf4]);
+  if (value === true) return Buffer.from([0xf5]);
+  return Buffer.from([0xf6]);
+}
+
+function coseKey(publicKey: KeyObject, algorithm: number): Map<CborValue, CborValue> {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const bytes = (value?: string) => Buffer.from(value ?? '', 'base64url');
+
+  return algorithm === -7
+    ? new Map<CborValue, CborValue>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, bytes(jwk.x)],
+        [-3, bytes(jwk.y)],
+      ])
+    : new Map<CborValue, CborValue>([
+        [1, 3],
+        [3, -257],
+        [-1, bytes(jwk.n)],
+        [-2, bytes(jwk.e)],
+      ]);
+}
+
+function clientData(type: string, challenge: string, origin: string): Buffer {
+  return Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+}
+
+function authenticatorData(rpId: string, flags: number, signCount: number): Buffer {
+  const counter = Buffer.alloc(4);
+  counter.writeUInt32BE(signCount);
+  return Buffer.concat([
+    createHash('sha256').update(rpId).digest(),
+    Buffer.from([flags]),
+    counter,
+  ]);
+}
+
+/**
+ * Create a software authenticator
+ * @param options.origin - Origin of the page calling the WebAuthn API
+ * @param options.algorithm - COSE algorithm for new passkeys: -7 (ES256) or -257 (RS256)
+ * @param options.counter - Whether sign counters advance; synced passkeys always report 0
+ */
+export function createSoftwareAuthenticator({
+  origin = 'http://localhost:3000',
+  algorithm = -7,
+  counter = true,
+}: { origin?: string; algorithm?: -7 | -257; counter?: boolean } = {}): SoftwareAuthenticator {
+  const credentials: StoredCredential[] = [];
+
+  return {
+    create(options, overrides = {}) {
+      const rpId = overrides.rpId ?? options.rp.id;
+      const { privateKey, publicKey } =
+        algorithm === -7
+          ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+          : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+      const credential: StoredCredential = {
+        id: randomBytes(16),
+        privateKey,
+        rpId,
+        userHandle: options.user.id,
+        signCount: 0,
+      };
+
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(credential.id.length);
+
+      const authData = Buffer.concat([
+        authenticatorData(
+          rpId,
+          (overrides.flags ?? FLAGS_USER_PRESENT_AND_VERIFIED) | FLAG_ATTESTED_CREDENTIAL_DATA,
+          overrides.signCount ?? credential.signCount
+        ),
+        Buffer.alloc(16), // AAGUID
+        idLength,
+        credential.id,
+        encodeCbor(coseKey(publicKey, algorithm)),
+      ]);
+
+      credentials.push(credential);
+
+      const rawId = credential.id.toString('base64url');
+      return {
+        id: rawId,
+        rawId,
+        type: 'public-key',
+        response: {
+          clientDataJSON: clientData(
+            'webauthn.create',
+            options.challenge,
+            overrides.origin ?? origin
+          ).toString('base64url'),
+          attestationObject: encodeCbor(
+            new Map<CborValue, CborValue>([
+              ['fmt', 'none'],
+              ['attStmt', new Map()],
+              ['authData', authData],
+            ])
+          ).toString('base64url'),
+          transports: ['internal'],
+        },
+      };
+    },
+
+    get(options, overrides = {}) {
+      const credential = overrides.credentialId
+        ? credentials.find((stored) => stored.id.toString('base64url') === overrides.credentialId)
+        : [...credentials].reverse().find((stored) => stored.rpId === options.rpId);
+
+      if (!credential) {
+        throw new Error('NotAllowedError: no passkey for this site');
+      }
+
+      if (counter) {
+        credential.signCount += 1;
+      }
+
+      const authData = authenticatorData(
+        overrides.rpId ?? credential.rpId,
+        overrides.flags ?? FLAGS_USER_PRESENT_AND_VERIFIED,
+        overrides.signCount ?? credential.signCount
+      );
+      const clientDataJSON = clientData('webauthn.get', options.challenge, overrides.origin ?? origin);
+
+      const signature = sign(
+        'sha256',
+        Buffer.concat([authData, createHash('sha256').update(clientDataJSON).digest()]),
+        credential.privateKey
+      );
+
+      const rawId = credential.id.toString('base64url');
+      return {
+        id: rawId,
+        rawId,
+        type: 'public-key',
+        response: {
+          clientDataJSON: clientDataJSON.toString('base64url'),
+          authenticatorData: authData.toString('base64url'),
+          signature: signature.toString('base64url'),
+          userHandle: credential.userHandle,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Webhook Replay Script Tests
+ *
+ * Verifies argument parsing and replay behaviour of the dead-letter
+ * replay command without a live database.
+ */
+
+import {
+  parseArgs,
+  inspectEvent,
+  replayEvents
+} from '../scripts/replay-webhook-events';
+import {
+  claimWebhookEvent,
+  processWebhookEvent,
+  listFailedWebhookEvents,
+  getWebhookEvent,
+  type WebhookEvent
+} from '@/lib/webhook-events';
+import { handleStripeEvent } from '@/lib/stripe-sync';
+
+jest.mock('@/lib/zerodb');
+jest.mock('@/lib/webhook-events');
+jest.mock('@/lib/stripe-sync');
+
+const mockClaim = claimWebhookEvent as jest.MockedFunction<typeof claimWebhookEvent>;
+const mockProcess = processWebhookEvent as jest.MockedFunction<typeof processWebhookEvent>;
+const mockList = listFailedWebhookEvents as jest.MockedFunction<typeof listFailedWebhookEvents>;
+const mockGet = getWebhookEvent as jest.MockedFunction<typeof getWebhookEvent>;
+const mockHandle = handleStripeEvent as jest.MockedFunction<typeof handleStripeEvent>;
+
+function failedEvent(id: string, type = 'customer.subscription.updated'): WebhookEvent {
+  return {
+    id,
+    type,
+    payload: { id, type, created: 1700000000, data: { object: {} } } as any,
+    status: 'failed',
+    attempts: 3,
+    error: 'Customer not found: cus_123',
+    processed_at: null,
+    created_at: '2024-01-15T10:00:00.000Z',
+    updated_at: '2024-01-15T10:05:00.000Z'
+  };
+}
+
+describe('Webhook Replay Script', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClaim.mockResolvedValue(true);
+    mockProcess.mockImplementation(async (_event, handler) => {
+      await handler(jest.fn() as any);
+      return true;
+    });
+  });
+
+  describe('parseArgs', () => {
+    test('defaults to the list command', () => {
+      expect(parseArgs([])).toEqual({ command: 'list', options: { dryRun: false } });
+    });
+
+    test('parses filters, event ID and dry-run flag', () => {
+      const { command, options } = parseArgs([
+        'replay',
+        'evt_123',
+        '--type=invoice.paid',
+        '--from=2024-01-01',
+        '--to=2024-01-31T23:59:59Z',
+        '--dry-run'
+      ]);
+
+      expect(command).toBe('replay');
+      expect(options.eventId).toBe('evt_123');
+      expect(options.type).toBe('invoice.paid');
+      expect(options.from?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      expect(options.to?.toISOString()).toBe('2024-01-31T23:59:59.000Z');
+      expect(options.dryRun).toBe(true);
+    });
+
+    test('rejects invalid dates', () => {
+      expect(() => parseArgs(['list', '--from=yesterday'])).toThrow(
+        'Invalid --from date: yesterday'
+      );
+    });
+
+    test('rejects unknown options', () => {
+      expect(() => parseArgs(['list', '--force'])).toThrow('Unknown option: --force');
+    });
+  });
+
+  describe('inspectEvent', () => {
+    test('returns the stored event', async () => {
+      const event = failedEvent('evt_123');
+      mockGet.mockResolvedValue(event);
+
+      await expect(inspectEvent('evt_123')).resolves.toBe(event);
+    });
+
+    test('throws for unknown events', async () => {
+      mockGet.mockResolvedValue(null);
+
+      await expect(inspectEvent('evt_missing')).rejects.toThrow(
+        'Event not found: evt_missing'
+      );
+    });
+  });
+
+  describe('replayEvents', () => {
+    test('replays filtered failed events through the webhook handlers', async () => {
+      const events = [failedEvent('evt_1'), failedEvent('evt_2')];
+      mockList.mockResolvedValue(events);
+
+      const options = { type: 'customer.subscription.updated', dryRun: false };
+      const summary = await replayEvents(options);
+
+      expect(mockList).toHaveBeenCalledWith(options);
+      expect(mockClaim).toHaveBeenCalledWith(events[0].payload);
+      expect(mockHandle).toHaveBeenCalledWith(events[0].payload, expect.any(Function));
+      expect(mockHandle).toHaveBeenCalledWith(events[1].payload, expect.any(Function));
+      expect(summary).toEqual({ replayed: ['evt_1', 'evt_2'], failed: [], skipped: [] });
+    });
+
+    test('does not write anything in dry-run mode', async () => {
+      mockList.mockResolvedValue([failedEvent('evt_1')]);
+
+      const summary = await replayEvents({ dryRun: true });
+
+      expect(mockClaim).not.toHaveBeenCalled();
+      expect(mockProcess).not.toHaveBeenCalled();
+      expect(summary.replayed).toEqual(['evt_1']);
+    });
+
+    test('replays a single event by ID', async () => {
+      mockGet.mockResolvedValue(failedEvent('evt_1'));
+
+      const summary = await replayEvents({ eventId: 'evt_1', dryRun: false });
+
+      expect(mockList).not.toHaveBeenCalled();
+      expect(summary.replayed).toEqual(['evt_1']);
+    });
+
+    test('skips events that are not in the dead-letter queue', async () => {
+      mockGet.mockResolvedValue({ ...failedEvent('evt_1'), status: 'processed' });
+
+      const summary = await replayEvents({ eventId: 'evt_1', dryRun: false });
+
+      expect(mockClaim).not.toHaveBeenCalled();
+      expect(summary.skipped).toEqual(['evt_1']);
+    });
+
+    test('skips events processed by a concurrent delivery', async () => {
+      mockList.mockResolvedValue([failedEvent('evt_1')]);
+      mockClaim.mockResolvedValue(false);
+
+      const summary = await replayEvents({ dryRun: false });
+
+      expect(mockProcess).not.toHaveBeenCalled();
+      expect(summary.skipped).toEqual(['evt_1']);
+    });
+
+    test('records events that fail again and continues', async () => {
+      mockList.mockResolvedValue([failedEvent('evt_1'), failedEvent('evt_2')]);
+      mockProcess
+        .mockRejectedValueOnce(new Error('Customer not found: cus_123'))
+        .mockResolvedValueOnce(true);
+
+      const summary = await replayEvents({ dryRun: false });
+
+      expect(summary).toEqual({ replayed: ['evt_2'], failed: ['evt_1'], skipped: [] });
+    });
+  });
+});
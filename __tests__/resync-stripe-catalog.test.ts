@@ -0,0 +1,249 @@
+/**
+ * Stripe Catalog Resync Script Tests
+ *
+ * Verifies pagination and the diff between Stripe and ZeroDB rows
+ * without a live database or Stripe account.
+ */
+
+import { parseArgs, listAll, resyncCatalog } from '../scripts/resync-stripe-catalog';
+import { query } from '@/lib/zerodb';
+import { stripe } from '@/utils/stripe/config';
+import {
+  upsertProductRecord,
+  upsertPriceRecord,
+  deleteProductRecord,
+  deletePriceRecord,
+  manageSubscriptionStatusChange
+} from '@/lib/stripe-sync';
+
+jest.mock('@/lib/zerodb');
+jest.mock('@/lib/stripe-sync', () => ({
+  ...jest.requireActual('@/lib/stripe-sync'),
+  upsertProductRecord: jest.fn(),
+  upsertPriceRecord: jest.fn(),
+  deleteProductRecord: jest.fn(),
+  deletePriceRecord: jest.fn(),
+  manageSubscriptionStatusChange: jest.fn()
+}));
+jest.mock('@/utils/stripe/config', () => ({
+  stripe: {
+    products: { list: jest.fn() },
+    prices: { list: jest.fn() },
+    subscriptions: { list: jest.fn() }
+  }
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockProductsList = stripe.products.list as jest.Mock;
+const mockPricesList = stripe.prices.list as jest.Mock;
+const mockSubscriptionsList = stripe.subscriptions.list as jest.Mock;
+
+const product = {
+  id: 'prod_123',
+  active: true,
+  name: 'Pro',
+  description: 'Pro plan',
+  images: [],
+  metadata: { tier: 'pro' }
+};
+
+const price = {
+  id: 'price_123',
+  product: 'prod_123',
+  active: true,
+  currency: 'usd',
+  nickname: null,
+  type: 'recurring',
+  unit_amount: 2000,
+  recurring: { interval: 'month', interval_count: 1, trial_period_days: null },
+  metadata: {}
+};
+
+const subscription = {
+  id: 'sub_123',
+  customer: 'cus_123',
+  status: 'active',
+  cancel_at_period_end: false,
+  current_period_end: 1706745600,
+  items: { data: [{ price: { id: 'price_123' }, quantity: 1 }] }
+};
+
+const productRow = {
+  id: 'prod_123',
+  active: true,
+  name: 'Pro',
+  description: 'Pro plan',
+  image: null,
+  metadata: { tier: 'pro' }
+};
+
+const priceRow = {
+  id: 'price_123',
+  product_id: 'prod_123',
+  active: true,
+  currency: 'usd',
+  description: null,
+  type: 'recurring',
+  unit_amount: '2000',
+  interval: 'month',
+  interval_count: 1,
+  trial_period_days: null,
+  metadata: {}
+};
+
+const subscriptionRow = {
+  id: 'sub_123',
+  status: 'active',
+  price_id: 'price_123',
+  quantity: 1,
+  cancel_at_period_end: false,
+  current_period_end: new Date(1706745600 * 1000)
+};
+
+function page(data: any[], hasMore = false) {
+  return { object: 'list', data, has_more: hasMore, url: '' };
+}
+
+function mockTables(products: any[], prices: any[], subscriptions: any[]) {
+  mockQuery
+    .mockResolvedValueOnce({ rows: products } as any)
+    .mockResolvedValueOnce({ rows: prices } as any)
+    .mockResolvedValueOnce({ rows: subscriptions } as any);
+}
+
+describe('Stripe Catalog Resync Script', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    mockProductsList.mockResolvedValue(page([product]));
+    mockPricesList.mockResolvedValue(page([price]));
+    mockSubscriptionsList.mockResolvedValue(page([subscription]));
+  });
+
+  describe('parseArgs', () => {
+    test('parses the dry-run flag', () => {
+      expect(parseArgs([])).toEqual({ dryRun: false });
+      expect(parseArgs(['--dry-run'])).toEqual({ dryRun: true });
+    });
+
+    test('rejects unknown options', () => {
+      expect(() => parseArgs(['--force'])).toThrow('Unknown option: --force');
+    });
+  });
+
+  describe('listAll', () => {
+    test('follows the cursor until the last page', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce(page([{ id: 'prod_1' }, { id: 'prod_2' }], true))
+        .mockResolvedValueOnce(page([{ id: 'prod_3' }]));
+
+      const items = await listAll(fetchPage);
+
+      expect(items.map((item) => item.id)).toEqual(['prod_1', 'prod_2', 'prod_3']);
+      expect(fetchPage).toHaveBeenNthCalledWith(1, undefined);
+      expect(fetchPage).toHaveBeenNthCalledWith(2, 'prod_2');
+    });
+  });
+
+  describe('resyncCatalog', () => {
+    test('lists canceled subscriptions too', async () => {
+      mockTables([productRow], [priceRow], [subscriptionRow]);
+
+      await resyncCatalog({ dryRun: false });
+
+      expect(mockSubscriptionsList).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'all' })
+      );
+    });
+
+    test('leaves matching rows untouched', async () => {
+      mockTables([productRow], [priceRow], [subscriptionRow]);
+
+      const report = await resyncCatalog({ dryRun: false });
+
+      expect(upsertProductRecord).not.toHaveBeenCalled();
+      expect(upsertPriceRecord).not.toHaveBeenCalled();
+      expect(manageSubscriptionStatusChange).not.toHaveBeenCalled();
+      expect(report.products.unchanged).toBe(1);
+      expect(report.prices.unchanged).toBe(1);
+      expect(report.subscriptions.unchanged).toBe(1);
+    });
+
+    test('creates missing rows on a fresh database', async () => {
+      mockTables([], [], []);
+
+      const report = await resyncCatalog({ dryRun: false });
+
+      expect(upsertProductRecord).toHaveBeenCalledWith(product);
+      expect(upsertPriceRecord).toHaveBeenCalledWith(price);
+      expect(manageSubscriptionStatusChange).toHaveBeenCalledWith('sub_123', 'cus_123');
+      expect(report.products.created).toEqual(['prod_123']);
+      expect(report.prices.created).toEqual(['price_123']);
+      expect(report.subscriptions.created).toEqual(['sub_123']);
+    });
+
+    test('updates stale rows', async () => {
+      mockTables(
+        [{ ...productRow, name: 'Old name' }],
+        [{ ...priceRow, unit_amount: '1000' }],
+        [{ ...subscriptionRow, status: 'trialing' }]
+      );
+
+      const report = await resyncCatalog({ dryRun: false });
+
+      expect(report.products.updated).toEqual(['prod_123']);
+      expect(report.prices.updated).toEqual(['price_123']);
+      expect(report.subscriptions.updated).toEqual(['sub_123']);
+    });
+
+    test('deactivates products and prices missing from Stripe', async () => {
+      mockTables(
+        [productRow, { ...productRow, id: 'prod_old' }, { ...productRow, id: 'prod_gone', active: false }],
+        [priceRow, { ...priceRow, id: 'price_old' }],
+        [subscriptionRow]
+      );
+
+      const report = await resyncCatalog({ dryRun: false });
+
+      expect(deleteProductRecord).toHaveBeenCalledTimes(1);
+      expect(deleteProductRecord).toHaveBeenCalledWith({ id: 'prod_old' });
+      expect(deletePriceRecord).toHaveBeenCalledWith({ id: 'price_old' });
+      expect(report.products.deactivated).toEqual(['prod_old']);
+      expect(report.prices.deactivated).toEqual(['price_old']);
+    });
+
+    test('reports local subscriptions unknown to Stripe', async () => {
+      mockTables([productRow], [priceRow], [subscriptionRow, { ...subscriptionRow, id: 'sub_other' }]);
+
+      const report = await resyncCatalog({ dryRun: false });
+
+      expect(report.subscriptions.orphaned).toEqual(['sub_other']);
+      expect(report.subscriptions.deactivated).toEqual([]);
+    });
+
+    test('records failures and continues', async () => {
+      mockTables([], [], []);
+      (manageSubscriptionStatusChange as jest.Mock).mockRejectedValueOnce(
+        new Error('Customer not found: cus_123')
+      );
+
+      const report = await resyncCatalog({ dryRun: false });
+
+      expect(report.subscriptions.failed).toEqual(['sub_123']);
+      expect(report.prices.created).toEqual(['price_123']);
+    });
+
+    test('does not write anything in dry-run mode', async () => {
+      mockTables([], [{ ...priceRow, id: 'price_old' }], []);
+
+      const report = await resyncCatalog({ dryRun: true });
+
+      expect(upsertProductRecord).not.toHaveBeenCalled();
+      expect(deletePriceRecord).not.toHaveBeenCalled();
+      expect(manageSubscriptionStatusChange).not.toHaveBeenCalled();
+      expect(report.products.created).toEqual(['prod_123']);
+      expect(report.prices.deactivated).toEqual(['price_old']);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Tests for the JWKS route
+ */
+
+import { GET } from '../route';
+import { getJwks } from '@/lib/jwt-keys';
+
+// Mock dependencies
+jest.mock('@/lib/jwt-keys');
+
+const mockGetJwks = getJwks as jest.MockedFunction<typeof getJwks>;
+
+describe('JWKS Route', () => {
+  it('should publish the public keys with a cache header', async () => {
+    const jwks = {
+      keys: [{ kid: 'rsa-1', alg: 'RS256' as const, use: 'sig' as const, kty: 'RSA', n: 'abc', e: 'AQAB' }],
+    };
+    mockGetJwks.mockReturnValue(jwks);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(jwks);
+    expect(response.headers.get('cache-control')).toBe('public, max-age=300');
+  });
+});
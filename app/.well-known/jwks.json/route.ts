@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getJwks } from '@/lib/jwt-keys';
+
+/**
+ * Publish the public keys that verify our access tokens
+ * Other services fetch this and pick the key matching a token's `kid`.
+ */
+export async function GET() {
+  return NextResponse.json(getJwks(), {
+    headers: { 'Cache-Control': 'public, max-age=300' }
+  });
+}
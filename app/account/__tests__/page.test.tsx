@@ -11,6 +11,17 @@ import { redirect } from 'next/navigation';
 // Mock dependencies
 jest.mock('@/lib/zerodb');
 jest.mock('@/lib/auth');
+jest.mock('@/lib/billing');
+jest.mock('@/lib/purchases');
+jest.mock('@/lib/sessions');
+jest.mock('@/lib/two-factor', () => ({
+  getTwoFactorStatus: jest
+    .fn()
+    .mockResolvedValue({ enabled: false, recoveryCodesRemaining: 0 }),
+}));
+jest.mock('@/lib/webauthn', () => ({
+  listPasskeys: jest.fn().mockResolvedValue([]),
+}));
 jest.mock('next/headers');
 jest.mock('next/navigation');
 jest.mock('@/components/ui/AccountForms/CustomerPortalForm', () => {
@@ -28,6 +39,26 @@ jest.mock('@/components/ui/AccountForms/EmailForm', () => {
     return <div data-testid="email-form">EmailForm</div>;
   };
 });
+jest.mock('@/components/ui/AccountForms/BillingHistory', () => {
+  return function MockBillingHistory() {
+    return <div data-testid="billing-history">BillingHistory</div>;
+  };
+});
+jest.mock('@/components/ui/AccountForms/ActiveSessions', () => {
+  return function MockActiveSessions() {
+    return <div data-testid="active-sessions">ActiveSessions</div>;
+  };
+});
+jest.mock('@/components/ui/AccountForms/TwoFactorForm', () => {
+  return function MockTwoFactorForm() {
+    return <div data-testid="two-factor-form">TwoFactorForm</div>;
+  };
+});
+jest.mock('@/components/ui/AccountForms/Passkeys', () => {
+  return function MockPasskeys() {
+    return <div data-testid="passkeys">Passkeys</div>;
+  };
+});
 
 const mockQuery = query as jest.MockedFunction<typeof query>;
 const mockGetUser = getUser as jest.MockedFunction<typeof getUser>;
@@ -1,12 +1,35 @@
 import CustomerPortalForm from '@/components/ui/AccountForms/CustomerPortalForm';
 import EmailForm from '@/components/ui/AccountForms/EmailForm';
 import NameForm from '@/components/ui/AccountForms/NameForm';
+import BillingHistory from '@/components/ui/AccountForms/BillingHistory';
+import ActiveSessions from '@/components/ui/AccountForms/ActiveSessions';
+import TwoFactorForm from '@/components/ui/AccountForms/TwoFactorForm';
+import Passkeys from '@/components/ui/AccountForms/Passkeys';
+import OrganizationSwitcher from '@/components/ui/AccountForms/OrganizationSwitcher';
+import TeamMembers from '@/components/ui/AccountForms/TeamMembers';
 import { redirect } from 'next/navigation';
 import { query } from '@/lib/zerodb';
-import { getUser } from '@/lib/auth';
+import { getUser, getSessionId } from '@/lib/auth';
+import { getBillingHistory } from '@/lib/billing';
+import { getActivePurchases } from '@/lib/purchases';
+import { listActiveSessions } from '@/lib/sessions';
+import { getTwoFactorStatus } from '@/lib/two-factor';
+import { listPasskeys } from '@/lib/webauthn';
+import {
+  getOrganization,
+  listInvitationsForEmail,
+  listMembers,
+  listOrganizationInvitations,
+  listOrganizations
+} from '@/lib/organizations';
+import { can } from '@/lib/authorization';
 import { cookies } from 'next/headers';
 
-export default async function Account() {
+interface Props {
+  searchParams?: { billing_page?: string };
+}
+
+export default async function Account({ searchParams }: Props = {}) {
   // Get user from JWT token
   const cookieStore = cookies();
   const token = cookieStore.get('access_token')?.value;
@@ -25,12 +48,19 @@ export default async function Account() {
 
   // Get user details from database
   const userDetailsResult = await query(
-    'SELECT id, email, full_name, avatar_url, billing_address, payment_method FROM users WHERE id = $1',
+    'SELECT id, email, full_name, avatar_url, billing_address, payment_method, email_verified_at, pending_email, password_hash IS NOT NULL AS has_password FROM users WHERE id = $1',
     [user.id]
   );
 
   const userDetails = userDetailsResult.rows[0] || null;
 
+  // The organization picked in the switcher, if the user still belongs to it
+  const organizations = await listOrganizations(user.id);
+  const currentOrganization = await getOrganization(
+    user.id,
+    cookieStore.get('current_organization')?.value
+  );
+
   // Get subscription with nested price and product data
   const subscriptionResult = await query(`
     SELECT
@@ -73,14 +103,39 @@ export default async function Account() {
     FROM subscriptions s
     LEFT JOIN prices pr ON pr.id = s.price_id
     LEFT JOIN products p ON p.id = pr.product_id
-    WHERE s.user_id = $1
-      AND s.status IN ('trialing', 'active')
+    WHERE (
+        ($2::uuid IS NULL AND s.user_id = $1 AND s.organization_id IS NULL)
+        OR s.organization_id = $2::uuid
+      )
+      AND s.status IN ('trialing', 'active', 'paused')
     ORDER BY s.created DESC
     LIMIT 1
-  `, [user.id]);
+  `, [user.id, currentOrganization?.id ?? null]);
 
   const subscription = subscriptionResult.rows[0] || null;
 
+  // Lifetime purchases count as an active plan alongside subscriptions
+  const purchases = await getActivePurchases(user.id);
+
+  const billingHistory = await getBillingHistory(
+    user.id,
+    Number(searchParams?.billing_page) || 1
+  );
+
+  const sessions = await listActiveSessions(user.id, getSessionId(token));
+
+  const twoFactor = await getTwoFactorStatus(user.id);
+
+  const passkeys = await listPasskeys(user.id);
+
+  const invitations = await listInvitationsForEmail(user.email);
+  const members = currentOrganization
+    ? await listMembers(currentOrganization.id)
+    : [];
+  const sentInvitations = currentOrganization
+    ? await listOrganizationInvitations(currentOrganization.id)
+    : [];
+
   return (
     <section className="mb-32 bg-black">
       <div className="max-w-6xl px-4 py-8 mx-auto sm:px-6 sm:pt-24 lg:px-8">
@@ -94,9 +149,48 @@ export default async function Account() {
         </div>
       </div>
       <div className="p-4">
-        <CustomerPortalForm subscription={subscription} />
+        <OrganizationSwitcher
+          organizations={organizations}
+          currentOrganization={currentOrganization}
+          invitations={invitations}
+        />
+        <CustomerPortalForm
+          subscription={subscription}
+          purchases={currentOrganization ? [] : purchases}
+          organizationName={currentOrganization?.name}
+          canManageBilling={
+            !currentOrganization ||
+            can(currentOrganization.role, 'manage_billing')
+          }
+        />
+        {currentOrganization && (
+          <TeamMembers
+            organization={currentOrganization}
+            members={members}
+            invitations={sentInvitations}
+            currentUserId={user.id}
+            canManageMembers={can(currentOrganization.role, 'manage_members')}
+            seats={subscription?.quantity ?? null}
+          />
+        )}
+        <BillingHistory history={billingHistory} />
         <NameForm userName={userDetails?.full_name ?? ''} />
-        <EmailForm userEmail={user.email} />
+        <EmailForm
+          userEmail={user.email}
+          emailVerified={Boolean(userDetails?.email_verified_at)}
+          pendingEmail={userDetails?.pending_email ?? null}
+        />
+        <TwoFactorForm
+          enabled={twoFactor.enabled}
+          recoveryCodesRemaining={twoFactor.recoveryCodesRemaining}
+          hasPassword={Boolean(userDetails?.has_password)}
+        />
+        <Passkeys
+          passkeys={passkeys}
+          hasPassword={Boolean(userDetails?.has_password)}
+          twoFactorEnabled={twoFactor.enabled}
+        />
+        <ActiveSessions sessions={sessions} />
       </div>
     </section>
   );
@@ -0,0 +1,74 @@
+/**
+ * Tests for the refresh token route
+ */
+
+import { POST } from '../route';
+import { refreshToken } from '@/lib/auth';
+import { cookies } from 'next/headers';
+
+// Mock dependencies
+jest.mock('@/lib/auth');
+
+const mockRefreshToken = refreshToken as jest.MockedFunction<typeof refreshToken>;
+const mockCookies = cookies as jest.MockedFunction<typeof cookies>;
+
+describe('Refresh Token Route', () => {
+  const mockRefreshCookie = (value?: string) =>
+    mockCookies.mockReturnValue({
+      get: jest.fn().mockReturnValue(value ? { value } : undefined),
+    } as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should respond 401 without a refresh token cookie', async () => {
+    mockRefreshCookie(undefined);
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+    expect(mockRefreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should rotate the refresh token and set both cookies', async () => {
+    mockRefreshCookie('old-refresh-token');
+    mockRefreshToken.mockResolvedValue({
+      access_token: 'new-access-token',
+      refresh_token: 'new-refresh-token',
+      token_type: 'Bearer',
+      expires_in: 900,
+      user: { id: 'user-123', email: 'test@example.com' },
+    });
+
+    const response = await POST();
+
+    expect(response.status).toBe(200);
+    expect(mockRefreshToken).toHaveBeenCalledWith('old-refresh-token');
+    const body = await response.json();
+    expect(body).toMatchObject({
+      access_token: 'new-access-token',
+      user: { id: 'user-123' },
+    });
+    expect(body).not.toHaveProperty('refresh_token');
+
+    const setCookie = response.headers.get('set-cookie');
+    expect(setCookie).toContain('access_token=new-access-token');
+    expect(setCookie).toContain('refresh_token=new-refresh-token');
+    expect(setCookie).toContain('HttpOnly');
+  });
+
+  it('should clear both cookies when the refresh token is rejected', async () => {
+    mockRefreshCookie('reused-token');
+    mockRefreshToken.mockRejectedValue(new Error('Refresh token reuse detected'));
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Refresh token reuse detected' });
+
+    const setCookie = response.headers.get('set-cookie');
+    expect(setCookie).toContain('access_token=;');
+    expect(setCookie).toContain('refresh_token=;');
+  });
+});
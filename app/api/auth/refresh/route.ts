@@ -0,0 +1,44 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { refreshToken } from '@/lib/auth';
+import {
+  REFRESH_TOKEN_COOKIE,
+  setAuthCookies,
+  clearAuthCookies
+} from '@/lib/auth-cookies';
+
+/**
+ * Rotate the refresh token cookie and issue a new access token
+ * Middleware calls this when the access token has expired, since it cannot
+ * query the database itself. The refresh token is only sent as a cookie,
+ * never in the body. Failed refreshes clear both auth cookies.
+ */
+export async function POST() {
+  const token = cookies().get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const auth = await refreshToken(token);
+
+    const response = NextResponse.json({
+      access_token: auth.access_token,
+      token_type: auth.token_type,
+      expires_in: auth.expires_in,
+      user: auth.user
+    });
+    setAuthCookies(response.cookies, auth);
+
+    return response;
+  } catch (error) {
+    const response = NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid token' },
+      { status: 401 }
+    );
+    clearAuthCookies(response.cookies);
+
+    return response;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for the session status route
+ */
+
+import { GET } from '../route';
+import { getSessionId } from '@/lib/auth';
+import { isSessionActive } from '@/lib/sessions';
+import { cookies } from 'next/headers';
+
+// Mock dependencies
+jest.mock('@/lib/auth');
+jest.mock('@/lib/sessions');
+
+const mockGetSessionId = getSessionId as jest.MockedFunction<typeof getSessionId>;
+const mockIsSessionActive = isSessionActive as jest.MockedFunction<typeof isSessionActive>;
+const mockCookies = cookies as jest.MockedFunction<typeof cookies>;
+
+describe('Session Status Route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCookies.mockReturnValue({
+      get: jest.fn().mockReturnValue({ value: 'access-token' }),
+    } as any);
+  });
+
+  it('should report active sessions', async () => {
+    mockGetSessionId.mockReturnValue('session-123');
+    mockIsSessionActive.mockResolvedValue(true);
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ active: true });
+    expect(mockGetSessionId).toHaveBeenCalledWith('access-token');
+    expect(mockIsSessionActive).toHaveBeenCalledWith('session-123');
+  });
+
+  it('should respond 401 for revoked sessions', async () => {
+    mockGetSessionId.mockReturnValue('session-123');
+    mockIsSessionActive.mockResolvedValue(false);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should respond 401 for tokens without a session', async () => {
+    mockGetSessionId.mockReturnValue(null);
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+    expect(mockIsSessionActive).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,21 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getSessionId } from '@/lib/auth';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/auth-cookies';
+import { isSessionActive } from '@/lib/sessions';
+
+/**
+ * Report whether the access token's session is still active
+ * Middleware calls this to reject sessions revoked before their access
+ * token expires, since it cannot query the database itself.
+ */
+export async function GET() {
+  const token = cookies().get(ACCESS_TOKEN_COOKIE)?.value ?? '';
+  const sessionId = getSessionId(token);
+
+  if (!sessionId || !(await isSessionActive(sessionId))) {
+    return NextResponse.json({ active: false }, { status: 401 });
+  }
+
+  return NextResponse.json({ active: true });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import {
+  generateAuthenticationOptions,
+  WEBAUTHN_CHALLENGE_COOKIE,
+  WEBAUTHN_CHALLENGE_EXPIRY,
+  WEBAUTHN_CHALLENGE_PATH
+} from '@/lib/webauthn';
+
+/**
+ * Start signing in with a passkey
+ * Returns the options for navigator.credentials.get() and keeps the
+ * challenge in a cookie for the verify request.
+ */
+export async function POST() {
+  const { options, challengeToken } = generateAuthenticationOptions();
+
+  const response = NextResponse.json(options);
+  response.cookies.set(WEBAUTHN_CHALLENGE_COOKIE, challengeToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: WEBAUTHN_CHALLENGE_PATH,
+    maxAge: WEBAUTHN_CHALLENGE_EXPIRY
+  });
+
+  return response;
+}
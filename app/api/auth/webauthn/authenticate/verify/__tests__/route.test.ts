@@ -0,0 +1,97 @@
+/**
+ * Tests for the passkey sign-in routes
+ */
+
+import { POST } from '../route';
+import { POST as getOptions } from '../../options/route';
+import { NextRequest } from 'next/server';
+import { signInWithPasskey } from '@/lib/auth';
+import { createSoftwareAuthenticator } from '@/__tests__/mocks/software-authenticator';
+
+// Mock dependencies
+jest.mock('@/lib/auth');
+
+const mockSignInWithPasskey = signInWithPasskey as jest.MockedFunction<
+  typeof signInWithPasskey
+>;
+
+const authenticator = createSoftwareAuthenticator();
+authenticator.create({
+  challenge: 'registration',
+  rp: { id: 'localhost' },
+  user: { id: Buffer.from('user-123').toString('base64url') },
+});
+
+function verifyRequest(body: unknown, challengeToken?: string) {
+  return new NextRequest('http://localhost:3000/api/auth/webauthn/authenticate/verify', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      cookie: challengeToken ? `webauthn_challenge=${challengeToken}` : '',
+      'user-agent': 'Mozilla/5.0 Safari/17.0',
+      'x-forwarded-for': '198.51.100.1, 203.0.113.7',
+    },
+  });
+}
+
+describe('Passkey Sign-in Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should issue options and keep the challenge in a cookie', async () => {
+    const response = await getOptions();
+    const options = await response.json();
+
+    expect(options).toMatchObject({
+      rpId: 'localhost',
+      userVerification: 'required',
+      allowCredentials: [],
+    });
+    expect(response.cookies.get('webauthn_challenge')?.value).toBeTruthy();
+    expect(response.headers.get('set-cookie')).toContain('HttpOnly');
+  });
+
+  it('should sign in and set the auth cookies', async () => {
+    const optionsResponse = await getOptions();
+    const challengeToken = optionsResponse.cookies.get('webauthn_challenge')!.value;
+    const credential = authenticator.get(await optionsResponse.json());
+    mockSignInWithPasskey.mockResolvedValueOnce({
+      access_token: 'access-token',
+      refresh_token: 'refresh-token',
+      token_type: 'Bearer',
+      expires_in: 900,
+      user: { id: 'user-123', email: 'test@example.com' },
+    });
+
+    const response = await POST(verifyRequest(credential, challengeToken));
+
+    expect(response.status).toBe(200);
+    expect(mockSignInWithPasskey).toHaveBeenCalledWith(credential, challengeToken, {
+      userAgent: 'Mozilla/5.0 Safari/17.0',
+      ipAddress: '203.0.113.7',
+    });
+    expect(await response.json()).toMatchObject({ user: { id: 'user-123' } });
+
+    const setCookie = response.headers.get('set-cookie');
+    expect(setCookie).toContain('access_token=access-token');
+    expect(setCookie).toContain('refresh_token=refresh-token');
+    expect(setCookie).toContain('webauthn_challenge=;');
+    expect(setCookie).toContain('Path=/api/auth/webauthn');
+  });
+
+  it('should respond 401 and discard the challenge when the passkey is rejected', async () => {
+    const optionsResponse = await getOptions();
+    const challengeToken = optionsResponse.cookies.get('webauthn_challenge')!.value;
+    mockSignInWithPasskey.mockRejectedValueOnce(new Error('Passkey signature is invalid'));
+
+    const response = await POST(
+      verifyRequest(authenticator.get(await optionsResponse.json()), challengeToken)
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Passkey signature is invalid' });
+    expect(response.headers.get('set-cookie')).toContain('webauthn_challenge=;');
+    expect(response.headers.get('set-cookie')).not.toContain('access_token');
+  });
+});
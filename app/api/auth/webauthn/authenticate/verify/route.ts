@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { signInWithPasskey } from '@/lib/auth';
+import { setAuthCookies } from '@/lib/auth-cookies';
+import { WEBAUTHN_CHALLENGE_COOKIE, WEBAUTHN_CHALLENGE_PATH } from '@/lib/webauthn';
+import { getClientIp } from '@/utils/helpers';
+
+/**
+ * Finish signing in with a passkey
+ * Expects the JSON form of the navigator.credentials.get() result, and
+ * responds with the AuthResponse and auth cookies like the refresh route.
+ */
+export async function POST(request: NextRequest) {
+  let response: NextResponse;
+  try {
+    const credential = await request.json();
+
+    const auth = await signInWithPasskey(
+      credential,
+      request.cookies.get(WEBAUTHN_CHALLENGE_COOKIE)?.value,
+      {
+        userAgent: request.headers.get('user-agent'),
+        ipAddress: request.ip ?? getClientIp(request.headers)
+      }
+    );
+
+    response = NextResponse.json(auth);
+    setAuthCookies(response.cookies, auth);
+  } catch (error) {
+    response = NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'You could not be signed in.'
+      },
+      { status: 401 }
+    );
+  }
+
+  // Each challenge is good for one attempt
+  response.cookies.delete({
+    name: WEBAUTHN_CHALLENGE_COOKIE,
+    path: WEBAUTHN_CHALLENGE_PATH
+  });
+
+  return response;
+}
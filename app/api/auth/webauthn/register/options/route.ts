@@ -0,0 +1,53 @@
+import { cookies } from 'next/headers';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser, reauthenticate } from '@/lib/auth';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/auth-cookies';
+import {
+  generateRegistrationOptions,
+  WEBAUTHN_CHALLENGE_COOKIE,
+  WEBAUTHN_CHALLENGE_EXPIRY,
+  WEBAUTHN_CHALLENGE_PATH
+} from '@/lib/webauthn';
+
+/**
+ * Start adding a passkey to the signed-in user's account
+ * Expects `{ password, code }` to re-authenticate: the current password for
+ * accounts with one and a code for accounts with two-factor authentication.
+ * Returns the options for navigator.credentials.create() and keeps the
+ * challenge in a cookie for the verify request, so a passkey can only be
+ * added within a few minutes of re-authenticating.
+ */
+export async function POST(request: NextRequest) {
+  let user;
+  try {
+    user = await getUser(cookies().get(ACCESS_TOKEN_COOKIE)?.value ?? '');
+  } catch (error) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { password, code } = await request.json().catch(() => ({}));
+    await reauthenticate(user.id, String(password ?? ''), String(code ?? '').trim());
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Please confirm it is you and try again.'
+      },
+      { status: 403 }
+    );
+  }
+
+  const { options, challengeToken } = await generateRegistrationOptions(user);
+
+  const response = NextResponse.json(options);
+  response.cookies.set(WEBAUTHN_CHALLENGE_COOKIE, challengeToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: WEBAUTHN_CHALLENGE_PATH,
+    maxAge: WEBAUTHN_CHALLENGE_EXPIRY
+  });
+
+  return response;
+}
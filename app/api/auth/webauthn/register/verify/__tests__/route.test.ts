@@ -0,0 +1,127 @@
+/**
+ * Tests for the passkey registration routes
+ */
+
+import { POST } from '../route';
+import { POST as getOptions } from '../../options/route';
+import { NextRequest } from 'next/server';
+import { getUser, reauthenticate } from '@/lib/auth';
+import { cookies } from 'next/headers';
+import { query } from '@/lib/zerodb';
+import { createSoftwareAuthenticator } from '@/__tests__/mocks/software-authenticator';
+
+// Mock dependencies
+jest.mock('@/lib/auth');
+jest.mock('@/lib/zerodb');
+
+const mockGetUser = getUser as jest.MockedFunction<typeof getUser>;
+const mockReauthenticate = reauthenticate as jest.MockedFunction<typeof reauthenticate>;
+const mockCookies = cookies as jest.MockedFunction<typeof cookies>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+function optionsRequest(body: unknown = { password: 'password123' }) {
+  return new NextRequest('http://localhost:3000/api/auth/webauthn/register/options', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+function verifyRequest(body: unknown, challengeToken: string) {
+  return new NextRequest('http://localhost:3000/api/auth/webauthn/register/verify', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { cookie: `webauthn_challenge=${challengeToken}` },
+  });
+}
+
+describe('Passkey Registration Routes', () => {
+  const user = { id: 'user-123', email: 'test@example.com', full_name: 'Test User' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    mockCookies.mockReturnValue({
+      get: jest.fn().mockReturnValue({ value: 'access-token' }),
+    } as any);
+  });
+
+  it('should respond 401 when signed out', async () => {
+    mockGetUser.mockRejectedValueOnce(new Error('Invalid token'));
+
+    const response = await getOptions(optionsRequest());
+
+    expect(response.status).toBe(401);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should respond 403 without re-authenticating', async () => {
+    mockGetUser.mockResolvedValue(user as any);
+    mockReauthenticate.mockRejectedValueOnce(new Error('Invalid authentication code'));
+
+    const response = await getOptions(optionsRequest({ password: 'password123', code: '000000' }));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Invalid authentication code' });
+    expect(mockReauthenticate).toHaveBeenCalledWith('user-123', 'password123', '000000');
+    expect(response.cookies.get('webauthn_challenge')).toBeUndefined();
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should re-authenticate with an empty password and code when none are sent', async () => {
+    mockGetUser.mockResolvedValue(user as any);
+    mockReauthenticate.mockRejectedValueOnce(new Error('Incorrect password'));
+
+    const response = await getOptions(
+      new NextRequest('http://localhost:3000/api/auth/webauthn/register/options', {
+        method: 'POST',
+      })
+    );
+
+    expect(response.status).toBe(403);
+    expect(mockReauthenticate).toHaveBeenCalledWith('user-123', '', '');
+  });
+
+  it('should register a passkey from a software authenticator', async () => {
+    mockGetUser.mockResolvedValue(user as any);
+    mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+    const optionsResponse = await getOptions(optionsRequest());
+    const challengeToken = optionsResponse.cookies.get('webauthn_challenge')!.value;
+    const credential = createSoftwareAuthenticator().create(await optionsResponse.json());
+
+    // Mark the challenge used, then store the passkey
+    mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ id: 'passkey-1', name: 'Phone', created_at: '2026-01-01', last_used_at: null }],
+    } as any);
+
+    const response = await POST(verifyRequest({ credential, name: 'Phone' }, challengeToken));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      passkey: { id: 'passkey-1', name: 'Phone', createdAt: '2026-01-01', lastUsedAt: null },
+    });
+    expect(mockQuery.mock.calls[2][1]![0]).toBe('user-123');
+    expect(mockQuery.mock.calls[2][1]![1]).toBe(credential.rawId);
+    expect(response.headers.get('set-cookie')).toContain('webauthn_challenge=;');
+    expect(response.headers.get('set-cookie')).toContain('Path=/api/auth/webauthn');
+  });
+
+  it('should respond 400 when the response does not verify', async () => {
+    mockGetUser.mockResolvedValue(user as any);
+    mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+    const optionsResponse = await getOptions(optionsRequest());
+    const challengeToken = optionsResponse.cookies.get('webauthn_challenge')!.value;
+    const credential = createSoftwareAuthenticator().create(await optionsResponse.json(), {
+      origin: 'https://evil.example',
+    });
+    mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+    const response = await POST(verifyRequest({ credential }, challengeToken));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Passkey origin does not match' });
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+});
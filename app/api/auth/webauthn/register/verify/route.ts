@@ -0,0 +1,53 @@
+import { cookies } from 'next/headers';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/auth';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/auth-cookies';
+import {
+  verifyRegistration,
+  WEBAUTHN_CHALLENGE_COOKIE,
+  WEBAUTHN_CHALLENGE_PATH
+} from '@/lib/webauthn';
+
+/**
+ * Finish adding a passkey
+ * Expects `{ credential, name }`, where credential is the JSON form of the
+ * navigator.credentials.create() result.
+ */
+export async function POST(request: NextRequest) {
+  let user;
+  try {
+    user = await getUser(cookies().get(ACCESS_TOKEN_COOKIE)?.value ?? '');
+  } catch (error) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let response: NextResponse;
+  try {
+    const { credential, name } = await request.json();
+
+    const passkey = await verifyRegistration(
+      user.id,
+      credential,
+      request.cookies.get(WEBAUTHN_CHALLENGE_COOKIE)?.value,
+      name
+    );
+
+    response = NextResponse.json({ passkey });
+  } catch (error) {
+    response = NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'The passkey could not be added.'
+      },
+      { status: 400 }
+    );
+  }
+
+  // Each challenge is good for one attempt
+  response.cookies.delete({
+    name: WEBAUTHN_CHALLENGE_COOKIE,
+    path: WEBAUTHN_CHALLENGE_PATH
+  });
+
+  return response;
+}
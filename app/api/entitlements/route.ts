@@ -0,0 +1,21 @@
+import { getCurrentEntitlements } from '@/lib/entitlements';
+
+/**
+ * Return the signed-in user's plan tier, features and limits
+ * Middleware calls this to enforce plan-gated routes, since it cannot query
+ * the database itself. Unlimited limits serialize as null.
+ */
+export async function GET() {
+  const entitlements = await getCurrentEntitlements();
+
+  if (!entitlements) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return new Response(JSON.stringify(entitlements), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -1,9 +1,11 @@
 import { POST } from '../route';
 import { query } from '@/lib/zerodb';
+import { claimWebhookEvent, processWebhookEvent } from '@/lib/webhook-events';
 import Stripe from 'stripe';
 
 // Mock dependencies
 jest.mock('@/lib/zerodb');
+jest.mock('@/lib/webhook-events');
 jest.mock('@/utils/stripe/config', () => ({
   stripe: {
     webhooks: {
@@ -17,17 +19,37 @@ jest.mock('@/utils/stripe/config', () => ({
     },
     subscriptions: {
       retrieve: jest.fn()
+    },
+    invoices: {
+      retrieve: jest.fn()
+    },
+    charges: {
+      retrieve: jest.fn()
+    },
+    checkout: {
+      sessions: {
+        listLineItems: jest.fn()
+      }
     }
   }
 }));
 
 const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockClaimWebhookEvent = claimWebhookEvent as jest.MockedFunction<typeof claimWebhookEvent>;
+const mockProcessWebhookEvent = processWebhookEvent as jest.MockedFunction<typeof processWebhookEvent>;
 const stripe = require('@/utils/stripe/config').stripe;
 
 describe('Stripe Webhook Route', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_secret';
+
+    // Claim every event and run handlers against the mocked query function
+    mockClaimWebhookEvent.mockResolvedValue(true);
+    mockProcessWebhookEvent.mockImplementation(async (_event, handler) => {
+      await handler(mockQuery);
+      return true;
+    });
   });
 
   afterEach(() => {
@@ -690,7 +712,7 @@ describe('Stripe Webhook Route', () => {
       expect(queryCall[1][10]).toBe(JSON.stringify({ plan: 'pro', features: 'unlimited' }));
     });
 
-    it('should handle price error with retry logic', async () => {
+    it('should fail price events at once when the product is missing', async () => {
       const price: Stripe.Price = {
         id: 'price_123',
         object: 'price',
@@ -711,10 +733,14 @@ describe('Stripe Webhook Route', () => {
       const mockEvent = { type: 'price.created', data: { object: price } };
       stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
 
-      // First call fails with foreign key error, second succeeds
-      mockQuery
-        .mockRejectedValueOnce({ message: 'foreign key constraint failed', code: '23503' })
-        .mockResolvedValueOnce({ rows: [price], rowCount: 1, command: '', oid: 0, fields: [] });
+      // The transaction is aborted by the foreign key error, so nothing is retried
+      const transactionQuery = jest
+        .fn()
+        .mockRejectedValueOnce({ message: 'foreign key constraint failed', code: '23503' });
+      mockProcessWebhookEvent.mockImplementation(async (_event, handler) => {
+        await handler(transactionQuery);
+        return true;
+      });
 
       const request = new Request('http://localhost:3000/api/webhooks/stripe', {
         method: 'POST',
@@ -723,8 +749,8 @@ describe('Stripe Webhook Route', () => {
       });
 
       const response = await POST(request);
-      expect(response.status).toBe(200);
-      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(response.status).toBe(400);
+      expect(transactionQuery).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -1009,6 +1035,33 @@ describe('Stripe Webhook Route', () => {
       );
     });
 
+    it('should store subscriptions with paused collection as paused', async () => {
+      const subscription = { ...baseSubscription, pause_collection: { behavior: 'void' } };
+
+      const mockEvent = { type: 'customer.subscription.updated', data: { object: subscription } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ user_id: 'user_123' }], rowCount: 1, command: '', oid: 0, fields: [] })
+        .mockResolvedValueOnce({ rows: [subscription], rowCount: 1, command: '', oid: 0, fields: [] });
+
+      stripe.subscriptions.retrieve.mockResolvedValue(subscription);
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+
+      const upsert = mockQuery.mock.calls.find(([sql]) =>
+        String(sql).includes('INSERT INTO subscriptions')
+      );
+      expect(upsert?.[1]?.[2]).toBe('paused');
+    });
+
     it('should handle trial periods correctly', async () => {
       const subscription = {
         ...baseSubscription,
@@ -1172,7 +1225,7 @@ describe('Stripe Webhook Route', () => {
   });
 
   // ============================================================================
-  // 6. Checkout Session Tests (8 tests)
+  // 6. Checkout Session Tests (10 tests)
   // ============================================================================
   describe('Checkout Session Tests', () => {
     it('should handle checkout.session.completed for one-time payment', async () => {
@@ -1182,11 +1235,132 @@ describe('Stripe Webhook Route', () => {
         mode: 'payment',
         customer: 'cus_123',
         payment_status: 'paid',
+        payment_intent: 'pi_123',
+        created: 1700000000,
+        status: 'complete'
+      };
+
+      const mockEvent = { type: 'checkout.session.completed', data: { object: checkoutSession } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+      stripe.checkout.sessions.listLineItems.mockResolvedValue({
+        data: [
+          {
+            id: 'li_123',
+            price: { id: 'price_lifetime' },
+            quantity: 1,
+            currency: 'usd',
+            amount_total: 29900
+          }
+        ]
+      });
+      mockQuery.mockReset();
+      mockQuery.mockResolvedValue({ rows: [{ user_id: 'user_123' }], rowCount: 1, command: '', oid: 0, fields: [] });
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+
+      expect(stripe.checkout.sessions.listLineItems).toHaveBeenCalledWith('cs_test_123', { limit: 100 });
+      const purchaseCall = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO purchases'))!;
+      expect(purchaseCall[0]).toContain('ON CONFLICT (id) DO NOTHING');
+      expect(purchaseCall[1]).toEqual([
+        'li_123',
+        'user_123',
+        'price_lifetime',
+        'cus_123',
+        'cs_test_123',
+        'pi_123',
+        1,
+        'usd',
+        29900,
+        new Date(1700000000 * 1000).toISOString()
+      ]);
+    });
+
+    it('should record a personal purchase whose customer is only on the user row', async () => {
+      const checkoutSession: Partial<Stripe.Checkout.Session> = {
+        id: 'cs_test_personal',
+        object: 'checkout.session',
+        mode: 'payment',
+        customer: 'cus_personal',
+        payment_status: 'paid',
+        payment_intent: 'pi_personal',
+        created: 1700000000,
+        status: 'complete'
+      };
+
+      const mockEvent = { type: 'checkout.session.completed', data: { object: checkoutSession } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+      stripe.checkout.sessions.listLineItems.mockResolvedValue({
+        data: [
+          {
+            id: 'li_personal',
+            price: { id: 'price_lifetime' },
+            quantity: 1,
+            currency: 'usd',
+            amount_total: 29900
+          }
+        ]
+      });
+
+      // Checkout saved the customer on users.stripe_customer_id and wrote no
+      // customers row, so only the users branch of the lookup finds it
+      mockQuery.mockReset();
+      mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+        const found =
+          sql.includes('FROM users WHERE stripe_customer_id') && params?.[0] === 'cus_personal';
+        return {
+          rows: found ? [{ user_id: 'user_personal' }] : [],
+          rowCount: found ? 1 : 0,
+          command: '',
+          oid: 0,
+          fields: []
+        } as any;
+      });
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+
+      const purchaseCall = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO purchases'))!;
+      expect(purchaseCall).toBeDefined();
+      expect(purchaseCall[1]).toEqual([
+        'li_personal',
+        'user_personal',
+        'price_lifetime',
+        'cus_personal',
+        'cs_test_personal',
+        'pi_personal',
+        1,
+        'usd',
+        29900,
+        new Date(1700000000 * 1000).toISOString()
+      ]);
+    });
+
+    it('should not record a purchase before an async payment succeeds', async () => {
+      const checkoutSession: Partial<Stripe.Checkout.Session> = {
+        id: 'cs_test_123',
+        object: 'checkout.session',
+        mode: 'payment',
+        customer: 'cus_123',
+        payment_status: 'unpaid',
         status: 'complete'
       };
 
       const mockEvent = { type: 'checkout.session.completed', data: { object: checkoutSession } };
       stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+      mockQuery.mockReset();
 
       const request = new Request('http://localhost:3000/api/webhooks/stripe', {
         method: 'POST',
@@ -1196,6 +1370,39 @@ describe('Stripe Webhook Route', () => {
 
       const response = await POST(request);
       expect(response.status).toBe(200);
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(stripe.checkout.sessions.listLineItems).not.toHaveBeenCalled();
+    });
+
+    it('should record the purchase on checkout.session.async_payment_succeeded', async () => {
+      const checkoutSession: Partial<Stripe.Checkout.Session> = {
+        id: 'cs_test_123',
+        object: 'checkout.session',
+        mode: 'payment',
+        customer: 'cus_123',
+        payment_status: 'paid',
+        payment_intent: 'pi_123',
+        created: 1700000000,
+        status: 'complete'
+      };
+
+      const mockEvent = { type: 'checkout.session.async_payment_succeeded', data: { object: checkoutSession } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+      stripe.checkout.sessions.listLineItems.mockResolvedValue({
+        data: [{ id: 'li_123', price: { id: 'price_lifetime' }, quantity: 1, currency: 'usd', amount_total: 29900 }]
+      });
+      mockQuery.mockReset();
+      mockQuery.mockResolvedValue({ rows: [{ user_id: 'user_123' }], rowCount: 1, command: '', oid: 0, fields: [] });
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO purchases'))).toBe(true);
     });
 
     it('should handle checkout.session.completed for subscription', async () => {
@@ -1318,7 +1525,10 @@ describe('Stripe Webhook Route', () => {
         livemode: false
       };
 
-      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0, command: '', oid: 0, fields: [] });
+      // Neither a personal nor an organization customer
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 0, command: '', oid: 0, fields: [] })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0, command: '', oid: 0, fields: [] });
       stripe.subscriptions.retrieve.mockResolvedValue(subscription);
 
       const mockEvent = { type: 'checkout.session.completed', data: { object: checkoutSession } };
@@ -1872,4 +2082,480 @@ describe('Stripe Webhook Route', () => {
       expect(response2.status).toBe(200);
     });
   });
+
+  // ============================================================================
+  // 8. Idempotency Tests (4 tests)
+  // ============================================================================
+  describe('Idempotency Tests', () => {
+    const product = {
+      id: 'prod_123',
+      object: 'product',
+      active: true,
+      name: 'Test Product',
+      metadata: {},
+      created: 1234567890,
+      livemode: false,
+      updated: 1234567890
+    } as Stripe.Product;
+
+    it('should claim the event before processing it', async () => {
+      const mockEvent = { id: 'evt_123', type: 'product.created', data: { object: product } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+      mockQuery.mockResolvedValue({ rows: [product], rowCount: 1, command: '', oid: 0, fields: [] });
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+
+      expect(mockClaimWebhookEvent).toHaveBeenCalledWith(mockEvent);
+      expect(mockProcessWebhookEvent).toHaveBeenCalledWith(mockEvent, expect.any(Function));
+    });
+
+    it('should skip events that were already processed', async () => {
+      const mockEvent = { id: 'evt_123', type: 'product.created', data: { object: product } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+      mockClaimWebhookEvent.mockResolvedValue(false);
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true, duplicate: true });
+
+      expect(mockProcessWebhookEvent).not.toHaveBeenCalled();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should not claim unsupported events', async () => {
+      const mockEvent = { id: 'evt_123', type: 'unsupported.event', data: { object: {} } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(400);
+      expect(mockClaimWebhookEvent).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when processing the claimed event fails', async () => {
+      const mockEvent = { id: 'evt_123', type: 'product.created', data: { object: product } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+      mockProcessWebhookEvent.mockRejectedValue(new Error('Database error'));
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(mockEvent)
+      });
+
+      const response = await POST(request);
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // ============================================================================
+  // 9. Out-of-Order Event Tests (9 tests)
+  // ============================================================================
+  describe('Out-of-Order Event Tests', () => {
+    // Stand-in for the subscriptions table that applies the upsert's event ordering guard
+    let subscriptionRows: Map<string, { status: string; last_event_created: string | null }>;
+
+    const snapshot = (status: Stripe.Subscription.Status) => ({
+      id: 'sub_123',
+      object: 'subscription',
+      customer: 'cus_123',
+      status,
+      items: {
+        object: 'list',
+        data: [{ id: 'si_123', price: { id: 'price_123' }, quantity: 1 }]
+      },
+      current_period_start: 1700000000,
+      current_period_end: 1702592000,
+      cancel_at_period_end: false,
+      cancel_at: null,
+      canceled_at: status === 'canceled' ? 1700300000 : null,
+      ended_at: status === 'canceled' ? 1700300000 : null,
+      trial_start: null,
+      trial_end: null,
+      metadata: {},
+      created: 1700000000,
+      default_payment_method: null
+    });
+
+    const events = [
+      { id: 'evt_1', type: 'customer.subscription.created', created: 1700000100, data: { object: snapshot('incomplete') } },
+      { id: 'evt_2', type: 'customer.subscription.updated', created: 1700000200, data: { object: snapshot('active') } },
+      { id: 'evt_3', type: 'customer.subscription.deleted', created: 1700000300, data: { object: snapshot('canceled') } }
+    ];
+
+    const permutations = <T>(items: T[]): T[][] =>
+      items.length <= 1
+        ? [items]
+        : items.flatMap((item, index) =>
+            permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(
+              (rest) => [item, ...rest]
+            )
+          );
+
+    const deliver = async (event: (typeof events)[number]) => {
+      stripe.webhooks.constructEvent.mockReturnValueOnce(event);
+      // Each handler sees the subscription as it was when its event fired
+      stripe.subscriptions.retrieve.mockResolvedValueOnce(event.data.object);
+
+      const request = new Request('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: { 'stripe-signature': 'test_signature' },
+        body: JSON.stringify(event)
+      });
+
+      return POST(request);
+    };
+
+    beforeEach(() => {
+      subscriptionRows = new Map();
+      mockQuery.mockReset();
+      stripe.webhooks.constructEvent.mockReset();
+      stripe.subscriptions.retrieve.mockReset();
+
+      mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+        if (sql.includes('SELECT user_id FROM customers')) {
+          return { rows: [{ user_id: 'user_123' }], rowCount: 1, command: '', oid: 0, fields: [] };
+        }
+
+        if (sql.includes('INSERT INTO subscriptions')) {
+          const id = params![0];
+          const status = params![2];
+          const eventCreated = params![15];
+          const allowTie = params![17];
+          const existing = subscriptionRows.get(id);
+
+          if (
+            existing?.last_event_created &&
+            eventCreated &&
+            (eventCreated < existing.last_event_created ||
+              (eventCreated === existing.last_event_created && !allowTie))
+          ) {
+            return { rows: [], rowCount: 0, command: '', oid: 0, fields: [] };
+          }
+
+          subscriptionRows.set(id, {
+            status,
+            last_event_created: eventCreated ?? existing?.last_event_created ?? null
+          });
+          return { rows: [{ id }], rowCount: 1, command: '', oid: 0, fields: [] };
+        }
+
+        if (sql.includes('SELECT 1 FROM subscriptions')) {
+          const tied = subscriptionRows.get(params![0])?.last_event_created === params![1];
+          return { rows: tied ? [{}] : [], rowCount: tied ? 1 : 0, command: '', oid: 0, fields: [] };
+        }
+
+        return { rows: [], rowCount: 0, command: '', oid: 0, fields: [] };
+      });
+    });
+
+    it('should guard the subscription upsert with the event timestamp', async () => {
+      await deliver(events[1]);
+
+      const upsertCall = mockQuery.mock.calls.find(([sql]) =>
+        sql.includes('INSERT INTO subscriptions')
+      )!;
+      expect(upsertCall[0]).toContain(
+        'EXCLUDED.last_event_created > subscriptions.last_event_created'
+      );
+      expect(upsertCall[1]![15]).toBe(new Date(1700000200 * 1000).toISOString());
+      expect(upsertCall[1]![17]).toBe(false);
+    });
+
+    it('should read the subscription again for an event from the same second', async () => {
+      await deliver(events[1]);
+
+      // Fired in the same second as evt_2, but its handler read an older state
+      const tied = { ...events[0], id: 'evt_4', created: events[1].created };
+      const pending = deliver(tied);
+      // What Stripe returns when the subscription is read again
+      stripe.subscriptions.retrieve.mockResolvedValueOnce(snapshot('past_due'));
+      const response = await pending;
+
+      expect(response.status).toBe(200);
+      expect(stripe.subscriptions.retrieve).toHaveBeenCalledTimes(3);
+      expect(subscriptionRows.get('sub_123')).toEqual({
+        status: 'past_due',
+        last_event_created: new Date(1700000200 * 1000).toISOString()
+      });
+    });
+
+    it('should not read the subscription again for an older event', async () => {
+      await deliver(events[2]);
+      await deliver(events[1]);
+
+      expect(stripe.subscriptions.retrieve).toHaveBeenCalledTimes(2);
+      expect(subscriptionRows.get('sub_123')?.status).toBe('canceled');
+    });
+
+    it.each(permutations(events).map((order) => [order.map((e) => e.id).join(' → '), order]))(
+      'should end canceled when events arrive as %s',
+      async (_label, order) => {
+        for (const event of order as typeof events) {
+          const response = await deliver(event);
+          expect(response.status).toBe(200);
+        }
+
+        expect(subscriptionRows.get('sub_123')).toEqual({
+          status: 'canceled',
+          last_event_created: new Date(1700000300 * 1000).toISOString()
+        });
+      }
+    );
+  });
+
+  // ============================================================================
+  // 10. Invoice and Payment Tests (11 tests)
+  // ============================================================================
+  describe('Invoice and Payment Tests', () => {
+    const invoice = {
+      id: 'in_123',
+      object: 'invoice',
+      customer: 'cus_123',
+      subscription: 'sub_123',
+      status: 'paid',
+      number: 'INV-0001',
+      billing_reason: 'subscription_cycle',
+      currency: 'usd',
+      amount_due: 2000,
+      amount_paid: 2000,
+      amount_remaining: 0,
+      attempt_count: 1,
+      hosted_invoice_url: 'https://invoice.stripe.com/i/in_123',
+      invoice_pdf: 'https://invoice.stripe.com/i/in_123/pdf',
+      metadata: {},
+      created: 1700000000,
+      period_start: 1697408000,
+      period_end: 1700000000,
+      due_date: null,
+      next_payment_attempt: null,
+      status_transitions: { paid_at: 1700000100 },
+      charge: 'ch_123'
+    };
+
+    const charge = {
+      id: 'ch_123',
+      object: 'charge',
+      customer: 'cus_123',
+      invoice: 'in_123',
+      payment_intent: 'pi_123',
+      status: 'succeeded',
+      currency: 'usd',
+      amount: 2000,
+      amount_refunded: 0,
+      refunded: false,
+      failure_code: null,
+      failure_message: null,
+      receipt_url: 'https://pay.stripe.com/receipts/ch_123',
+      metadata: {},
+      created: 1700000100
+    };
+
+    const deliver = (type: string, object: any) => {
+      const mockEvent = { id: 'evt_123', type, created: 1700000200, data: { object } };
+      stripe.webhooks.constructEvent.mockReturnValue(mockEvent);
+
+      return POST(
+        new Request('http://localhost:3000/api/webhooks/stripe', {
+          method: 'POST',
+          headers: { 'stripe-signature': 'test_signature' },
+          body: JSON.stringify(mockEvent)
+        })
+      );
+    };
+
+    const findCall = (table: string) =>
+      mockQuery.mock.calls.find(([sql]) => sql.includes(`INSERT INTO ${table}`));
+
+    beforeEach(() => {
+      mockQuery.mockReset();
+      stripe.charges.retrieve.mockReset();
+      stripe.invoices.retrieve.mockReset();
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT user_id FROM customers')) {
+          return { rows: [{ user_id: 'user_123' }], rowCount: 1, command: '', oid: 0, fields: [] };
+        }
+        return { rows: [{ id: 'in_123' }], rowCount: 1, command: '', oid: 0, fields: [] };
+      });
+    });
+
+    it('should record a paid invoice and its charge on invoice.paid', async () => {
+      stripe.charges.retrieve.mockResolvedValue(charge);
+
+      const response = await deliver('invoice.paid', invoice);
+      expect(response.status).toBe(200);
+
+      const [, invoiceParams] = findCall('invoices')!;
+      expect(invoiceParams!.slice(0, 5)).toEqual(['in_123', 'user_123', 'cus_123', 'sub_123', 'paid']);
+      expect(invoiceParams![19]).toBe(new Date(1700000100 * 1000).toISOString());
+
+      expect(stripe.charges.retrieve).toHaveBeenCalledWith('ch_123');
+      const [, paymentParams] = findCall('payments')!;
+      expect(paymentParams!.slice(0, 6)).toEqual([
+        'ch_123',
+        'user_123',
+        'cus_123',
+        'in_123',
+        'pi_123',
+        'succeeded'
+      ]);
+    });
+
+    it('should record the failed charge on invoice.payment_failed', async () => {
+      stripe.charges.retrieve.mockResolvedValue({
+        ...charge,
+        status: 'failed',
+        failure_code: 'card_declined',
+        failure_message: 'Your card was declined.'
+      });
+
+      const response = await deliver('invoice.payment_failed', {
+        ...invoice,
+        status: 'open',
+        amount_paid: 0,
+        amount_remaining: 2000,
+        next_payment_attempt: 1700259200,
+        status_transitions: { paid_at: null }
+      });
+      expect(response.status).toBe(200);
+
+      const [, invoiceParams] = findCall('invoices')!;
+      expect(invoiceParams![4]).toBe('open');
+      expect(invoiceParams![20]).toBe(new Date(1700259200 * 1000).toISOString());
+
+      const [, paymentParams] = findCall('payments')!;
+      expect(paymentParams![5]).toBe('failed');
+      expect(paymentParams![10]).toBe('Your card was declined.');
+    });
+
+    it('should record a finalized invoice without a payment', async () => {
+      const response = await deliver('invoice.finalized', {
+        ...invoice,
+        status: 'open',
+        charge: null
+      });
+      expect(response.status).toBe(200);
+
+      expect(findCall('invoices')![1]![4]).toBe('open');
+      expect(stripe.charges.retrieve).not.toHaveBeenCalled();
+      expect(findCall('payments')).toBeUndefined();
+    });
+
+    it('should guard the invoice upsert with the event timestamp', async () => {
+      await deliver('invoice.finalized', { ...invoice, status: 'open', charge: null });
+
+      const [sql, params] = findCall('invoices')!;
+      expect(sql).toContain('EXCLUDED.last_event_created > invoices.last_event_created');
+      expect(params![21]).toBe(new Date(1700000200 * 1000).toISOString());
+      expect(params![22]).toBe(false);
+    });
+
+    it('should read the invoice again when an event from the same second wrote it', async () => {
+      mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+        if (sql.includes('SELECT user_id FROM customers')) {
+          return { rows: [{ user_id: 'user_123' }], rowCount: 1, command: '', oid: 0, fields: [] };
+        }
+        if (sql.includes('INSERT INTO invoices')) {
+          // Only the write that allows a tie goes through
+          const rows = params![22] ? [{ id: 'in_123' }] : [];
+          return { rows, rowCount: rows.length, command: '', oid: 0, fields: [] };
+        }
+        return { rows: [{}], rowCount: 1, command: '', oid: 0, fields: [] };
+      });
+      stripe.invoices.retrieve.mockResolvedValue(invoice);
+
+      await deliver('invoice.finalized', { ...invoice, status: 'open', charge: null });
+
+      expect(stripe.invoices.retrieve).toHaveBeenCalledWith('in_123');
+      const writes = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO invoices'));
+      expect(writes).toHaveLength(2);
+      expect(writes[1][1]![4]).toBe('paid');
+    });
+
+    it('should mark a fully refunded charge as refunded on charge.refunded', async () => {
+      stripe.charges.retrieve.mockResolvedValue({ ...charge, refunded: true, amount_refunded: 2000 });
+
+      const response = await deliver('charge.refunded', {
+        ...charge,
+        refunded: true,
+        amount_refunded: 2000
+      });
+      expect(response.status).toBe(200);
+
+      const [, params] = findCall('payments')!;
+      expect(params![5]).toBe('refunded');
+      expect(params![8]).toBe(2000);
+    });
+
+    it('should mark a partially refunded charge on charge.refunded', async () => {
+      stripe.charges.retrieve.mockResolvedValue({ ...charge, amount_refunded: 500 });
+
+      await deliver('charge.refunded', { ...charge, amount_refunded: 500 });
+
+      expect(findCall('payments')![1]![5]).toBe('partially_refunded');
+    });
+
+    it('should write the charge as read from Stripe, not the event snapshot', async () => {
+      // A late event for the first partial refund, after the rest was refunded too
+      stripe.charges.retrieve.mockResolvedValue({ ...charge, refunded: true, amount_refunded: 2000 });
+
+      await deliver('charge.refunded', { ...charge, amount_refunded: 500 });
+
+      expect(stripe.charges.retrieve).toHaveBeenCalledWith('ch_123');
+      const [, params] = findCall('payments')!;
+      expect(params![5]).toBe('refunded');
+      expect(params![8]).toBe(2000);
+    });
+
+    it('should revoke purchases paid by a fully refunded charge', async () => {
+      stripe.charges.retrieve.mockResolvedValue({ ...charge, refunded: true, amount_refunded: 2000 });
+
+      await deliver('charge.refunded', { ...charge, refunded: true, amount_refunded: 2000 });
+
+      const revokeCall = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE purchases'))!;
+      expect(revokeCall[0]).toContain("status = 'refunded'");
+      expect(revokeCall[1]).toEqual(['pi_123']);
+    });
+
+    it('should keep purchases on a partial refund', async () => {
+      stripe.charges.retrieve.mockResolvedValue({ ...charge, amount_refunded: 500 });
+
+      await deliver('charge.refunded', { ...charge, amount_refunded: 500 });
+
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('UPDATE purchases'))).toBe(false);
+    });
+
+    it('should fail when the customer is not mapped to a user', async () => {
+      mockQuery.mockImplementation(async () => ({
+        rows: [],
+        rowCount: 0,
+        command: '',
+        oid: 0,
+        fields: []
+      }));
+
+      const response = await deliver('invoice.paid', invoice);
+
+      expect(response.status).toBe(400);
+      expect(findCall('invoices')).toBeUndefined();
+    });
+  });
 });
@@ -1,334 +1,186 @@
 /**
- * Tests for OAuth callback route
+ * Tests for the magic link callback route
  */
 
-import { GET } from '../route';
+import { GET, POST } from '../route';
 import { NextRequest } from 'next/server';
-import { createClient } from '@/utils/supabase/server';
+import { requiresTwoFactor, signInWithMagicLink } from '@/lib/auth';
+import { isMagicLinkValid } from '@/lib/passwordless';
 
 // Mock dependencies
-jest.mock('@/utils/supabase/server');
+jest.mock('@/lib/auth');
+jest.mock('@/lib/passwordless', () => ({
+  ONE_TIME_TOKEN_EXPIRY: 600,
+  isMagicLinkValid: jest.fn(),
+}));
+
+const mockSignInWithMagicLink = signInWithMagicLink as jest.MockedFunction<
+  typeof signInWithMagicLink
+>;
+const mockRequiresTwoFactor = requiresTwoFactor as jest.MockedFunction<
+  typeof requiresTwoFactor
+>;
+const mockIsMagicLinkValid = isMagicLinkValid as jest.MockedFunction<
+  typeof isMagicLinkValid
+>;
+
+const authResponse = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  token_type: 'Bearer',
+  expires_in: 900,
+  user: { id: 'user-123', email: 'test@example.com', full_name: 'Test User' },
+};
 
-const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>;
+/**
+ * The confirmation form's post, with the cookie GET set
+ */
+function confirm(token?: string, headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost:3000/auth/callback', {
+    method: 'POST',
+    headers: token ? { ...headers, cookie: `magic_link_token=${token}` } : headers,
+  });
+}
 
 describe('Auth Callback Route', () => {
-  let mockExchangeCodeForSession: jest.Mock;
-  let mockGetURL: jest.Mock;
-
   beforeEach(() => {
     jest.clearAllMocks();
-
-    mockExchangeCodeForSession = jest.fn();
-    mockGetURL = jest.fn((path: string) => `http://localhost:3000${path}`);
-
-    mockCreateClient.mockResolvedValue({
-      auth: {
-        exchangeCodeForSession: mockExchangeCodeForSession,
-      },
-    } as any);
-
-    // Mock next/navigation redirect
-    jest.mock('next/navigation', () => ({
-      redirect: jest.fn((url) => {
-        throw { redirect: url };
-      }),
-    }));
   });
 
-  describe('Successful OAuth Callback', () => {
-    it('should exchange code for session successfully', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=oauth_code_123');
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token_123' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: 'http://localhost:3000/',
-      });
-
-      expect(mockExchangeCodeForSession).toHaveBeenCalledWith('oauth_code_123');
-    });
-
-    it('should redirect to home page after successful exchange', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=valid_code');
+  describe('Opening the Link', () => {
+    it('should keep the token in a cookie and ask for confirmation', async () => {
+      mockIsMagicLinkValid.mockResolvedValue(true);
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('/'),
-      });
-    });
-
-    it('should handle next parameter for redirect', async () => {
-      const request = new NextRequest(
-        'http://localhost:3000/auth/callback?code=code_123&next=/dashboard'
+      const response = await GET(
+        new NextRequest('http://localhost:3000/auth/callback?token=link_token_123')
       );
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('dashboard'),
-      });
-    });
-  });
-
-  describe('Error Handling', () => {
-    it('should handle missing code parameter', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback');
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('error'),
-      });
-
-      expect(mockExchangeCodeForSession).not.toHaveBeenCalled();
+      expect(mockIsMagicLinkValid).toHaveBeenCalledWith('link_token_123');
+      expect(response.headers.get('location')).toBe(
+        'http://localhost:3000/signin/confirm_email_signin'
+      );
+      const cookie = response.cookies.get('magic_link_token');
+      expect(cookie?.value).toBe('link_token_123');
+      expect(cookie?.httpOnly).toBe(true);
+      expect(cookie?.maxAge).toBe(600);
     });
 
-    it('should handle invalid code', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=invalid_code');
+    it('should not use up the link', async () => {
+      mockIsMagicLinkValid.mockResolvedValue(true);
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: null },
-        error: { message: 'Invalid code' },
-      });
+      const response = await GET(
+        new NextRequest('http://localhost:3000/auth/callback?token=link_token_123')
+      );
 
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('error'),
-      });
+      expect(mockSignInWithMagicLink).not.toHaveBeenCalled();
+      expect(response.cookies.get('access_token')).toBeUndefined();
     });
 
-    it('should handle session exchange error', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=error_code');
+    it('should send used or expired links back to email sign-in', async () => {
+      mockIsMagicLinkValid.mockResolvedValue(false);
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: null },
-        error: { message: 'Exchange failed', code: 'session_error' },
-      });
+      const response = await GET(
+        new NextRequest('http://localhost:3000/auth/callback?token=used')
+      );
 
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('error'),
-      });
+      const location = response.headers.get('location')!;
+      expect(location).toContain('http://localhost:3000/signin/email_signin?error=');
+      expect(response.cookies.get('magic_link_token')).toBeUndefined();
     });
 
-    it('should handle network errors', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=network_error');
+    it('should handle a missing token parameter', async () => {
+      mockIsMagicLinkValid.mockResolvedValue(false);
 
-      mockExchangeCodeForSession.mockRejectedValue(new Error('Network error'));
+      const response = await GET(new NextRequest('http://localhost:3000/auth/callback'));
 
-      await expect(GET(request)).rejects.toThrow();
+      expect(mockIsMagicLinkValid).toHaveBeenCalledWith('');
+      expect(response.headers.get('location')).toContain('error=');
     });
   });
 
-  describe('Query Parameters', () => {
-    it('should extract code from query string', async () => {
-      const request = new NextRequest(
-        'http://localhost:3000/auth/callback?code=extracted_code&state=random_state'
-      );
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
-
-      expect(mockExchangeCodeForSession).toHaveBeenCalledWith('extracted_code');
-    });
+  describe('Confirming Sign-in', () => {
+    it('should exchange the token for auth cookies', async () => {
+      mockSignInWithMagicLink.mockResolvedValue(authResponse);
 
-    it('should handle multiple query parameters', async () => {
-      const request = new NextRequest(
-        'http://localhost:3000/auth/callback?code=code_123&provider=google&state=xyz'
-      );
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
-    });
+      const response = await POST(confirm('link_token_123'));
 
-    it('should handle encoded query parameters', async () => {
-      const encodedCode = encodeURIComponent('code/with/special+chars');
-      const request = new NextRequest(
-        `http://localhost:3000/auth/callback?code=${encodedCode}`
+      expect(mockSignInWithMagicLink).toHaveBeenCalledWith(
+        'link_token_123',
+        expect.any(Object)
       );
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
+      expect(response.cookies.get('access_token')?.value).toBe('access-token');
+      expect(response.cookies.get('refresh_token')?.value).toBe('refresh-token');
+      expect(response.cookies.get('access_token')?.httpOnly).toBe(true);
+      expect(response.cookies.get('magic_link_token')?.value).toBe('');
     });
-  });
 
-  describe('Redirect Logic', () => {
-    it('should preserve next parameter in successful redirect', async () => {
-      const request = new NextRequest(
-        'http://localhost:3000/auth/callback?code=code_123&next=/account'
-      );
+    it('should redirect to the account page with a GET', async () => {
+      mockSignInWithMagicLink.mockResolvedValue(authResponse);
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
+      const response = await POST(confirm('link_token_123'));
 
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('account'),
-      });
+      expect(response.status).toBe(303);
+      const location = response.headers.get('location')!;
+      expect(location).toContain('http://localhost:3000/account?status=Success');
     });
 
-    it('should default to home page when next is not provided', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=code_123');
+    it('should record the device on the new session', async () => {
+      mockSignInWithMagicLink.mockResolvedValue(authResponse);
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: 'http://localhost:3000/',
-      });
-    });
-
-    it('should sanitize next parameter to prevent open redirect', async () => {
-      const request = new NextRequest(
-        'http://localhost:3000/auth/callback?code=code_123&next=https://evil.com'
+      await POST(
+        confirm('link_token_123', {
+          'user-agent': 'Mozilla/5.0 Firefox/121.0',
+          'x-forwarded-for': '198.51.100.1, 203.0.113.7',
+        })
       );
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      // Should redirect to local path only
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.not.stringContaining('evil.com'),
+      expect(mockSignInWithMagicLink).toHaveBeenCalledWith('link_token_123', {
+        userAgent: 'Mozilla/5.0 Firefox/121.0',
+        ipAddress: '203.0.113.7',
       });
     });
-  });
 
-  describe('OAuth Provider Specific', () => {
-    it('should handle GitHub OAuth callback', async () => {
-      const request = new NextRequest(
-        'http://localhost:3000/auth/callback?code=github_code&provider=github'
-      );
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token', provider_token: 'github_token' } },
-        error: null,
+    it('should ask for a code for accounts with two-factor authentication', async () => {
+      mockSignInWithMagicLink.mockResolvedValue({
+        two_factor_required: true,
+        challenge_token: 'challenge-token',
       });
+      mockRequiresTwoFactor.mockReturnValueOnce(true);
 
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
-    });
+      const response = await POST(confirm('link_token_123'));
 
-    it('should handle Google OAuth callback', async () => {
-      const request = new NextRequest(
-        'http://localhost:3000/auth/callback?code=google_code&provider=google'
+      expect(response.status).toBe(303);
+      expect(response.headers.get('location')).toBe(
+        'http://localhost:3000/signin/two_factor'
       );
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
-    });
-  });
-
-  describe('Edge Cases', () => {
-    it('should handle empty code parameter', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=');
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('error'),
-      });
-    });
-
-    it('should handle malformed URL', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code');
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.stringContaining('error'),
-      });
+      expect(response.cookies.get('two_factor_challenge')?.value).toBe('challenge-token');
+      expect(response.cookies.get('two_factor_challenge')?.httpOnly).toBe(true);
+      expect(response.cookies.get('access_token')).toBeUndefined();
     });
 
-    it('should handle very long code parameter', async () => {
-      const longCode = 'a'.repeat(1000);
-      const request = new NextRequest(
-        `http://localhost:3000/auth/callback?code=${longCode}`
+    it('should send used or expired links back to email sign-in', async () => {
+      mockSignInWithMagicLink.mockRejectedValue(
+        new Error('Invalid or expired sign-in link')
       );
 
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: { session: { access_token: 'token' } },
-        error: null,
-      });
-
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
+      const response = await POST(confirm('used'));
 
-      expect(mockExchangeCodeForSession).toHaveBeenCalledWith(longCode);
+      expect(response.status).toBe(303);
+      const location = response.headers.get('location')!;
+      expect(location).toContain('http://localhost:3000/signin/email_signin?error=');
+      expect(response.cookies.get('access_token')).toBeUndefined();
+      expect(response.cookies.get('magic_link_token')?.value).toBe('');
     });
-  });
-
-  describe('Session Management', () => {
-    it('should create session with user data', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=code_123');
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: {
-          session: {
-            access_token: 'token_123',
-            refresh_token: 'refresh_123',
-            user: {
-              id: 'user_123',
-              email: 'user@example.com',
-            },
-          },
-        },
-        error: null,
-      });
 
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
-    });
+    it('should fail without the cookie from the link', async () => {
+      mockSignInWithMagicLink.mockRejectedValue(
+        new Error('Invalid or expired sign-in link')
+      );
 
-    it('should handle session without refresh token', async () => {
-      const request = new NextRequest('http://localhost:3000/auth/callback?code=code_123');
-
-      mockExchangeCodeForSession.mockResolvedValue({
-        data: {
-          session: {
-            access_token: 'token_123',
-            user: { id: 'user_123' },
-          },
-        },
-        error: null,
-      });
+      const response = await POST(confirm());
 
-      await expect(GET(request)).rejects.toMatchObject({
-        redirect: expect.any(String),
-      });
+      expect(mockSignInWithMagicLink).toHaveBeenCalledWith('', expect.any(Object));
+      expect(response.headers.get('location')).toContain('error=');
     });
   });
 });
@@ -1,36 +1,95 @@
-import { createClient } from '@/utils/supabase/server';
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
-import { getErrorRedirect, getStatusRedirect } from '@/utils/helpers';
+import { requiresTwoFactor, signInWithMagicLink } from '@/lib/auth';
+import {
+  MAGIC_LINK_COOKIE,
+  setAuthCookies,
+  setTwoFactorChallengeCookie
+} from '@/lib/auth-cookies';
+import { isMagicLinkValid, ONE_TIME_TOKEN_EXPIRY } from '@/lib/passwordless';
+import {
+  getClientIp,
+  getErrorRedirect,
+  getStatusRedirect
+} from '@/utils/helpers';
+
+const invalidLinkRedirect = (origin: string) =>
+  getErrorRedirect(
+    `${origin}/signin/email_signin`,
+    'Sign in failed.',
+    'This sign-in link is invalid or has expired. Please request a new one.'
+  );
 
 export async function GET(request: NextRequest) {
-  // The `/auth/callback` route is required for the server-side auth flow implemented
-  // by the `@supabase/ssr` package. It exchanges an auth code for the user's session.
+  // The `/auth/callback` route is the target of the emailed magic link. Mail
+  // scanners open links too, so it only moves the token into a short-lived
+  // cookie and asks the visitor to confirm; the token is used up on POST.
   const requestUrl = new URL(request.url);
-  const code = requestUrl.searchParams.get('code');
-
-  if (code) {
-    const supabase = createClient();
-
-    const { error } = await supabase.auth.exchangeCodeForSession(code);
-
-    if (error) {
-      return NextResponse.redirect(
-        getErrorRedirect(
-          `${requestUrl.origin}/signin`,
-          error.name,
-          "Sorry, we weren't able to log you in. Please try again."
-        )
-      );
-    }
+  const token = requestUrl.searchParams.get('token') ?? '';
+
+  if (!(await isMagicLinkValid(token))) {
+    return NextResponse.redirect(invalidLinkRedirect(requestUrl.origin));
+  }
+
+  const response = NextResponse.redirect(
+    `${requestUrl.origin}/signin/confirm_email_signin`
+  );
+
+  response.cookies.set(MAGIC_LINK_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ONE_TIME_TOKEN_EXPIRY
+  });
+
+  return response;
+}
+
+export async function POST(request: NextRequest) {
+  // Submitted from the confirmation page; exchanges the single-use token for
+  // the access and refresh token cookies. Redirects use 303 so the browser
+  // follows them with a GET.
+  const requestUrl = new URL(request.url);
+  const token = request.cookies.get(MAGIC_LINK_COOKIE)?.value ?? '';
+
+  let auth;
+  try {
+    auth = await signInWithMagicLink(token, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: request.ip ?? getClientIp(request.headers)
+    });
+  } catch (error) {
+    const response = NextResponse.redirect(
+      invalidLinkRedirect(requestUrl.origin),
+      303
+    );
+    response.cookies.delete(MAGIC_LINK_COOKIE);
+    return response;
+  }
+
+  // Accounts with two-factor authentication still need a code
+  if (requiresTwoFactor(auth)) {
+    const response = NextResponse.redirect(
+      `${requestUrl.origin}/signin/two_factor`,
+      303
+    );
+    response.cookies.delete(MAGIC_LINK_COOKIE);
+    setTwoFactorChallengeCookie(response.cookies, auth.challenge_token);
+    return response;
   }
 
   // URL to redirect to after sign in process completes
-  return NextResponse.redirect(
+  const response = NextResponse.redirect(
     getStatusRedirect(
       `${requestUrl.origin}/account`,
       'Success!',
       'You are now signed in.'
-    )
+    ),
+    303
   );
+  response.cookies.delete(MAGIC_LINK_COOKIE);
+  setAuthCookies(response.cookies, auth);
+
+  return response;
 }
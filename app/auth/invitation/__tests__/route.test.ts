@@ -0,0 +1,74 @@
+/**
+ * Tests for the organization invitation link route
+ */
+
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import { acceptInvitationToken } from '@/lib/organizations';
+
+// Mock dependencies
+jest.mock('@/lib/organizations', () => ({
+  acceptInvitationToken: jest.fn(),
+}));
+
+const mockAcceptInvitationToken = acceptInvitationToken as jest.MockedFunction<
+  typeof acceptInvitationToken
+>;
+
+// Middleware adds the signed-in user to the request headers
+function signedInRequest(url: string) {
+  return new NextRequest(url, {
+    headers: { 'x-user-id': 'user-123', 'x-user-email': 'new@example.com' },
+  });
+}
+
+describe('Invitation Route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should join the organization and switch to it', async () => {
+    mockAcceptInvitationToken.mockResolvedValue('org-123');
+
+    const response = await GET(
+      signedInRequest('http://localhost:3000/auth/invitation?token=abc123')
+    );
+
+    expect(mockAcceptInvitationToken).toHaveBeenCalledWith('abc123', {
+      id: 'user-123',
+      email: 'new@example.com',
+    });
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toContain(
+      'http://localhost:3000/account?status='
+    );
+
+    const cookie = response.cookies.get('current_organization');
+    expect(cookie?.value).toBe('org-123');
+    expect(cookie?.httpOnly).toBe(true);
+  });
+
+  it('should redirect with the reason when the invitation cannot be accepted', async () => {
+    mockAcceptInvitationToken.mockRejectedValue(
+      new Error('This invitation has expired, has already been used, or was sent to a different email address.')
+    );
+
+    const response = await GET(
+      signedInRequest('http://localhost:3000/auth/invitation?token=used')
+    );
+
+    const location = response.headers.get('location')!;
+    expect(location).toContain('http://localhost:3000/account?error=');
+    expect(location).toContain('has%20expired');
+    expect(response.cookies.get('current_organization')).toBeUndefined();
+  });
+
+  it('should send signed-out requests to sign in', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/auth/invitation?token=abc123')
+    );
+
+    expect(mockAcceptInvitationToken).not.toHaveBeenCalled();
+    expect(response.headers.get('location')).toBe('http://localhost:3000/signin');
+  });
+});
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { acceptInvitationToken } from '@/lib/organizations';
+import { getErrorRedirect, getStatusRedirect } from '@/utils/helpers';
+
+export async function GET(request: NextRequest) {
+  // The `/auth/invitation` route is the target of the emailed organization
+  // invitation. Middleware signs the user in first, so the token is accepted
+  // for whoever is signed in, as long as the invitation was sent to their email.
+  const requestUrl = new URL(request.url);
+  const token = requestUrl.searchParams.get('token') ?? '';
+  const userId = request.headers.get('x-user-id');
+  const email = request.headers.get('x-user-email');
+
+  if (!userId || !email) {
+    return NextResponse.redirect(`${requestUrl.origin}/signin`);
+  }
+
+  let organizationId: string;
+  try {
+    organizationId = await acceptInvitationToken(token, { id: userId, email });
+  } catch (error) {
+    return NextResponse.redirect(
+      getErrorRedirect(
+        `${requestUrl.origin}/account`,
+        'The invitation could not be accepted.',
+        error instanceof Error ? error.message : 'An unknown error occurred.'
+      )
+    );
+  }
+
+  const response = NextResponse.redirect(
+    getStatusRedirect(
+      `${requestUrl.origin}/account`,
+      'Success!',
+      'You have joined the organization.'
+    )
+  );
+
+  response.cookies.set('current_organization', organizationId, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax'
+  });
+
+  return response;
+}
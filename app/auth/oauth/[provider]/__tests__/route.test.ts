@@ -0,0 +1,74 @@
+/**
+ * Tests for the OAuth sign-in start route
+ */
+
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import { beginOAuthFlow, getOAuthProvider } from '@/lib/oauth';
+
+// Mock dependencies
+jest.mock('@/lib/oauth', () => ({
+  beginOAuthFlow: jest.fn(),
+  getOAuthProvider: jest.fn(),
+  OAUTH_FLOW_COOKIE: 'oauth_flow',
+  OAUTH_FLOW_EXPIRY: 600,
+}));
+
+const mockBeginOAuthFlow = beginOAuthFlow as jest.MockedFunction<typeof beginOAuthFlow>;
+const mockGetOAuthProvider = getOAuthProvider as jest.MockedFunction<typeof getOAuthProvider>;
+
+const github = {
+  id: 'github',
+  displayName: 'GitHub',
+  getAuthorizationUrl: jest.fn(),
+  exchangeCode: jest.fn(),
+};
+
+describe('OAuth Sign-in Route', () => {
+  const request = new NextRequest('http://localhost:3000/auth/oauth/github');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should redirect to the provider and set the flow cookie', async () => {
+    mockGetOAuthProvider.mockReturnValue(github);
+    mockBeginOAuthFlow.mockResolvedValue({
+      url: 'https://github.com/login/oauth/authorize?state=abc',
+      flowToken: 'flow-token',
+    });
+
+    const response = await GET(request, { params: { provider: 'github' } });
+
+    expect(mockBeginOAuthFlow).toHaveBeenCalledWith(
+      github,
+      'http://localhost:3000/auth/oauth/github/callback'
+    );
+    expect(response.headers.get('location')).toBe(
+      'https://github.com/login/oauth/authorize?state=abc'
+    );
+    const cookie = response.cookies.get('oauth_flow');
+    expect(cookie?.value).toBe('flow-token');
+    expect(cookie?.httpOnly).toBe(true);
+    expect(cookie?.maxAge).toBe(600);
+  });
+
+  it('should reject unknown providers', async () => {
+    mockGetOAuthProvider.mockReturnValue(null);
+
+    const response = await GET(request, { params: { provider: 'myspace' } });
+
+    expect(response.headers.get('location')).toContain('/signin?error=');
+    expect(mockBeginOAuthFlow).not.toHaveBeenCalled();
+  });
+
+  it('should redirect with an error when the provider is unreachable', async () => {
+    mockGetOAuthProvider.mockReturnValue(github);
+    mockBeginOAuthFlow.mockRejectedValue(new Error('OIDC discovery failed'));
+
+    const response = await GET(request, { params: { provider: 'github' } });
+
+    expect(response.headers.get('location')).toContain('/signin?error=');
+    expect(response.cookies.get('oauth_flow')).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for the OAuth callback route
+ */
+
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import { requiresTwoFactor, signInWithOAuthProfile } from '@/lib/auth';
+import { completeOAuthFlow, getOAuthProvider } from '@/lib/oauth';
+
+// Mock dependencies
+jest.mock('@/lib/auth');
+jest.mock('@/lib/oauth', () => ({
+  completeOAuthFlow: jest.fn(),
+  getOAuthProvider: jest.fn(),
+  OAUTH_FLOW_COOKIE: 'oauth_flow',
+}));
+
+const mockSignInWithOAuthProfile = signInWithOAuthProfile as jest.MockedFunction<
+  typeof signInWithOAuthProfile
+>;
+const mockRequiresTwoFactor = requiresTwoFactor as jest.MockedFunction<
+  typeof requiresTwoFactor
+>;
+const mockCompleteOAuthFlow = completeOAuthFlow as jest.MockedFunction<
+  typeof completeOAuthFlow
+>;
+const mockGetOAuthProvider = getOAuthProvider as jest.MockedFunction<typeof getOAuthProvider>;
+
+const github = {
+  id: 'github',
+  displayName: 'GitHub',
+  getAuthorizationUrl: jest.fn(),
+  exchangeCode: jest.fn(),
+};
+
+const profile = {
+  provider: 'github',
+  subject: '42',
+  email: 'octocat@example.com',
+  emailVerified: true,
+  name: 'The Octocat',
+  avatarUrl: null,
+};
+
+function callbackRequest(query: string) {
+  return new NextRequest(`http://localhost:3000/auth/oauth/github/callback?${query}`, {
+    headers: {
+      cookie: 'oauth_flow=flow-token',
+      'user-agent': 'Mozilla/5.0 Firefox/121.0',
+    },
+  });
+}
+
+describe('OAuth Callback Route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetOAuthProvider.mockReturnValue(github);
+  });
+
+  it('should complete the flow and set the auth cookies', async () => {
+    mockCompleteOAuthFlow.mockResolvedValue(profile);
+    mockSignInWithOAuthProfile.mockResolvedValue({
+      access_token: 'access-token',
+      refresh_token: 'refresh-token',
+      token_type: 'Bearer',
+      expires_in: 900,
+      user: { id: 'user-123', email: 'octocat@example.com' },
+    });
+
+    const response = await GET(callbackRequest('code=abc&state=xyz'), {
+      params: { provider: 'github' },
+    });
+
+    expect(mockCompleteOAuthFlow).toHaveBeenCalledWith(
+      github,
+      { code: 'abc', state: 'xyz', error: null },
+      'flow-token',
+      'http://localhost:3000/auth/oauth/github/callback'
+    );
+    expect(mockSignInWithOAuthProfile).toHaveBeenCalledWith(profile, {
+      userAgent: 'Mozilla/5.0 Firefox/121.0',
+      ipAddress: null,
+    });
+    expect(response.headers.get('location')).toContain('/account?status=Success');
+    expect(response.cookies.get('access_token')?.value).toBe('access-token');
+    expect(response.cookies.get('refresh_token')?.value).toBe('refresh-token');
+    expect(response.cookies.get('oauth_flow')?.value).toBe('');
+  });
+
+  it('should ask for a two-factor code before setting the auth cookies', async () => {
+    mockCompleteOAuthFlow.mockResolvedValue(profile);
+    mockSignInWithOAuthProfile.mockResolvedValue({
+      two_factor_required: true,
+      challenge_token: 'challenge-token',
+    });
+    mockRequiresTwoFactor.mockReturnValueOnce(true);
+
+    const response = await GET(callbackRequest('code=abc&state=xyz'), {
+      params: { provider: 'github' },
+    });
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/signin/two_factor');
+    expect(response.cookies.get('two_factor_challenge')?.value).toBe('challenge-token');
+    expect(response.cookies.get('access_token')).toBeUndefined();
+    expect(response.cookies.get('oauth_flow')?.value).toBe('');
+  });
+
+  it('should redirect to sign-in when the state does not match', async () => {
+    mockCompleteOAuthFlow.mockRejectedValue(new Error('Invalid OAuth state'));
+
+    const response = await GET(callbackRequest('code=abc&state=forged'), {
+      params: { provider: 'github' },
+    });
+
+    const location = response.headers.get('location')!;
+    expect(location).toContain('/signin?error=');
+    expect(location).toContain('Invalid%20OAuth%20state');
+    expect(mockSignInWithOAuthProfile).not.toHaveBeenCalled();
+    expect(response.cookies.get('access_token')).toBeUndefined();
+    expect(response.cookies.get('oauth_flow')?.value).toBe('');
+  });
+
+  it('should redirect to sign-in when the account cannot be linked', async () => {
+    mockCompleteOAuthFlow.mockResolvedValue({ ...profile, emailVerified: false });
+    mockSignInWithOAuthProfile.mockRejectedValue(
+      new Error('Your account at the provider has no verified email address')
+    );
+
+    const response = await GET(callbackRequest('code=abc&state=xyz'), {
+      params: { provider: 'github' },
+    });
+
+    expect(response.headers.get('location')).toContain('no%20verified%20email');
+  });
+
+  it('should reject unknown providers', async () => {
+    mockGetOAuthProvider.mockReturnValue(null);
+
+    const response = await GET(callbackRequest('code=abc&state=xyz'), {
+      params: { provider: 'myspace' },
+    });
+
+    expect(response.headers.get('location')).toContain('/signin?error=');
+    expect(mockCompleteOAuthFlow).not.toHaveBeenCalled();
+  });
+});
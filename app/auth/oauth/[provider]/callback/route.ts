@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requiresTwoFactor, signInWithOAuthProfile } from '@/lib/auth';
+import { setAuthCookies, setTwoFactorChallengeCookie } from '@/lib/auth-cookies';
+import {
+  completeOAuthFlow,
+  getOAuthProvider,
+  OAUTH_FLOW_COOKIE
+} from '@/lib/oauth';
+import {
+  getClientIp,
+  getErrorRedirect,
+  getStatusRedirect,
+  getURL
+} from '@/utils/helpers';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  // The `/auth/oauth/[provider]/callback` route is where the provider sends the
+  // user back. It checks the state, exchanges the code and sets the auth cookies.
+  const requestUrl = new URL(request.url);
+  const provider = getOAuthProvider(params.provider);
+
+  let response: NextResponse;
+  try {
+    if (!provider) {
+      throw new Error('This sign-in provider is not available.');
+    }
+
+    const profile = await completeOAuthFlow(
+      provider,
+      {
+        code: requestUrl.searchParams.get('code'),
+        state: requestUrl.searchParams.get('state'),
+        error: requestUrl.searchParams.get('error')
+      },
+      request.cookies.get(OAUTH_FLOW_COOKIE)?.value,
+      getURL(`/auth/oauth/${provider.id}/callback`)
+    );
+
+    const auth = await signInWithOAuthProfile(profile, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: request.ip ?? getClientIp(request.headers)
+    });
+
+    if (requiresTwoFactor(auth)) {
+      // Accounts with two-factor authentication still need a code
+      response = NextResponse.redirect(`${requestUrl.origin}/signin/two_factor`);
+      setTwoFactorChallengeCookie(response.cookies, auth.challenge_token);
+    } else {
+      response = NextResponse.redirect(
+        getStatusRedirect(
+          `${requestUrl.origin}/account`,
+          'Success!',
+          'You are now signed in.'
+        )
+      );
+      setAuthCookies(response.cookies, auth);
+    }
+  } catch (error) {
+    response = NextResponse.redirect(
+      getErrorRedirect(
+        `${requestUrl.origin}/signin`,
+        'Sign in failed.',
+        error instanceof Error ? error.message : 'You could not be signed in.'
+      )
+    );
+  }
+
+  // The flow cookie is single-use either way
+  response.cookies.delete(OAUTH_FLOW_COOKIE);
+
+  return response;
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import {
+  beginOAuthFlow,
+  getOAuthProvider,
+  OAUTH_FLOW_COOKIE,
+  OAUTH_FLOW_EXPIRY
+} from '@/lib/oauth';
+import { getErrorRedirect, getURL } from '@/utils/helpers';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  // The `/auth/oauth/[provider]` route starts an authorization code flow with
+  // PKCE and redirects to the provider's consent page.
+  const requestUrl = new URL(request.url);
+  const provider = getOAuthProvider(params.provider);
+
+  if (!provider) {
+    return NextResponse.redirect(
+      getErrorRedirect(
+        `${requestUrl.origin}/signin`,
+        'Sign in failed.',
+        'This sign-in provider is not available.'
+      )
+    );
+  }
+
+  try {
+    const { url, flowToken } = await beginOAuthFlow(
+      provider,
+      getURL(`/auth/oauth/${provider.id}/callback`)
+    );
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OAUTH_FLOW_COOKIE, flowToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: OAUTH_FLOW_EXPIRY
+    });
+
+    return response;
+  } catch (error) {
+    console.error(`Error starting ${provider.id} sign in:`, error);
+    return NextResponse.redirect(
+      getErrorRedirect(
+        `${requestUrl.origin}/signin`,
+        'Sign in failed.',
+        `We couldn't reach ${provider.displayName}. Please try again.`
+      )
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Tests for the password reset link route
+ */
+
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import { isPasswordResetTokenValid } from '@/lib/password-reset';
+
+// Mock dependencies
+jest.mock('@/lib/password-reset', () => ({
+  isPasswordResetTokenValid: jest.fn(),
+  PASSWORD_RESET_EXPIRY: 3600,
+}));
+
+const mockIsValid = isPasswordResetTokenValid as jest.MockedFunction<
+  typeof isPasswordResetTokenValid
+>;
+
+describe('Password Reset Route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store the token in a cookie and show the new password form', async () => {
+    mockIsValid.mockResolvedValue(true);
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/auth/reset_password?token=abc123')
+    );
+
+    expect(mockIsValid).toHaveBeenCalledWith('abc123');
+    const location = response.headers.get('location')!;
+    expect(location).toContain('http://localhost:3000/signin/update_password?status=');
+    expect(location).not.toContain('abc123');
+
+    const cookie = response.cookies.get('password_reset_token');
+    expect(cookie?.value).toBe('abc123');
+    expect(cookie?.httpOnly).toBe(true);
+    expect(cookie?.maxAge).toBe(3600);
+  });
+
+  it('should send invalid or expired links back to forgot password', async () => {
+    mockIsValid.mockResolvedValue(false);
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/auth/reset_password?token=used')
+    );
+
+    const location = response.headers.get('location')!;
+    expect(location).toContain('http://localhost:3000/signin/forgot_password?error=');
+    expect(response.cookies.get('password_reset_token')).toBeUndefined();
+  });
+
+  it('should reject requests without a token', async () => {
+    mockIsValid.mockResolvedValue(false);
+
+    await GET(new NextRequest('http://localhost:3000/auth/reset_password'));
+
+    expect(mockIsValid).toHaveBeenCalledWith('');
+  });
+});
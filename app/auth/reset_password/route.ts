@@ -1,36 +1,40 @@
-import { createClient } from '@/utils/supabase/server';
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
+import { PASSWORD_RESET_COOKIE } from '@/lib/auth-cookies';
+import { isPasswordResetTokenValid, PASSWORD_RESET_EXPIRY } from '@/lib/password-reset';
 import { getErrorRedirect, getStatusRedirect } from '@/utils/helpers';
 
 export async function GET(request: NextRequest) {
-  // The `/auth/callback` route is required for the server-side auth flow implemented
-  // by the `@supabase/ssr` package. It exchanges an auth code for the user's session.
+  // The `/auth/reset_password` route is the target of the emailed reset link. It
+  // moves the token into a short-lived cookie so it stays out of the form's URL.
   const requestUrl = new URL(request.url);
-  const code = requestUrl.searchParams.get('code');
+  const token = requestUrl.searchParams.get('token') ?? '';
 
-  if (code) {
-    const supabase = createClient();
-
-    const { error } = await supabase.auth.exchangeCodeForSession(code);
-
-    if (error) {
-      return NextResponse.redirect(
-        getErrorRedirect(
-          `${requestUrl.origin}/signin/forgot_password`,
-          error.name,
-          "Sorry, we weren't able to log you in. Please try again."
-        )
-      );
-    }
+  if (!(await isPasswordResetTokenValid(token))) {
+    return NextResponse.redirect(
+      getErrorRedirect(
+        `${requestUrl.origin}/signin/forgot_password`,
+        'Invalid reset link.',
+        'This password reset link is invalid or has expired. Please request a new one.'
+      )
+    );
   }
 
-  // URL to redirect to after sign in process completes
-  return NextResponse.redirect(
+  const response = NextResponse.redirect(
     getStatusRedirect(
       `${requestUrl.origin}/signin/update_password`,
-      'You are now signed in.',
+      'Reset your password.',
       'Please enter a new password for your account.'
     )
   );
+
+  response.cookies.set(PASSWORD_RESET_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: PASSWORD_RESET_EXPIRY
+  });
+
+  return response;
 }
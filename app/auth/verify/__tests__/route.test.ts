@@ -0,0 +1,57 @@
+/**
+ * Tests for the email verification route
+ */
+
+import { GET } from '../route';
+import { NextRequest } from 'next/server';
+import { verifyEmail } from '@/lib/email-verification';
+
+// Mock dependencies
+jest.mock('@/lib/email-verification');
+
+const mockVerifyEmail = verifyEmail as jest.MockedFunction<typeof verifyEmail>;
+
+describe('Email Verification Route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should verify the email and redirect with a status message', async () => {
+    mockVerifyEmail.mockResolvedValue('user-123');
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/auth/verify?token=abc123')
+    );
+
+    expect(mockVerifyEmail).toHaveBeenCalledWith('abc123');
+    expect(response.status).toBe(307);
+    const location = response.headers.get('location')!;
+    expect(location).toContain('http://localhost:3000/account?status=');
+    expect(location).toContain('Email%20verified');
+  });
+
+  it('should redirect with an error for invalid or expired links', async () => {
+    mockVerifyEmail.mockRejectedValue(
+      new Error('Invalid or expired verification link')
+    );
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/auth/verify?token=used')
+    );
+
+    const location = response.headers.get('location')!;
+    expect(location).toContain('http://localhost:3000/account?error=');
+    expect(location).toContain('Verification%20failed');
+  });
+
+  it('should reject requests without a token', async () => {
+    mockVerifyEmail.mockRejectedValue(new Error('Invalid verification link'));
+
+    const response = await GET(
+      new NextRequest('http://localhost:3000/auth/verify')
+    );
+
+    expect(mockVerifyEmail).toHaveBeenCalledWith('');
+    expect(response.headers.get('location')).toContain('error=');
+  });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { verifyEmail } from '@/lib/email-verification';
+import { getErrorRedirect, getStatusRedirect } from '@/utils/helpers';
+
+export async function GET(request: NextRequest) {
+  // The `/auth/verify` route is the target of the link emailed after sign-up
+  // and email changes. It consumes the single-use token and marks the email verified,
+  // switching the account to a pending new address when the link was sent to it.
+  const requestUrl = new URL(request.url);
+  const token = requestUrl.searchParams.get('token') ?? '';
+
+  try {
+    await verifyEmail(token);
+  } catch (error) {
+    return NextResponse.redirect(
+      getErrorRedirect(
+        `${requestUrl.origin}/account`,
+        'Verification failed.',
+        'This verification link is invalid or has expired. Request a new one from your account page.'
+      )
+    );
+  }
+
+  return NextResponse.redirect(
+    getStatusRedirect(
+      `${requestUrl.origin}/account`,
+      'Email verified!',
+      'Thanks for confirming your email address.'
+    )
+  );
+}
@@ -1,6 +1,8 @@
 import Pricing from '@/components/ui/Pricing/Pricing';
 import { query } from '@/lib/zerodb';
 import { getUser } from '@/lib/auth';
+import { getOrganization } from '@/lib/organizations';
+import { can } from '@/lib/authorization';
 import { cookies } from 'next/headers';
 
 export default async function PricingPage() {
@@ -54,9 +56,16 @@ export default async function PricingPage() {
 
   const products = productsResult.rows;
 
-  // Get subscription if user is logged in
+  // Get subscription if user is logged in, for the organization picked on
+  // the account page or else their personal account
   let subscription = null;
+  let organization = null;
   if (user) {
+    organization = await getOrganization(
+      user.id,
+      cookieStore.get('current_organization')?.value
+    );
+
     const subscriptionResult = await query(`
       SELECT
         s.id,
@@ -98,11 +107,14 @@ export default async function PricingPage() {
       FROM subscriptions s
       LEFT JOIN prices pr ON pr.id = s.price_id
       LEFT JOIN products p ON p.id = pr.product_id
-      WHERE s.user_id = $1
-        AND s.status IN ('trialing', 'active')
+      WHERE (
+          ($2::uuid IS NULL AND s.user_id = $1 AND s.organization_id IS NULL)
+          OR s.organization_id = $2::uuid
+        )
+        AND s.status IN ('trialing', 'active', 'paused')
       ORDER BY s.created DESC
       LIMIT 1
-    `, [user.id]);
+    `, [user.id, organization?.id ?? null]);
 
     subscription = subscriptionResult.rows[0] || null;
   }
@@ -112,6 +124,15 @@ export default async function PricingPage() {
       user={user}
       products={products ?? []}
       subscription={subscription}
+      organization={
+        organization
+          ? {
+              name: organization.name,
+              seats: organization.memberCount,
+              canManageBilling: can(organization.role, 'manage_billing')
+            }
+          : null
+      }
     />
   );
 }
@@ -1,5 +1,6 @@
 import Logo from '@/components/icons/Logo';
 import { getUser } from '@/lib/auth';
+import { getPasswordPolicy } from '@/lib/password-policy';
 import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import {
@@ -11,10 +12,14 @@ import {
 import Card from '@/components/ui/Card';
 import PasswordSignIn from '@/components/ui/AuthForms/PasswordSignIn';
 import EmailSignIn from '@/components/ui/AuthForms/EmailSignIn';
+import EmailCodeSignIn from '@/components/ui/AuthForms/EmailCodeSignIn';
+import ConfirmEmailSignIn from '@/components/ui/AuthForms/ConfirmEmailSignIn';
 import Separator from '@/components/ui/AuthForms/Separator';
 import OauthSignIn from '@/components/ui/AuthForms/OauthSignIn';
+import PasskeySignIn from '@/components/ui/AuthForms/PasskeySignIn';
 import ForgotPassword from '@/components/ui/AuthForms/ForgotPassword';
 import UpdatePassword from '@/components/ui/AuthForms/UpdatePassword';
+import TwoFactorChallenge from '@/components/ui/AuthForms/TwoFactorChallenge';
 import SignUp from '@/components/ui/AuthForms/Signup';
 
 export default async function SignIn({
@@ -22,11 +27,13 @@ export default async function SignIn({
   searchParams
 }: {
   params: { id: string };
-  searchParams: { disable_button: boolean };
+  searchParams: { disable_button: boolean; email?: string };
 }) {
-  const { allowOauth, allowEmail, allowPassword } = getAuthTypes();
+  const { allowOauth, allowEmail, allowPassword, allowPasskey } =
+    getAuthTypes();
   const viewTypes = getViewTypes();
   const redirectMethod = getRedirectMethod();
+  const { minLength: minPasswordLength } = getPasswordPolicy();
 
   // Declare 'viewProp' and initialize with the default value
   let viewProp: string;
@@ -54,10 +61,23 @@ export default async function SignIn({
     }
   }
 
+  // A password reset link lets a signed-out visitor set a new password
+  const hasResetToken = Boolean(cookieStore.get('password_reset_token')?.value);
+  // The second step only makes sense right after the first one
+  const hasTwoFactorChallenge = Boolean(
+    cookieStore.get('two_factor_challenge')?.value
+  );
+  // Confirming a magic link only makes sense after opening one
+  const hasMagicLink = Boolean(cookieStore.get('magic_link_token')?.value);
+
   if (user && viewProp !== 'update_password') {
     return redirect('/');
-  } else if (!user && viewProp === 'update_password') {
+  } else if (!user && !hasResetToken && viewProp === 'update_password') {
+    return redirect('/signin');
+  } else if (!hasTwoFactorChallenge && viewProp === 'two_factor') {
     return redirect('/signin');
+  } else if (!hasMagicLink && viewProp === 'confirm_email_signin') {
+    return redirect('/signin/email_signin');
   }
 
   return (
@@ -72,9 +92,13 @@ export default async function SignIn({
               ? 'Reset Password'
               : viewProp === 'update_password'
                 ? 'Update Password'
-                : viewProp === 'signup'
-                  ? 'Sign Up'
-                  : 'Sign In'
+                : viewProp === 'email_code'
+                  ? 'Enter Sign-in Code'
+                  : viewProp === 'two_factor'
+                    ? 'Two-Factor Authentication'
+                    : viewProp === 'signup'
+                      ? 'Sign Up'
+                      : 'Sign In'
           }
         >
           {viewProp === 'password_signin' && (
@@ -90,6 +114,13 @@ export default async function SignIn({
               disableButton={searchParams.disable_button}
             />
           )}
+          {viewProp === 'confirm_email_signin' && <ConfirmEmailSignIn />}
+          {viewProp === 'email_code' && (
+            <EmailCodeSignIn
+              email={searchParams.email ?? ''}
+              redirectMethod={redirectMethod}
+            />
+          )}
           {viewProp === 'forgot_password' && (
             <ForgotPassword
               allowEmail={allowEmail}
@@ -98,13 +129,35 @@ export default async function SignIn({
             />
           )}
           {viewProp === 'update_password' && (
-            <UpdatePassword redirectMethod={redirectMethod} />
+            <UpdatePassword
+              minPasswordLength={minPasswordLength}
+              redirectMethod={redirectMethod}
+            />
           )}
           {viewProp === 'signup' && (
-            <SignUp allowEmail={allowEmail} redirectMethod={redirectMethod} />
+            <SignUp
+              allowEmail={allowEmail}
+              minPasswordLength={minPasswordLength}
+              redirectMethod={redirectMethod}
+            />
           )}
+          {viewProp === 'two_factor' && (
+            <TwoFactorChallenge redirectMethod={redirectMethod} />
+          )}
+          {viewProp !== 'update_password' &&
+            viewProp !== 'signup' &&
+            viewProp !== 'two_factor' &&
+            viewProp !== 'confirm_email_signin' &&
+            allowPasskey && (
+              <>
+                <Separator text="Passkey" />
+                <PasskeySignIn redirectMethod={redirectMethod} />
+              </>
+            )}
           {viewProp !== 'update_password' &&
             viewProp !== 'signup' &&
+            viewProp !== 'two_factor' &&
+            viewProp !== 'confirm_email_signin' &&
             allowOauth && (
               <>
                 <Separator text="Third-party sign-in" />
@@ -0,0 +1,110 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import type { ActiveSession } from '@/lib/sessions';
+import {
+  signOutSession,
+  signOutOtherSessions
+} from '@/utils/auth-helpers/server';
+import { handleRequest } from '@/utils/auth-helpers/client';
+import { describeUserAgent } from '@/utils/helpers';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface Props {
+  sessions: ActiveSession[];
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+export default function ActiveSessions({ sessions }: Props) {
+  const router = useRouter();
+  const [pendingSessionId, setPendingSessionId] = useState<string | null>(
+    null
+  );
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  const handleSubmit = async (
+    e: React.FormEvent<HTMLFormElement>,
+    requestFunc: (formData: FormData) => Promise<string>,
+    sessionId: string
+  ) => {
+    setPendingSessionId(sessionId);
+    await handleRequest(e, requestFunc, router);
+    setPendingSessionId(null);
+  };
+
+  return (
+    <Card
+      title="Active Sessions"
+      description="Devices that are signed in to your account."
+      footer={
+        <div className="flex flex-col items-start justify-between sm:flex-row sm:items-center">
+          <p className="pb-4 sm:pb-0">
+            Sign out anywhere you don&apos;t recognize.
+          </p>
+          {hasOtherSessions && (
+            <form onSubmit={(e) => handleSubmit(e, signOutOtherSessions, 'others')}>
+              <Button
+                variant="slim"
+                type="submit"
+                loading={pendingSessionId === 'others'}
+              >
+                Sign out all other sessions
+              </Button>
+            </form>
+          )}
+        </div>
+      }
+    >
+      {sessions.length === 0 ? (
+        <p className="mt-8 mb-4 text-zinc-300">No active sessions.</p>
+      ) : (
+        <ul className="mt-8 mb-4 divide-y divide-zinc-700">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between py-3"
+            >
+              <div>
+                <p className="font-semibold">
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 text-sm text-zinc-400">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-zinc-400">
+                  {session.ipAddress ?? 'Unknown location'} · Last active{' '}
+                  {formatDateTime(session.lastSeenAt)} · Signed in{' '}
+                  {formatDateTime(session.createdAt)}
+                </p>
+              </div>
+              <form
+                onSubmit={(e) => handleSubmit(e, signOutSession, session.id)}
+              >
+                <input type="hidden" name="sessionId" value={session.id} />
+                <Button
+                  variant="slim"
+                  type="submit"
+                  loading={pendingSessionId === session.id}
+                >
+                  Sign out
+                </Button>
+              </form>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import Link from 'next/link';
+import Card from '@/components/ui/Card';
+import type { BillingHistoryPage } from '@/lib/billing';
+import { formatPrice, getBillingStatus } from '@/utils/subscription-helpers';
+
+interface Props {
+  history: BillingHistoryPage;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export default function BillingHistory({ history }: Props) {
+  const { entries, page, totalPages } = history;
+
+  return (
+    <Card
+      title="Billing History"
+      description="Your invoices, payments and receipts."
+      footer={
+        totalPages > 1 ? (
+          <div className="flex items-center justify-between">
+            {page > 1 ? (
+              <Link href={`?billing_page=${page - 1}`} className="text-white">
+                ← Newer
+              </Link>
+            ) : (
+              <span />
+            )}
+            <p>
+              Page {page} of {totalPages}
+            </p>
+            {page < totalPages ? (
+              <Link href={`?billing_page=${page + 1}`} className="text-white">
+                Older →
+              </Link>
+            ) : (
+              <span />
+            )}
+          </div>
+        ) : undefined
+      }
+    >
+      {entries.length === 0 ? (
+        <p className="mt-8 mb-4 text-zinc-300">No invoices or payments yet.</p>
+      ) : (
+        <div className="mt-8 mb-4 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-zinc-400">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Period</th>
+                <th className="py-2 pr-4 font-medium">Amount</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium">Documents</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-t border-zinc-700">
+                  <td className="py-2 pr-4">{formatDate(entry.created)}</td>
+                  <td className="py-2 pr-4">
+                    {entry.periodStart && entry.periodEnd
+                      ? `${formatDate(entry.periodStart)} – ${formatDate(entry.periodEnd)}`
+                      : '—'}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {formatPrice(entry.amount, entry.currency)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {getBillingStatus(
+                      entry.status,
+                      entry.amount,
+                      entry.amountRefunded
+                    )}
+                  </td>
+                  <td className="py-2 space-x-3">
+                    {entry.hostedUrl && (
+                      <a
+                        href={entry.hostedUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                      >
+                        {entry.kind === 'invoice' ? 'View invoice' : 'Receipt'}
+                      </a>
+                    )}
+                    {entry.pdfUrl && (
+                      <a
+                        href={entry.pdfUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                      >
+                        Download PDF
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -6,7 +6,13 @@ import { useState } from 'react';
 import { createStripePortal } from '@/utils/stripe/server';
 import Link from 'next/link';
 import Card from '@/components/ui/Card';
+import SubscriptionActions from '@/components/ui/AccountForms/SubscriptionActions';
+import {
+  getSubscriptionStatus,
+  willCancelAtPeriodEnd
+} from '@/utils/subscription-helpers';
 import { Tables } from '@/types_db';
+import type { LifetimePurchase } from '@/lib/purchases';
 
 type Subscription = Tables<'subscriptions'>;
 type Price = Tables<'prices'>;
@@ -22,9 +28,26 @@ type SubscriptionWithPriceAndProduct = Subscription & {
 
 interface Props {
   subscription: SubscriptionWithPriceAndProduct | null;
+  purchases?: LifetimePurchase[];
+  /** Set when managing an organization's seat-based plan */
+  organizationName?: string;
+  /** False for organization members who may not manage billing */
+  canManageBilling?: boolean;
 }
 
-export default function CustomerPortalForm({ subscription }: Props) {
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export default function CustomerPortalForm({
+  subscription,
+  purchases = [],
+  organizationName,
+  canManageBilling = true
+}: Props) {
   const router = useRouter();
   const currentPath = usePathname();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -37,6 +60,8 @@ export default function CustomerPortalForm({ subscription }: Props) {
       minimumFractionDigits: 0
     }).format((subscription?.prices?.unit_amount || 0) / 100);
 
+  const lifetimePurchase = subscription ? null : purchases[0];
+
   const handleStripePortalRequest = async () => {
     setIsSubmitting(true);
     const redirectUrl = await createStripePortal(currentPath);
@@ -48,30 +73,61 @@ export default function CustomerPortalForm({ subscription }: Props) {
     <Card
       title="Your Plan"
       description={
-        subscription
-          ? `You are currently on the ${subscription?.prices?.products?.name} plan.`
-          : 'You are not currently subscribed to any plan.'
+        organizationName
+          ? subscription
+            ? `${organizationName} is on the ${subscription?.prices?.products?.name} plan.`
+            : `${organizationName} is not subscribed to any plan.`
+          : subscription
+            ? `You are currently on the ${subscription?.prices?.products?.name} plan.`
+            : lifetimePurchase
+              ? `You have lifetime access to the ${lifetimePurchase.product_name} plan.`
+              : 'You are not currently subscribed to any plan.'
       }
       footer={
-        <div className="flex flex-col items-start justify-between sm:flex-row sm:items-center">
-          <p className="pb-4 sm:pb-0">Manage your subscription on Stripe.</p>
-          <Button
-            variant="slim"
-            onClick={handleStripePortalRequest}
-            loading={isSubmitting}
-          >
-            Open customer portal
-          </Button>
-        </div>
+        canManageBilling ? (
+          <div className="flex flex-col items-start justify-between sm:flex-row sm:items-center">
+            <p className="pb-4 sm:pb-0">Update your payment method and billing details on Stripe.</p>
+            <Button
+              variant="slim"
+              onClick={handleStripePortalRequest}
+              loading={isSubmitting}
+            >
+              Open customer portal
+            </Button>
+          </div>
+        ) : (
+          <p>Ask an owner or billing admin to change the plan.</p>
+        )
       }
     >
       <div className="mt-8 mb-4 text-xl font-semibold">
         {subscription ? (
-          `${subscriptionPrice}/${subscription?.prices?.interval}`
+          organizationName ? (
+            `${subscriptionPrice}/${subscription?.prices?.interval} per seat × ${subscription.quantity ?? 1}`
+          ) : (
+            `${subscriptionPrice}/${subscription?.prices?.interval}`
+          )
+        ) : lifetimePurchase ? (
+          'Lifetime access'
         ) : (
           <Link href="/">Choose your plan</Link>
         )}
       </div>
+      {subscription && (
+        <p className="mb-4 text-zinc-300">
+          {getSubscriptionStatus(subscription.status)}
+          {willCancelAtPeriodEnd(subscription) && subscription.current_period_end
+            ? ` · Cancels on ${formatDate(subscription.current_period_end)}`
+            : subscription.status === 'paused'
+              ? ' · Payments are paused until you resume'
+              : ''}
+        </p>
+      )}
+      {subscription && canManageBilling && (
+        <div className="mb-4">
+          <SubscriptionActions subscription={subscription} />
+        </div>
+      )}
     </Card>
   );
 }
@@ -2,18 +2,32 @@
 
 import Button from '@/components/ui/Button';
 import Card from '@/components/ui/Card';
-import { updateEmail } from '@/utils/auth-helpers/server';
+import {
+  resendVerificationEmail,
+  updateEmail
+} from '@/utils/auth-helpers/server';
 import { handleRequest } from '@/utils/auth-helpers/client';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 
 export default function EmailForm({
-  userEmail
+  userEmail,
+  emailVerified,
+  pendingEmail
 }: {
   userEmail: string | undefined;
+  emailVerified: boolean;
+  pendingEmail: string | null;
 }) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  const handleResend = async (e: React.FormEvent<HTMLFormElement>) => {
+    setIsResending(true);
+    await handleRequest(e, resendVerificationEmail, router);
+    setIsResending(false);
+  };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     setIsSubmitting(true);
@@ -34,16 +48,28 @@ export default function EmailForm({
       footer={
         <div className="flex flex-col items-start justify-between sm:flex-row sm:items-center">
           <p className="pb-4 sm:pb-0">
-            We will email you to verify the change.
+            {!emailVerified
+              ? 'Verify your email address to change it or to subscribe.'
+              : pendingEmail
+                ? `Open the link we sent to ${pendingEmail} to switch to it.`
+                : 'We will email you to verify the change.'}
           </p>
-          <Button
-            variant="slim"
-            type="submit"
-            form="emailForm"
-            loading={isSubmitting}
-          >
-            Update Email
-          </Button>
+          {emailVerified ? (
+            <Button
+              variant="slim"
+              type="submit"
+              form="emailForm"
+              loading={isSubmitting}
+            >
+              Update Email
+            </Button>
+          ) : (
+            <form onSubmit={(e) => handleResend(e)}>
+              <Button variant="slim" type="submit" loading={isResending}>
+                Resend verification email
+              </Button>
+            </form>
+          )}
         </div>
       }
     >
@@ -0,0 +1,158 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import type {
+  Invitation,
+  Organization,
+  OrganizationRole
+} from '@/lib/organizations';
+import {
+  acceptInvitation,
+  createOrganization,
+  declineInvitation,
+  switchOrganization
+} from '@/utils/auth-helpers/server';
+import { handleRequest } from '@/utils/auth-helpers/client';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface Props {
+  organizations: Organization[];
+  currentOrganization: Organization | null;
+  invitations: Invitation[];
+}
+
+const ROLE_NAMES: Record<OrganizationRole, string> = {
+  owner: 'an owner',
+  billing_admin: 'a billing admin',
+  member: 'a member'
+};
+
+export default function OrganizationSwitcher({
+  organizations,
+  currentOrganization,
+  invitations
+}: Props) {
+  const router = useRouter();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleSubmit = async (
+    e: React.FormEvent<HTMLFormElement>,
+    requestFunc: (formData: FormData) => Promise<string>,
+    id: string
+  ) => {
+    setPendingId(id);
+    await handleRequest(e, requestFunc, router);
+    setPendingId(null);
+  };
+
+  return (
+    <Card
+      title="Organization"
+      description={
+        currentOrganization
+          ? `You are managing ${currentOrganization.name}. Its plan is shared by every member and billed per seat.`
+          : 'You are managing your personal account. Create an organization to share a plan with your team.'
+      }
+      footer={
+        <form
+          className="flex flex-col items-start justify-between gap-4 sm:flex-row sm:items-center"
+          onSubmit={(e) => handleSubmit(e, createOrganization, 'create')}
+        >
+          <input
+            type="text"
+            name="name"
+            className="w-full p-3 rounded-md bg-zinc-800 sm:w-1/2"
+            placeholder="New organization name"
+            maxLength={64}
+          />
+          <Button
+            variant="slim"
+            type="submit"
+            loading={pendingId === 'create'}
+          >
+            Create organization
+          </Button>
+        </form>
+      }
+    >
+      {organizations.length > 0 && (
+        <form
+          className="flex items-center gap-4 mt-8 mb-4"
+          onSubmit={(e) => handleSubmit(e, switchOrganization, 'switch')}
+        >
+          <select
+            name="organizationId"
+            defaultValue={currentOrganization?.id ?? ''}
+            className="w-1/2 p-3 rounded-md bg-zinc-800"
+          >
+            <option value="">Personal account</option>
+            {organizations.map((organization) => (
+              <option key={organization.id} value={organization.id}>
+                {organization.name}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="slim"
+            type="submit"
+            loading={pendingId === 'switch'}
+          >
+            Switch
+          </Button>
+        </form>
+      )}
+      {invitations.length > 0 && (
+        <ul className="mt-4 mb-4 divide-y divide-zinc-700">
+          {invitations.map((invitation) => (
+            <li
+              key={invitation.id}
+              className="flex items-center justify-between py-3"
+            >
+              <div>
+                <p className="font-semibold">
+                  Join {invitation.organizationName}
+                </p>
+                <p className="text-sm text-zinc-400">
+                  Invited by {invitation.invitedByEmail ?? 'a former member'} as{' '}
+                  {ROLE_NAMES[invitation.role]}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <form
+                  onSubmit={(e) =>
+                    handleSubmit(e, acceptInvitation, `accept-${invitation.id}`)
+                  }
+                >
+                  <input type="hidden" name="invitationId" value={invitation.id} />
+                  <Button
+                    variant="slim"
+                    type="submit"
+                    loading={pendingId === `accept-${invitation.id}`}
+                  >
+                    Accept
+                  </Button>
+                </form>
+                <form
+                  onSubmit={(e) =>
+                    handleSubmit(e, declineInvitation, `decline-${invitation.id}`)
+                  }
+                >
+                  <input type="hidden" name="invitationId" value={invitation.id} />
+                  <Button
+                    variant="slim"
+                    type="submit"
+                    loading={pendingId === `decline-${invitation.id}`}
+                  >
+                    Decline
+                  </Button>
+                </form>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import type { Passkey } from '@/lib/webauthn';
+import { removePasskey } from '@/utils/auth-helpers/server';
+import { handleRequest, registerPasskey } from '@/utils/auth-helpers/client';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface Props {
+  passkeys: Passkey[];
+  /** Whether adding a passkey asks for the current password */
+  hasPassword: boolean;
+  /** Whether adding a passkey asks for an authentication code */
+  twoFactorEnabled: boolean;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export default function Passkeys({
+  passkeys,
+  hasPassword,
+  twoFactorEnabled
+}: Props) {
+  const router = useRouter();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    setPendingId('new');
+    await registerPasskey(e, router);
+    setPendingId(null);
+  };
+
+  const handleRemove = async (
+    e: React.FormEvent<HTMLFormElement>,
+    passkeyId: string
+  ) => {
+    setPendingId(passkeyId);
+    await handleRequest(e, removePasskey, router);
+    setPendingId(null);
+  };
+
+  return (
+    <Card
+      title="Passkeys"
+      description="Sign in with your fingerprint, face or device PIN instead of a password."
+      footer={
+        <div className="flex flex-col items-start justify-between sm:flex-row sm:items-center">
+          <p className="pb-4 sm:pb-0">
+            Passkeys stay on your device or password manager.
+          </p>
+          <Button
+            variant="slim"
+            type="submit"
+            form="passkeyAddForm"
+            loading={pendingId === 'new'}
+          >
+            Add a passkey
+          </Button>
+        </div>
+      }
+    >
+      <form
+        id="passkeyAddForm"
+        className="flex flex-col gap-2 mt-8"
+        onSubmit={(e) => handleAdd(e)}
+      >
+        <input
+          type="text"
+          name="name"
+          className="w-1/2 p-3 rounded-md bg-zinc-800"
+          placeholder="Name, e.g. Work laptop"
+          maxLength={64}
+        />
+        {hasPassword && (
+          <input
+            type="password"
+            name="password"
+            autoComplete="current-password"
+            className="w-1/2 p-3 rounded-md bg-zinc-800"
+            placeholder="Current password"
+          />
+        )}
+        {twoFactorEnabled && (
+          <input
+            type="text"
+            name="code"
+            autoComplete="one-time-code"
+            className="w-1/2 p-3 rounded-md bg-zinc-800"
+            placeholder="Authentication or recovery code"
+          />
+        )}
+      </form>
+      {passkeys.length === 0 ? (
+        <p className="mt-4 mb-4 text-zinc-300">No passkeys yet.</p>
+      ) : (
+        <ul className="mt-4 mb-4 divide-y divide-zinc-700">
+          {passkeys.map((passkey) => (
+            <li
+              key={passkey.id}
+              className="flex items-center justify-between py-3"
+            >
+              <div>
+                <p className="font-semibold">{passkey.name}</p>
+                <p className="text-sm text-zinc-400">
+                  Added {formatDate(passkey.createdAt)} ·{' '}
+                  {passkey.lastUsedAt
+                    ? `Last used ${formatDate(passkey.lastUsedAt)}`
+                    : 'Never used'}
+                </p>
+              </div>
+              <form onSubmit={(e) => handleRemove(e, passkey.id)}>
+                <input type="hidden" name="passkeyId" value={passkey.id} />
+                <Button
+                  variant="slim"
+                  type="submit"
+                  loading={pendingId === passkey.id}
+                >
+                  Remove
+                </Button>
+              </form>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
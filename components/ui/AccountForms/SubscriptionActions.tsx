@@ -0,0 +1,217 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import type { RetentionOfferSummary } from '@/lib/retention-offers';
+import type { CancellationReason } from '@/lib/subscription-lifecycle';
+import {
+  acceptRetentionOffer,
+  cancelSubscription,
+  getRetentionOffers,
+  pauseSubscription,
+  resumeSubscription
+} from '@/utils/stripe/server';
+import { handleRequest } from '@/utils/auth-helpers/client';
+import { willCancelAtPeriodEnd } from '@/utils/subscription-helpers';
+import { Tables } from '@/types_db';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+type Subscription = Tables<'subscriptions'>;
+
+interface Props {
+  subscription: Subscription;
+}
+
+const REASON_LABELS: Record<CancellationReason, string> = {
+  too_expensive: 'It is too expensive',
+  missing_features: 'Some features are missing',
+  switched_service: 'I switched to another service',
+  unused: 'I do not use it enough',
+  customer_service: 'Customer service was not good enough',
+  too_complex: 'It is too complicated',
+  low_quality: 'The quality was not good enough',
+  other: 'Something else'
+};
+
+export default function SubscriptionActions({ subscription }: Props) {
+  const router = useRouter();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [showSurvey, setShowSurvey] = useState(false);
+  // Survey answers kept while retention offers are shown
+  const [survey, setSurvey] = useState<FormData | null>(null);
+  const [offers, setOffers] = useState<RetentionOfferSummary[]>([]);
+
+  const handleSubmit = async (
+    e: React.FormEvent<HTMLFormElement>,
+    requestFunc: (formData: FormData) => Promise<string>,
+    action: string
+  ) => {
+    setPendingAction(action);
+    await handleRequest(e, requestFunc, router);
+    setPendingAction(null);
+    setShowSurvey(false);
+    setSurvey(null);
+  };
+
+  const cancel = async (formData: FormData) => {
+    setPendingAction('cancel');
+    const redirectUrl = await cancelSubscription(formData);
+    setPendingAction(null);
+    setShowSurvey(false);
+    setSurvey(null);
+    return router.push(redirectUrl);
+  };
+
+  // Show any retention offers for the reason before canceling
+  const handleSurveySubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    setPendingAction('cancel');
+    const result = await getRetentionOffers(String(formData.get('reason')));
+    if (result.errorRedirect) {
+      setPendingAction(null);
+      return router.push(result.errorRedirect);
+    }
+    if (result.offers && result.offers.length > 0 && result.offerToken) {
+      // Canceling from the offers records them as declined
+      formData.set('offerToken', result.offerToken);
+      setPendingAction(null);
+      setOffers(result.offers);
+      setSurvey(formData);
+      return;
+    }
+
+    return cancel(formData);
+  };
+
+  if (subscription.status === 'paused' || willCancelAtPeriodEnd(subscription)) {
+    return (
+      <form onSubmit={(e) => handleSubmit(e, resumeSubscription, 'resume')}>
+        <Button variant="slim" type="submit" loading={pendingAction === 'resume'}>
+          Resume subscription
+        </Button>
+      </form>
+    );
+  }
+
+  if (survey) {
+    return (
+      <div className="flex flex-col gap-4">
+        <p>Before you go, would one of these help?</p>
+        <ul className="flex flex-col gap-2">
+          {offers.map((offer) => (
+            <li
+              key={offer.id}
+              className="flex flex-col items-start justify-between gap-2 p-3 border rounded-md border-zinc-700 sm:flex-row sm:items-center"
+            >
+              <div>
+                <p className="font-semibold">{offer.title}</p>
+                <p className="text-sm text-zinc-400">{offer.description}</p>
+              </div>
+              <form
+                onSubmit={(e) =>
+                  handleSubmit(e, acceptRetentionOffer, `offer-${offer.id}`)
+                }
+              >
+                <input type="hidden" name="offerId" value={offer.id} />
+                <input
+                  type="hidden"
+                  name="offerToken"
+                  value={String(survey.get('offerToken'))}
+                />
+                <Button
+                  variant="slim"
+                  type="submit"
+                  loading={pendingAction === `offer-${offer.id}`}
+                  disabled={pendingAction !== null}
+                >
+                  Accept offer
+                </Button>
+              </form>
+            </li>
+          ))}
+        </ul>
+        <div>
+          <Button
+            variant="slim"
+            type="button"
+            onClick={() => cancel(survey)}
+            loading={pendingAction === 'cancel'}
+            disabled={pendingAction !== null}
+          >
+            No thanks, cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (showSurvey) {
+    return (
+      <form className="flex flex-col gap-4" onSubmit={handleSurveySubmit}>
+        <label className="flex flex-col gap-2">
+          <span>Why are you canceling?</span>
+          <select
+            name="reason"
+            required
+            defaultValue=""
+            className="p-2 rounded-md bg-zinc-800"
+          >
+            <option value="" disabled>
+              Choose a reason
+            </option>
+            {(Object.keys(REASON_LABELS) as CancellationReason[]).map((reason) => (
+              <option key={reason} value={reason}>
+                {REASON_LABELS[reason]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <textarea
+          name="comment"
+          maxLength={1000}
+          rows={3}
+          className="p-3 rounded-md bg-zinc-800"
+          placeholder="Anything else we should know? (optional)"
+        />
+        <fieldset className="flex flex-col gap-2">
+          <label className="flex items-center gap-2">
+            <input type="radio" name="mode" value="period_end" defaultChecked />
+            Cancel at the end of the billing period
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" name="mode" value="immediate" />
+            Cancel now and lose access immediately
+          </label>
+        </fieldset>
+        <div className="flex gap-2">
+          <Button
+            variant="slim"
+            type="button"
+            onClick={() => setShowSurvey(false)}
+            disabled={pendingAction === 'cancel'}
+          >
+            Keep subscription
+          </Button>
+          <Button variant="slim" type="submit" loading={pendingAction === 'cancel'}>
+            Cancel subscription
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <form onSubmit={(e) => handleSubmit(e, pauseSubscription, 'pause')}>
+        <Button variant="slim" type="submit" loading={pendingAction === 'pause'}>
+          Pause payments
+        </Button>
+      </form>
+      <Button variant="slim" type="button" onClick={() => setShowSurvey(true)}>
+        Cancel subscription
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import type {
+  Invitation,
+  Organization,
+  OrganizationMember,
+  OrganizationRole
+} from '@/lib/organizations';
+import {
+  inviteMember,
+  removeMember,
+  resendInvitation,
+  revokeInvitation,
+  updateMemberRole
+} from '@/utils/auth-helpers/server';
+import { handleRequest } from '@/utils/auth-helpers/client';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface Props {
+  organization: Organization;
+  members: OrganizationMember[];
+  invitations: Invitation[];
+  currentUserId: string;
+  /** Whether the user may invite, remove and change the role of members */
+  canManageMembers: boolean;
+  /** Seats on the organization's subscription, or null without one */
+  seats: number | null;
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  billing_admin: 'Billing admin',
+  member: 'Member'
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+function RoleSelect({ defaultValue }: { defaultValue: OrganizationRole }) {
+  return (
+    <select
+      name="role"
+      defaultValue={defaultValue}
+      className="p-2 rounded-md bg-zinc-800"
+    >
+      {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map((role) => (
+        <option key={role} value={role}>
+          {ROLE_LABELS[role]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function TeamMembers({
+  organization,
+  members,
+  invitations,
+  currentUserId,
+  canManageMembers,
+  seats
+}: Props) {
+  const router = useRouter();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleSubmit = async (
+    e: React.FormEvent<HTMLFormElement>,
+    requestFunc: (formData: FormData) => Promise<string>,
+    id: string
+  ) => {
+    setPendingId(id);
+    await handleRequest(e, requestFunc, router);
+    setPendingId(null);
+  };
+
+  return (
+    <Card
+      title="Team Members"
+      description={
+        seats === null
+          ? `${members.length} ${members.length === 1 ? 'member' : 'members'}. Subscribe to a plan to share it with everyone.`
+          : `${members.length} ${members.length === 1 ? 'member' : 'members'} on ${seats} billed ${seats === 1 ? 'seat' : 'seats'}. Seats follow the member count.`
+      }
+      footer={
+        canManageMembers ? (
+          <form
+            className="flex flex-col items-start justify-between gap-4 sm:flex-row sm:items-center"
+            onSubmit={(e) => handleSubmit(e, inviteMember, 'invite')}
+          >
+            <input type="hidden" name="organizationId" value={organization.id} />
+            <input
+              type="email"
+              name="email"
+              className="w-full p-3 rounded-md bg-zinc-800 sm:w-1/2"
+              placeholder="teammate@example.com"
+              autoCapitalize="none"
+              autoCorrect="off"
+            />
+            <RoleSelect defaultValue="member" />
+            <Button
+              variant="slim"
+              type="submit"
+              loading={pendingId === 'invite'}
+            >
+              Invite
+            </Button>
+          </form>
+        ) : (
+          <p>Ask an owner to invite more people.</p>
+        )
+      }
+    >
+      <ul className="mt-8 mb-4 divide-y divide-zinc-700">
+        {members.map((member) => (
+          <li
+            key={member.userId}
+            className="flex items-center justify-between py-3"
+          >
+            <div>
+              <p className="font-semibold">
+                {member.fullName || member.email}
+                <span className="ml-2 text-sm text-zinc-400">
+                  {ROLE_LABELS[member.role]}
+                </span>
+              </p>
+              <p className="text-sm text-zinc-400">
+                {member.email} · Joined {formatDate(member.joinedAt)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {canManageMembers && (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) =>
+                    handleSubmit(e, updateMemberRole, `role-${member.userId}`)
+                  }
+                >
+                  <input type="hidden" name="organizationId" value={organization.id} />
+                  <input type="hidden" name="userId" value={member.userId} />
+                  <RoleSelect defaultValue={member.role} />
+                  <Button
+                    variant="slim"
+                    type="submit"
+                    loading={pendingId === `role-${member.userId}`}
+                  >
+                    Save
+                  </Button>
+                </form>
+              )}
+              {(canManageMembers || member.userId === currentUserId) && (
+                <form
+                  onSubmit={(e) => handleSubmit(e, removeMember, member.userId)}
+                >
+                  <input type="hidden" name="organizationId" value={organization.id} />
+                  <input type="hidden" name="userId" value={member.userId} />
+                  <Button
+                    variant="slim"
+                    type="submit"
+                    loading={pendingId === member.userId}
+                  >
+                    {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                  </Button>
+                </form>
+              )}
+            </div>
+          </li>
+        ))}
+        {invitations.map((invitation) => {
+          const expired = new Date(invitation.expiresAt) <= new Date();
+
+          return (
+            <li
+              key={invitation.id}
+              className="flex items-center justify-between py-3"
+            >
+              <div>
+                <p className="font-semibold">
+                  {invitation.email}
+                  <span className="ml-2 text-sm text-zinc-400">
+                    {ROLE_LABELS[invitation.role]}
+                  </span>
+                </p>
+                <p className="text-sm text-zinc-400">
+                  {expired
+                    ? `Invitation expired ${formatDate(invitation.expiresAt)}`
+                    : `Invited ${formatDate(invitation.createdAt)} · Expires ${formatDate(invitation.expiresAt)}`}
+                </p>
+              </div>
+              {canManageMembers && (
+                <div className="flex gap-2">
+                  <form
+                    onSubmit={(e) =>
+                      handleSubmit(e, resendInvitation, `resend-${invitation.id}`)
+                    }
+                  >
+                    <input type="hidden" name="organizationId" value={organization.id} />
+                    <input type="hidden" name="invitationId" value={invitation.id} />
+                    <Button
+                      variant="slim"
+                      type="submit"
+                      loading={pendingId === `resend-${invitation.id}`}
+                    >
+                      Resend
+                    </Button>
+                  </form>
+                  <form
+                    onSubmit={(e) =>
+                      handleSubmit(e, revokeInvitation, invitation.id)
+                    }
+                  >
+                    <input type="hidden" name="organizationId" value={organization.id} />
+                    <input type="hidden" name="invitationId" value={invitation.id} />
+                    <Button
+                      variant="slim"
+                      type="submit"
+                      loading={pendingId === invitation.id}
+                    >
+                      Withdraw
+                    </Button>
+                  </form>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+}
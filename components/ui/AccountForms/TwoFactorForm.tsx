@@ -0,0 +1,199 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Card from '@/components/ui/Card';
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  startTwoFactorSetup
+} from '@/utils/auth-helpers/server';
+import { handleRequest } from '@/utils/auth-helpers/client';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface Props {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  hasPassword: boolean;
+}
+
+export default function TwoFactorForm({
+  enabled,
+  recoveryCodesRemaining,
+  hasPassword
+}: Props) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [setup, setSetup] = useState<{
+    secret: string;
+    otpauthUri: string;
+  } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+    const { errorRedirect, secret, otpauthUri } = await startTwoFactorSetup();
+    setIsSubmitting(false);
+
+    if (errorRedirect || !secret || !otpauthUri) {
+      return router.push(errorRedirect ?? '/account');
+    }
+
+    setSetup({ secret, otpauthUri });
+  };
+
+  const handleConfirm = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const { errorRedirect, recoveryCodes } = await confirmTwoFactorSetup(
+      new FormData(e.currentTarget)
+    );
+    setIsSubmitting(false);
+
+    if (errorRedirect || !recoveryCodes) {
+      return router.push(errorRedirect ?? '/account');
+    }
+
+    setSetup(null);
+    setRecoveryCodes(recoveryCodes);
+  };
+
+  const handleDisable = async (e: React.FormEvent<HTMLFormElement>) => {
+    setIsSubmitting(true);
+    await handleRequest(e, disableTwoFactor, router);
+    setIsSubmitting(false);
+  };
+
+  // Shown once, right after enabling
+  if (recoveryCodes) {
+    return (
+      <Card
+        title="Two-Factor Authentication"
+        description="Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app. They will not be shown again."
+        footer={
+          <div className="flex justify-end">
+            <Button variant="slim" onClick={() => router.refresh()}>
+              I have saved my codes
+            </Button>
+          </div>
+        }
+      >
+        <ul className="grid grid-cols-2 gap-2 mt-8 mb-4 font-mono text-lg">
+          {recoveryCodes.map((code) => (
+            <li key={code}>{code}</li>
+          ))}
+        </ul>
+      </Card>
+    );
+  }
+
+  if (setup) {
+    return (
+      <Card
+        title="Two-Factor Authentication"
+        description="Add this account to your authenticator app, then enter the 6-digit code it shows."
+        footer={
+          <div className="flex justify-end">
+            <Button
+              variant="slim"
+              type="submit"
+              form="twoFactorConfirmForm"
+              loading={isSubmitting}
+            >
+              Enable
+            </Button>
+          </div>
+        }
+      >
+        <div className="mt-8 mb-4">
+          <p className="mb-2">
+            <a href={setup.otpauthUri} className="underline">
+              Open in your authenticator app
+            </a>{' '}
+            or enter this key by hand:
+          </p>
+          <p className="mb-4 font-mono text-lg break-all">{setup.secret}</p>
+          <form id="twoFactorConfirmForm" onSubmit={(e) => handleConfirm(e)}>
+            <input
+              type="text"
+              name="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className="w-1/2 p-3 rounded-md bg-zinc-800"
+              placeholder="123456"
+              maxLength={6}
+            />
+          </form>
+        </div>
+      </Card>
+    );
+  }
+
+  if (!enabled) {
+    return (
+      <Card
+        title="Two-Factor Authentication"
+        description="Ask for a code from an authenticator app when you sign in."
+        footer={
+          <div className="flex flex-col items-start justify-between sm:flex-row sm:items-center">
+            <p className="pb-4 sm:pb-0">Two-factor authentication is off.</p>
+            <Button variant="slim" onClick={handleStart} loading={isSubmitting}>
+              Set up
+            </Button>
+          </div>
+        }
+      >
+        <div className="mt-8 mb-4" />
+      </Card>
+    );
+  }
+
+  return (
+    <Card
+      title="Two-Factor Authentication"
+      description={`Sign-in asks for a code from your authenticator app. ${
+        recoveryCodesRemaining === 1
+          ? '1 recovery code left.'
+          : `${recoveryCodesRemaining} recovery codes left.`
+      }`}
+      footer={
+        <div className="flex flex-col items-start justify-between sm:flex-row sm:items-center">
+          <p className="pb-4 sm:pb-0">
+            Confirm it&apos;s you to turn two-factor authentication off.
+          </p>
+          <Button
+            variant="slim"
+            type="submit"
+            form="twoFactorDisableForm"
+            loading={isSubmitting}
+          >
+            Turn off
+          </Button>
+        </div>
+      }
+    >
+      <form
+        id="twoFactorDisableForm"
+        className="grid gap-2 mt-8 mb-4"
+        onSubmit={(e) => handleDisable(e)}
+      >
+        {hasPassword && (
+          <input
+            type="password"
+            name="password"
+            autoComplete="current-password"
+            className="w-1/2 p-3 rounded-md bg-zinc-800"
+            placeholder="Current password"
+          />
+        )}
+        <input
+          type="text"
+          name="code"
+          autoComplete="one-time-code"
+          className="w-1/2 p-3 rounded-md bg-zinc-800"
+          placeholder="Authentication or recovery code"
+        />
+      </form>
+    </Card>
+  );
+}
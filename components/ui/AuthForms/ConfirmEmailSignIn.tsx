@@ -0,0 +1,38 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Link from 'next/link';
+import { useState } from 'react';
+
+export default function ConfirmEmailSignIn() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A plain form post, so the route handler can set cookies and redirect
+  return (
+    <div className="my-8">
+      <form
+        action="/auth/callback"
+        method="post"
+        className="mb-4"
+        onSubmit={() => setIsSubmitting(true)}
+      >
+        <div className="grid gap-2">
+          <p>Continue to sign in with the link from your email.</p>
+          <Button
+            variant="slim"
+            type="submit"
+            className="mt-1"
+            loading={isSubmitting}
+          >
+            Sign in
+          </Button>
+        </div>
+      </form>
+      <p>
+        <Link href="/signin/email_signin" className="font-light text-sm">
+          Send a new link
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Link from 'next/link';
+import { signInWithEmailCode } from '@/utils/auth-helpers/server';
+import { handleRequest } from '@/utils/auth-helpers/client';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface EmailCodeSignInProps {
+  email: string;
+  redirectMethod: string;
+}
+
+export default function EmailCodeSignIn({
+  email,
+  redirectMethod
+}: EmailCodeSignInProps) {
+  const router = redirectMethod === 'client' ? useRouter() : null;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    setIsSubmitting(true); // Disable the button while the request is being handled
+    await handleRequest(e, signInWithEmailCode, router);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="my-8">
+      <form
+        noValidate={true}
+        className="mb-4"
+        onSubmit={(e) => handleSubmit(e)}
+      >
+        <div className="grid gap-2">
+          <div className="grid gap-1">
+            <label htmlFor="email">Email</label>
+            <input
+              id="email"
+              placeholder="name@example.com"
+              type="email"
+              name="email"
+              defaultValue={email}
+              autoCapitalize="none"
+              autoComplete="email"
+              autoCorrect="off"
+              className="w-full p-3 rounded-md bg-zinc-800"
+            />
+            <label htmlFor="code">Sign-in code</label>
+            <input
+              id="code"
+              placeholder="123456"
+              type="text"
+              name="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              className="w-full p-3 rounded-md bg-zinc-800"
+            />
+          </div>
+          <Button
+            variant="slim"
+            type="submit"
+            className="mt-1"
+            loading={isSubmitting}
+          >
+            Sign in
+          </Button>
+        </div>
+      </form>
+      <p>
+        <Link href="/signin/email_signin" className="font-light text-sm">
+          Send a new code
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -2,12 +2,11 @@
 
 import Button from '@/components/ui/Button';
 import { signInWithOAuth } from '@/utils/auth-helpers/client';
-import { type Provider } from '@supabase/supabase-js';
 import { Github } from 'lucide-react';
 import { useState } from 'react';
 
 type OAuthProviders = {
-  name: Provider;
+  name: string;
   displayName: string;
   icon: JSX.Element;
 };
@@ -19,7 +18,7 @@ export default function OauthSignIn() {
       displayName: 'GitHub',
       icon: <Github className="h-5 w-5" />
     }
-    /* Add desired OAuth providers here */
+    /* Add providers configured in lib/oauth.ts here */
   ];
   const [isSubmitting, setIsSubmitting] = useState(false);
 
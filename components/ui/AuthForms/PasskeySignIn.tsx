@@ -0,0 +1,38 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import { signInWithPasskey } from '@/utils/auth-helpers/client';
+import { KeyRound } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface PasskeySignInProps {
+  redirectMethod: string;
+}
+
+export default function PasskeySignIn({ redirectMethod }: PasskeySignInProps) {
+  const router = redirectMethod === 'client' ? useRouter() : null;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleClick = async () => {
+    setIsSubmitting(true); // Disable the button while the request is being handled
+    await signInWithPasskey(router);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="mt-8">
+      <Button
+        variant="slim"
+        className="w-full"
+        onClick={handleClick}
+        loading={isSubmitting}
+      >
+        <span className="mr-2">
+          <KeyRound className="h-5 w-5" />
+        </span>
+        <span>Sign in with a passkey</span>
+      </Button>
+    </div>
+  );
+}
@@ -11,10 +11,15 @@ import { useState } from 'react';
 // Define prop type with allowEmail boolean
 interface SignUpProps {
   allowEmail: boolean;
+  minPasswordLength: number;
   redirectMethod: string;
 }
 
-export default function SignUp({ allowEmail, redirectMethod }: SignUpProps) {
+export default function SignUp({
+  allowEmail,
+  minPasswordLength,
+  redirectMethod
+}: SignUpProps) {
   const router = redirectMethod === 'client' ? useRouter() : null;
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -50,9 +55,14 @@ export default function SignUp({ allowEmail, redirectMethod }: SignUpProps) {
               placeholder="Password"
               type="password"
               name="password"
-              autoComplete="current-password"
+              autoComplete="new-password"
+              aria-describedby="password-hint"
               className="w-full p-3 rounded-md bg-zinc-800"
             />
+            <p id="password-hint" className="text-sm text-zinc-400">
+              At least {minPasswordLength} characters. Avoid common passwords and
+              anything based on your name or email.
+            </p>
           </div>
           <Button
             variant="slim"
@@ -0,0 +1,69 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import Link from 'next/link';
+import { signInWithTwoFactor } from '@/utils/auth-helpers/server';
+import { handleRequest } from '@/utils/auth-helpers/client';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface TwoFactorChallengeProps {
+  redirectMethod: string;
+}
+
+export default function TwoFactorChallenge({
+  redirectMethod
+}: TwoFactorChallengeProps) {
+  const router = redirectMethod === 'client' ? useRouter() : null;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    setIsSubmitting(true); // Disable the button while the request is being handled
+    await handleRequest(e, signInWithTwoFactor, router);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="my-8">
+      <form
+        noValidate={true}
+        className="mb-4"
+        onSubmit={(e) => handleSubmit(e)}
+      >
+        <div className="grid gap-2">
+          <div className="grid gap-1">
+            <label htmlFor="code">Authentication code</label>
+            <input
+              id="code"
+              placeholder="123456"
+              type="text"
+              name="code"
+              autoCapitalize="none"
+              autoComplete="one-time-code"
+              autoCorrect="off"
+              autoFocus
+              className="w-full p-3 rounded-md bg-zinc-800"
+            />
+            <p className="text-sm text-zinc-400">
+              Enter the code from your authenticator app, or one of your
+              recovery codes.
+            </p>
+          </div>
+          <Button
+            variant="slim"
+            type="submit"
+            className="mt-1"
+            loading={isSubmitting}
+          >
+            Verify
+          </Button>
+        </div>
+      </form>
+      <p>
+        <Link href="/signin" className="font-light text-sm">
+          Sign in with a different account
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -7,10 +7,12 @@ import { useRouter } from 'next/navigation';
 import React, { useState } from 'react';
 
 interface UpdatePasswordProps {
+  minPasswordLength: number;
   redirectMethod: string;
 }
 
 export default function UpdatePassword({
+  minPasswordLength,
   redirectMethod
 }: UpdatePasswordProps) {
   const router = redirectMethod === 'client' ? useRouter() : null;
@@ -37,16 +39,21 @@ export default function UpdatePassword({
               placeholder="Password"
               type="password"
               name="password"
-              autoComplete="current-password"
+              autoComplete="new-password"
+              aria-describedby="password-hint"
               className="w-full p-3 rounded-md bg-zinc-800"
             />
+            <p id="password-hint" className="text-sm text-zinc-400">
+              At least {minPasswordLength} characters. Avoid common passwords and
+              anything based on your name or email.
+            </p>
             <label htmlFor="passwordConfirm">Confirm New Password</label>
             <input
               id="passwordConfirm"
               placeholder="Password"
               type="password"
               name="passwordConfirm"
-              autoComplete="current-password"
+              autoComplete="new-password"
               className="w-full p-3 rounded-md bg-zinc-800"
             />
           </div>
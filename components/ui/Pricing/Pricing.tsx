@@ -2,9 +2,15 @@
 
 import Button from '@/components/ui/Button';
 import LogoCloud from '@/components/ui/LogoCloud';
+import SwitchPlanDialog from '@/components/ui/Pricing/SwitchPlanDialog';
+import type { PlanChangePreview } from '@/lib/plan-changes';
 import type { Tables } from '@/types_db';
 import { getStripe } from '@/utils/stripe/client';
-import { checkoutWithStripe } from '@/utils/stripe/server';
+import {
+  checkoutWithStripe,
+  previewPlanChange,
+  switchPlan
+} from '@/utils/stripe/server';
 import { getErrorRedirect } from '@/utils/helpers';
 import { User } from '@supabase/supabase-js';
 import cn from 'classnames';
@@ -28,11 +34,23 @@ interface Props {
   user: User | null | undefined;
   products: ProductWithPrices[];
   subscription: SubscriptionWithProduct | null;
+  /** Set when buying for an organization, billed one seat per member */
+  organization?: {
+    name: string;
+    seats: number;
+    /** Owners and billing admins may change the plan */
+    canManageBilling: boolean;
+  } | null;
 }
 
 type BillingInterval = 'lifetime' | 'year' | 'month';
 
-export default function Pricing({ user, products, subscription }: Props) {
+export default function Pricing({
+  user,
+  products,
+  subscription,
+  organization
+}: Props) {
   const intervals = Array.from(
     new Set(
       products.flatMap((product) =>
@@ -44,6 +62,12 @@ export default function Pricing({ user, products, subscription }: Props) {
   const [billingInterval, setBillingInterval] =
     useState<BillingInterval>('month');
   const [priceIdLoading, setPriceIdLoading] = useState<string>();
+  const [planSwitch, setPlanSwitch] = useState<{
+    price: Price;
+    productName: string;
+    preview: PlanChangePreview;
+  } | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
   const currentPath = usePathname();
 
   const handleStripeCheckout = async (price: Price) => {
@@ -81,6 +105,46 @@ export default function Pricing({ user, products, subscription }: Props) {
     setPriceIdLoading(undefined);
   };
 
+  // Subscribers switch plans in place instead of starting another checkout
+  const handlePlanSwitchPreview = async (price: Price, productName: string) => {
+    setPriceIdLoading(price.id);
+
+    const { errorRedirect, preview } = await previewPlanChange(
+      price.id,
+      currentPath
+    );
+
+    setPriceIdLoading(undefined);
+
+    if (errorRedirect || !preview) {
+      return router.push(
+        errorRedirect ??
+          getErrorRedirect(
+            currentPath,
+            'An unknown error occurred.',
+            'Please try again later or contact a system administrator.'
+          )
+      );
+    }
+
+    setPlanSwitch({ price, productName, preview });
+  };
+
+  const handlePlanSwitch = async () => {
+    if (!planSwitch) return;
+
+    setIsSwitching(true);
+    const redirectUrl = await switchPlan(
+      planSwitch.price.id,
+      planSwitch.preview.prorationDate,
+      currentPath
+    );
+    setIsSwitching(false);
+    setPlanSwitch(null);
+
+    return router.push(redirectUrl);
+  };
+
   if (!products.length) {
     return (
       <section className="bg-black">
@@ -114,6 +178,14 @@ export default function Pricing({ user, products, subscription }: Props) {
               Start building for free, then add a site plan to go live. Account
               plans unlock additional features.
             </p>
+            {organization && (
+              <p className="m-auto mt-4 text-zinc-400 sm:text-center">
+                Buying for {organization.name}: {organization.seats}{' '}
+                {organization.seats === 1 ? 'seat' : 'seats'}, one per member.
+                {!organization.canManageBilling &&
+                  ' Only owners and billing admins can change its plan.'}
+              </p>
+            )}
             <div className="relative self-center mt-6 bg-zinc-900 rounded-lg p-0.5 flex sm:mt-8 border border-zinc-800">
               {intervals.includes('month') && (
                 <button
@@ -180,17 +252,39 @@ export default function Pricing({ user, products, subscription }: Props) {
                       </span>
                       <span className="text-base font-medium text-zinc-100">
                         /{billingInterval}
+                        {organization && ' per seat'}
                       </span>
                     </p>
-                    <Button
-                      variant="slim"
-                      type="button"
-                      loading={priceIdLoading === price.id}
-                      onClick={() => handleStripeCheckout(price)}
-                      className="block w-full py-2 mt-8 text-sm font-semibold text-center text-white rounded-md hover:bg-zinc-900"
-                    >
-                      {subscription ? 'Manage' : 'Subscribe'}
-                    </Button>
+                    {subscription && price.type === 'recurring' ? (
+                      <Button
+                        variant="slim"
+                        type="button"
+                        loading={priceIdLoading === price.id}
+                        disabled={
+                          price.id === subscription.price_id ||
+                          organization?.canManageBilling === false
+                        }
+                        onClick={() =>
+                          handlePlanSwitchPreview(price, product.name ?? '')
+                        }
+                        className="block w-full py-2 mt-8 text-sm font-semibold text-center text-white rounded-md hover:bg-zinc-900"
+                      >
+                        {price.id === subscription.price_id
+                          ? 'Current plan'
+                          : 'Switch plan'}
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="slim"
+                        type="button"
+                        loading={priceIdLoading === price.id}
+                        disabled={organization?.canManageBilling === false}
+                        onClick={() => handleStripeCheckout(price)}
+                        className="block w-full py-2 mt-8 text-sm font-semibold text-center text-white rounded-md hover:bg-zinc-900"
+                      >
+                        {subscription ? 'Manage' : 'Subscribe'}
+                      </Button>
+                    )}
                   </div>
                 </div>
               );
@@ -198,6 +292,16 @@ export default function Pricing({ user, products, subscription }: Props) {
           </div>
           <LogoCloud />
         </div>
+        {planSwitch && (
+          <SwitchPlanDialog
+            productName={planSwitch.productName}
+            price={planSwitch.price}
+            preview={planSwitch.preview}
+            loading={isSwitching}
+            onConfirm={handlePlanSwitch}
+            onCancel={() => setPlanSwitch(null)}
+          />
+        )}
       </section>
     );
   }
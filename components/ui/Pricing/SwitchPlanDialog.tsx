@@ -0,0 +1,76 @@
+'use client';
+
+import Button from '@/components/ui/Button';
+import type { PlanChangePreview } from '@/lib/plan-changes';
+import type { Tables } from '@/types_db';
+
+type Price = Tables<'prices'>;
+
+interface Props {
+  productName: string;
+  price: Price;
+  preview: PlanChangePreview;
+  loading: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0
+  }).format(amount / 100);
+
+const formatDate = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export default function SwitchPlanDialog({
+  productName,
+  price,
+  preview,
+  loading,
+  onConfirm,
+  onCancel
+}: Props) {
+  const recurringAmount = `${formatAmount(price.unit_amount ?? 0, price.currency!)}/${price.interval}`;
+
+  let summary: string;
+  if (preview.timing === 'period_end') {
+    summary = `You keep your current plan until ${formatDate(preview.effectiveAt)}, then switch to ${productName} at ${recurringAmount}. Nothing is charged now.`;
+  } else if (preview.amountDue > 0) {
+    summary = `You will be charged ${formatAmount(preview.amountDue, preview.currency)} now for the rest of this billing period, then ${recurringAmount}.`;
+  } else if (preview.amountDue < 0) {
+    summary = `Your unused time is worth ${formatAmount(-preview.amountDue, preview.currency)}, which is credited to your next invoice. After that you pay ${recurringAmount}.`;
+  } else {
+    summary = `Nothing is due now. After this billing period you pay ${recurringAmount}.`;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="switch-plan-title"
+    >
+      <div className="w-full max-w-md p-6 border rounded-md border-zinc-700 bg-zinc-900">
+        <h3 id="switch-plan-title" className="mb-2 text-2xl font-medium text-white">
+          Switch to {productName}?
+        </h3>
+        <p className="text-zinc-300">{summary}</p>
+        <div className="flex justify-end gap-2 mt-6">
+          <Button variant="slim" type="button" onClick={onCancel} disabled={loading}>
+            Cancel
+          </Button>
+          <Button variant="slim" type="button" onClick={onConfirm} loading={loading}>
+            Switch plan
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -42,6 +42,40 @@ EXCEPTION
   WHEN duplicate_object THEN null;
 END $$;
 
+-- Webhook event processing lifecycle
+DO $$ BEGIN
+  CREATE TYPE webhook_event_status AS ENUM ('processing', 'processed', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Invoice lifecycle
+DO $$ BEGIN
+  CREATE TYPE invoice_status AS ENUM ('draft', 'open', 'paid', 'uncollectible', 'void');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Payment outcome, including refunds
+DO $$ BEGIN
+  CREATE TYPE payment_status AS ENUM (
+    'pending',
+    'succeeded',
+    'failed',
+    'partially_refunded',
+    'refunded'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- One-time purchase lifecycle
+DO $$ BEGIN
+  CREATE TYPE purchase_status AS ENUM ('paid', 'refunded');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
 -- ============================================================================
 -- TRIGGER FUNCTION: Auto-update updated_at timestamp
 -- ============================================================================
@@ -68,6 +102,8 @@ CREATE TABLE IF NOT EXISTS users (
   -- Authentication fields
   email TEXT UNIQUE NOT NULL,
   password_hash TEXT,
+  email_verified_at TIMESTAMP WITH TIME ZONE,
+  pending_email TEXT,
 
   -- Profile fields
   full_name TEXT,
@@ -93,6 +129,12 @@ CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_users_stripe_customer_id ON users(stripe_customer_id);
 
+-- Add email verification to users tables created before schema version 8
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Add pending email changes to users tables created before schema version 22
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pending_email TEXT;
+
 -- Trigger to auto-update updated_at on users
 DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 CREATE TRIGGER update_users_updated_at
@@ -267,6 +309,10 @@ CREATE TABLE IF NOT EXISTS subscriptions (
   trial_start TIMESTAMP WITH TIME ZONE,
   trial_end TIMESTAMP WITH TIME ZONE,
 
+  -- Creation time of the Stripe event behind the last write
+  -- Used to reject out-of-order webhook deliveries
+  last_event_created TIMESTAMP WITH TIME ZONE,
+
   -- Internal timestamps
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
@@ -290,6 +336,9 @@ CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions(status);
 CREATE INDEX IF NOT EXISTS idx_subscriptions_price_id ON subscriptions(price_id);
 CREATE INDEX IF NOT EXISTS idx_subscriptions_current_period_end ON subscriptions(current_period_end);
 
+-- Add event ordering column to subscriptions tables created before schema version 3
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS last_event_created TIMESTAMP WITH TIME ZONE;
+
 -- Trigger to auto-update updated_at on subscriptions
 DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON subscriptions;
 CREATE TRIGGER update_subscriptions_updated_at
@@ -297,13 +346,860 @@ CREATE TRIGGER update_subscriptions_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- ============================================================================
+-- TABLE: webhook_events
+-- ============================================================================
+-- Ledger of received Stripe webhook events
+-- Used to skip redelivered events that were already processed
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  -- Primary key: Stripe event ID (e.g., evt_1234)
+  id TEXT PRIMARY KEY,
+
+  -- Event details
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+
+  -- Processing state
+  status webhook_event_status DEFAULT 'processing' NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL CHECK (attempts >= 0),
+  error TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for webhook_events table
+CREATE INDEX IF NOT EXISTS idx_webhook_events_type ON webhook_events(type);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_created_at ON webhook_events(created_at DESC);
+
+-- Trigger to auto-update updated_at on webhook_events
+DROP TRIGGER IF EXISTS update_webhook_events_updated_at ON webhook_events;
+CREATE TRIGGER update_webhook_events_updated_at
+  BEFORE UPDATE ON webhook_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: invoices
+-- ============================================================================
+-- Invoices for users
+-- Synced from Stripe invoice webhooks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoices (
+  -- Primary key: Stripe invoice ID (e.g., in_1234)
+  id TEXT PRIMARY KEY,
+
+  -- Foreign keys
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Stripe references, not foreign keys: the subscription may not be synced yet
+  stripe_customer_id TEXT NOT NULL,
+  subscription_id TEXT,
+
+  -- Invoice status
+  status invoice_status,
+
+  -- Invoice details
+  number TEXT,
+  billing_reason TEXT,
+  currency TEXT NOT NULL CHECK (LENGTH(currency) = 3),
+  amount_due BIGINT DEFAULT 0 NOT NULL CHECK (amount_due >= 0),
+  amount_paid BIGINT DEFAULT 0 NOT NULL CHECK (amount_paid >= 0),
+  amount_remaining BIGINT DEFAULT 0 NOT NULL CHECK (amount_remaining >= 0),
+  attempt_count INTEGER DEFAULT 0 NOT NULL CHECK (attempt_count >= 0),
+  hosted_invoice_url TEXT,
+  invoice_pdf TEXT,
+
+  -- Additional metadata from Stripe
+  metadata JSONB DEFAULT '{}'::jsonb,
+
+  -- Timestamps: Invoice lifecycle
+  created TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE,
+  period_end TIMESTAMP WITH TIME ZONE,
+  due_date TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  next_payment_attempt TIMESTAMP WITH TIME ZONE,
+
+  -- Creation time of the Stripe event behind the last write
+  -- Used to reject out-of-order webhook deliveries
+  last_event_created TIMESTAMP WITH TIME ZONE,
+
+  -- Internal timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for invoices table
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON invoices(user_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_subscription_id ON invoices(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+CREATE INDEX IF NOT EXISTS idx_invoices_created ON invoices(created DESC);
+
+-- Trigger to auto-update updated_at on invoices
+DROP TRIGGER IF EXISTS update_invoices_updated_at ON invoices;
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: payments
+-- ============================================================================
+-- Charges against users' payment methods, including refunds
+-- Synced from Stripe invoice and charge webhooks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS payments (
+  -- Primary key: Stripe charge ID (e.g., ch_1234)
+  id TEXT PRIMARY KEY,
+
+  -- Foreign keys
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Stripe references, not foreign keys: a refund can arrive before its invoice
+  stripe_customer_id TEXT NOT NULL,
+  invoice_id TEXT,
+  payment_intent_id TEXT,
+
+  -- Payment status
+  status payment_status NOT NULL,
+
+  -- Payment details
+  currency TEXT NOT NULL CHECK (LENGTH(currency) = 3),
+  amount BIGINT NOT NULL CHECK (amount >= 0),
+  amount_refunded BIGINT DEFAULT 0 NOT NULL CHECK (amount_refunded >= 0),
+  failure_code TEXT,
+  failure_message TEXT,
+  receipt_url TEXT,
+
+  -- Additional metadata from Stripe
+  metadata JSONB DEFAULT '{}'::jsonb,
+
+  -- Timestamps
+  created TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for payments table
+CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON payments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
+CREATE INDEX IF NOT EXISTS idx_payments_created ON payments(created DESC);
+
+-- Trigger to auto-update updated_at on payments
+DROP TRIGGER IF EXISTS update_payments_updated_at ON payments;
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: purchases
+-- ============================================================================
+-- One-time purchases of one_time prices, which grant lifetime access
+-- Synced from Stripe checkout webhooks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS purchases (
+  -- Primary key: Stripe checkout line item ID (e.g., li_1234)
+  id TEXT PRIMARY KEY,
+
+  -- Foreign keys
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  price_id TEXT REFERENCES prices(id),
+
+  -- Stripe references
+  stripe_customer_id TEXT NOT NULL,
+  checkout_session_id TEXT NOT NULL,
+  payment_intent_id TEXT,
+
+  -- Purchase status
+  status purchase_status DEFAULT 'paid' NOT NULL,
+
+  -- Purchase details
+  quantity INTEGER DEFAULT 1 CHECK (quantity > 0),
+  currency TEXT NOT NULL CHECK (LENGTH(currency) = 3),
+  amount_total BIGINT DEFAULT 0 NOT NULL CHECK (amount_total >= 0),
+
+  -- Timestamps
+  created TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  refunded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for purchases table
+CREATE INDEX IF NOT EXISTS idx_purchases_user_id ON purchases(user_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_status ON purchases(status);
+CREATE INDEX IF NOT EXISTS idx_purchases_payment_intent_id ON purchases(payment_intent_id);
+
+-- Trigger to auto-update updated_at on purchases
+DROP TRIGGER IF EXISTS update_purchases_updated_at ON purchases;
+CREATE TRIGGER update_purchases_updated_at
+  BEFORE UPDATE ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: sessions
+-- ============================================================================
+-- One row per sign-in. Revoking a session revokes every refresh token
+-- issued to it.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sessions (
+  -- Primary key: UUID generated automatically, carried in the access token as `sid`
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to users table
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Device the session was started from
+  user_agent TEXT,
+  ip_address TEXT,
+
+  -- Revocation
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason TEXT,
+
+  -- Timestamps
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for sessions table
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+
+-- Add device columns to sessions tables created before schema version 7
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ip_address TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL;
+
+-- Trigger to auto-update updated_at on sessions
+DROP TRIGGER IF EXISTS update_sessions_updated_at ON sessions;
+CREATE TRIGGER update_sessions_updated_at
+  BEFORE UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: refresh_tokens
+-- ============================================================================
+-- Opaque refresh tokens, stored as SHA-256 hashes. Each use rotates the
+-- token; presenting a rotated token again revokes the whole session, unless
+-- it is within a few seconds of the rotation (concurrent refreshes).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to sessions table (the token family)
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+
+  -- SHA-256 hash of the token; the token itself is never stored
+  token_hash TEXT UNIQUE NOT NULL,
+
+  -- Lifecycle
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  rotated_at TIMESTAMP WITH TIME ZONE,
+
+  -- Random salt the successor token is derived from, together with this
+  -- token; set on rotation so concurrent refreshes get the same successor
+  successor_salt TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Add successor_salt to refresh_tokens tables created before schema version 19
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS successor_salt TEXT;
+
+-- Indexes for refresh_tokens table
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at ON refresh_tokens(expires_at);
+
+-- Trigger to auto-update updated_at on refresh_tokens
+DROP TRIGGER IF EXISTS update_refresh_tokens_updated_at ON refresh_tokens;
+CREATE TRIGGER update_refresh_tokens_updated_at
+  BEFORE UPDATE ON refresh_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: user_identities
+-- ============================================================================
+-- Accounts at OAuth/OIDC providers linked to users. A user can have one
+-- identity per provider account and sign in with any of them.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_identities (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to users table
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Provider ID (e.g., github) and the stable user ID at that provider
+  provider TEXT NOT NULL,
+  provider_user_id TEXT NOT NULL,
+
+  -- Verified email reported by the provider when the identity was linked
+  email TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT user_identities_provider_user UNIQUE (provider, provider_user_id)
+);
+
+-- Indexes for user_identities table
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities(user_id);
+
+-- Trigger to auto-update updated_at on user_identities
+DROP TRIGGER IF EXISTS update_user_identities_updated_at ON user_identities;
+CREATE TRIGGER update_user_identities_updated_at
+  BEFORE UPDATE ON user_identities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: email_verification_tokens
+-- ============================================================================
+-- Single-use links proving a user owns an email address, stored as SHA-256
+-- hashes. A token only verifies the address it was sent to.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to users table
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Address the link was sent to
+  email TEXT NOT NULL,
+
+  -- SHA-256 hash of the token; the token itself is never stored
+  token_hash TEXT UNIQUE NOT NULL,
+
+  -- Lifecycle
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for email_verification_tokens table
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user_id ON email_verification_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_expires_at ON email_verification_tokens(expires_at);
+
+-- Trigger to auto-update updated_at on email_verification_tokens
+DROP TRIGGER IF EXISTS update_email_verification_tokens_updated_at ON email_verification_tokens;
+CREATE TRIGGER update_email_verification_tokens_updated_at
+  BEFORE UPDATE ON email_verification_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: password_reset_tokens
+-- ============================================================================
+-- Single-use password reset links, stored as SHA-256 hashes. Resetting a
+-- password uses up every outstanding link for the user.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to users table
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- SHA-256 hash of the token; the token itself is never stored
+  token_hash TEXT UNIQUE NOT NULL,
+
+  -- Lifecycle
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for password_reset_tokens table
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_expires_at ON password_reset_tokens(expires_at);
+
+-- Trigger to auto-update updated_at on password_reset_tokens
+DROP TRIGGER IF EXISTS update_password_reset_tokens_updated_at ON password_reset_tokens;
+CREATE TRIGGER update_password_reset_tokens_updated_at
+  BEFORE UPDATE ON password_reset_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: one_time_tokens
+-- ============================================================================
+-- Passwordless sign-in: each row is an emailed magic link and 6-digit code,
+-- both stored as SHA-256 hashes. Keyed by email so requests for unknown
+-- addresses are rate limited like real ones.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS one_time_tokens (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Address the link and code were sent to
+  email TEXT NOT NULL,
+
+  -- SHA-256 hashes; the link token and code are never stored
+  token_hash TEXT UNIQUE NOT NULL,
+  code_hash TEXT NOT NULL,
+
+  -- Lifecycle
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for one_time_tokens table
+CREATE INDEX IF NOT EXISTS idx_one_time_tokens_email_created_at ON one_time_tokens(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_one_time_tokens_expires_at ON one_time_tokens(expires_at);
+
+-- Trigger to auto-update updated_at on one_time_tokens
+DROP TRIGGER IF EXISTS update_one_time_tokens_updated_at ON one_time_tokens;
+CREATE TRIGGER update_one_time_tokens_updated_at
+  BEFORE UPDATE ON one_time_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: user_totp
+-- ============================================================================
+-- Authenticator app (TOTP) second factor. A row with no enabled_at is an
+-- enrollment waiting for its first code; sign-in only asks for a code once
+-- it is enabled.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_totp (
+  -- One authenticator per user
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Base32 shared secret; needed in full to check codes, so not hashed
+  secret TEXT NOT NULL,
+
+  -- Lifecycle
+  enabled_at TIMESTAMP WITH TIME ZONE,
+
+  -- Replay and guessing protection
+  last_used_step BIGINT,
+  failed_attempts INTEGER DEFAULT 0 NOT NULL,
+  locked_until TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Trigger to auto-update updated_at on user_totp
+DROP TRIGGER IF EXISTS update_user_totp_updated_at ON user_totp;
+CREATE TRIGGER update_user_totp_updated_at
+  BEFORE UPDATE ON user_totp
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: recovery_codes
+-- ============================================================================
+-- Single-use codes that stand in for the authenticator app, stored as
+-- SHA-256 hashes. Enabling two-factor authentication replaces the set.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS recovery_codes (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to users table
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- SHA-256 hash of the code; the code itself is never stored
+  code_hash TEXT NOT NULL,
+
+  -- Lifecycle
+  used_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+  -- Constraints
+  CONSTRAINT recovery_codes_user_code UNIQUE (user_id, code_hash)
+);
+
+-- Trigger to auto-update updated_at on recovery_codes
+DROP TRIGGER IF EXISTS update_recovery_codes_updated_at ON recovery_codes;
+CREATE TRIGGER update_recovery_codes_updated_at
+  BEFORE UPDATE ON recovery_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: webauthn_credentials
+-- ============================================================================
+-- Passkeys registered by users. Only the public key is stored; the sign
+-- counter is checked on every sign-in to catch cloned authenticators.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Foreign key to users table
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Credential ID from the authenticator (base64url)
+  credential_id TEXT UNIQUE NOT NULL,
+
+  -- Public key (base64url SPKI DER) and its COSE algorithm (-7 ES256, -257 RS256)
+  public_key TEXT NOT NULL,
+  algorithm INTEGER NOT NULL,
+
+  -- Signature counter reported by the authenticator; 0 for synced passkeys
+  sign_count BIGINT DEFAULT 0 NOT NULL,
+
+  -- Transports the browser reported (usb, nfc, ble, internal, hybrid)
+  transports TEXT[],
+
+  -- Label shown on the account page
+  name TEXT NOT NULL,
+
+  -- Lifecycle
+  last_used_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for webauthn_credentials table
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON webauthn_credentials(user_id);
+
+-- Trigger to auto-update updated_at on webauthn_credentials
+DROP TRIGGER IF EXISTS update_webauthn_credentials_updated_at ON webauthn_credentials;
+CREATE TRIGGER update_webauthn_credentials_updated_at
+  BEFORE UPDATE ON webauthn_credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: webauthn_challenges
+-- ============================================================================
+-- Passkey challenges already presented to a verify route. The challenge
+-- itself travels in a signed cookie; recording its hash here makes each one
+-- single-use even if the cookie is replayed before it expires.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+  -- SHA-256 hash of the challenge
+  challenge_hash TEXT PRIMARY KEY,
+
+  -- When the challenge cookie expires; later rows can be deleted
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for webauthn_challenges table
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires_at ON webauthn_challenges(expires_at);
+
+-- ============================================================================
+-- TABLE: sign_in_throttles
+-- ============================================================================
+-- Failed password sign-ins per account (email) and per IP address. Keyed by
+-- email rather than user so unknown addresses are throttled the same way.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sign_in_throttles (
+  -- What is being throttled: 'account' (lowercased email) or 'ip'
+  scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+  key TEXT NOT NULL,
+
+  -- Consecutive failures; reset after an hour without one, or on success
+  failed_attempts INTEGER DEFAULT 0 NOT NULL,
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+
+  -- Sign-in is refused until this time (backoff or lockout)
+  locked_until TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+  PRIMARY KEY (scope, key)
+);
+
+-- Indexes for sign_in_throttles table
+CREATE INDEX IF NOT EXISTS idx_sign_in_throttles_last_failed_at ON sign_in_throttles(last_failed_at);
+
+-- Trigger to auto-update updated_at on sign_in_throttles
+DROP TRIGGER IF EXISTS update_sign_in_throttles_updated_at ON sign_in_throttles;
+CREATE TRIGGER update_sign_in_throttles_updated_at
+  BEFORE UPDATE ON sign_in_throttles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: organizations
+-- ============================================================================
+-- Teams that share a subscription. Billed through their own Stripe customer,
+-- one seat per member.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS organizations (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 64),
+
+  -- Stripe customer billed for the organization's subscriptions
+  stripe_customer_id TEXT UNIQUE,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Trigger to auto-update updated_at on organizations
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON organizations;
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Let subscriptions belong to an organization instead of a single user
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_subscriptions_organization_id ON subscriptions(organization_id);
+
+-- ============================================================================
+-- TABLE: memberships
+-- ============================================================================
+-- Users in an organization. Each membership takes one seat.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS memberships (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Owners manage members, invitations and billing; billing admins manage billing
+  role TEXT DEFAULT 'member' NOT NULL CHECK (role IN ('owner', 'billing_admin', 'member')),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Add the billing admin role to memberships tables created before schema version 16
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_role_check;
+ALTER TABLE memberships ADD CONSTRAINT memberships_role_check CHECK (role IN ('owner', 'billing_admin', 'member'));
+
+-- Indexes for memberships table
+CREATE INDEX IF NOT EXISTS idx_memberships_user_id ON memberships(user_id);
+
+-- Trigger to auto-update updated_at on memberships
+DROP TRIGGER IF EXISTS update_memberships_updated_at ON memberships;
+CREATE TRIGGER update_memberships_updated_at
+  BEFORE UPDATE ON memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: invitations
+-- ============================================================================
+-- Invitations to join an organization, emailed to the invitee as a link with
+-- an expiring single-use token. Declined and revoked invitations are deleted.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invitations (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  -- Role the invitee joins with
+  role TEXT DEFAULT 'member' NOT NULL CHECK (role IN ('owner', 'billing_admin', 'member')),
+
+  -- SHA-256 of the emailed token (the token itself is never stored)
+  token_hash TEXT UNIQUE,
+
+  -- The emailed link stops working after this
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '7 days' NOT NULL,
+
+  -- Set when the invitee joins
+  accepted_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Add roles and emailed tokens to invitations tables created before schema version 16
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS role TEXT DEFAULT 'member' NOT NULL CHECK (role IN ('owner', 'billing_admin', 'member'));
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS token_hash TEXT UNIQUE;
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '7 days' NOT NULL;
+
+-- Indexes for invitations table
+-- One pending invitation per address and organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_pending ON invitations(organization_id, lower(email)) WHERE accepted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(lower(email));
+
+-- Trigger to auto-update updated_at on invitations
+DROP TRIGGER IF EXISTS update_invitations_updated_at ON invitations;
+CREATE TRIGGER update_invitations_updated_at
+  BEFORE UPDATE ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- TABLE: subscription_cancellations
+-- ============================================================================
+-- Answers to the cancellation survey, one row per in-app cancellation.
+-- Kept after the subscription ends so churn reasons can be reported on.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS subscription_cancellations (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Stripe subscription ID; not a foreign key so the answer outlives the row
+  subscription_id TEXT NOT NULL,
+
+  -- User who canceled
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  -- Organization the subscription belonged to; NULL for a personal subscription
+  organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+
+  -- Survey answer, using Stripe's cancellation feedback values
+  reason TEXT NOT NULL CHECK (reason IN (
+    'too_expensive',
+    'missing_features',
+    'switched_service',
+    'unused',
+    'customer_service',
+    'too_complex',
+    'low_quality',
+    'other'
+  )),
+  comment TEXT,
+
+  -- Whether the subscription ended at once or at the end of the period
+  mode TEXT NOT NULL CHECK (mode IN ('period_end', 'immediate')),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for subscription_cancellations table
+CREATE INDEX IF NOT EXISTS idx_subscription_cancellations_subscription_id ON subscription_cancellations(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_cancellations_reason ON subscription_cancellations(reason);
+
+-- ============================================================================
+-- TABLE: retention_offer_outcomes
+-- ============================================================================
+-- Retention offers accepted or declined during cancellation, one row per
+-- offer and answer. Offers are defined in lib/retention-offers.ts.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS retention_offer_outcomes (
+  -- Primary key: UUID generated automatically
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Stripe subscription ID; not a foreign key so the outcome outlives the row
+  subscription_id TEXT NOT NULL,
+
+  -- User who answered the offer
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  -- Organization the subscription belongs to; NULL for a personal subscription
+  organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+
+  -- Offer ID from the RETENTION_OFFERS config
+  offer_id TEXT NOT NULL,
+
+  -- Reason given in the cancellation survey
+  reason TEXT NOT NULL,
+
+  -- accepted keeps the subscription; declined means it was canceled anyway
+  outcome TEXT NOT NULL CHECK (outcome IN ('accepted', 'declined')),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for retention_offer_outcomes table
+CREATE INDEX IF NOT EXISTS idx_retention_offer_outcomes_subscription_id ON retention_offer_outcomes(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_retention_offer_outcomes_offer_id ON retention_offer_outcomes(offer_id, outcome);
+
+-- ============================================================================
+-- TABLE: retention_offer_tokens
+-- ============================================================================
+-- Retention offer tokens already answered. The offers shown travel in a
+-- signed token; its ID is recorded here in the same transaction as the
+-- answer, so each cancellation accepts or declines its offers only once.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS retention_offer_tokens (
+  -- The token's jti claim
+  token_id TEXT PRIMARY KEY,
+
+  -- Stripe subscription ID the offers were shown for
+  subscription_id TEXT NOT NULL,
+
+  -- When the token expires; later rows can be deleted
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for retention_offer_tokens table
+CREATE INDEX IF NOT EXISTS idx_retention_offer_tokens_expires_at ON retention_offer_tokens(expires_at);
+
 -- ============================================================================
 -- COMMENTS: Table and Column Documentation
 -- ============================================================================
 
 COMMENT ON TABLE users IS 'Core user accounts with authentication and profile data';
 COMMENT ON COLUMN users.email IS 'User email address (unique, used for login)';
-COMMENT ON COLUMN users.password_hash IS 'Bcrypt hashed password';
+COMMENT ON COLUMN users.password_hash IS 'Bcrypt hashed password; NULL for accounts that only sign in through a provider';
+COMMENT ON COLUMN users.email_verified_at IS 'When the user proved ownership of the current email; NULL until verified';
+COMMENT ON COLUMN users.pending_email IS 'Address the user asked to switch to; replaces email once its verification link is followed';
 COMMENT ON COLUMN users.billing_address IS 'Billing address stored as JSON';
 COMMENT ON COLUMN users.payment_method IS 'Default payment method stored as JSON';
 
@@ -320,9 +1216,94 @@ COMMENT ON COLUMN prices.interval IS 'Billing frequency for recurring prices';
 COMMENT ON COLUMN prices.interval_count IS 'Number of intervals between billings';
 
 COMMENT ON TABLE subscriptions IS 'Active user subscriptions (synced from Stripe)';
-COMMENT ON COLUMN subscriptions.status IS 'Current subscription status';
+COMMENT ON COLUMN subscriptions.status IS 'Current subscription status; paused while Stripe pauses payment collection';
 COMMENT ON COLUMN subscriptions.cancel_at_period_end IS 'Whether subscription cancels at period end';
 COMMENT ON COLUMN subscriptions.quantity IS 'Number of units (e.g., seats)';
+COMMENT ON COLUMN subscriptions.last_event_created IS 'Creation time of the Stripe event behind the last write';
+COMMENT ON COLUMN subscriptions.organization_id IS 'Organization the subscription is for; NULL for a personal subscription';
+
+COMMENT ON TABLE webhook_events IS 'Ledger of received Stripe webhook events; failed rows form the dead-letter queue';
+COMMENT ON COLUMN webhook_events.payload IS 'Full Stripe event object as received';
+COMMENT ON COLUMN webhook_events.status IS 'Processing state of the event';
+COMMENT ON COLUMN webhook_events.attempts IS 'Number of deliveries that attempted processing';
+COMMENT ON COLUMN webhook_events.error IS 'Error message from the last failed attempt';
+
+COMMENT ON TABLE invoices IS 'User invoices (synced from Stripe)';
+COMMENT ON COLUMN invoices.status IS 'Current invoice status';
+COMMENT ON COLUMN invoices.amount_due IS 'Amount due in smallest currency unit (e.g., cents)';
+COMMENT ON COLUMN invoices.attempt_count IS 'Number of payment attempts made for the invoice';
+COMMENT ON COLUMN invoices.next_payment_attempt IS 'When Stripe will retry a failed payment';
+COMMENT ON COLUMN invoices.last_event_created IS 'Creation time of the Stripe event behind the last write';
+
+COMMENT ON TABLE payments IS 'Charges and refunds for user payments (synced from Stripe)';
+COMMENT ON COLUMN payments.status IS 'Payment outcome, including refunds';
+COMMENT ON COLUMN payments.amount IS 'Charged amount in smallest currency unit (e.g., cents)';
+COMMENT ON COLUMN payments.amount_refunded IS 'Refunded amount in smallest currency unit (e.g., cents)';
+COMMENT ON COLUMN payments.failure_message IS 'Decline reason reported by Stripe for failed payments';
+
+COMMENT ON TABLE purchases IS 'One-time purchases granting lifetime access (synced from Stripe)';
+COMMENT ON COLUMN purchases.status IS 'Paid purchases are active entitlements; refunds revoke them';
+COMMENT ON COLUMN purchases.amount_total IS 'Amount paid in smallest currency unit (e.g., cents)';
+
+COMMENT ON TABLE sessions IS 'Signed-in sessions; each owns a family of rotating refresh tokens';
+COMMENT ON COLUMN sessions.user_agent IS 'User-Agent header of the sign-in request';
+COMMENT ON COLUMN sessions.ip_address IS 'Client IP address of the sign-in request';
+COMMENT ON COLUMN sessions.last_seen_at IS 'Last time the session refreshed its tokens';
+COMMENT ON COLUMN sessions.revoked_reason IS 'Why the session ended, e.g. sign_out, token_reuse, user_revoked, password_changed or account_linked';
+
+COMMENT ON TABLE refresh_tokens IS 'Hashed refresh tokens, rotated on every use';
+COMMENT ON COLUMN refresh_tokens.token_hash IS 'SHA-256 hash of the opaque refresh token';
+COMMENT ON COLUMN refresh_tokens.rotated_at IS 'When the token was exchanged; reuse after this revokes the session';
+
+COMMENT ON TABLE user_identities IS 'OAuth and OIDC provider accounts linked to users';
+COMMENT ON COLUMN user_identities.provider_user_id IS 'Stable user ID at the provider (OIDC sub, GitHub user ID)';
+
+COMMENT ON TABLE email_verification_tokens IS 'Hashed single-use email verification links';
+COMMENT ON COLUMN email_verification_tokens.email IS 'Address the link was sent to; it only verifies that address';
+COMMENT ON COLUMN email_verification_tokens.used_at IS 'When the link was followed; a used link cannot be followed again';
+
+COMMENT ON TABLE password_reset_tokens IS 'Hashed single-use password reset links';
+COMMENT ON COLUMN password_reset_tokens.used_at IS 'When the link was used or superseded by another reset';
+
+COMMENT ON TABLE one_time_tokens IS 'Hashed magic links and sign-in codes for passwordless sign-in';
+COMMENT ON COLUMN one_time_tokens.code_hash IS 'SHA-256 hash of the 6-digit code, salted with the email';
+COMMENT ON COLUMN one_time_tokens.attempts IS 'Wrong codes entered; the code stops working after five';
+
+COMMENT ON TABLE user_totp IS 'Authenticator app secrets for two-factor authentication';
+COMMENT ON COLUMN user_totp.enabled_at IS 'When the first code was confirmed; NULL while enrollment is pending';
+COMMENT ON COLUMN user_totp.last_used_step IS 'Time step of the last accepted code; that code and earlier ones are refused';
+COMMENT ON COLUMN user_totp.locked_until IS 'Codes are refused until this time after too many wrong ones';
+
+COMMENT ON TABLE recovery_codes IS 'Hashed single-use recovery codes for two-factor authentication';
+
+COMMENT ON TABLE webauthn_credentials IS 'Passkeys (WebAuthn credentials) users sign in with';
+COMMENT ON COLUMN webauthn_credentials.sign_count IS 'Last signature counter; a counter that does not increase is refused';
+
+COMMENT ON TABLE webauthn_challenges IS 'Passkey challenges already used, so each is accepted once';
+
+COMMENT ON TABLE sign_in_throttles IS 'Failed password sign-ins per account and IP for backoff and lockout';
+COMMENT ON COLUMN sign_in_throttles.locked_until IS 'Password sign-in is refused until this time';
+
+COMMENT ON TABLE organizations IS 'Teams that share a seat-based subscription';
+COMMENT ON COLUMN organizations.stripe_customer_id IS 'Stripe customer billed for the organization';
+
+COMMENT ON TABLE memberships IS 'Organization members; each one takes a seat';
+COMMENT ON COLUMN memberships.role IS 'owner, billing_admin or member; see lib/authorization.ts for what each may do';
+
+COMMENT ON TABLE invitations IS 'Invitations to join an organization, emailed as expiring links';
+COMMENT ON COLUMN invitations.role IS 'Role the invitee joins with';
+COMMENT ON COLUMN invitations.token_hash IS 'SHA-256 hash of the emailed invitation token';
+COMMENT ON COLUMN invitations.expires_at IS 'When the invitation stops working (7 days after it is sent)';
+COMMENT ON COLUMN invitations.accepted_at IS 'When the invitee joined; NULL while pending';
+
+COMMENT ON TABLE subscription_cancellations IS 'Cancellation survey answers from in-app cancellations';
+COMMENT ON COLUMN subscription_cancellations.reason IS 'Why the subscriber canceled, as a Stripe cancellation feedback value';
+COMMENT ON COLUMN subscription_cancellations.mode IS 'period_end or immediate';
+
+COMMENT ON TABLE retention_offer_outcomes IS 'Retention offers accepted or declined during cancellation';
+COMMENT ON COLUMN retention_offer_outcomes.offer_id IS 'Offer ID from RETENTION_OFFERS in lib/retention-offers.ts';
+COMMENT ON COLUMN retention_offer_outcomes.outcome IS 'accepted or declined';
+COMMENT ON TABLE retention_offer_tokens IS 'Retention offer tokens already answered, so each is used once';
 
 -- ============================================================================
 -- SCHEMA VERSION
@@ -336,7 +1317,29 @@ CREATE TABLE IF NOT EXISTS schema_version (
 
 -- Record current schema version
 INSERT INTO schema_version (version, description)
-VALUES (1, 'Initial ZeroDB schema with users, customers, products, prices, subscriptions')
+VALUES
+  (1, 'Initial ZeroDB schema with users, customers, products, prices, subscriptions'),
+  (2, 'Add webhook_events ledger for idempotent Stripe webhook processing'),
+  (3, 'Add subscriptions.last_event_created to reject out-of-order webhook events'),
+  (4, 'Add invoices and payments tables for invoice and charge webhooks'),
+  (5, 'Add purchases table for one-time and lifetime purchases'),
+  (6, 'Add sessions and refresh_tokens tables for refresh-token rotation'),
+  (7, 'Add sessions device and last-seen columns for session management'),
+  (8, 'Add users.email_verified_at and email_verification_tokens for email verification'),
+  (9, 'Add password_reset_tokens for password reset'),
+  (10, 'Add one_time_tokens for magic-link and code sign-in'),
+  (11, 'Add user_identities for OAuth and OIDC sign-in'),
+  (12, 'Add user_totp and recovery_codes for two-factor authentication'),
+  (13, 'Add webauthn_credentials for passkey sign-in'),
+  (14, 'Add sign_in_throttles for password sign-in lockout'),
+  (15, 'Add organizations, memberships, invitations and subscriptions.organization_id for team billing'),
+  (16, 'Add billing_admin role and invitation roles, tokens and expiry'),
+  (17, 'Add subscription_cancellations for the cancellation survey'),
+  (18, 'Add retention_offer_outcomes for retention offers during cancellation'),
+  (19, 'Add refresh_tokens.successor_salt for the refresh token reuse grace window'),
+  (20, 'Add webauthn_challenges to make passkey challenges single-use'),
+  (21, 'Add retention_offer_tokens to answer each set of retention offers once'),
+  (22, 'Add users.pending_email so email changes wait for the new address to be verified')
 ON CONFLICT (version) DO NOTHING;
 
 -- ============================================================================
@@ -1,71 +1,153 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import { createHash, createHmac } from 'crypto';
 import {
   signUp,
   signIn,
+  completeTwoFactorSignIn,
+  disableTwoFactor,
+  reauthenticate,
+  requiresTwoFactor,
   getUser,
   signOut,
   refreshToken,
+  getSessionId,
+  setPassword,
+  signInWithMagicLink,
+  signInWithCode,
+  signInWithOAuthProfile,
+  signInWithPasskey,
   verifyToken,
+  type AuthResponse,
+  type TwoFactorChallenge,
 } from '../auth';
 import * as zerodb from '../zerodb';
+import { sendExistingAccountEmail, sendVerificationEmail } from '../email-verification';
+import { consumeMagicLink, consumeSignInCode } from '../passwordless';
+import { isTwoFactorEnabled, removeTwoFactor, verifyTwoFactorCode } from '../two-factor';
+import { verifyAuthentication } from '../webauthn';
+import { claimSignInAttempt, clearFailedSignIns, recordFailedSignIn } from '../sign-in-throttle';
+import { signJwt } from '../jwt-keys';
+import { assertPasswordAllowed, PasswordPolicyError } from '../password-policy';
 
 // Mock the zerodb module
 jest.mock('../zerodb');
+jest.mock('../email-verification');
+jest.mock('../passwordless');
+jest.mock('../two-factor');
+jest.mock('../webauthn');
+jest.mock('../sign-in-throttle');
+jest.mock('../password-policy', () => ({
+  ...jest.requireActual('../password-policy'),
+  assertPasswordAllowed: jest.fn(),
+}));
 
 const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockConsumeMagicLink = consumeMagicLink as jest.MockedFunction<typeof consumeMagicLink>;
+const mockConsumeSignInCode = consumeSignInCode as jest.MockedFunction<
+  typeof consumeSignInCode
+>;
+const mockVerifyAuthentication = verifyAuthentication as jest.MockedFunction<
+  typeof verifyAuthentication
+>;
+const mockIsTwoFactorEnabled = isTwoFactorEnabled as jest.MockedFunction<
+  typeof isTwoFactorEnabled
+>;
+const mockVerifyTwoFactorCode = verifyTwoFactorCode as jest.MockedFunction<
+  typeof verifyTwoFactorCode
+>;
+const mockRemoveTwoFactor = removeTwoFactor as jest.MockedFunction<typeof removeTwoFactor>;
+const mockSendVerificationEmail = sendVerificationEmail as jest.MockedFunction<
+  typeof sendVerificationEmail
+>;
+const mockSendExistingAccountEmail = sendExistingAccountEmail as jest.MockedFunction<
+  typeof sendExistingAccountEmail
+>;
+const mockClaimSignInAttempt = claimSignInAttempt as jest.MockedFunction<
+  typeof claimSignInAttempt
+>;
+const mockRecordFailedSignIn = recordFailedSignIn as jest.MockedFunction<
+  typeof recordFailedSignIn
+>;
+const mockClearFailedSignIns = clearFailedSignIns as jest.MockedFunction<
+  typeof clearFailedSignIns
+>;
+const mockAssertPasswordAllowed = assertPasswordAllowed as jest.MockedFunction<
+  typeof assertPasswordAllowed
+>;
+
+const weakPasswordError = new PasswordPolicyError([
+  { code: 'too_short', message: 'Password must be at least 8 characters long.' },
+]);
+
+// Queue the session and refresh token inserts made when tokens are issued
+function mockSessionCreated(sessionId = 'session-id') {
+  mockQuery
+    .mockResolvedValueOnce({ rows: [{ id: sessionId }], rowCount: 1 } as any)
+    .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
 
 describe('Authentication System', () => {
   const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockClaimSignInAttempt.mockImplementation(async (email, ipAddress) => ({
+      email,
+      ipAddress: ipAddress ?? null,
+      accountFailures: 1,
+      ipFailures: ipAddress ? 1 : null,
+    }));
   });
 
   describe('signUp', () => {
-    it('should successfully register a new user', async () => {
+    it('should create the user and email a verification link', async () => {
       const email = 'test@example.com';
       const password = 'password123';
       const fullName = 'Test User';
 
-      // Mock database responses
-      mockQuery
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-        } as any) // Check if user exists
-        .mockResolvedValueOnce({
-          rows: [
-            {
-              id: '123e4567-e89b-12d3-a456-426614174000',
-              email,
-              full_name: fullName,
-            },
-          ],
-          rowCount: 1,
-        } as any); // Insert user
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: '123e4567-e89b-12d3-a456-426614174000',
+            email,
+            full_name: fullName,
+          },
+        ],
+        rowCount: 1,
+      } as any); // Insert user
 
-      const result = await signUp(email, password, fullName);
+      await expect(signUp(email, password, fullName)).resolves.toBeUndefined();
 
-      expect(result).toHaveProperty('access_token');
-      expect(result).toHaveProperty('token_type', 'Bearer');
-      expect(result).toHaveProperty('expires_in', 604800); // 7 days
-      expect(result.user).toEqual({
+      // No session: the user signs in afterwards, like someone whose email was taken
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      const [insertSql, insertParams] = mockQuery.mock.calls[0];
+      expect(insertSql).toContain('INSERT INTO users');
+      expect(insertSql).toContain('ON CONFLICT (email) DO NOTHING');
+      expect(insertParams?.[2]).not.toBe(password); // Password should be hashed
+
+      expect(mockSendVerificationEmail).toHaveBeenCalledWith({
         id: '123e4567-e89b-12d3-a456-426614174000',
         email,
         full_name: fullName,
       });
+      expect(mockSendExistingAccountEmail).not.toHaveBeenCalled();
+    });
 
-      // Verify token is valid
-      const decoded = jwt.verify(result.access_token, JWT_SECRET) as any;
-      expect(decoded.email).toBe(email);
-      expect(decoded.userId).toBe('123e4567-e89b-12d3-a456-426614174000');
+    it('should still sign up when the verification email fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockSendVerificationEmail.mockRejectedValueOnce(new Error('SMTP down'));
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-id', email: 'new@example.com', full_name: null }],
+        rowCount: 1,
+      } as any);
 
-      // Verify password was hashed
-      expect(mockQuery).toHaveBeenCalledTimes(2);
-      const insertCall = mockQuery.mock.calls[1];
-      expect(insertCall[0]).toContain('INSERT INTO users');
-      expect(insertCall[1]?.[2]).not.toBe(password); // Password should be hashed
+      await expect(signUp('new@example.com', 'password123')).resolves.toBeUndefined();
+
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
     });
 
     it('should fail with invalid email format', async () => {
@@ -76,40 +158,44 @@ describe('Authentication System', () => {
       expect(mockQuery).not.toHaveBeenCalled();
     });
 
-    it('should fail with short password', async () => {
-      await expect(signUp('test@example.com', '12345')).rejects.toThrow(
-        'Password must be at least 6 characters long'
+    it('should check the password against the policy with the email and name', async () => {
+      mockAssertPasswordAllowed.mockRejectedValueOnce(weakPasswordError);
+
+      await expect(signUp('test@example.com', '12345', 'Test User')).rejects.toThrow(
+        PasswordPolicyError
       );
 
+      expect(mockAssertPasswordAllowed).toHaveBeenCalledWith('12345', [
+        'test@example.com',
+        'Test User',
+      ]);
       expect(mockQuery).not.toHaveBeenCalled();
     });
 
-    it('should fail when user already exists', async () => {
-      mockQuery.mockResolvedValueOnce({
-        rows: [{ id: 'existing-user-id' }],
-        rowCount: 1,
-      } as any);
+    it('should not reveal that the email already has an account', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
 
       await expect(
         signUp('existing@example.com', 'password123')
-      ).rejects.toThrow('User already exists');
+      ).resolves.toBeUndefined();
 
+      // The owner is told instead of the person signing up
+      expect(mockSendExistingAccountEmail).toHaveBeenCalledWith('existing@example.com');
+      expect(mockSendVerificationEmail).not.toHaveBeenCalled();
       expect(mockQuery).toHaveBeenCalledTimes(1);
     });
 
     it('should hash password with bcrypt', async () => {
       const password = 'testpassword123';
 
-      mockQuery
-        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
-        .mockResolvedValueOnce({
-          rows: [{ id: 'user-id', email: 'test@example.com', full_name: 'Test' }],
-          rowCount: 1,
-        } as any);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-id', email: 'test@example.com', full_name: 'Test' }],
+        rowCount: 1,
+      } as any);
 
       await signUp('test@example.com', password, 'Test');
 
-      const insertCall = mockQuery.mock.calls[1];
+      const insertCall = mockQuery.mock.calls[0];
       const hashedPassword = insertCall[1]?.[2] as string;
 
       // Verify password was hashed
@@ -135,12 +221,13 @@ describe('Authentication System', () => {
         ],
         rowCount: 1,
       } as any);
+      mockSessionCreated();
 
-      const result = await signIn(email, password);
+      const result = (await signIn(email, password)) as AuthResponse;
 
       expect(result).toHaveProperty('access_token');
       expect(result).toHaveProperty('token_type', 'Bearer');
-      expect(result).toHaveProperty('expires_in', 604800);
+      expect(result).toHaveProperty('expires_in', 900);
       expect(result.user).toEqual({
         id: 'user-id',
         email,
@@ -152,6 +239,49 @@ describe('Authentication System', () => {
       expect(decoded.email).toBe(email);
     });
 
+    it('should store only the hash of the refresh token', async () => {
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-id', email: 'test@example.com', password_hash: hashedPassword }],
+        rowCount: 1,
+      } as any);
+      mockSessionCreated();
+
+      const result = (await signIn('test@example.com', 'password123')) as AuthResponse;
+
+      const [sessionSql, sessionParams] = mockQuery.mock.calls[1];
+      expect(sessionSql).toContain('INSERT INTO sessions');
+      expect(sessionParams).toEqual(['user-id', null, null]);
+
+      const [tokenSql, tokenParams] = mockQuery.mock.calls[2];
+      expect(tokenSql).toContain('INSERT INTO refresh_tokens');
+      expect(tokenParams?.[0]).toBe('session-id');
+      expect(tokenParams?.[1]).toBe(sha256(result.refresh_token));
+      expect(tokenParams).not.toContain(result.refresh_token);
+    });
+
+    it('should record the device on the new session', async () => {
+      const hashedPassword = await bcrypt.hash('password123', 10);
+
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-id', email: 'test@example.com', password_hash: hashedPassword }],
+        rowCount: 1,
+      } as any);
+      mockSessionCreated();
+
+      await signIn('test@example.com', 'password123', {
+        userAgent: 'Mozilla/5.0 Firefox/121.0',
+        ipAddress: '203.0.113.7',
+      });
+
+      expect(mockQuery.mock.calls[1][1]).toEqual([
+        'user-id',
+        'Mozilla/5.0 Firefox/121.0',
+        '203.0.113.7',
+      ]);
+    });
+
     it('should fail with non-existent user', async () => {
       mockQuery.mockResolvedValueOnce({
         rows: [],
@@ -161,6 +291,70 @@ describe('Authentication System', () => {
       await expect(
         signIn('nonexistent@example.com', 'password123')
       ).rejects.toThrow('Invalid credentials');
+
+      // Unknown emails are throttled like real ones
+      expect(mockRecordFailedSignIn).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'nonexistent@example.com' })
+      );
+    });
+
+    it('should record failed attempts against the account and IP', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'user-id',
+            email: 'test@example.com',
+            password_hash: await bcrypt.hash('correctpassword', 10),
+          },
+        ],
+        rowCount: 1,
+      } as any);
+
+      await expect(
+        signIn('test@example.com', 'wrongpassword', { ipAddress: '203.0.113.7' })
+      ).rejects.toThrow('Invalid credentials');
+
+      expect(mockClaimSignInAttempt).toHaveBeenCalledWith('test@example.com', '203.0.113.7');
+      expect(mockRecordFailedSignIn).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        ipAddress: '203.0.113.7',
+        accountFailures: 1,
+        ipFailures: 1,
+      });
+      expect(mockClearFailedSignIns).not.toHaveBeenCalled();
+    });
+
+    it('should clear failed attempts after signing in', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'user-id',
+            email: 'test@example.com',
+            password_hash: await bcrypt.hash('password123', 10),
+          },
+        ],
+        rowCount: 1,
+      } as any);
+      mockSessionCreated();
+
+      await signIn('test@example.com', 'password123');
+
+      expect(mockClearFailedSignIns).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'test@example.com' })
+      );
+      expect(mockRecordFailedSignIn).not.toHaveBeenCalled();
+    });
+
+    it('should refuse even the right password while throttled', async () => {
+      mockClaimSignInAttempt.mockRejectedValueOnce(
+        new Error('Too many sign-in attempts. Please try again later.')
+      );
+
+      await expect(signIn('test@example.com', 'password123')).rejects.toThrow(
+        'Too many sign-in attempts'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(mockRecordFailedSignIn).not.toHaveBeenCalled();
     });
 
     it('should fail with incorrect password', async () => {
@@ -183,30 +377,80 @@ describe('Authentication System', () => {
       ).rejects.toThrow('Invalid credentials');
     });
 
+    it('should fail for accounts without a password', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'user-id',
+            email: 'test@example.com',
+            full_name: 'Test User',
+            password_hash: null,
+          },
+        ],
+        rowCount: 1,
+      } as any);
+
+      await expect(signIn('test@example.com', 'anything')).rejects.toThrow(
+        'Invalid credentials'
+      );
+    });
+
     it('should fail with empty credentials', async () => {
       await expect(signIn('', 'password')).rejects.toThrow('Invalid credentials');
       await expect(signIn('test@example.com', '')).rejects.toThrow(
         'Invalid credentials'
       );
     });
-  });
-
-  describe('getUser', () => {
-    it('should retrieve user with valid token', async () => {
-      const userId = 'user-id';
-      const email = 'test@example.com';
-      const token = jwt.sign({ userId, email }, JWT_SECRET);
 
+    it('should ask for a second step when two-factor authentication is enabled', async () => {
       mockQuery.mockResolvedValueOnce({
         rows: [
           {
-            id: userId,
-            email,
+            id: 'user-id',
+            email: 'test@example.com',
             full_name: 'Test User',
+            password_hash: await bcrypt.hash('password123', 10),
           },
         ],
         rowCount: 1,
       } as any);
+      mockIsTwoFactorEnabled.mockResolvedValueOnce(true);
+
+      const result = await signIn('test@example.com', 'password123');
+
+      expect(requiresTwoFactor(result)).toBe(true);
+      expect(result).not.toHaveProperty('access_token');
+      // No session until the second step
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+
+      const decoded = jwt.verify(
+        (result as TwoFactorChallenge).challenge_token,
+        JWT_SECRET
+      ) as any;
+      expect(decoded).toMatchObject({ purpose: 'two_factor', sub: 'user-id' });
+      expect(decoded.userId).toBeUndefined();
+      expect(decoded.exp - decoded.iat).toBe(300);
+    });
+  });
+
+  describe('getUser', () => {
+    it('should retrieve user with valid token', async () => {
+      const userId = 'user-id';
+      const email = 'test@example.com';
+      const token = jwt.sign({ userId, email, sid: 'session-1' }, JWT_SECRET);
+
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{}], rowCount: 1 } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: userId,
+              email,
+              full_name: 'Test User',
+            },
+          ],
+          rowCount: 1,
+        } as any);
 
       const user = await getUser(token);
 
@@ -215,6 +459,8 @@ describe('Authentication System', () => {
         email,
         full_name: 'Test User',
       });
+      expect(mockQuery.mock.calls[0][0]).toContain('revoked_at IS NULL');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['session-1']);
     });
 
     it('should fail with invalid token', async () => {
@@ -225,9 +471,35 @@ describe('Authentication System', () => {
       await expect(getUser('')).rejects.toThrow('Invalid token');
     });
 
+    it('should reject two-factor challenge tokens', async () => {
+      const challenge = signJwt({ purpose: 'two_factor', sub: 'user-id' }, 300);
+
+      await expect(getUser(challenge)).rejects.toThrow('Invalid token');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens without a session', async () => {
+      const token = jwt.sign({ userId: 'user-id', email: 'test@example.com' }, JWT_SECRET);
+
+      await expect(getUser(token)).rejects.toThrow('Invalid token');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of revoked sessions before they expire', async () => {
+      const token = jwt.sign(
+        { userId: 'user-id', email: 'test@example.com', sid: 'session-1' },
+        JWT_SECRET
+      );
+
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(getUser(token)).rejects.toThrow('Session revoked');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
     it('should fail with expired token', async () => {
       const token = jwt.sign(
-        { userId: 'user-id', email: 'test@example.com' },
+        { userId: 'user-id', email: 'test@example.com', sid: 'session-1' },
         JWT_SECRET,
         { expiresIn: '-1s' } // Already expired
       );
@@ -237,33 +509,39 @@ describe('Authentication System', () => {
 
     it('should fail when user not found in database', async () => {
       const token = jwt.sign(
-        { userId: 'non-existent-id', email: 'test@example.com' },
+        { userId: 'non-existent-id', email: 'test@example.com', sid: 'session-1' },
         JWT_SECRET
       );
 
-      mockQuery.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 0,
-      } as any);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{}], rowCount: 1 } as any)
+        .mockResolvedValueOnce({
+          rows: [],
+          rowCount: 0,
+        } as any);
 
       await expect(getUser(token)).rejects.toThrow('User not found');
     });
   });
 
+
   describe('signOut', () => {
-    it('should successfully sign out with valid token', async () => {
-      const token = jwt.sign(
-        { userId: 'user-id', email: 'test@example.com' },
-        JWT_SECRET
-      );
+    it('should revoke the session of the refresh token', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
 
-      const result = await signOut(token);
+      const result = await signOut('refresh-token');
 
       expect(result).toEqual({ success: true });
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('UPDATE sessions');
+      expect(sql).toContain("revoked_reason = 'sign_out'");
+      expect(params).toEqual([sha256('refresh-token')]);
     });
 
-    it('should return success even with invalid token', async () => {
-      const result = await signOut('invalid-token');
+    it('should return success for unknown tokens', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      const result = await signOut('unknown-token');
 
       expect(result).toEqual({ success: true });
     });
@@ -272,87 +550,625 @@ describe('Authentication System', () => {
       const result = await signOut('');
 
       expect(result).toEqual({ success: true });
+      expect(mockQuery).not.toHaveBeenCalled();
     });
   });
 
   describe('refreshToken', () => {
-    it('should generate new token from valid token', async () => {
-      const userId = 'user-id';
-      const email = 'test@example.com';
-      const oldToken = jwt.sign({ userId, email }, JWT_SECRET);
+    const tokenRow = (overrides: Record<string, unknown> = {}) => ({
+      rows: [
+        {
+          id: 'token-id',
+          session_id: 'session-id',
+          expires_at: new Date(Date.now() + 60 * 60 * 1000),
+          rotated_at: null,
+          revoked_at: null,
+          user_id: 'user-id',
+          email: 'test@example.com',
+          full_name: 'Test User',
+          ...overrides,
+        },
+      ],
+      rowCount: 1,
+    });
 
-      mockQuery.mockResolvedValueOnce({
-        rows: [
-          {
-            id: userId,
-            email,
-            full_name: 'Test User',
-          },
-        ],
-        rowCount: 1,
-      } as any);
+    it('should rotate the refresh token and issue a new access token', async () => {
+      mockQuery
+        .mockResolvedValueOnce(tokenRow() as any) // Look up token
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any) // Mark rotated
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any); // Insert next token
 
-      const result = await refreshToken(oldToken);
+      const result = await refreshToken('old-refresh-token');
 
-      expect(result).toHaveProperty('access_token');
-      expect(result.access_token).not.toBe(oldToken);
+      expect(result.refresh_token).not.toBe('old-refresh-token');
       expect(result).toHaveProperty('token_type', 'Bearer');
       expect(result.user).toEqual({
-        id: userId,
-        email,
+        id: 'user-id',
+        email: 'test@example.com',
         full_name: 'Test User',
       });
 
-      // Verify new token is valid
+      expect(mockQuery.mock.calls[0][1]).toEqual([sha256('old-refresh-token')]);
+      expect(mockQuery.mock.calls[1][0]).toContain('SET rotated_at = NOW()');
+      expect(mockQuery.mock.calls[1][0]).toContain('SET last_seen_at = NOW()');
+      expect(mockQuery.mock.calls[2][1]?.slice(0, 2)).toEqual([
+        'session-id',
+        sha256(result.refresh_token),
+      ]);
+
+      // Verify new token is valid and bound to the session
       const decoded = jwt.verify(result.access_token, JWT_SECRET) as any;
-      expect(decoded.userId).toBe(userId);
-      expect(decoded.email).toBe(email);
+      expect(decoded.userId).toBe('user-id');
+      expect(decoded.sid).toBe('session-id');
     });
 
-    it('should refresh expired token', async () => {
-      const userId = 'user-id';
-      const email = 'test@example.com';
-      const expiredToken = jwt.sign({ userId, email }, JWT_SECRET, {
-        expiresIn: '-1s',
-      });
+    it('should revoke the session when a rotated token is reused', async () => {
+      mockQuery
+        .mockResolvedValueOnce(
+          tokenRow({ rotated_at: new Date(Date.now() - 60 * 1000), successor_salt: 'salt' }) as any
+        )
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(refreshToken('stolen-token')).rejects.toThrow(
+        'Refresh token reuse detected'
+      );
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('UPDATE sessions');
+      expect(params).toEqual(['session-id', 'token_reuse']);
+    });
+
+    it('should issue the same successor for a token rotated moments ago', async () => {
+      mockQuery
+        .mockResolvedValueOnce(tokenRow() as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
 
+      const first = await refreshToken('old-refresh-token');
+      const salt = mockQuery.mock.calls[1][1]?.[1];
+
+      mockQuery
+        .mockResolvedValueOnce(
+          tokenRow({ rotated_at: new Date(Date.now() - 5 * 1000), successor_salt: salt }) as any
+        )
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      const second = await refreshToken('old-refresh-token');
+
+      expect(second.refresh_token).toBe(first.refresh_token);
+      expect(mockQuery.mock.calls[4][0]).toContain('ON CONFLICT (token_hash) DO NOTHING');
+      expect(mockQuery).toHaveBeenCalledTimes(5);
+    });
+
+    it('should issue the winning successor when a concurrent refresh wins the rotation', async () => {
+      mockQuery
+        .mockResolvedValueOnce(tokenRow() as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+        .mockResolvedValueOnce({
+          rows: [{ rotated_at: new Date(), successor_salt: 'winning-salt' }],
+          rowCount: 1,
+        } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      const result = await refreshToken('raced-token');
+
+      expect(result.refresh_token).toBe(
+        createHmac('sha256', 'winning-salt').update('raced-token').digest('base64url')
+      );
+      expect(mockQuery.mock.calls[3][1]?.slice(0, 2)).toEqual([
+        'session-id',
+        sha256(result.refresh_token),
+      ]);
+      expect(mockQuery).toHaveBeenCalledTimes(4);
+    });
+
+    it('should fail for revoked sessions', async () => {
+      mockQuery.mockResolvedValueOnce(tokenRow({ revoked_at: new Date() }) as any);
+
+      await expect(refreshToken('revoked-token')).rejects.toThrow('Session revoked');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail for expired refresh tokens', async () => {
+      mockQuery.mockResolvedValueOnce(
+        tokenRow({ expires_at: new Date(Date.now() - 1000) }) as any
+      );
+
+      await expect(refreshToken('expired-token')).rejects.toThrow('Token expired');
+    });
+
+    it('should fail with unknown token', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(refreshToken('unknown-token')).rejects.toThrow('Invalid token');
+    });
+
+    it('should fail with empty token', async () => {
+      await expect(refreshToken('')).rejects.toThrow('Invalid token');
+    });
+  });
+
+  describe('signInWithMagicLink', () => {
+    it('should start a session for the link owner and verify their email', async () => {
+      mockConsumeMagicLink.mockResolvedValueOnce('test@example.com');
       mockQuery.mockResolvedValueOnce({
-        rows: [
-          {
-            id: userId,
-            email,
-            full_name: 'Test User',
-          },
-        ],
+        rows: [{ id: 'user-123', email: 'test@example.com', full_name: 'Test User' }],
         rowCount: 1,
       } as any);
+      mockSessionCreated();
 
-      const result = await refreshToken(expiredToken);
+      const result = (await signInWithMagicLink('link-token', { userAgent: 'Firefox' })) as AuthResponse;
 
-      expect(result).toHaveProperty('access_token');
-      expect(result.user.id).toBe(userId);
+      expect(mockConsumeMagicLink).toHaveBeenCalledWith('link-token');
+      expect(mockQuery.mock.calls[0][0]).toContain('email_verified_at = COALESCE');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['test@example.com']);
+      expect(result.user.id).toBe('user-123');
+      expect(result).toHaveProperty('refresh_token');
     });
 
-    it('should fail with invalid token', async () => {
-      await expect(refreshToken('invalid-token')).rejects.toThrow('Invalid token');
+    it('should ask for a second step when two-factor authentication is enabled', async () => {
+      mockConsumeMagicLink.mockResolvedValueOnce('test@example.com');
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'test@example.com', full_name: 'Test User' }],
+        rowCount: 1,
+      } as any);
+      mockIsTwoFactorEnabled.mockResolvedValueOnce(true);
+
+      const result = await signInWithMagicLink('link-token');
+
+      expect(requiresTwoFactor(result)).toBe(true);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
     });
 
-    it('should fail with empty token', async () => {
-      await expect(refreshToken('')).rejects.toThrow('Invalid token');
+    it('should fail for invalid links', async () => {
+      mockConsumeMagicLink.mockRejectedValueOnce(
+        new Error('Invalid or expired sign-in link')
+      );
+
+      await expect(signInWithMagicLink('bad')).rejects.toThrow(
+        'Invalid or expired sign-in link'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
     });
 
-    it('should fail when user not found', async () => {
-      const token = jwt.sign(
-        { userId: 'non-existent-id', email: 'test@example.com' },
-        JWT_SECRET
+    it('should fail when the account no longer exists', async () => {
+      mockConsumeMagicLink.mockResolvedValueOnce('gone@example.com');
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(signInWithMagicLink('link-token')).rejects.toThrow(
+        'Invalid credentials'
       );
+    });
+  });
 
+  describe('signInWithCode', () => {
+    it('should start a session after a matching code', async () => {
+      mockConsumeSignInCode.mockResolvedValueOnce(undefined);
       mockQuery.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 0,
+        rows: [{ id: 'user-123', email: 'test@example.com', full_name: null }],
+        rowCount: 1,
+      } as any);
+      mockSessionCreated();
+
+      const result = (await signInWithCode('test@example.com', '123456')) as AuthResponse;
+
+      expect(mockConsumeSignInCode).toHaveBeenCalledWith('test@example.com', '123456');
+      expect(result.user.email).toBe('test@example.com');
+    });
+
+    it('should reject malformed codes without using up an attempt', async () => {
+      await expect(signInWithCode('test@example.com', '12ab')).rejects.toThrow(
+        'Invalid or expired sign-in code'
+      );
+      expect(mockConsumeSignInCode).not.toHaveBeenCalled();
+    });
+
+    it('should fail for wrong codes', async () => {
+      mockConsumeSignInCode.mockRejectedValueOnce(
+        new Error('Invalid or expired sign-in code')
+      );
+
+      await expect(signInWithCode('test@example.com', '000000')).rejects.toThrow(
+        'Invalid or expired sign-in code'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signInWithOAuthProfile', () => {
+    const profile = {
+      provider: 'github',
+      subject: '42',
+      email: 'octocat@example.com',
+      emailVerified: true,
+      name: 'The Octocat',
+      avatarUrl: 'https://avatars.example.test/42',
+    };
+
+    it('should sign in the user linked to a known identity', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'octocat@example.com', full_name: 'Octo' }],
+      } as any);
+      mockSessionCreated();
+
+      const result = (await signInWithOAuthProfile(profile)) as AuthResponse;
+
+      expect(mockQuery.mock.calls[0][1]).toEqual(['github', '42']);
+      expect(result.user.id).toBe('user-123');
+      // Identity lookup, then the session and refresh token inserts
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+
+    it('should link a new identity to the user with the same verified email', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'user-123',
+              email: 'octocat@example.com',
+              full_name: 'Octo',
+              email_verified_at: new Date(),
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+      mockSessionCreated();
+
+      const result = (await signInWithOAuthProfile(profile)) as AuthResponse;
+
+      expect(result.user).toEqual({
+        id: 'user-123',
+        email: 'octocat@example.com',
+        full_name: 'Octo',
+      });
+      expect(mockQuery.mock.calls[2][0]).toContain('INSERT INTO user_identities');
+      expect(mockQuery.mock.calls[2][1]).toEqual([
+        'user-123',
+        'github',
+        '42',
+        'octocat@example.com',
+      ]);
+    });
+
+    it('should remove the password of an unverified account before linking', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'user-123',
+              email: 'octocat@example.com',
+              full_name: null,
+              email_verified_at: null,
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+      mockSessionCreated();
+
+      await signInWithOAuthProfile(profile);
+
+      expect(mockQuery.mock.calls[2][0]).toContain('password_hash = NULL');
+      expect(mockQuery.mock.calls[3][0]).toContain("revoked_reason = 'account_linked'");
+      expect(mockQuery.mock.calls[4][0]).toContain('INSERT INTO user_identities');
+    });
+
+    it('should create a verified user for a new email', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({
+          rows: [{ id: 'new-user', email: 'octocat@example.com', full_name: 'The Octocat' }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+      mockSessionCreated();
+
+      const result = (await signInWithOAuthProfile(profile)) as AuthResponse;
+
+      expect(mockQuery.mock.calls[2][0]).toContain('INSERT INTO users');
+      expect(mockQuery.mock.calls[2][1]).toEqual([
+        'octocat@example.com',
+        'The Octocat',
+        'https://avatars.example.test/42',
+      ]);
+      expect(result.user.id).toBe('new-user');
+    });
+
+    it('should ask linked users with two-factor authentication for a code', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'octocat@example.com', full_name: 'Octo' }],
+      } as any);
+      mockIsTwoFactorEnabled.mockResolvedValueOnce(true);
+
+      const result = await signInWithOAuthProfile(profile);
+
+      expect(requiresTwoFactor(result)).toBe(true);
+      expect(mockIsTwoFactorEnabled).toHaveBeenCalledWith('user-123');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse new identities without a verified email', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(
+        signInWithOAuthProfile({ ...profile, emailVerified: false })
+      ).rejects.toThrow('no verified email address');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('completeTwoFactorSignIn', () => {
+    const challenge = () => signJwt({ purpose: 'two_factor', sub: 'user-123' }, 300);
+
+    it('should start a session after a valid code', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'test@example.com', full_name: 'Test User' }],
+      } as any);
+      mockVerifyTwoFactorCode.mockResolvedValueOnce(true);
+      mockSessionCreated();
+
+      const result = await completeTwoFactorSignIn(challenge(), '123456', {
+        userAgent: 'Firefox',
+      });
+
+      expect(mockVerifyTwoFactorCode).toHaveBeenCalledWith('user-123', '123456');
+      expect(result.user.id).toBe('user-123');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-123', 'Firefox', null]);
+    });
+
+    it('should fail for wrong codes without starting a session', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'test@example.com', full_name: 'Test User' }],
+      } as any);
+      mockVerifyTwoFactorCode.mockResolvedValueOnce(false);
+
+      await expect(completeTwoFactorSignIn(challenge(), '000000')).rejects.toThrow(
+        'Invalid authentication code'
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject expired challenges', async () => {
+      const expired = jwt.sign({ purpose: 'two_factor', sub: 'user-123' }, JWT_SECRET, {
+        expiresIn: -1,
+      });
+
+      await expect(completeTwoFactorSignIn(expired, '123456')).rejects.toThrow(
+        'Sign in took too long'
+      );
+      expect(mockVerifyTwoFactorCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject access tokens used as challenges', async () => {
+      const accessToken = signJwt({ userId: 'user-123', sub: 'user-123' }, 900);
+
+      await expect(completeTwoFactorSignIn(accessToken, '123456')).rejects.toThrow(
+        'Sign in took too long'
+      );
+      await expect(completeTwoFactorSignIn('', '123456')).rejects.toThrow(
+        'Sign in took too long'
+      );
+    });
+  });
+
+  describe('signInWithPasskey', () => {
+    const credential = {
+      id: 'credential-id',
+      rawId: 'credential-id',
+      type: 'public-key',
+      response: { clientDataJSON: '', authenticatorData: '', signature: '' },
+    };
+
+    it('should start a session without asking for a two-factor code', async () => {
+      mockVerifyAuthentication.mockResolvedValueOnce('user-123');
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'test@example.com', full_name: 'Test User' }],
+      } as any);
+      mockSessionCreated();
+
+      const result = await signInWithPasskey(credential, 'challenge-token', {
+        userAgent: 'Safari',
+      });
+
+      expect(mockVerifyAuthentication).toHaveBeenCalledWith(credential, 'challenge-token');
+      expect(mockIsTwoFactorEnabled).not.toHaveBeenCalled();
+      expect(result.user.id).toBe('user-123');
+      expect(result.access_token).toBeDefined();
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-123', 'Safari', null]);
+    });
+
+    it('should fail when the passkey does not verify', async () => {
+      mockVerifyAuthentication.mockRejectedValueOnce(new Error('Passkey signature is invalid'));
+
+      await expect(signInWithPasskey(credential, 'challenge-token')).rejects.toThrow(
+        'Passkey signature is invalid'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the user no longer exists', async () => {
+      mockVerifyAuthentication.mockResolvedValueOnce('user-123');
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(signInWithPasskey(credential, 'challenge-token')).rejects.toThrow(
+        'Invalid credentials'
+      );
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should require the current password and a code', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ password_hash: await bcrypt.hash('password123', 10) }],
+      } as any);
+      mockVerifyTwoFactorCode.mockResolvedValueOnce(true);
+
+      await disableTwoFactor('user-123', 'password123', '123456');
+
+      expect(mockVerifyTwoFactorCode).toHaveBeenCalledWith('user-123', '123456');
+      expect(mockRemoveTwoFactor).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should refuse a wrong password before checking the code', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ password_hash: await bcrypt.hash('password123', 10) }],
       } as any);
 
-      await expect(refreshToken(token)).rejects.toThrow('User not found');
+      await expect(disableTwoFactor('user-123', 'wrong', '123456')).rejects.toThrow(
+        'Incorrect password'
+      );
+      expect(mockVerifyTwoFactorCode).not.toHaveBeenCalled();
+      expect(mockRemoveTwoFactor).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a wrong code', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ password_hash: await bcrypt.hash('password123', 10) }],
+      } as any);
+      mockVerifyTwoFactorCode.mockResolvedValueOnce(false);
+
+      await expect(
+        disableTwoFactor('user-123', 'password123', '000000')
+      ).rejects.toThrow('Invalid authentication code');
+      expect(mockRemoveTwoFactor).not.toHaveBeenCalled();
+    });
+
+    it('should accept a code alone for accounts without a password', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ password_hash: null }] } as any);
+      mockVerifyTwoFactorCode.mockResolvedValueOnce(true);
+
+      await disableTwoFactor('user-123', '', '123456');
+
+      expect(mockRemoveTwoFactor).toHaveBeenCalledWith('user-123');
+    });
+  });
+
+  describe('reauthenticate', () => {
+    it('should require the password and, with two-factor authentication, a code', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ password_hash: await bcrypt.hash('password123', 10) }],
+      } as any);
+      mockIsTwoFactorEnabled.mockResolvedValueOnce(true);
+      mockVerifyTwoFactorCode.mockResolvedValueOnce(true);
+
+      await reauthenticate('user-123', 'password123', '123456');
+
+      expect(mockVerifyTwoFactorCode).toHaveBeenCalledWith('user-123', '123456');
+    });
+
+    it('should refuse a wrong password', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ password_hash: await bcrypt.hash('password123', 10) }],
+      } as any);
+
+      await expect(reauthenticate('user-123', 'wrong', '')).rejects.toThrow('Incorrect password');
+      expect(mockVerifyTwoFactorCode).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a wrong code when two-factor authentication is on', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ password_hash: null }] } as any);
+      mockIsTwoFactorEnabled.mockResolvedValueOnce(true);
+      mockVerifyTwoFactorCode.mockResolvedValueOnce(false);
+
+      await expect(reauthenticate('user-123', '', '000000')).rejects.toThrow(
+        'Invalid authentication code'
+      );
+    });
+
+    it('should not ask for a code without two-factor authentication', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ password_hash: await bcrypt.hash('password123', 10) }],
+      } as any);
+      mockIsTwoFactorEnabled.mockResolvedValueOnce(false);
+
+      await reauthenticate('user-123', 'password123', '');
+
+      expect(mockVerifyTwoFactorCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setPassword', () => {
+    const user = { email: 'test@example.com', full_name: 'Test User' };
+
+    it('should hash the new password and revoke every session', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [user], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 2 } as any);
+
+      await setPassword('user-123', 'newpassword');
+
+      const [updateSql, updateParams] = mockQuery.mock.calls[1];
+      expect(updateSql).toContain('UPDATE users SET password_hash');
+      expect(await bcrypt.compare('newpassword', updateParams![0] as string)).toBe(true);
+      expect(updateParams![1]).toBe('user-123');
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining("revoked_reason = 'password_changed'"),
+        ['user-123', null]
+      );
+    });
+
+    it('should keep the given session signed in', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [user], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await setPassword('user-123', 'newpassword', 'session-1');
+
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.any(String), [
+        'user-123',
+        'session-1',
+      ]);
+    });
+
+    it('should check the password against the policy with the email and name', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [user], rowCount: 1 } as any);
+      mockAssertPasswordAllowed.mockRejectedValueOnce(weakPasswordError);
+
+      await expect(setPassword('user-123', '12345')).rejects.toThrow(PasswordPolicyError);
+
+      expect(mockAssertPasswordAllowed).toHaveBeenCalledWith('12345', [
+        'test@example.com',
+        'Test User',
+      ]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail for unknown users', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(setPassword('missing', 'newpassword')).rejects.toThrow(
+        'User not found'
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockAssertPasswordAllowed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSessionId', () => {
+    it('should return the session of a valid token', () => {
+      const token = jwt.sign(
+        { userId: 'user-id', email: 'test@example.com', sid: 'session-id' },
+        JWT_SECRET
+      );
+
+      expect(getSessionId(token)).toBe('session-id');
+    });
+
+    it('should return null for tokens without a session', () => {
+      const token = jwt.sign({ userId: 'user-id', email: 'test@example.com' }, JWT_SECRET);
+
+      expect(getSessionId(token)).toBeNull();
+    });
+
+    it('should return null for invalid tokens', () => {
+      expect(getSessionId('invalid-token')).toBeNull();
+      expect(getSessionId('')).toBeNull();
     });
   });
 
@@ -389,16 +1205,14 @@ describe('Authentication System', () => {
     it('should never store plaintext passwords', async () => {
       const password = 'mySecurePassword123';
 
-      mockQuery
-        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
-        .mockResolvedValueOnce({
-          rows: [{ id: 'user-id', email: 'test@example.com', full_name: 'Test' }],
-          rowCount: 1,
-        } as any);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-id', email: 'test@example.com', full_name: 'Test' }],
+        rowCount: 1,
+      } as any);
 
       await signUp('test@example.com', password, 'Test');
 
-      const insertCall = mockQuery.mock.calls[1];
+      const insertCall = mockQuery.mock.calls[0];
       const storedPassword = insertCall[1]?.[2] as string;
 
       // Password should be hashed, not plaintext
@@ -409,16 +1223,14 @@ describe('Authentication System', () => {
     it('should use bcrypt for password hashing', async () => {
       const password = 'testPassword456';
 
-      mockQuery
-        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
-        .mockResolvedValueOnce({
-          rows: [{ id: 'user-id', email: 'test@example.com', full_name: 'Test' }],
-          rowCount: 1,
-        } as any);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'user-id', email: 'test@example.com', full_name: 'Test' }],
+        rowCount: 1,
+      } as any);
 
       await signUp('test@example.com', password);
 
-      const insertCall = mockQuery.mock.calls[1];
+      const insertCall = mockQuery.mock.calls[0];
       const hashedPassword = insertCall[1]?.[2] as string;
 
       // Verify bcrypt hash can validate the password
@@ -428,17 +1240,25 @@ describe('Authentication System', () => {
   });
 
   describe('JWT Token Generation', () => {
+    async function mockPasswordUser(id = 'user-id') {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id,
+            email: 'test@example.com',
+            full_name: 'Test',
+            password_hash: await bcrypt.hash('password123', 10),
+          },
+        ],
+        rowCount: 1,
+      } as any);
+      mockSessionCreated();
+    }
+
     it('should generate valid JWT tokens', async () => {
-      mockQuery
-        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
-        .mockResolvedValueOnce({
-          rows: [
-            { id: 'user-id-123', email: 'test@example.com', full_name: 'Test' },
-          ],
-          rowCount: 1,
-        } as any);
+      await mockPasswordUser('user-id-123');
 
-      const result = await signUp('test@example.com', 'password123');
+      const result = (await signIn('test@example.com', 'password123')) as AuthResponse;
 
       const decoded = jwt.verify(result.access_token, JWT_SECRET) as any;
 
@@ -449,18 +1269,13 @@ describe('Authentication System', () => {
     });
 
     it('should set correct token expiration', async () => {
-      mockQuery
-        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
-        .mockResolvedValueOnce({
-          rows: [{ id: 'user-id', email: 'test@example.com', full_name: 'Test' }],
-          rowCount: 1,
-        } as any);
+      await mockPasswordUser();
 
-      const result = await signUp('test@example.com', 'password123');
+      const result = (await signIn('test@example.com', 'password123')) as AuthResponse;
 
       const decoded = jwt.verify(result.access_token, JWT_SECRET) as any;
 
-      const expectedExpiry = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60;
+      const expectedExpiry = Math.floor(Date.now() / 1000) + 15 * 60;
       const actualExpiry = decoded.exp;
 
       // Allow 5 second tolerance for test execution time
@@ -496,15 +1311,13 @@ describe('Authentication System', () => {
 
     validEmails.forEach((email) => {
       it(`should accept valid email: ${email}`, async () => {
-        mockQuery
-          .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
-          .mockResolvedValueOnce({
-            rows: [{ id: 'user-id', email, full_name: 'Test' }],
-            rowCount: 1,
-          } as any);
-
-        const result = await signUp(email, 'password123');
-        expect(result.user.email).toBe(email);
+        mockQuery.mockResolvedValueOnce({
+          rows: [{ id: 'user-id', email, full_name: 'Test' }],
+          rowCount: 1,
+        } as any);
+
+        await expect(signUp(email, 'password123')).resolves.toBeUndefined();
+        expect(mockQuery.mock.calls[0][1]?.[0]).toBe(email);
       });
     });
   });
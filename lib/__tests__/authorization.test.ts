@@ -0,0 +1,88 @@
+import { assertCan, authorize, AuthorizationError, can } from '../authorization';
+import { getOrganization } from '../organizations';
+
+jest.mock('../organizations', () => ({
+  getOrganization: jest.fn(),
+}));
+
+const mockGetOrganization = getOrganization as jest.MockedFunction<typeof getOrganization>;
+
+const ORGANIZATION = {
+  id: '11111111-1111-4111-8111-111111111111',
+  name: 'Acme',
+  role: 'owner' as const,
+  memberCount: 3,
+};
+
+describe('Authorization', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('can', () => {
+    it('should let owners do everything', () => {
+      expect(can('owner', 'manage_billing')).toBe(true);
+      expect(can('owner', 'manage_members')).toBe(true);
+    });
+
+    it('should let billing admins manage billing only', () => {
+      expect(can('billing_admin', 'manage_billing')).toBe(true);
+      expect(can('billing_admin', 'manage_members')).toBe(false);
+    });
+
+    it('should not let members manage anything', () => {
+      expect(can('member', 'manage_billing')).toBe(false);
+      expect(can('member', 'manage_members')).toBe(false);
+    });
+
+    it('should not grant anything without a role', () => {
+      expect(can(null, 'manage_billing')).toBe(false);
+      expect(can(undefined, 'manage_members')).toBe(false);
+    });
+  });
+
+  describe('assertCan', () => {
+    it('should throw an AuthorizationError naming who may do it', () => {
+      const organization = { ...ORGANIZATION, role: 'member' as const };
+
+      expect(() => assertCan(organization, 'manage_billing')).toThrow(AuthorizationError);
+      expect(() => assertCan(organization, 'manage_billing')).toThrow(
+        'Only owners and billing admins can manage billing.'
+      );
+      expect(() => assertCan(organization, 'manage_members')).toThrow(
+        'Only organization owners can manage members.'
+      );
+    });
+
+    it('should pass when the role grants the permission', () => {
+      expect(() => assertCan(ORGANIZATION, 'manage_members')).not.toThrow();
+    });
+  });
+
+  describe('authorize', () => {
+    it('should return the organization when allowed', async () => {
+      mockGetOrganization.mockResolvedValue({ ...ORGANIZATION, role: 'billing_admin' });
+
+      await expect(
+        authorize('user-1', ORGANIZATION.id, 'manage_billing')
+      ).resolves.toMatchObject({ id: ORGANIZATION.id, role: 'billing_admin' });
+      expect(mockGetOrganization).toHaveBeenCalledWith('user-1', ORGANIZATION.id);
+    });
+
+    it('should refuse users without the permission', async () => {
+      mockGetOrganization.mockResolvedValue({ ...ORGANIZATION, role: 'billing_admin' });
+
+      await expect(
+        authorize('user-1', ORGANIZATION.id, 'manage_members')
+      ).rejects.toMatchObject({ name: 'AuthorizationError', permission: 'manage_members' });
+    });
+
+    it('should refuse non-members', async () => {
+      mockGetOrganization.mockResolvedValue(null);
+
+      await expect(
+        authorize('user-1', ORGANIZATION.id, 'manage_members')
+      ).rejects.toThrow('You are not a member of that organization.');
+    });
+  });
+});
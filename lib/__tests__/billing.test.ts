@@ -0,0 +1,114 @@
+import { getBillingHistory, BILLING_HISTORY_PAGE_SIZE } from '../billing';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('Billing History', () => {
+  const invoiceRow = {
+    id: 'in_123',
+    kind: 'invoice',
+    created: new Date('2024-02-01T00:00:00Z'),
+    amount: '2000',
+    amount_refunded: '500',
+    currency: 'usd',
+    status: 'paid',
+    period_start: new Date('2024-01-01T00:00:00Z'),
+    period_end: new Date('2024-02-01T00:00:00Z'),
+    hosted_url: 'https://invoice.stripe.com/i/in_123',
+    pdf_url: 'https://invoice.stripe.com/i/in_123/pdf',
+  };
+
+  const paymentRow = {
+    id: 'ch_456',
+    kind: 'payment',
+    created: new Date('2024-01-15T00:00:00Z'),
+    amount: '9900',
+    amount_refunded: '0',
+    currency: 'usd',
+    status: 'succeeded',
+    period_start: null,
+    period_end: null,
+    hosted_url: 'https://pay.stripe.com/receipts/ch_456',
+    pdf_url: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return invoices and standalone payments for the user', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [invoiceRow, paymentRow] } as any)
+      .mockResolvedValueOnce({ rows: [{ total_count: '2' }] } as any);
+
+    const history = await getBillingHistory('user_123');
+
+    expect(history).toEqual({
+      entries: [
+        {
+          id: 'in_123',
+          kind: 'invoice',
+          created: '2024-02-01T00:00:00.000Z',
+          amount: 2000,
+          amountRefunded: 500,
+          currency: 'usd',
+          status: 'paid',
+          periodStart: '2024-01-01T00:00:00.000Z',
+          periodEnd: '2024-02-01T00:00:00.000Z',
+          hostedUrl: 'https://invoice.stripe.com/i/in_123',
+          pdfUrl: 'https://invoice.stripe.com/i/in_123/pdf',
+        },
+        {
+          id: 'ch_456',
+          kind: 'payment',
+          created: '2024-01-15T00:00:00.000Z',
+          amount: 9900,
+          amountRefunded: 0,
+          currency: 'usd',
+          status: 'succeeded',
+          periodStart: null,
+          periodEnd: null,
+          hostedUrl: 'https://pay.stripe.com/receipts/ch_456',
+          pdfUrl: null,
+        },
+      ],
+      page: 1,
+      pageSize: BILLING_HISTORY_PAGE_SIZE,
+      totalCount: 2,
+      totalPages: 1,
+    });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('FROM invoices i');
+    expect(sql).toContain('p.invoice_id IS NULL');
+    expect(sql).toContain("i.status <> 'draft'");
+    expect(params).toEqual(['user_123', BILLING_HISTORY_PAGE_SIZE, 0]);
+  });
+
+  it('should offset the query for later pages', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] } as any)
+      .mockResolvedValueOnce({ rows: [{ total_count: '25' }] } as any);
+
+    const history = await getBillingHistory('user_123', 3, 10);
+
+    expect(mockQuery.mock.calls[0][1]).toEqual(['user_123', 10, 20]);
+    expect(history.page).toBe(3);
+    expect(history.totalPages).toBe(3);
+  });
+
+  it('should treat invalid page numbers as the first page', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [] } as any)
+      .mockResolvedValueOnce({ rows: [{ total_count: '0' }] } as any);
+
+    const history = await getBillingHistory('user_123', -2);
+
+    expect(mockQuery.mock.calls[0][1]).toEqual(['user_123', BILLING_HISTORY_PAGE_SIZE, 0]);
+    expect(history.page).toBe(1);
+    expect(history.totalPages).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  requestEmailChange,
+  sendExistingAccountEmail,
+  sendVerificationEmail,
+  verifyEmail,
+  isEmailVerified,
+  EMAIL_VERIFICATION_EXPIRY,
+} from '../email-verification';
+import { setMailer, type MailMessage } from '../mailer';
+import { hashToken } from '../tokens';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('Email Verification', () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sent = [];
+    setMailer({
+      send: async (message) => {
+        sent.push(message);
+      },
+    });
+  });
+
+  afterAll(() => {
+    setMailer(null);
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should store a hashed token and email the link', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await sendVerificationEmail({ id: 'user-123', email: 'test@example.com' });
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('test@example.com');
+
+      const token = decodeURIComponent(
+        sent[0].text.match(/\/auth\/verify\?token=([^\s]+)/)![1]
+      );
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO email_verification_tokens'),
+        ['user-123', 'test@example.com', hashToken(token), EMAIL_VERIFICATION_EXPIRY]
+      );
+      expect(mockQuery.mock.calls[0][1]).not.toContain(token);
+    });
+
+    it('should issue a different token each time', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      await sendVerificationEmail({ id: 'user-123', email: 'test@example.com' });
+      await sendVerificationEmail({ id: 'user-123', email: 'test@example.com' });
+
+      expect(sent[0].text).not.toBe(sent[1].text);
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    it('should keep the current email and send the link to the new address', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      await requestEmailChange('user-123', 'new@example.com');
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('SET pending_email = $1'),
+        ['new@example.com', 'user-123']
+      );
+      for (const [sql] of mockQuery.mock.calls) {
+        expect(sql).not.toMatch(/SET email\b/);
+      }
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('new@example.com');
+      const token = decodeURIComponent(
+        sent[0].text.match(/\/auth\/verify\?token=([^\s]+)/)![1]
+      );
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO email_verification_tokens'),
+        ['user-123', 'new@example.com', hashToken(token), EMAIL_VERIFICATION_EXPIRY]
+      );
+    });
+  });
+
+  describe('sendExistingAccountEmail', () => {
+    it('should point the owner to sign-in and password reset without a token', async () => {
+      await sendExistingAccountEmail('test@example.com');
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('test@example.com');
+      expect(sent[0].text).toContain('already has an account');
+      expect(sent[0].text).toContain('/signin/forgot_password');
+      expect(sent[0].text).not.toContain('token=');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should claim the token and return the verified user', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'user-123' }], rowCount: 1 } as any);
+
+      await expect(verifyEmail('token-abc')).resolves.toBe('user-123');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('used_at IS NULL');
+      expect(sql).toContain('expires_at > NOW()');
+      expect(sql).toContain('u.email = claimed.email');
+      expect(params).toEqual([hashToken('token-abc')]);
+    });
+
+    it('should only switch to the pending email while no other account has it', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'user-123' }], rowCount: 1 } as any);
+
+      await verifyEmail('token-abc');
+
+      const [sql] = mockQuery.mock.calls[0];
+      expect(sql).toContain('SET email = claimed.email');
+      expect(sql).toContain('u.pending_email = claimed.email');
+      expect(sql).toContain('other.email = claimed.email AND other.id != u.id');
+    });
+
+    it('should reject used, expired or unknown tokens', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(verifyEmail('token-abc')).rejects.toThrow(
+        'Invalid or expired verification link'
+      );
+    });
+
+    it('should reject an empty token without querying', async () => {
+      await expect(verifyEmail('')).rejects.toThrow('Invalid verification link');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isEmailVerified', () => {
+    it('should be true once email_verified_at is set', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ email_verified_at: new Date() }],
+      } as any);
+
+      await expect(isEmailVerified('user-123')).resolves.toBe(true);
+    });
+
+    it('should be false for unverified or unknown users', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ email_verified_at: null }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(isEmailVerified('user-123')).resolves.toBe(false);
+      await expect(isEmailVerified('missing')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  parseEntitlements,
+  getEntitlements,
+  invalidateEntitlements,
+  hasFeature,
+  getLimit,
+  requireFeature,
+  withFeature,
+  ENTITLEMENTS_CACHE_TTL_MS,
+} from '../entitlements';
+import * as zerodb from '../zerodb';
+import { getUser } from '../auth';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+
+// Mock dependencies
+jest.mock('../zerodb');
+jest.mock('../auth');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockGetUser = getUser as jest.MockedFunction<typeof getUser>;
+const mockCookies = cookies as jest.MockedFunction<typeof cookies>;
+const mockRedirect = redirect as jest.MockedFunction<typeof redirect>;
+
+const proMetadata = {
+  tier: 'pro',
+  features: 'api_access, priority_support',
+  limit_projects: '10',
+  limit_seats: '3',
+};
+const lifetimeMetadata = {
+  tier: 'freelancer',
+  features: 'exports',
+  limit_projects: 'unlimited',
+};
+
+function mockMetadata(...metadataList: Record<string, string>[]) {
+  mockQuery.mockResolvedValueOnce({
+    rows: metadataList.map((metadata) => ({ metadata })),
+  } as any);
+}
+
+describe('Entitlements', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    invalidateEntitlements();
+    mockRedirect.mockImplementation((url: string) => {
+      throw new Error(`REDIRECT: ${url}`);
+    });
+  });
+
+  describe('parseEntitlements', () => {
+    it('should combine features and keep the highest limit', () => {
+      expect(parseEntitlements([proMetadata, lifetimeMetadata])).toEqual({
+        tier: 'pro',
+        features: ['api_access', 'priority_support', 'exports'],
+        limits: { projects: Infinity, seats: 3 },
+      });
+    });
+
+    it('should ignore unrelated and invalid metadata', () => {
+      expect(
+        parseEntitlements([{ tier: 'platinum', limit_projects: 'many' }, null])
+      ).toEqual({ tier: null, features: [], limits: {} });
+    });
+  });
+
+  describe('getEntitlements', () => {
+    it('should read active subscriptions and paid purchases', async () => {
+      mockMetadata(proMetadata);
+
+      await getEntitlements('user_123');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("s.status IN ('trialing', 'active')");
+      expect(sql).toContain("pu.status = 'paid'");
+      expect(params).toEqual(['user_123']);
+    });
+
+    it('should cache entitlements per user', async () => {
+      mockMetadata(proMetadata);
+
+      await getEntitlements('user_123');
+      await getEntitlements('user_123');
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload after the cache expires', async () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      mockMetadata(proMetadata);
+      mockMetadata(lifetimeMetadata);
+
+      await getEntitlements('user_123');
+      dateSpy.mockReturnValue(now + ENTITLEMENTS_CACHE_TTL_MS + 1);
+      const entitlements = await getEntitlements('user_123');
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(entitlements.features).toEqual(['exports']);
+      dateSpy.mockRestore();
+    });
+
+    it('should reload after invalidation', async () => {
+      mockMetadata(proMetadata);
+      mockMetadata();
+
+      await getEntitlements('user_123');
+      invalidateEntitlements('user_123');
+      const entitlements = await getEntitlements('user_123');
+
+      expect(entitlements).toEqual({ tier: null, features: [], limits: {} });
+    });
+
+    it('should not cache failed lookups', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('Database error'));
+      mockMetadata(proMetadata);
+
+      await expect(getEntitlements('user_123')).rejects.toThrow('Database error');
+      await expect(hasFeature('user_123', 'api_access')).resolves.toBe(true);
+    });
+  });
+
+  describe('hasFeature and getLimit', () => {
+    it('should answer from the combined entitlements', async () => {
+      mockMetadata(proMetadata);
+
+      await expect(hasFeature('user_123', 'api_access')).resolves.toBe(true);
+      await expect(hasFeature('user_123', 'exports')).resolves.toBe(false);
+      await expect(getLimit('user_123', 'seats')).resolves.toBe(3);
+      await expect(getLimit('user_123', 'storage_gb')).resolves.toBe(0);
+    });
+  });
+
+  const mockToken = (value?: string) =>
+    mockCookies.mockReturnValue({
+      get: jest.fn().mockReturnValue(value ? { value } : undefined),
+    } as any);
+
+  describe('requireFeature', () => {
+    it('should redirect to sign in without a session', async () => {
+      mockToken(undefined);
+
+      await expect(requireFeature('api_access')).rejects.toThrow('REDIRECT: /signin');
+    });
+
+    it('should redirect users without the feature', async () => {
+      mockToken('valid-token');
+      mockGetUser.mockResolvedValue({ id: 'user_123', email: 'test@example.com' });
+      mockMetadata();
+
+      await expect(requireFeature('api_access', '/pricing')).rejects.toThrow(
+        'REDIRECT: /pricing'
+      );
+    });
+
+    it('should return entitlements for users with the feature', async () => {
+      mockToken('valid-token');
+      mockGetUser.mockResolvedValue({ id: 'user_123', email: 'test@example.com' });
+      mockMetadata(proMetadata);
+
+      const entitlements = await requireFeature('api_access');
+
+      expect(entitlements.limits.projects).toBe(10);
+    });
+  });
+
+  describe('withFeature', () => {
+    const handler = jest.fn(async () => new Response('ok'));
+    const guarded = withFeature('api_access', handler);
+
+    const request = (headers: Record<string, string> = {}) =>
+      new Request('http://localhost:3000/api/reports', { headers });
+
+    it('should respond 401 without a session', async () => {
+      mockToken(undefined);
+
+      const response = await guarded(request(), {});
+
+      expect(response.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should respond 401 with an invalid token', async () => {
+      mockToken('expired-token');
+      mockGetUser.mockRejectedValue(new Error('Invalid token'));
+
+      const response = await guarded(request(), {});
+
+      expect(response.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should ignore an x-user-id header sent without a session', async () => {
+      mockToken(undefined);
+
+      const response = await guarded(request({ 'x-user-id': 'user_123' }), {});
+
+      expect(response.status).toBe(401);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should respond 403 without the feature', async () => {
+      mockToken('valid-token');
+      mockGetUser.mockResolvedValue({ id: 'user_123', email: 'test@example.com' });
+      mockMetadata();
+
+      const response = await guarded(request(), {});
+
+      expect(response.status).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should run the handler with the feature', async () => {
+      mockToken('valid-token');
+      mockGetUser.mockResolvedValue({ id: 'user_123', email: 'test@example.com' });
+      mockMetadata(proMetadata);
+
+      const response = await guarded(request(), { params: {} });
+
+      expect(response.status).toBe(200);
+      expect(mockGetUser).toHaveBeenCalledWith('valid-token');
+      expect(handler).toHaveBeenCalledWith(expect.any(Request), { params: {} });
+    });
+  });
+});
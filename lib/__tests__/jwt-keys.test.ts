@@ -0,0 +1,139 @@
+import jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
+import { createKeyRing, signJwt, verifyJwt, getJwks } from '../jwt-keys';
+
+const pem = (type: 'rsa' | 'ec') => {
+  const { privateKey, publicKey } =
+    type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+  };
+};
+
+describe('JWT Keys', () => {
+  const rsa = pem('rsa');
+  const ec = pem('ec');
+
+  const env = (keys: object[], overrides: Record<string, string> = {}) =>
+    ({ NODE_ENV: 'test', JWT_KEYS: JSON.stringify(keys), ...overrides }) as any;
+
+  describe('asymmetric keys', () => {
+    it('should sign RSA keys with RS256 and a kid header', () => {
+      const keyRing = createKeyRing(env([{ kid: 'rsa-1', privateKey: rsa.privateKey }]));
+
+      const token = keyRing.sign({ userId: 'user-id' }, 60);
+
+      const { header } = jwt.decode(token, { complete: true })!;
+      expect(header).toMatchObject({ alg: 'RS256', kid: 'rsa-1' });
+      expect(keyRing.verify<any>(token).userId).toBe('user-id');
+      expect((jwt.verify(token, rsa.publicKey) as any).userId).toBe('user-id');
+    });
+
+    it('should sign P-256 keys with ES256', () => {
+      const keyRing = createKeyRing(env([{ kid: 'ec-1', privateKey: ec.privateKey }]));
+
+      const token = keyRing.sign({ userId: 'user-id' }, 60);
+
+      expect(jwt.decode(token, { complete: true })!.header.alg).toBe('ES256');
+      expect(keyRing.verify<any>(token).userId).toBe('user-id');
+    });
+
+    it('should verify tokens signed by a retired key after rotation', () => {
+      const before = createKeyRing(env([{ kid: 'rsa-1', privateKey: rsa.privateKey }]));
+      const oldToken = before.sign({ userId: 'user-id' }, 60);
+
+      const after = createKeyRing(
+        env([
+          { kid: 'ec-1', privateKey: ec.privateKey },
+          { kid: 'rsa-1', publicKey: rsa.publicKey },
+        ])
+      );
+
+      expect(after.verify<any>(oldToken).userId).toBe('user-id');
+      expect(jwt.decode(after.sign({}, 60), { complete: true })!.header.kid).toBe('ec-1');
+    });
+
+    it('should reject tokens signed by an unknown key', () => {
+      const other = createKeyRing(env([{ kid: 'other', privateKey: ec.privateKey }]));
+      const keyRing = createKeyRing(env([{ kid: 'rsa-1', privateKey: rsa.privateKey }]));
+
+      expect(() => keyRing.verify(other.sign({}, 60))).toThrow('Unknown signing key');
+    });
+
+    it('should reject a token whose algorithm does not match its key', () => {
+      const keyRing = createKeyRing(env([{ kid: 'rsa-1', privateKey: rsa.privateKey }]));
+      const forged = jwt.sign({ userId: 'attacker' }, rsa.publicKey, {
+        algorithm: 'HS256',
+        keyid: 'rsa-1',
+      });
+
+      expect(() => keyRing.verify(forged)).toThrow();
+    });
+
+    it('should publish only public key material in the JWKS', () => {
+      const keyRing = createKeyRing(
+        env([
+          { kid: 'ec-1', privateKey: ec.privateKey },
+          { kid: 'rsa-1', publicKey: rsa.publicKey },
+        ])
+      );
+
+      const { keys } = keyRing.jwks();
+
+      expect(keys).toEqual([
+        expect.objectContaining({ kid: 'ec-1', alg: 'ES256', use: 'sig', kty: 'EC', crv: 'P-256' }),
+        expect.objectContaining({ kid: 'rsa-1', alg: 'RS256', use: 'sig', kty: 'RSA' }),
+      ]);
+      keys.forEach((key) => expect(key).not.toHaveProperty('d'));
+    });
+  });
+
+  describe('configuration', () => {
+    it('should refuse to start in production without keys', () => {
+      expect(() =>
+        createKeyRing({ NODE_ENV: 'production', JWT_SECRET: 'your-secret-key' } as any)
+      ).toThrow('JWT_KEYS must be set in production');
+    });
+
+    it('should fall back to HS256 with JWT_SECRET outside production', () => {
+      const keyRing = createKeyRing({ NODE_ENV: 'development', JWT_SECRET: 'dev-secret' } as any);
+
+      const token = keyRing.sign({ userId: 'user-id' }, 60);
+
+      expect((jwt.verify(token, 'dev-secret') as any).userId).toBe('user-id');
+      expect(keyRing.jwks()).toEqual({ keys: [] });
+    });
+
+    it('should reject malformed key configuration', () => {
+      expect(() => createKeyRing({ JWT_KEYS: 'not-json' } as any)).toThrow(
+        'JWT_KEYS must be a JSON array of keys'
+      );
+      expect(() => createKeyRing(env([{ kid: 'rsa-1' }]))).toThrow('needs a kid');
+      expect(() => createKeyRing(env([{ kid: 'rsa-1', publicKey: rsa.publicKey }]))).toThrow(
+        'at least one privateKey'
+      );
+      expect(() =>
+        createKeyRing(
+          env([
+            { kid: 'dup', privateKey: rsa.privateKey },
+            { kid: 'dup', publicKey: ec.publicKey },
+          ])
+        )
+      ).toThrow('duplicate kids');
+    });
+  });
+
+  describe('default key ring', () => {
+    it('should sign and verify with the configured environment', () => {
+      const token = signJwt({ userId: 'user-id' }, 60);
+
+      expect(verifyJwt<any>(token).userId).toBe('user-id');
+      expect(jwt.verify(token, process.env.JWT_SECRET!)).toBeTruthy();
+      expect(getJwks()).toEqual({ keys: [] });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  createFileMailer,
+  getMailer,
+  sendMail,
+  setMailer,
+} from '../mailer';
+
+describe('Mailer', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    setMailer(null);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    setMailer(null);
+  });
+
+  const message = {
+    to: 'test@example.com',
+    subject: 'Hello',
+    text: 'Plain body',
+  };
+
+  it('should log messages with the console transport by default', async () => {
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+
+    await sendMail(message);
+
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('test@example.com'));
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Plain body'));
+    consoleSpy.mockRestore();
+  });
+
+  it('should write messages to the outbox with the file transport', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    process.env.MAIL_TRANSPORT = 'file';
+    process.env.MAIL_OUTBOX_DIR = directory;
+
+    try {
+      await sendMail(message);
+
+      const files = await readdir(directory);
+      expect(files).toHaveLength(1);
+      const written = JSON.parse(await readFile(path.join(directory, files[0]), 'utf8'));
+      expect(written).toMatchObject(message);
+      expect(written.sentAt).toEqual(expect.any(String));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should create the outbox directory on first send', async () => {
+    const parent = await mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    const directory = path.join(parent, 'nested');
+
+    try {
+      await createFileMailer(directory).send(message);
+      expect(await readdir(directory)).toHaveLength(1);
+    } finally {
+      await rm(parent, { recursive: true, force: true });
+    }
+  });
+
+  it('should prefer a registered mailer over MAIL_TRANSPORT', async () => {
+    process.env.MAIL_TRANSPORT = 'file';
+    const send = jest.fn().mockResolvedValue(undefined);
+    setMailer({ send });
+
+    await sendMail(message);
+
+    expect(getMailer().send).toBe(send);
+    expect(send).toHaveBeenCalledWith(message);
+  });
+
+  it('should refuse the local transports in production', () => {
+    process.env = { ...process.env, NODE_ENV: 'production' };
+    delete process.env.MAIL_TRANSPORT;
+
+    expect(() => getMailer()).toThrow('No mail transport configured');
+
+    process.env.MAIL_TRANSPORT = 'file';
+    expect(() => getMailer()).toThrow('No mail transport configured');
+  });
+
+  it('should use a registered mailer in production', () => {
+    process.env = { ...process.env, NODE_ENV: 'production' };
+    const send = jest.fn().mockResolvedValue(undefined);
+    setMailer({ send });
+
+    expect(getMailer().send).toBe(send);
+  });
+
+  it('should require SMTP_HOST and MAIL_FROM for the smtp transport', () => {
+    process.env.MAIL_TRANSPORT = 'smtp';
+    delete process.env.SMTP_HOST;
+    process.env.MAIL_FROM = 'noreply@example.com';
+
+    expect(() => getMailer()).toThrow('MAIL_TRANSPORT=smtp requires SMTP_HOST and MAIL_FROM');
+
+    process.env.SMTP_HOST = 'smtp.example.com';
+    expect(getMailer()).toEqual({ send: expect.any(Function) });
+  });
+});
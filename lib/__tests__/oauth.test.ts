@@ -0,0 +1,335 @@
+import {
+  beginOAuthFlow,
+  completeOAuthFlow,
+  createGitHubProvider,
+  createOidcProvider,
+  getOAuthProvider,
+  registerOAuthProvider,
+  type OAuthProvider,
+} from '../oauth';
+import { signJwt } from '../jwt-keys';
+import { createMockOidcServer, type MockOidcServer } from '@/__tests__/mocks/oidc-server';
+
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+const REDIRECT_URI = 'http://localhost:3000/auth/oauth/mock/callback';
+
+const user = {
+  sub: 'oidc-user-1',
+  email: 'test@example.com',
+  email_verified: true,
+  name: 'Test User',
+  picture: 'https://example.test/avatar.png',
+};
+
+describe('OAuth', () => {
+  let server: MockOidcServer;
+  let provider: OAuthProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    server = createMockOidcServer();
+    mockFetch.mockImplementation(server.fetch);
+    provider = createOidcProvider({
+      id: 'mock',
+      displayName: 'Mock',
+      issuer: server.issuer,
+      clientId: server.clientId,
+      clientSecret: server.clientSecret,
+    });
+  });
+
+  // Run the flow up to the provider redirecting back
+  async function authorize(as = user) {
+    const { url, flowToken } = await beginOAuthFlow(provider, REDIRECT_URI);
+    const callback = new URL(server.authorize(url, as));
+    return {
+      flowToken,
+      params: {
+        code: callback.searchParams.get('code'),
+        state: callback.searchParams.get('state'),
+      },
+    };
+  }
+
+  describe('OIDC provider', () => {
+    it('should sign in through the authorization code flow with PKCE', async () => {
+      const { flowToken, params } = await authorize();
+
+      const profile = await completeOAuthFlow(provider, params, flowToken, REDIRECT_URI);
+
+      expect(profile).toEqual({
+        provider: 'mock',
+        subject: 'oidc-user-1',
+        email: 'test@example.com',
+        emailVerified: true,
+        name: 'Test User',
+        avatarUrl: 'https://example.test/avatar.png',
+      });
+    });
+
+    it('should request the openid scopes with an S256 challenge', async () => {
+      const { url } = await beginOAuthFlow(provider, REDIRECT_URI);
+      const params = new URL(url).searchParams;
+
+      expect(params.get('scope')).toBe('openid email profile');
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('redirect_uri')).toBe(REDIRECT_URI);
+      expect(params.get('state')).toBeTruthy();
+      expect(params.get('nonce')).toBeTruthy();
+    });
+
+    it('should report unverified emails as unverified', async () => {
+      const { flowToken, params } = await authorize({ ...user, email_verified: false });
+
+      const profile = await completeOAuthFlow(provider, params, flowToken, REDIRECT_URI);
+
+      expect(profile.emailVerified).toBe(false);
+    });
+
+    it('should reject ID tokens with the wrong nonce', async () => {
+      const { flowToken, params } = await authorize();
+      server.overrideNextIdToken({ nonce: 'replayed-nonce' });
+
+      await expect(
+        completeOAuthFlow(provider, params, flowToken, REDIRECT_URI)
+      ).rejects.toThrow('ID token nonce does not match');
+    });
+
+    it('should reject ID tokens for another client', async () => {
+      const { flowToken, params } = await authorize();
+      server.overrideNextIdToken({ aud: 'another-client' });
+
+      await expect(
+        completeOAuthFlow(provider, params, flowToken, REDIRECT_URI)
+      ).rejects.toThrow();
+    });
+
+    it('should fail when the discovery issuer does not match', async () => {
+      const impostor = createOidcProvider({
+        id: 'mock',
+        displayName: 'Mock',
+        issuer: 'https://other.example.test',
+        clientId: server.clientId,
+        clientSecret: server.clientSecret,
+      });
+      mockFetch.mockImplementation(async (input, init) =>
+        String(input).startsWith('https://other.example.test')
+          ? server.fetch(String(input).replace('https://other.example.test', server.issuer), init)
+          : server.fetch(input, init)
+      );
+
+      await expect(beginOAuthFlow(impostor, REDIRECT_URI)).rejects.toThrow(
+        'OIDC discovery issuer does not match'
+      );
+    });
+  });
+
+  describe('completeOAuthFlow', () => {
+    it('should reject a state that does not match the flow cookie', async () => {
+      const { flowToken, params } = await authorize();
+
+      await expect(
+        completeOAuthFlow(provider, { ...params, state: 'forged' }, flowToken, REDIRECT_URI)
+      ).rejects.toThrow('Invalid OAuth state');
+    });
+
+    it('should reject a flow cookie from another sign-in', async () => {
+      const first = await authorize();
+      const second = await authorize();
+
+      await expect(
+        completeOAuthFlow(provider, first.params, second.flowToken, REDIRECT_URI)
+      ).rejects.toThrow('Invalid OAuth state');
+    });
+
+    it('should reject a flow started with another provider', async () => {
+      const { flowToken, params } = await authorize();
+      const other = { ...provider, id: 'other' };
+
+      await expect(
+        completeOAuthFlow(other, params, flowToken, REDIRECT_URI)
+      ).rejects.toThrow('Invalid OAuth state');
+    });
+
+    it('should reject a missing or tampered flow cookie', async () => {
+      const { params } = await authorize();
+
+      await expect(
+        completeOAuthFlow(provider, params, undefined, REDIRECT_URI)
+      ).rejects.toThrow('Sign in took too long');
+      await expect(
+        completeOAuthFlow(provider, params, 'not-a-jwt', REDIRECT_URI)
+      ).rejects.toThrow('Sign in took too long');
+    });
+
+    it('should reject tokens that are not flow tokens', async () => {
+      const { params } = await authorize();
+      const accessToken = signJwt({ userId: 'user-123', state: params.state }, 900);
+
+      await expect(
+        completeOAuthFlow(provider, params, accessToken, REDIRECT_URI)
+      ).rejects.toThrow('Invalid OAuth state');
+    });
+
+    it('should fail when the code verifier does not match the challenge', async () => {
+      const { flowToken, params } = await authorize();
+      const { flowToken: otherFlowToken } = await beginOAuthFlow(provider, REDIRECT_URI);
+      // Same state, different verifier
+      const forged = JSON.parse(
+        Buffer.from(otherFlowToken.split('.')[1], 'base64url').toString()
+      );
+      const original = JSON.parse(Buffer.from(flowToken.split('.')[1], 'base64url').toString());
+      const tampered = signJwt(
+        {
+          purpose: 'oauth_flow',
+          provider: 'mock',
+          state: original.state,
+          nonce: original.nonce,
+          codeVerifier: forged.codeVerifier,
+        },
+        600
+      );
+
+      await expect(
+        completeOAuthFlow(provider, params, tampered, REDIRECT_URI)
+      ).rejects.toThrow('PKCE verification failed');
+    });
+
+    it('should not allow an authorization code to be used twice', async () => {
+      const { flowToken, params } = await authorize();
+      await completeOAuthFlow(provider, params, flowToken, REDIRECT_URI);
+
+      await expect(
+        completeOAuthFlow(provider, params, flowToken, REDIRECT_URI)
+      ).rejects.toThrow('Token exchange failed');
+    });
+
+    it('should report a cancelled consent', async () => {
+      const { flowToken } = await authorize();
+
+      await expect(
+        completeOAuthFlow(
+          provider,
+          { code: null, state: null, error: 'access_denied' },
+          flowToken,
+          REDIRECT_URI
+        )
+      ).rejects.toThrow('Sign in was cancelled at the provider');
+    });
+  });
+
+  describe('GitHub provider', () => {
+    const github = createGitHubProvider({ clientId: 'gh-client', clientSecret: 'gh-secret' });
+
+    it('should send users to GitHub with a PKCE challenge', async () => {
+      const url = new URL(
+        await github.getAuthorizationUrl({
+          redirectUri: REDIRECT_URI,
+          state: 'state-1',
+          nonce: 'nonce-1',
+          codeChallenge: 'challenge-1',
+        })
+      );
+
+      expect(url.origin + url.pathname).toBe('https://github.com/login/oauth/authorize');
+      expect(url.searchParams.get('client_id')).toBe('gh-client');
+      expect(url.searchParams.get('state')).toBe('state-1');
+      expect(url.searchParams.get('code_challenge')).toBe('challenge-1');
+      expect(url.searchParams.get('scope')).toBe('read:user user:email');
+    });
+
+    it('should build the profile from the primary verified email', async () => {
+      mockFetch.mockImplementation(async (input) => {
+        const url = String(input);
+        if (url === 'https://github.com/login/oauth/access_token') {
+          return Response.json({ access_token: 'gho_123', token_type: 'bearer' });
+        }
+        if (url === 'https://api.github.com/user') {
+          return Response.json({
+            id: 42,
+            login: 'octocat',
+            name: null,
+            avatar_url: 'https://avatars.example.test/42',
+          });
+        }
+        if (url === 'https://api.github.com/user/emails') {
+          return Response.json([
+            { email: 'old@example.com', primary: false, verified: true },
+            { email: 'octocat@example.com', primary: true, verified: true },
+          ]);
+        }
+        return new Response(null, { status: 404 });
+      });
+
+      const profile = await github.exchangeCode({
+        code: 'code-1',
+        redirectUri: REDIRECT_URI,
+        codeVerifier: 'verifier-1',
+        nonce: 'nonce-1',
+      });
+
+      expect(profile).toEqual({
+        provider: 'github',
+        subject: '42',
+        email: 'octocat@example.com',
+        emailVerified: true,
+        name: 'octocat',
+        avatarUrl: 'https://avatars.example.test/42',
+      });
+
+      const body = new URLSearchParams(String(mockFetch.mock.calls[0][1]?.body));
+      expect(body.get('code_verifier')).toBe('verifier-1');
+      expect(body.get('client_secret')).toBe('gh-secret');
+    });
+
+    it('should report accounts without a verified email', async () => {
+      mockFetch.mockImplementation(async (input) => {
+        const url = String(input);
+        if (url.includes('access_token')) {
+          return Response.json({ access_token: 'gho_123' });
+        }
+        if (url.endsWith('/user')) {
+          return Response.json({ id: 7, login: 'unverified' });
+        }
+        return Response.json([{ email: 'x@example.com', primary: true, verified: false }]);
+      });
+
+      const profile = await github.exchangeCode({
+        code: 'code-1',
+        redirectUri: REDIRECT_URI,
+        codeVerifier: 'verifier-1',
+        nonce: 'nonce-1',
+      });
+
+      expect(profile.email).toBeNull();
+      expect(profile.emailVerified).toBe(false);
+    });
+
+    it('should surface errors GitHub returns with a 200 status', async () => {
+      mockFetch.mockResolvedValue(
+        Response.json({ error: 'bad_verification_code', error_description: 'The code is incorrect' })
+      );
+
+      await expect(
+        github.exchangeCode({
+          code: 'expired',
+          redirectUri: REDIRECT_URI,
+          codeVerifier: 'verifier-1',
+          nonce: 'nonce-1',
+        })
+      ).rejects.toThrow('Token exchange failed: The code is incorrect');
+    });
+  });
+
+  describe('provider registry', () => {
+    it('should return registered providers', () => {
+      registerOAuthProvider(provider);
+
+      expect(getOAuthProvider('mock')).toBe(provider);
+    });
+
+    it('should return null for providers that are not configured', () => {
+      expect(getOAuthProvider('myspace')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,457 @@
+import {
+  acceptInvitation,
+  acceptInvitationToken,
+  createOrganization,
+  declineInvitation,
+  getOrganization,
+  INVITATION_EXPIRY,
+  inviteMember,
+  isOrganizationRole,
+  listOrganizations,
+  removeMember,
+  resendInvitation,
+  revokeInvitation,
+  syncSeatQuantity,
+  updateMemberRole,
+} from '../organizations';
+import { isEmailVerified } from '../email-verification';
+import { invalidateEntitlements } from '../entitlements';
+import { setMailer, type MailMessage } from '../mailer';
+import { hashToken } from '../tokens';
+import * as zerodb from '../zerodb';
+import { stripe } from '@/utils/stripe/config';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+jest.mock('../email-verification');
+jest.mock('../entitlements', () => ({
+  invalidateEntitlements: jest.fn(),
+}));
+jest.mock('@/utils/stripe/config', () => ({
+  stripe: {
+    subscriptions: { retrieve: jest.fn(), update: jest.fn() },
+  },
+}));
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockIsEmailVerified = isEmailVerified as jest.MockedFunction<typeof isEmailVerified>;
+const mockInvalidateEntitlements = invalidateEntitlements as jest.MockedFunction<
+  typeof invalidateEntitlements
+>;
+const mockRetrieveSubscription = stripe.subscriptions.retrieve as jest.Mock;
+const mockUpdateSubscription = stripe.subscriptions.update as jest.Mock;
+
+const ORGANIZATION_ID = '11111111-1111-4111-8111-111111111111';
+
+// Queue the membership lookup behind getOrganization
+function mockMembership(role: 'owner' | 'member' | null) {
+  mockQuery.mockResolvedValueOnce({
+    rows: role
+      ? [{ id: ORGANIZATION_ID, name: 'Acme', role, member_count: '2' }]
+      : [],
+  } as any);
+}
+
+const INVITATION_ROW = {
+  id: 'invite-1',
+  organization_id: ORGANIZATION_ID,
+  organization_name: 'Acme',
+  email: 'new@example.com',
+  role: 'billing_admin',
+  invited_by_email: 'owner@example.com',
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  expires_at: new Date('2024-01-08T00:00:00Z'),
+};
+
+// Read the token out of an emailed invitation link
+function tokenFrom(message: MailMessage) {
+  return decodeURIComponent(message.text.match(/\/auth\/invitation\?token=([^\s]+)/)![1]);
+}
+
+// Queue a billed subscription and the current member count
+function mockSeats(quantity: number, seats: number) {
+  mockQuery.mockResolvedValueOnce({
+    rows: [{ id: 'sub_123', quantity, seats: String(seats) }],
+  } as any);
+}
+
+describe('Organizations', () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    mockRetrieveSubscription.mockResolvedValue({
+      items: { data: [{ id: 'si_123' }] },
+    });
+    sent = [];
+    setMailer({
+      send: async (message) => {
+        sent.push(message);
+      },
+    });
+  });
+
+  afterAll(() => {
+    setMailer(null);
+  });
+
+  describe('isOrganizationRole', () => {
+    it('should accept the three roles only', () => {
+      expect(isOrganizationRole('owner')).toBe(true);
+      expect(isOrganizationRole('billing_admin')).toBe(true);
+      expect(isOrganizationRole('member')).toBe(true);
+      expect(isOrganizationRole('admin')).toBe(false);
+      expect(isOrganizationRole(null)).toBe(false);
+    });
+  });
+
+  describe('createOrganization', () => {
+    it('should create the organization with the user as owner', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: ORGANIZATION_ID, name: 'Acme' }],
+      } as any);
+
+      await expect(createOrganization('user-1', '  Acme  ')).resolves.toEqual({
+        id: ORGANIZATION_ID,
+        name: 'Acme',
+        role: 'owner',
+        memberCount: 1,
+      });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO organizations');
+      expect(sql).toContain("SELECT id, $2, 'owner' FROM organization");
+      expect(params).toEqual(['Acme', 'user-1']);
+    });
+
+    it('should reject empty names', async () => {
+      await expect(createOrganization('user-1', '   ')).rejects.toThrow(
+        'Organization names must be 1 to 64 characters long.'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listOrganizations', () => {
+    it('should map rows with the member count as a number', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: ORGANIZATION_ID, name: 'Acme', role: 'member', member_count: '4' }],
+      } as any);
+
+      await expect(listOrganizations('user-1')).resolves.toEqual([
+        { id: ORGANIZATION_ID, name: 'Acme', role: 'member', memberCount: 4 },
+      ]);
+    });
+  });
+
+  describe('getOrganization', () => {
+    it('should return the organization for a member', async () => {
+      mockMembership('member');
+
+      await expect(getOrganization('user-1', ORGANIZATION_ID)).resolves.toMatchObject({
+        id: ORGANIZATION_ID,
+        role: 'member',
+      });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-1', ORGANIZATION_ID]);
+    });
+
+    it('should return null for non-members', async () => {
+      mockMembership(null);
+
+      await expect(getOrganization('user-1', ORGANIZATION_ID)).resolves.toBeNull();
+    });
+
+    it('should not query for a missing or malformed ID', async () => {
+      await expect(getOrganization('user-1', null)).resolves.toBeNull();
+      await expect(getOrganization('user-1', 'not-a-uuid')).resolves.toBeNull();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inviteMember', () => {
+    it('should store a hashed token and email the invitation link', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [INVITATION_ROW] } as any);
+
+      const invitation = await inviteMember(
+        ORGANIZATION_ID,
+        'user-1',
+        ' New@Example.com ',
+        'billing_admin'
+      );
+
+      expect(invitation).toEqual({
+        id: 'invite-1',
+        organizationId: ORGANIZATION_ID,
+        organizationName: 'Acme',
+        email: 'new@example.com',
+        role: 'billing_admin',
+        invitedByEmail: 'owner@example.com',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        expiresAt: '2024-01-08T00:00:00.000Z',
+      });
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('new@example.com');
+      expect(sent[0].subject).toBe('Join Acme');
+      expect(sent[0].text).toContain('owner@example.com invited you to join Acme as a billing admin');
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('ON CONFLICT (organization_id, lower(email)) WHERE accepted_at IS NULL');
+      expect(sql).toContain('WHERE invitations.expires_at <= NOW()');
+      expect(params).toEqual([
+        ORGANIZATION_ID,
+        'new@example.com',
+        'user-1',
+        'billing_admin',
+        hashToken(tokenFrom(sent[0])),
+        INVITATION_EXPIRY,
+      ]);
+    });
+
+    it('should invite as a member by default', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ ...INVITATION_ROW, role: 'member' }] } as any);
+
+      await inviteMember(ORGANIZATION_ID, 'user-1', 'new@example.com');
+
+      expect(mockQuery.mock.calls[1][1]![3]).toBe('member');
+      expect(sent[0].text).toContain('as a member');
+    });
+
+    it('should refuse existing members', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ '?column?': 1 }] } as any);
+
+      await expect(
+        inviteMember(ORGANIZATION_ID, 'user-1', 'member@example.com')
+      ).rejects.toThrow('That person is already a member.');
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should refuse a second unexpired invitation', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(
+        inviteMember(ORGANIZATION_ID, 'user-1', 'new@example.com')
+      ).rejects.toThrow('That address has already been invited.');
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('resendInvitation', () => {
+    it('should replace the token and email a new link', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [INVITATION_ROW] } as any);
+
+      await expect(resendInvitation(ORGANIZATION_ID, 'invite-1')).resolves.toBe(true);
+
+      expect(sent).toHaveLength(1);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('SET token_hash = $3, expires_at = NOW() + make_interval(secs => $4)'),
+        ['invite-1', ORGANIZATION_ID, hashToken(tokenFrom(sent[0])), INVITATION_EXPIRY]
+      );
+    });
+
+    it('should return false for accepted or withdrawn invitations', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(resendInvitation(ORGANIZATION_ID, 'invite-1')).resolves.toBe(false);
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should delete a pending invitation', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(revokeInvitation(ORGANIZATION_ID, 'invite-1')).resolves.toBe(true);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['invite-1', ORGANIZATION_ID]);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    const user = { id: 'user-2', email: 'new@example.com' };
+
+    it('should join the organization and add a seat', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(true);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ organization_id: ORGANIZATION_ID }],
+      } as any);
+      mockSeats(1, 2);
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(acceptInvitation('invite-1', user)).resolves.toBe(ORGANIZATION_ID);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('WHERE id = $1 AND lower(email) = lower($2)');
+      expect(sql).toContain('accepted_at IS NULL AND expires_at > NOW()');
+      expect(sql).toContain('SELECT organization_id, $3, role FROM accepted');
+      expect(params).toEqual(['invite-1', 'new@example.com', 'user-2']);
+
+      expect(mockInvalidateEntitlements).toHaveBeenCalledWith('user-2');
+      expect(mockUpdateSubscription).toHaveBeenCalledWith('sub_123', {
+        items: [{ id: 'si_123', quantity: 2 }],
+        proration_behavior: 'create_prorations',
+      });
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'UPDATE subscriptions SET quantity = $1, updated_at = NOW() WHERE id = $2',
+        [2, 'sub_123']
+      );
+    });
+
+    it('should require a verified email', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(false);
+
+      await expect(acceptInvitation('invite-1', user)).rejects.toThrow(
+        'Please verify your email address before joining an organization.'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should refuse invitations for another address or already used', async () => {
+      mockIsEmailVerified.mockResolvedValueOnce(true);
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(acceptInvitation('invite-1', user)).rejects.toThrow(
+        'This invitation is no longer valid.'
+      );
+      expect(mockUpdateSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should keep the membership when Stripe is unavailable', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockIsEmailVerified.mockResolvedValueOnce(true);
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ organization_id: ORGANIZATION_ID }],
+      } as any);
+      mockSeats(1, 2);
+      mockUpdateSubscription.mockRejectedValueOnce(new Error('Stripe down'));
+
+      await expect(acceptInvitation('invite-1', user)).resolves.toBe(ORGANIZATION_ID);
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Error syncing organization seats:',
+        expect.any(Error)
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('acceptInvitationToken', () => {
+    const user = { id: 'user-2', email: 'new@example.com' };
+
+    it('should join with the invitation link without a verified email', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ organization_id: ORGANIZATION_ID }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(acceptInvitationToken('token-abc', user)).resolves.toBe(ORGANIZATION_ID);
+
+      expect(mockIsEmailVerified).not.toHaveBeenCalled();
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('WHERE token_hash = $1 AND lower(email) = lower($2)');
+      expect(params).toEqual([hashToken('token-abc'), 'new@example.com', 'user-2']);
+      expect(mockInvalidateEntitlements).toHaveBeenCalledWith('user-2');
+    });
+
+    it('should refuse expired, used or misdirected links', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(acceptInvitationToken('token-abc', user)).rejects.toThrow(
+        'This invitation has expired, has already been used, or was sent to a different email address.'
+      );
+    });
+
+    it('should refuse empty tokens without a query', async () => {
+      await expect(acceptInvitationToken('', user)).rejects.toThrow('This invitation has expired');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('declineInvitation', () => {
+    it('should delete the invitation for the address', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(declineInvitation('invite-1', 'new@example.com')).resolves.toBe(true);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['invite-1', 'new@example.com']);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should remove the member and drop a seat', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ user_id: 'user-2' }] } as any);
+      mockSeats(3, 2);
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await removeMember(ORGANIZATION_ID, 'user-2');
+
+      expect(mockQuery.mock.calls[0][0]).toContain('DELETE FROM memberships');
+      expect(mockQuery.mock.calls[0][1]).toEqual([ORGANIZATION_ID, 'user-2']);
+      expect(mockInvalidateEntitlements).toHaveBeenCalledWith('user-2');
+      expect(mockUpdateSubscription).toHaveBeenCalledWith(
+        'sub_123',
+        expect.objectContaining({ items: [{ id: 'si_123', quantity: 2 }] })
+      );
+    });
+
+    it('should keep the last owner', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      mockMembership('owner');
+
+      await expect(removeMember(ORGANIZATION_ID, 'user-1')).rejects.toThrow(
+        'An organization needs at least one owner.'
+      );
+      expect(mockUpdateSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should report people who are not members', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      mockMembership(null);
+
+      await expect(removeMember(ORGANIZATION_ID, 'user-9')).rejects.toThrow(
+        'That person is not a member.'
+      );
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('should change the role', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ user_id: 'user-2' }] } as any);
+
+      await updateMemberRole(ORGANIZATION_ID, 'user-2', 'billing_admin');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('UPDATE memberships');
+      expect(params).toEqual([ORGANIZATION_ID, 'user-2', 'billing_admin']);
+    });
+
+    it('should not demote the last owner', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      mockMembership('owner');
+
+      await expect(updateMemberRole(ORGANIZATION_ID, 'user-1', 'member')).rejects.toThrow(
+        'An organization needs at least one owner.'
+      );
+    });
+  });
+
+  describe('syncSeatQuantity', () => {
+    it('should do nothing without a billed subscription', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(syncSeatQuantity(ORGANIZATION_ID)).resolves.toBeNull();
+      expect(mockRetrieveSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should not call Stripe when the quantity already matches', async () => {
+      mockSeats(2, 2);
+
+      await expect(syncSeatQuantity(ORGANIZATION_ID)).resolves.toBe(2);
+      expect(mockUpdateSubscription).not.toHaveBeenCalled();
+    });
+  });
+});
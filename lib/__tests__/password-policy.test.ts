@@ -0,0 +1,274 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  assertPasswordAllowed,
+  checkPassword,
+  findBreachedRange,
+  getBreachCount,
+  getPasswordPolicy,
+  PasswordPolicyError,
+  type PasswordPolicy,
+} from '../password-policy';
+
+const sha1 = (value: string) => createHash('sha1').update(value).digest('hex').toUpperCase();
+
+describe('Password Policy', () => {
+  let directory: string;
+  let corpus: string;
+
+  // Enough filler around the real entries that the search has to skip lines
+  const breached = ['password123', 'letmein', 'Summer2024!'];
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'password-policy-'));
+    corpus = path.join(directory, 'breached.txt');
+
+    const lines = breached.map((password, index) => `${sha1(password)}:${index + 10}`);
+    for (let i = 0; i < 500; i++) {
+      lines.push(`${sha1(`filler-${i}`)}:1`);
+    }
+    writeFileSync(corpus, lines.sort().join('\n') + '\n');
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const policy = (overrides: Partial<PasswordPolicy> = {}): PasswordPolicy => ({
+    minLength: 8,
+    maxLength: 72,
+    minScore: 2,
+    breachedPasswordsFile: corpus,
+    ...overrides,
+  });
+
+  describe('getPasswordPolicy', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should default to 8 characters, score 2 and the bundled corpus', () => {
+      process.env = { ...env };
+      delete process.env.PASSWORD_MIN_LENGTH;
+      delete process.env.PASSWORD_MAX_LENGTH;
+      delete process.env.PASSWORD_MIN_SCORE;
+      delete process.env.BREACHED_PASSWORDS_FILE;
+
+      expect(getPasswordPolicy()).toEqual({
+        minLength: 8,
+        maxLength: 72,
+        minScore: 2,
+        breachedPasswordsFile: path.resolve(process.cwd(), 'data/breached-passwords.txt'),
+      });
+    });
+
+    it('should read the environment', () => {
+      process.env = {
+        ...env,
+        PASSWORD_MIN_LENGTH: '12',
+        PASSWORD_MAX_LENGTH: '64',
+        PASSWORD_MIN_SCORE: '3',
+        BREACHED_PASSWORDS_FILE: '',
+      };
+
+      expect(getPasswordPolicy()).toMatchObject({
+        minLength: 12,
+        maxLength: 64,
+        minScore: 3,
+        breachedPasswordsFile: null,
+      });
+    });
+
+    it('should ignore an out of range score', () => {
+      process.env = { ...env, PASSWORD_MIN_SCORE: '7' };
+
+      expect(getPasswordPolicy().minScore).toBe(2);
+    });
+
+    it('should cap the maximum length at 72 bytes', () => {
+      process.env = { ...env, PASSWORD_MAX_LENGTH: '100' };
+
+      expect(getPasswordPolicy().maxLength).toBe(72);
+    });
+
+    it('should keep the minimum length between 1 and the maximum', () => {
+      process.env = { ...env, PASSWORD_MIN_LENGTH: '-5' };
+      expect(getPasswordPolicy().minLength).toBe(1);
+
+      process.env = { ...env, PASSWORD_MIN_LENGTH: '40', PASSWORD_MAX_LENGTH: '32' };
+      expect(getPasswordPolicy()).toMatchObject({ minLength: 32, maxLength: 32 });
+    });
+
+    it('should round fractional lengths down and ignore non-numeric ones', () => {
+      process.env = { ...env, PASSWORD_MIN_LENGTH: '9.7', PASSWORD_MAX_LENGTH: 'lots' };
+
+      expect(getPasswordPolicy()).toMatchObject({ minLength: 9, maxLength: 72 });
+    });
+  });
+
+  describe('findBreachedRange', () => {
+    it('should return every suffix under a prefix', async () => {
+      const hash = sha1('letmein');
+      const range = await findBreachedRange(corpus, hash.slice(0, 5));
+
+      expect(range.get(hash.slice(5))).toBe(11);
+      range.forEach((count, suffix) => expect(suffix).toHaveLength(35));
+    });
+
+    it('should find entries at the start and end of the file', async () => {
+      const lines = [`${'0'.repeat(40)}:3`, `${sha1('middle')}:1`, `${'F'.repeat(40)}:4`];
+      const file = path.join(directory, 'edges.txt');
+      writeFileSync(file, lines.join('\n'));
+
+      expect((await findBreachedRange(file, '00000')).get('0'.repeat(35))).toBe(3);
+      expect((await findBreachedRange(file, 'fffff')).get('F'.repeat(35))).toBe(4);
+    });
+
+    it('should return an empty range for unknown prefixes', async () => {
+      const file = path.join(directory, 'single.txt');
+      writeFileSync(file, `${'A'.repeat(40)}:1\n`);
+
+      expect((await findBreachedRange(file, '12345')).size).toBe(0);
+    });
+  });
+
+  describe('getBreachCount', () => {
+    it('should count breached passwords', async () => {
+      await expect(getBreachCount('password123', corpus)).resolves.toBe(10);
+      await expect(getBreachCount('Summer2024!', corpus)).resolves.toBe(12);
+    });
+
+    it('should return 0 for passwords not in the corpus', async () => {
+      await expect(getBreachCount('kitten-lantern-97', corpus)).resolves.toBe(0);
+    });
+  });
+
+  describe('checkPassword', () => {
+    it('should accept a long, unpredictable password', async () => {
+      const result = await checkPassword('kitten-lantern-97', [], policy());
+
+      expect(result.valid).toBe(true);
+      expect(result.violations).toEqual([]);
+      expect(result.score).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should report every violation', async () => {
+      const result = await checkPassword('letmein', [], policy());
+
+      expect(result.valid).toBe(false);
+      expect(result.violations.map((violation) => violation.code)).toEqual([
+        'too_short',
+        'too_weak',
+        'breached',
+      ]);
+      expect(result.violations[0].message).toBe(
+        'Password must be at least 8 characters long.'
+      );
+    });
+
+    it('should reject breached passwords that otherwise pass', async () => {
+      const result = await checkPassword('Summer2024!', [], policy({ minScore: 0 }));
+
+      expect(result.violations).toEqual([
+        {
+          code: 'breached',
+          message: 'This password has appeared in a data breach. Please choose a different one.',
+        },
+      ]);
+    });
+
+    it('should reject passwords longer than bcrypt accepts', async () => {
+      const result = await checkPassword('é'.repeat(40), [], policy());
+
+      expect(result.violations).toContainEqual({
+        code: 'too_long',
+        message:
+          'Password must be at most 72 bytes long. Accented letters and emoji take up more than one.',
+      });
+    });
+
+    it('should reject passwords built from the user details', async () => {
+      const result = await checkPassword(
+        'jane.doe1990',
+        ['jane.doe@example.com', 'Jane Doe'],
+        policy()
+      );
+
+      expect(result.violations[0].code).toBe('too_weak');
+      expect(result.violations[0].message).toContain('Avoid using your name or email address.');
+    });
+
+    it('should skip the breach check without a corpus', async () => {
+      const result = await checkPassword(
+        'Summer2024!',
+        [],
+        policy({ minScore: 0, breachedPasswordsFile: null })
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should fail open when the corpus cannot be read', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await checkPassword(
+        'Summer2024!',
+        [],
+        policy({ minScore: 0, breachedPasswordsFile: path.join(directory, 'missing.txt') })
+      );
+
+      expect(result.valid).toBe(true);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Error checking breached passwords:',
+        expect.objectContaining({ code: 'ENOENT' })
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should fail closed in production when the corpus cannot be read', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const env = process.env;
+      process.env = { ...env, NODE_ENV: 'production' };
+
+      try {
+        const result = await checkPassword(
+          'a long unpredictable passphrase',
+          [],
+          policy({ minScore: 0, breachedPasswordsFile: path.join(directory, 'missing.txt') })
+        );
+
+        expect(result.valid).toBe(false);
+        expect(result.violations).toEqual([
+          {
+            code: 'breach_check_failed',
+            message: 'This password could not be checked right now. Please try again later.',
+          },
+        ]);
+      } finally {
+        process.env = env;
+        consoleSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('assertPasswordAllowed', () => {
+    it('should throw a PasswordPolicyError listing the violations', async () => {
+      const error = await assertPasswordAllowed('password').catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(PasswordPolicyError);
+      expect(error.name).toBe('PasswordPolicyError');
+      expect(error.violations.map((violation: { code: string }) => violation.code)).toEqual(
+        expect.arrayContaining(['too_weak', 'breached'])
+      );
+      expect(error.message).toContain('Password is too easy to guess.');
+    });
+
+    it('should accept a strong password', async () => {
+      await expect(assertPasswordAllowed('kitten-lantern-97')).resolves.toBeUndefined();
+    });
+  });
+});
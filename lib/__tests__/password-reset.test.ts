@@ -0,0 +1,155 @@
+import {
+  requestPasswordReset,
+  isPasswordResetTokenValid,
+  resetPassword,
+  PASSWORD_RESET_EXPIRY,
+} from '../password-reset';
+import { setPassword } from '../auth';
+import { setMailer, type MailMessage } from '../mailer';
+import { assertPasswordAllowed, PasswordPolicyError } from '../password-policy';
+import { hashToken } from '../tokens';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+jest.mock('../auth', () => ({
+  setPassword: jest.fn(),
+}));
+jest.mock('../password-policy', () => ({
+  ...jest.requireActual('../password-policy'),
+  assertPasswordAllowed: jest.fn(),
+}));
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockSetPassword = setPassword as jest.MockedFunction<typeof setPassword>;
+const mockAssertPasswordAllowed = assertPasswordAllowed as jest.MockedFunction<
+  typeof assertPasswordAllowed
+>;
+
+describe('Password Reset', () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    sent = [];
+    setMailer({
+      send: async (message) => {
+        sent.push(message);
+      },
+    });
+  });
+
+  afterAll(() => {
+    setMailer(null);
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should store a hashed token and email the reset link', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ id: 'user-123', email: 'test@example.com' }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await requestPasswordReset('test@example.com');
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('test@example.com');
+
+      const token = decodeURIComponent(
+        sent[0].text.match(/\/auth\/reset_password\?token=([^\s]+)/)![1]
+      );
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO password_reset_tokens'),
+        ['user-123', hashToken(token), PASSWORD_RESET_EXPIRY]
+      );
+    });
+
+    it('should do nothing for unknown emails', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('isPasswordResetTokenValid', () => {
+    it('should accept unused, unexpired tokens', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ '?column?': 1 }] } as any);
+
+      await expect(isPasswordResetTokenValid('token-abc')).resolves.toBe(true);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('used_at IS NULL AND expires_at > NOW()'),
+        [hashToken('token-abc')]
+      );
+    });
+
+    it('should reject unknown tokens and empty tokens', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(isPasswordResetTokenValid('token-abc')).resolves.toBe(false);
+      await expect(isPasswordResetTokenValid('')).resolves.toBe(false);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resetPassword', () => {
+    const pendingUser = { email: 'test@example.com', full_name: 'Test User' };
+
+    it('should check the password, claim the token and set the new password', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [pendingUser] } as any)
+        .mockResolvedValueOnce({ rows: [{ user_id: 'user-123' }] } as any);
+
+      await expect(resetPassword('token-abc', 'newpassword')).resolves.toBe('user-123');
+
+      expect(mockAssertPasswordAllowed).toHaveBeenCalledWith('newpassword', [
+        'test@example.com',
+        'Test User',
+      ]);
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('used_at IS NULL AND expires_at > NOW()');
+      expect(sql).toContain('t.token_hash <> $1');
+      expect(params).toEqual([hashToken('token-abc')]);
+      expect(mockSetPassword).toHaveBeenCalledWith('user-123', 'newpassword');
+    });
+
+    it('should reject used or expired tokens', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(resetPassword('token-abc', 'newpassword')).rejects.toThrow(
+        'Invalid or expired reset link'
+      );
+      expect(mockAssertPasswordAllowed).not.toHaveBeenCalled();
+      expect(mockSetPassword).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token claimed by another request in the meantime', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [pendingUser] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(resetPassword('token-abc', 'newpassword')).rejects.toThrow(
+        'Invalid or expired reset link'
+      );
+      expect(mockSetPassword).not.toHaveBeenCalled();
+    });
+
+    it('should check the password before using up the token', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [pendingUser] } as any);
+      mockAssertPasswordAllowed.mockRejectedValueOnce(
+        new PasswordPolicyError([
+          { code: 'too_short', message: 'Password must be at least 8 characters long.' },
+        ])
+      );
+
+      await expect(resetPassword('token-abc', '123')).rejects.toThrow(PasswordPolicyError);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0]).not.toContain('UPDATE');
+      expect(mockSetPassword).not.toHaveBeenCalled();
+    });
+  });
+});
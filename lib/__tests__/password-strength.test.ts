@@ -0,0 +1,53 @@
+import { estimatePasswordStrength } from '../password-strength';
+
+describe('Password Strength', () => {
+  it.each(['password', 'password123', 'P@ssw0rd', '123456789', 'qwertyuiop'])(
+    'should score the common password %s as 0',
+    (password) => {
+      const strength = estimatePasswordStrength(password);
+
+      expect(strength.score).toBe(0);
+      expect(strength.feedback.warning).toMatch(/common|keys|Sequences/);
+      expect(strength.feedback.suggestions).toHaveLength(1);
+    }
+  );
+
+  it('should score repeated words as weak', () => {
+    expect(estimatePasswordStrength('hunter2hunter2').score).toBe(0);
+  });
+
+  it('should score words with a year as weak', () => {
+    expect(estimatePasswordStrength('summer2024').score).toBeLessThan(2);
+  });
+
+  it('should score long unpredictable passwords as strong', () => {
+    for (const password of ['kitten-lantern-97', 'Tr0ub4dor&3', 'correct horse battery staple']) {
+      const strength = estimatePasswordStrength(password);
+
+      expect(strength.score).toBeGreaterThanOrEqual(3);
+      expect(strength.feedback).toEqual({ warning: null, suggestions: [] });
+    }
+  });
+
+  it('should treat the user email and name as guessable words', () => {
+    const withoutInputs = estimatePasswordStrength('jane.doe1990');
+    const withInputs = estimatePasswordStrength('jane.doe1990', [
+      'jane.doe@example.com',
+      'Jane Doe',
+    ]);
+
+    expect(withInputs.guessesLog10).toBeLessThan(withoutInputs.guessesLog10);
+    expect(withInputs.score).toBeLessThan(2);
+    expect(withInputs.feedback.warning).toBe('Avoid using your name or email address.');
+  });
+
+  it('should ignore empty user inputs', () => {
+    expect(estimatePasswordStrength('kitten-lantern-97', [null, undefined, '']).score).toBe(
+      estimatePasswordStrength('kitten-lantern-97').score
+    );
+  });
+
+  it('should score an empty password as 0', () => {
+    expect(estimatePasswordStrength('').score).toBe(0);
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  requestEmailSignIn,
+  consumeMagicLink,
+  consumeSignInCode,
+  isMagicLinkValid,
+  EMAIL_SIGN_IN_LIMIT,
+  MAX_CODE_ATTEMPTS,
+  ONE_TIME_TOKEN_EXPIRY,
+} from '../passwordless';
+import { setMailer, type MailMessage } from '../mailer';
+import { hashToken } from '../tokens';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('Passwordless Sign-in', () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sent = [];
+    setMailer({
+      send: async (message) => {
+        sent.push(message);
+      },
+    });
+  });
+
+  afterAll(() => {
+    setMailer(null);
+  });
+
+  // Queue the rate limit count, the void of older tokens and the insert
+  function mockTokenIssued(recentCount = 0) {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ count: recentCount }] } as any)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+  }
+
+  describe('requestEmailSignIn', () => {
+    it('should email a magic link and a 6-digit code', async () => {
+      mockTokenIssued();
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'user-123' }] } as any);
+
+      await requestEmailSignIn('test@example.com');
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('test@example.com');
+
+      const token = decodeURIComponent(
+        sent[0].text.match(/\/auth\/callback\?token=([^\s]+)/)![1]
+      );
+      const code = sent[0].text.match(/code is (\d{6})/)![1];
+
+      const [insertSql, insertParams] = mockQuery.mock.calls[2];
+      expect(insertSql).toContain('INSERT INTO one_time_tokens');
+      expect(insertParams).toEqual([
+        'test@example.com',
+        hashToken(token),
+        hashToken(`test@example.com:${code}`),
+        ONE_TIME_TOKEN_EXPIRY,
+      ]);
+    });
+
+    it('should void earlier links and codes for the address', async () => {
+      mockTokenIssued();
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'user-123' }] } as any);
+
+      await requestEmailSignIn('test@example.com');
+
+      expect(mockQuery.mock.calls[1][0]).toContain('SET used_at = NOW()');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['test@example.com']);
+    });
+
+    it('should not email unknown addresses', async () => {
+      mockTokenIssued();
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(requestEmailSignIn('nobody@example.com')).resolves.toBeUndefined();
+
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should rate limit requests per email', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ count: EMAIL_SIGN_IN_LIMIT }],
+      } as any);
+
+      await expect(requestEmailSignIn('test@example.com')).rejects.toThrow(
+        'Too many sign-in emails requested'
+      );
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('isMagicLinkValid', () => {
+    it('should check the link without using it up', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{}] } as any);
+
+      await expect(isMagicLinkValid('link-token')).resolves.toBe(true);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('SELECT 1 FROM one_time_tokens');
+      expect(sql).not.toContain('UPDATE');
+      expect(params).toEqual([hashToken('link-token')]);
+    });
+
+    it('should report used or expired links', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(isMagicLinkValid('link-token')).resolves.toBe(false);
+    });
+
+    it('should reject an empty token without querying', async () => {
+      await expect(isMagicLinkValid('')).resolves.toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumeMagicLink', () => {
+    it('should claim the link and return its email', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ email: 'test@example.com' }] } as any);
+
+      await expect(consumeMagicLink('link-token')).resolves.toBe('test@example.com');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('used_at IS NULL AND expires_at > NOW()');
+      expect(params).toEqual([hashToken('link-token')]);
+    });
+
+    it('should reject used or expired links', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(consumeMagicLink('link-token')).rejects.toThrow(
+        'Invalid or expired sign-in link'
+      );
+    });
+
+    it('should reject an empty token without querying', async () => {
+      await expect(consumeMagicLink('')).rejects.toThrow('Invalid or expired sign-in link');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumeSignInCode', () => {
+    it('should claim a matching code', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'token-1' }] } as any);
+
+      await expect(consumeSignInCode('test@example.com', '123456')).resolves.toBeUndefined();
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('attempts < $3'), [
+        'test@example.com',
+        hashToken('test@example.com:123456'),
+        MAX_CODE_ATTEMPTS,
+      ]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count wrong codes against the current code', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(consumeSignInCode('test@example.com', '000000')).rejects.toThrow(
+        'Invalid or expired sign-in code'
+      );
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('attempts = attempts + 1'),
+        ['test@example.com']
+      );
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import {
+  changePlan,
+  getActivePrice,
+  getCurrentSubscription,
+  getPlanChangeTiming,
+  previewPlanChange,
+  type CurrentSubscription,
+} from '../plan-changes';
+import { invalidateSubscriberEntitlements } from '../stripe-sync';
+import * as zerodb from '../zerodb';
+import { stripe } from '@/utils/stripe/config';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+jest.mock('../stripe-sync', () => ({
+  invalidateSubscriberEntitlements: jest.fn(),
+}));
+jest.mock('@/utils/stripe/config', () => ({
+  stripe: {
+    subscriptions: { retrieve: jest.fn(), update: jest.fn() },
+    invoices: { retrieveUpcoming: jest.fn() },
+    subscriptionSchedules: {
+      create: jest.fn(),
+      retrieve: jest.fn(),
+      update: jest.fn(),
+      release: jest.fn(),
+    },
+  },
+}));
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockInvalidate = invalidateSubscriberEntitlements as jest.MockedFunction<
+  typeof invalidateSubscriberEntitlements
+>;
+const mockStripe = stripe as any;
+
+const NOW = 1_700_000_000;
+const PERIOD_END = NOW + 20 * 24 * 60 * 60;
+
+const CURRENT: CurrentSubscription = {
+  id: 'sub_123',
+  status: 'active',
+  cancelAtPeriodEnd: false,
+  priceId: 'price_hobby',
+  quantity: 3,
+  currentPeriodEnd: PERIOD_END,
+  unitAmount: 1000,
+  currency: 'usd',
+  interval: 'month',
+  intervalCount: 1,
+  userId: 'user-1',
+  organizationId: 'org-1',
+};
+
+function price(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: 'price_pro',
+    product_id: 'prod_pro',
+    active: true,
+    currency: 'usd',
+    type: 'recurring',
+    unit_amount: 2000,
+    interval: 'month',
+    interval_count: 1,
+    trial_period_days: null,
+    description: null,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('Plan Changes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+    mockStripe.subscriptions.retrieve.mockResolvedValue({
+      id: 'sub_123',
+      customer: 'cus_123',
+      schedule: null,
+      items: { data: [{ id: 'si_123' }] },
+    });
+    mockStripe.subscriptions.update.mockResolvedValue({ id: 'sub_123', pending_update: null });
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getPlanChangeTiming', () => {
+    it('should apply pricier plans immediately', () => {
+      expect(getPlanChangeTiming(CURRENT, price())).toBe('immediate');
+    });
+
+    it('should wait for the period end on cheaper plans', () => {
+      expect(getPlanChangeTiming(CURRENT, price({ unit_amount: 500 }))).toBe('period_end');
+    });
+
+    it('should compare prices per month across intervals', () => {
+      // $100/year is cheaper than $10/month
+      expect(
+        getPlanChangeTiming(CURRENT, price({ unit_amount: 10000, interval: 'year' }))
+      ).toBe('period_end');
+      // $150/year is pricier than $10/month
+      expect(
+        getPlanChangeTiming(CURRENT, price({ unit_amount: 15000, interval: 'year' }))
+      ).toBe('immediate');
+    });
+  });
+
+  describe('getCurrentSubscription', () => {
+    it('should map the newest active subscription for the context', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'sub_123',
+            status: 'active',
+            cancel_at_period_end: false,
+            user_id: 'user-1',
+            organization_id: 'org-1',
+            price_id: 'price_hobby',
+            quantity: 3,
+            current_period_end: new Date(PERIOD_END * 1000),
+            unit_amount: 1000,
+            currency: 'usd',
+            interval: 'month',
+            interval_count: 1,
+          },
+        ],
+      } as any);
+
+      await expect(getCurrentSubscription('user-1', 'org-1')).resolves.toEqual(CURRENT);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-1', 'org-1']);
+    });
+
+    it('should return null without a subscription', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(getCurrentSubscription('user-1', null)).resolves.toBeNull();
+    });
+  });
+
+  describe('getActivePrice', () => {
+    it('should load the price by ID when it is still sold', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [price()] } as any);
+
+      await expect(getActivePrice('price_pro')).resolves.toEqual(price());
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('pr.active = true AND p.active = true');
+      expect(params).toEqual(['price_pro']);
+    });
+
+    it('should refuse unknown or archived prices', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(getActivePrice('price_gone')).rejects.toThrow(
+        'That plan is no longer available.'
+      );
+    });
+  });
+
+  describe('previewPlanChange', () => {
+    it('should sum the proration lines of the upcoming invoice for upgrades', async () => {
+      mockStripe.invoices.retrieveUpcoming.mockResolvedValue({
+        currency: 'usd',
+        lines: {
+          data: [
+            { amount: -2000, proration: true },
+            { amount: 4000, proration: true },
+            { amount: 6000, proration: false },
+          ],
+        },
+      });
+
+      await expect(previewPlanChange(CURRENT, price())).resolves.toEqual({
+        timing: 'immediate',
+        amountDue: 2000,
+        currency: 'usd',
+        effectiveAt: NOW,
+        prorationDate: NOW,
+      });
+      expect(mockStripe.invoices.retrieveUpcoming).toHaveBeenCalledWith({
+        customer: 'cus_123',
+        subscription: 'sub_123',
+        subscription_items: [{ id: 'si_123', price: 'price_pro', quantity: 3 }],
+        subscription_proration_behavior: 'always_invoice',
+        subscription_proration_date: NOW,
+      });
+    });
+
+    it('should not charge anything for downgrades', async () => {
+      await expect(previewPlanChange(CURRENT, price({ unit_amount: 500 }))).resolves.toEqual({
+        timing: 'period_end',
+        amountDue: 0,
+        currency: 'usd',
+        effectiveAt: PERIOD_END,
+        prorationDate: NOW,
+      });
+      expect(mockStripe.invoices.retrieveUpcoming).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the current price, one-time prices, other currencies and paused subscriptions', async () => {
+      await expect(previewPlanChange(CURRENT, price({ id: 'price_hobby' }))).rejects.toThrow(
+        'You are already on this plan.'
+      );
+      await expect(previewPlanChange(CURRENT, price({ type: 'one_time' }))).rejects.toThrow(
+        'You can only switch to another subscription plan.'
+      );
+      await expect(previewPlanChange(CURRENT, price({ currency: 'eur' }))).rejects.toThrow(
+        'You can only switch to a plan in the same currency.'
+      );
+      await expect(previewPlanChange({ ...CURRENT, status: 'paused' }, price())).rejects.toThrow(
+        'Resume your subscription before switching plans.'
+      );
+      expect(mockStripe.subscriptions.retrieve).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePlan', () => {
+    it('should upgrade immediately with the preview proration date', async () => {
+      await expect(changePlan(CURRENT, price(), NOW - 60)).resolves.toEqual({
+        timing: 'immediate',
+        effectiveAt: NOW - 60,
+      });
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        items: [{ id: 'si_123', price: 'price_pro', quantity: 3 }],
+        proration_behavior: 'always_invoice',
+        proration_date: NOW - 60,
+        payment_behavior: 'pending_if_incomplete',
+      });
+      expect(mockQuery).toHaveBeenCalledWith(
+        'UPDATE subscriptions SET price_id = $1, updated_at = NOW() WHERE id = $2',
+        ['price_pro', 'sub_123']
+      );
+      expect(mockInvalidate).toHaveBeenCalledWith('user-1', 'org-1');
+    });
+
+    it('should ignore stale or future proration dates', async () => {
+      await changePlan(CURRENT, price(), NOW - 60 * 60);
+      await changePlan(CURRENT, price(), NOW + 60);
+
+      expect(mockStripe.subscriptions.update.mock.calls[0][1].proration_date).toBe(NOW);
+      expect(mockStripe.subscriptions.update.mock.calls[1][1].proration_date).toBe(NOW);
+    });
+
+    it('should cancel a scheduled downgrade when upgrading', async () => {
+      mockStripe.subscriptions.retrieve.mockResolvedValue({
+        id: 'sub_123',
+        schedule: 'sub_sched_123',
+        items: { data: [{ id: 'si_123' }] },
+      });
+
+      await changePlan(CURRENT, price());
+
+      expect(mockStripe.subscriptionSchedules.release).toHaveBeenCalledWith('sub_sched_123');
+    });
+
+    it('should keep the old plan when the upgrade payment is not made', async () => {
+      mockStripe.subscriptions.update.mockResolvedValue({
+        id: 'sub_123',
+        pending_update: { expires_at: NOW + 3600 },
+      });
+
+      await expect(changePlan(CURRENT, price())).rejects.toThrow(
+        'The payment for the upgrade did not go through.'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should schedule downgrades for the end of the period', async () => {
+      mockStripe.subscriptionSchedules.create.mockResolvedValue({
+        id: 'sub_sched_123',
+        phases: [{ start_date: NOW - 1000 }],
+      });
+
+      await expect(changePlan(CURRENT, price({ unit_amount: 500 }))).resolves.toEqual({
+        timing: 'period_end',
+        effectiveAt: PERIOD_END,
+      });
+
+      expect(mockStripe.subscriptionSchedules.create).toHaveBeenCalledWith({
+        from_subscription: 'sub_123',
+      });
+      expect(mockStripe.subscriptionSchedules.update).toHaveBeenCalledWith('sub_sched_123', {
+        end_behavior: 'release',
+        proration_behavior: 'none',
+        phases: [
+          {
+            items: [{ price: 'price_hobby', quantity: 3 }],
+            start_date: NOW - 1000,
+            end_date: PERIOD_END,
+          },
+          {
+            items: [{ price: 'price_pro', quantity: 3 }],
+            iterations: 1,
+          },
+        ],
+      });
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should replace an existing scheduled downgrade', async () => {
+      mockStripe.subscriptions.retrieve.mockResolvedValue({
+        id: 'sub_123',
+        schedule: 'sub_sched_123',
+        items: { data: [{ id: 'si_123' }] },
+      });
+      mockStripe.subscriptionSchedules.retrieve.mockResolvedValue({
+        id: 'sub_sched_123',
+        phases: [{ start_date: NOW - 1000 }],
+      });
+
+      await changePlan(CURRENT, price({ unit_amount: 500 }));
+
+      expect(mockStripe.subscriptionSchedules.create).not.toHaveBeenCalled();
+      expect(mockStripe.subscriptionSchedules.update).toHaveBeenCalledWith(
+        'sub_sched_123',
+        expect.objectContaining({ end_behavior: 'release' })
+      );
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { getActivePurchases } from '../purchases';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('Purchases', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getActivePurchases', () => {
+    it('should return paid purchases with their product', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'li_123',
+            status: 'paid',
+            price_id: 'price_lifetime',
+            product_id: 'prod_123',
+            product_name: 'Pro',
+            amount_total: '29900',
+            currency: 'usd',
+            created: new Date('2024-01-15T00:00:00Z'),
+          },
+        ],
+      } as any);
+
+      const purchases = await getActivePurchases('user_123');
+
+      expect(purchases).toEqual([
+        {
+          id: 'li_123',
+          status: 'paid',
+          price_id: 'price_lifetime',
+          product_id: 'prod_123',
+          product_name: 'Pro',
+          amount_total: 29900,
+          currency: 'usd',
+          created: '2024-01-15T00:00:00.000Z',
+        },
+      ]);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("pu.status = 'paid'");
+      expect(params).toEqual(['user_123']);
+    });
+
+    it('should return an empty list without purchases', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(getActivePurchases('user_123')).resolves.toEqual([]);
+    });
+  });
+});
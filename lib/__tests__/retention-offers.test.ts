@@ -0,0 +1,438 @@
+import {
+  acceptRetentionOffer,
+  declineRetentionOffers,
+  getRetentionOffers,
+  matchesRetentionRule,
+  monthsBetween,
+  readRetentionOffers,
+  RETENTION_OFFERS,
+  selectRetentionOffers,
+  signRetentionOffers,
+  type RetentionContext,
+} from '../retention-offers';
+import { signJwt } from '../jwt-keys';
+import { changePlan, type CurrentSubscription } from '../plan-changes';
+import * as zerodb from '../zerodb';
+import { stripe } from '@/utils/stripe/config';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+jest.mock('../plan-changes', () => ({
+  ...jest.requireActual('../plan-changes'),
+  changePlan: jest.fn(),
+}));
+jest.mock('@/utils/stripe/config', () => ({
+  stripe: {
+    subscriptions: { retrieve: jest.fn(), update: jest.fn() },
+    coupons: { retrieve: jest.fn(), create: jest.fn() },
+  },
+}));
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockTransaction = zerodb.transaction as jest.MockedFunction<typeof zerodb.transaction>;
+const mockChangePlan = changePlan as jest.MockedFunction<typeof changePlan>;
+const mockStripe = stripe as any;
+
+const NOW = new Date('2024-06-15T00:00:00Z');
+
+const CURRENT: CurrentSubscription = {
+  id: 'sub_123',
+  status: 'active',
+  cancelAtPeriodEnd: false,
+  priceId: 'price_pro',
+  quantity: 1,
+  currentPeriodEnd: Math.floor(NOW.getTime() / 1000) + 20 * 24 * 60 * 60,
+  unitAmount: 2000,
+  currency: 'usd',
+  interval: 'month',
+  intervalCount: 1,
+  userId: 'user-1',
+  organizationId: null,
+};
+
+const HOBBY_PRICE = {
+  id: 'price_hobby',
+  product_id: 'prod_hobby',
+  active: true,
+  currency: 'usd',
+  type: 'recurring',
+  unit_amount: 1000,
+  interval: 'month',
+  interval_count: 1,
+  trial_period_days: null,
+  description: null,
+  metadata: {},
+};
+
+/**
+ * Answer the queries getRetentionOffers makes, in order
+ */
+function mockSubscriber(options: {
+  created: string;
+  tier: string | null;
+  offersMade?: string[];
+  downgradePrice?: object | null;
+  tokensAnswered?: string[];
+}) {
+  mockQuery.mockImplementation((sql: string, params?: any[]) => {
+    if (sql.includes('INSERT INTO retention_offer_tokens')) {
+      const taken = (options.tokensAnswered ?? []).includes(params?.[0]);
+      return Promise.resolve({ rows: [], rowCount: taken ? 0 : 1 } as any);
+    }
+    if (sql.includes('FROM subscriptions s')) {
+      return Promise.resolve({ rows: [{ created: options.created, tier: options.tier }] } as any);
+    }
+    if (sql.includes('SELECT DISTINCT offer_id')) {
+      return Promise.resolve({
+        rows: (options.offersMade ?? []).map((offer_id) => ({ offer_id })),
+      } as any);
+    }
+    if (sql.includes('FROM prices pr')) {
+      const price = options.downgradePrice === undefined ? HOBBY_PRICE : options.downgradePrice;
+      return Promise.resolve({ rows: price ? [price] : [] } as any);
+    }
+    return Promise.resolve({ rows: [], rowCount: 1 } as any);
+  });
+}
+
+describe('Retention Offers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    mockTransaction.mockImplementation((callback) => callback({ query: mockQuery } as any));
+    mockStripe.subscriptions.retrieve.mockResolvedValue({ id: 'sub_123', discount: null });
+    jest.spyOn(Date, 'now').mockReturnValue(NOW.getTime());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('monthsBetween', () => {
+    it('should count whole calendar months', () => {
+      expect(monthsBetween(new Date('2024-01-15'), new Date('2024-06-15'))).toBe(5);
+      expect(monthsBetween(new Date('2024-01-16'), new Date('2024-06-15'))).toBe(4);
+      expect(monthsBetween(new Date('2023-06-15'), new Date('2024-06-15'))).toBe(12);
+      expect(monthsBetween(new Date('2024-06-20'), new Date('2024-06-15'))).toBe(0);
+    });
+  });
+
+  describe('matchesRetentionRule', () => {
+    const context: RetentionContext = { tier: 'pro', tenureMonths: 6, reason: 'too_expensive' };
+
+    it('should match rules without conditions', () => {
+      expect(matchesRetentionRule({}, context)).toBe(true);
+    });
+
+    it('should check tier, tenure and reason', () => {
+      expect(matchesRetentionRule({ tiers: ['pro'] }, context)).toBe(true);
+      expect(matchesRetentionRule({ tiers: ['hobby'] }, context)).toBe(false);
+      expect(matchesRetentionRule({ tiers: ['pro'] }, { ...context, tier: null })).toBe(false);
+      expect(matchesRetentionRule({ minTenureMonths: 6 }, context)).toBe(true);
+      expect(matchesRetentionRule({ minTenureMonths: 7 }, context)).toBe(false);
+      expect(matchesRetentionRule({ maxTenureMonths: 5 }, context)).toBe(false);
+      expect(matchesRetentionRule({ reasons: ['unused'] }, context)).toBe(false);
+    });
+  });
+
+  describe('selectRetentionOffers', () => {
+    it('should keep config order and skip offers already made', () => {
+      const context: RetentionContext = { tier: 'pro', tenureMonths: 13, reason: 'too_expensive' };
+
+      expect(selectRetentionOffers(context).map((offer) => offer.id)).toEqual([
+        'half_price_3_months',
+        'downgrade_to_hobby',
+        'loyalty_25_off_6_months',
+      ]);
+      expect(
+        selectRetentionOffers(context, RETENTION_OFFERS, ['half_price_3_months']).map(
+          (offer) => offer.id
+        )
+      ).toEqual(['downgrade_to_hobby', 'loyalty_25_off_6_months']);
+    });
+  });
+
+  describe('getRetentionOffers', () => {
+    it('should return at most two offers with the downgrade price', async () => {
+      mockSubscriber({ created: '2023-01-01T00:00:00Z', tier: 'pro' });
+
+      const offers = await getRetentionOffers(CURRENT, 'too_expensive');
+
+      expect(offers.map((offer) => offer.id)).toEqual([
+        'half_price_3_months',
+        'downgrade_to_hobby',
+      ]);
+      expect(offers[1]).toMatchObject({ kind: 'downgrade', price: HOBBY_PRICE });
+    });
+
+    it('should skip downgrades without a cheaper matching price', async () => {
+      mockSubscriber({ created: '2024-06-01T00:00:00Z', tier: 'pro', downgradePrice: null });
+
+      await expect(getRetentionOffers(CURRENT, 'unused')).resolves.toEqual([]);
+    });
+
+    it('should not repeat offers made to the subscription before', async () => {
+      mockSubscriber({
+        created: '2023-01-01T00:00:00Z',
+        tier: 'hobby',
+        offersMade: ['loyalty_25_off_6_months'],
+      });
+
+      await expect(getRetentionOffers(CURRENT, 'other')).resolves.toEqual([]);
+    });
+  });
+
+  describe('signRetentionOffers', () => {
+    const shown = [{ id: 'half_price_3_months' }, { id: 'downgrade_to_hobby' }];
+
+    it('should read back the reason and offers shown', () => {
+      const token = signRetentionOffers(CURRENT, 'too_expensive', shown);
+
+      expect(readRetentionOffers(CURRENT, token)).toEqual({
+        tokenId: expect.any(String),
+        expiresAt: Math.floor(NOW.getTime() / 1000) + 30 * 60,
+        reason: 'too_expensive',
+        offerIds: ['half_price_3_months', 'downgrade_to_hobby'],
+      });
+    });
+
+    it('should refuse tokens for another subscription', () => {
+      const token = signRetentionOffers({ ...CURRENT, id: 'sub_other' }, 'unused', shown);
+
+      expect(() => readRetentionOffers(CURRENT, token)).toThrow(
+        'That offer is no longer available.'
+      );
+    });
+
+    it('should refuse other tokens and tampered ones', () => {
+      const challenge = signJwt({ purpose: 'two_factor', sub: 'sub_123' }, 300);
+      const token = signRetentionOffers(CURRENT, 'unused', shown);
+
+      expect(() => readRetentionOffers(CURRENT, challenge)).toThrow(
+        'That offer is no longer available.'
+      );
+      expect(() => readRetentionOffers(CURRENT, `${token}x`)).toThrow(
+        'That offer is no longer available.'
+      );
+      expect(() => readRetentionOffers(CURRENT, '')).toThrow(
+        'That offer is no longer available.'
+      );
+    });
+  });
+
+  describe('acceptRetentionOffer', () => {
+    const offerToken = (reason: RetentionContext['reason'], ...offerIds: string[]) =>
+      signRetentionOffers(CURRENT, reason, offerIds.map((id) => ({ id })));
+
+    it('should apply the coupon for discounts, creating it on first use', async () => {
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'hobby' });
+      mockStripe.coupons.retrieve.mockRejectedValue({ code: 'resource_missing' });
+
+      await acceptRetentionOffer(
+        CURRENT,
+        'half_price_3_months',
+        offerToken('too_expensive', 'half_price_3_months'),
+        'user-1'
+      );
+
+      expect(mockStripe.coupons.create).toHaveBeenCalledWith({
+        id: 'retention_half_price_3_months',
+        name: '50% off for 3 months',
+        percent_off: 50,
+        duration: 'repeating',
+        duration_in_months: 3,
+      });
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        coupon: 'retention_half_price_3_months',
+      });
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO retention_offer_outcomes'),
+        ['sub_123', 'user-1', null, 'half_price_3_months', 'too_expensive', 'accepted']
+      );
+    });
+
+    it('should reuse an existing coupon', async () => {
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'hobby' });
+      mockStripe.coupons.retrieve.mockResolvedValue({ id: 'retention_half_price_3_months' });
+
+      await acceptRetentionOffer(
+        CURRENT,
+        'half_price_3_months',
+        offerToken('too_expensive', 'half_price_3_months'),
+        'user-1'
+      );
+
+      expect(mockStripe.coupons.create).not.toHaveBeenCalled();
+    });
+
+    it('should schedule the downgrade for downgrade offers', async () => {
+      mockSubscriber({ created: '2024-06-01T00:00:00Z', tier: 'pro' });
+
+      await acceptRetentionOffer(
+        CURRENT,
+        'downgrade_to_hobby',
+        offerToken('unused', 'downgrade_to_hobby'),
+        'user-1'
+      );
+
+      expect(mockChangePlan).toHaveBeenCalledWith(CURRENT, HOBBY_PRICE);
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse offers that do not apply', async () => {
+      mockSubscriber({ created: '2024-06-01T00:00:00Z', tier: 'pro' });
+
+      await expect(
+        acceptRetentionOffer(
+          CURRENT,
+          'loyalty_25_off_6_months',
+          offerToken('unused', 'loyalty_25_off_6_months'),
+          'user-1'
+        )
+      ).rejects.toThrow('That offer is no longer available.');
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse offers that were not shown in the cancellation', async () => {
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'hobby' });
+
+      await expect(
+        acceptRetentionOffer(
+          CURRENT,
+          'half_price_3_months',
+          offerToken('too_expensive', 'downgrade_to_hobby'),
+          'user-1'
+        )
+      ).rejects.toThrow('That offer is no longer available.');
+      await expect(
+        acceptRetentionOffer(CURRENT, 'half_price_3_months', '', 'user-1')
+      ).rejects.toThrow('That offer is no longer available.');
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should record the other offers shown as declined', async () => {
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'pro' });
+
+      await acceptRetentionOffer(
+        CURRENT,
+        'downgrade_to_hobby',
+        offerToken('too_expensive', 'half_price_3_months', 'downgrade_to_hobby'),
+        'user-1'
+      );
+
+      const outcomes = mockQuery.mock.calls
+        .filter(([sql]) => sql.includes('INSERT INTO retention_offer_outcomes'))
+        .map(([, params]) => params);
+      expect(outcomes).toEqual([
+        ['sub_123', 'user-1', null, 'downgrade_to_hobby', 'too_expensive', 'accepted'],
+        ['sub_123', 'user-1', null, 'half_price_3_months', 'too_expensive', 'declined'],
+      ]);
+    });
+
+    it('should record the answer before calling Stripe', async () => {
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'hobby' });
+      mockStripe.coupons.retrieve.mockResolvedValue({ id: 'retention_half_price_3_months' });
+
+      await acceptRetentionOffer(
+        CURRENT,
+        'half_price_3_months',
+        offerToken('too_expensive', 'half_price_3_months'),
+        'user-1'
+      );
+
+      const claim = mockQuery.mock.calls.findIndex(([sql]) =>
+        sql.includes('INSERT INTO retention_offer_tokens')
+      );
+      expect(mockTransaction).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.invocationCallOrder[claim]).toBeLessThan(
+        mockStripe.subscriptions.update.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should accept only one offer per cancellation', async () => {
+      const token = offerToken('too_expensive', 'half_price_3_months', 'downgrade_to_hobby');
+      const { tokenId } = readRetentionOffers(CURRENT, token);
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'pro', tokensAnswered: [tokenId] });
+
+      await expect(
+        acceptRetentionOffer(CURRENT, 'downgrade_to_hobby', token, 'user-1')
+      ).rejects.toThrow('That offer is no longer available.');
+      expect(mockChangePlan).not.toHaveBeenCalled();
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+      expect(
+        mockQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO retention_offer_outcomes'))
+      ).toBe(false);
+    });
+
+    it('should not replace a discount the subscription already has', async () => {
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'hobby' });
+      mockStripe.subscriptions.retrieve.mockResolvedValue({
+        id: 'sub_123',
+        discount: { coupon: { id: 'launch_20' } },
+      });
+
+      await expect(
+        acceptRetentionOffer(
+          CURRENT,
+          'half_price_3_months',
+          offerToken('too_expensive', 'half_price_3_months'),
+          'user-1'
+        )
+      ).rejects.toThrow('Your subscription already has a discount, so this offer cannot be added.');
+      expect(mockTransaction).not.toHaveBeenCalled();
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse offers once the subscription is set to cancel', async () => {
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'hobby' });
+
+      await expect(
+        acceptRetentionOffer(
+          { ...CURRENT, cancelAtPeriodEnd: true },
+          'half_price_3_months',
+          offerToken('too_expensive', 'half_price_3_months'),
+          'user-1'
+        )
+      ).rejects.toThrow('That offer is no longer available.');
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('declineRetentionOffers', () => {
+    it('should record each offer shown as declined', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+      const token = signRetentionOffers(CURRENT, 'too_expensive', [
+        { id: 'half_price_3_months' },
+        { id: 'downgrade_to_hobby' },
+      ]);
+
+      await declineRetentionOffers(CURRENT, token, 'user-1');
+
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+      expect(mockQuery.mock.calls[0][0]).toContain('INSERT INTO retention_offer_tokens');
+      expect(mockQuery.mock.calls.slice(1).map(([, params]) => params)).toEqual([
+        ['sub_123', 'user-1', null, 'half_price_3_months', 'too_expensive', 'declined'],
+        ['sub_123', 'user-1', null, 'downgrade_to_hobby', 'too_expensive', 'declined'],
+      ]);
+    });
+
+    it('should not record offers already answered', async () => {
+      const token = signRetentionOffers(CURRENT, 'too_expensive', [{ id: 'half_price_3_months' }]);
+      const { tokenId } = readRetentionOffers(CURRENT, token);
+      mockSubscriber({ created: '2024-01-01T00:00:00Z', tier: 'hobby', tokensAnswered: [tokenId] });
+
+      await declineRetentionOffers(CURRENT, token, 'user-1');
+
+      expect(
+        mockQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO retention_offer_outcomes'))
+      ).toBe(false);
+    });
+
+    it('should not record anything for an invalid token', async () => {
+      await expect(declineRetentionOffers(CURRENT, 'forged', 'user-1')).rejects.toThrow(
+        'That offer is no longer available.'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
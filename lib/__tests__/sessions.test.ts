@@ -0,0 +1,108 @@
+import {
+  listActiveSessions,
+  isSessionActive,
+  revokeUserSession,
+  revokeOtherSessions,
+} from '../sessions';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('Sessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listActiveSessions', () => {
+    it('should list unrevoked sessions and flag the current one', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'session-1',
+            user_agent: 'Mozilla/5.0 Chrome/120.0',
+            ip_address: '203.0.113.7',
+            created_at: new Date('2024-01-01T00:00:00Z'),
+            last_seen_at: new Date('2024-01-02T00:00:00Z'),
+          },
+          {
+            id: 'session-2',
+            user_agent: null,
+            ip_address: null,
+            created_at: new Date('2023-12-01T00:00:00Z'),
+            last_seen_at: new Date('2023-12-05T00:00:00Z'),
+          },
+        ],
+      } as any);
+
+      const sessions = await listActiveSessions('user_123', 'session-2');
+
+      expect(sessions).toEqual([
+        {
+          id: 'session-1',
+          userAgent: 'Mozilla/5.0 Chrome/120.0',
+          ipAddress: '203.0.113.7',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          lastSeenAt: '2024-01-02T00:00:00.000Z',
+          current: false,
+        },
+        {
+          id: 'session-2',
+          userAgent: null,
+          ipAddress: null,
+          createdAt: '2023-12-01T00:00:00.000Z',
+          lastSeenAt: '2023-12-05T00:00:00.000Z',
+          current: true,
+        },
+      ]);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('s.revoked_at IS NULL');
+      expect(sql).toContain('rt.expires_at > NOW()');
+      expect(params).toEqual(['user_123']);
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should report unrevoked sessions as active', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ '?column?': 1 }] } as any);
+      await expect(isSessionActive('session-1')).resolves.toBe(true);
+
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      await expect(isSessionActive('session-2')).resolves.toBe(false);
+    });
+  });
+
+  describe('revokeUserSession', () => {
+    it('should only revoke sessions owned by the user', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(revokeUserSession('user_123', 'session-1')).resolves.toBe(true);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('user_id = $2');
+      expect(sql).toContain("revoked_reason = 'user_revoked'");
+      expect(params).toEqual(['session-1', 'user_123']);
+    });
+
+    it('should report sessions that were not revoked', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(revokeUserSession('user_123', 'session-9')).resolves.toBe(false);
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should keep the current session', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 3 } as any);
+
+      await expect(revokeOtherSessions('user_123', 'session-1')).resolves.toBe(3);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('id <> $2');
+      expect(params).toEqual(['user_123', 'session-1']);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  claimSignInAttempt,
+  clearFailedSignIns,
+  getThrottleDelay,
+  recordFailedSignIn,
+  SIGN_IN_FAILURE_WINDOW,
+  SIGN_IN_LOCKOUT,
+  SIGN_IN_THROTTLE_POLICIES,
+  type SignInAttempt,
+} from '../sign-in-throttle';
+import { setMailer, type MailMessage } from '../mailer';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('Sign-in Throttle', () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    sent = [];
+    setMailer({
+      send: async (message) => {
+        sent.push(message);
+      },
+    });
+  });
+
+  afterAll(() => {
+    setMailer(null);
+  });
+
+  describe('getThrottleDelay', () => {
+    it('should let the first few failures through', () => {
+      expect(getThrottleDelay(1, 'account')).toBe(0);
+      expect(getThrottleDelay(2, 'account')).toBe(0);
+    });
+
+    it('should double the delay after each further failure', () => {
+      expect(getThrottleDelay(3, 'account')).toBe(1);
+      expect(getThrottleDelay(4, 'account')).toBe(2);
+      expect(getThrottleDelay(5, 'account')).toBe(4);
+      expect(getThrottleDelay(9, 'account')).toBe(64);
+    });
+
+    it('should lock out at the threshold', () => {
+      expect(getThrottleDelay(10, 'account')).toBe(SIGN_IN_LOCKOUT);
+      expect(getThrottleDelay(25, 'account')).toBe(SIGN_IN_LOCKOUT);
+    });
+
+    it('should give an IP more room than an account', () => {
+      expect(getThrottleDelay(9, 'ip')).toBe(0);
+      expect(getThrottleDelay(10, 'ip')).toBe(1);
+      expect(getThrottleDelay(49, 'ip')).toBe(SIGN_IN_LOCKOUT);
+      expect(getThrottleDelay(50, 'ip')).toBe(SIGN_IN_LOCKOUT);
+    });
+  });
+
+  describe('claimSignInAttempt', () => {
+    it('should count the attempt against the IP, then the lowercased email', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ failed_attempts: 4 }] } as any)
+        .mockResolvedValueOnce({ rows: [{ failed_attempts: 2 }] } as any);
+
+      await expect(claimSignInAttempt(' Test@Example.com ', '203.0.113.7')).resolves.toEqual({
+        email: ' Test@Example.com ',
+        ipAddress: '203.0.113.7',
+        accountFailures: 2,
+        ipFailures: 4,
+      });
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        'ip',
+        '203.0.113.7',
+        SIGN_IN_FAILURE_WINDOW,
+        expect.any(Array),
+        SIGN_IN_LOCKOUT,
+      ]);
+      expect(mockQuery.mock.calls[1][1]).toEqual([
+        'account',
+        'test@example.com',
+        SIGN_IN_FAILURE_WINDOW,
+        expect.any(Array),
+        SIGN_IN_LOCKOUT,
+      ]);
+    });
+
+    it('should check and count in one statement', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ failed_attempts: 1 }] } as any);
+
+      await claimSignInAttempt('test@example.com', null);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (scope, key) DO UPDATE');
+      expect(sql).toContain('locked_until <= NOW()');
+      expect(sql).toContain('RETURNING failed_attempts');
+      expect((params as unknown[])[3]).toEqual([0, 0, 1, 2, 4, 8, 16, 32, 64, SIGN_IN_LOCKOUT]);
+    });
+
+    it('should skip the IP when it is unknown', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ failed_attempts: 1 }] } as any);
+
+      await expect(claimSignInAttempt('test@example.com')).resolves.toMatchObject({
+        ipAddress: null,
+        ipFailures: null,
+      });
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]?.[0]).toBe('account');
+    });
+
+    it('should refuse a locked IP without counting against the account', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(claimSignInAttempt('test@example.com', '203.0.113.7')).rejects.toThrow(
+        'Too many sign-in attempts. Please try again later.'
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse a locked account', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ failed_attempts: 1 }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(claimSignInAttempt('test@example.com', '203.0.113.7')).rejects.toThrow(
+        'Too many sign-in attempts. Please try again later.'
+      );
+    });
+  });
+
+  describe('recordFailedSignIn', () => {
+    const attempt = (accountFailures: number, email = 'test@example.com'): SignInAttempt => ({
+      email,
+      ipAddress: '203.0.113.7',
+      accountFailures,
+      ipFailures: 1,
+    });
+
+    it('should do nothing more before the lockout', async () => {
+      await recordFailedSignIn(attempt(5));
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should email the owner when the lockout starts', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ email: 'test@example.com' }] } as any);
+
+      await recordFailedSignIn(attempt(SIGN_IN_THROTTLE_POLICIES.account.lockoutThreshold));
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('test@example.com');
+      expect(sent[0].text).toContain('locked for 15 minutes');
+      expect(sent[0].text).toContain('/signin/forgot_password');
+    });
+
+    it('should only email once per lockout', async () => {
+      await recordFailedSignIn(attempt(SIGN_IN_THROTTLE_POLICIES.account.lockoutThreshold + 1));
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should not email unknown addresses', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await recordFailedSignIn(
+        attempt(SIGN_IN_THROTTLE_POLICIES.account.lockoutThreshold, 'nobody@example.com')
+      );
+
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should not fail the sign-in when the lockout email cannot be sent', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      setMailer({
+        send: async () => {
+          throw new Error('SMTP down');
+        },
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [{ email: 'test@example.com' }] } as any);
+
+      await expect(
+        recordFailedSignIn(attempt(SIGN_IN_THROTTLE_POLICIES.account.lockoutThreshold))
+      ).resolves.toBeUndefined();
+
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('clearFailedSignIns', () => {
+    it("should forget the account's failures and give the IP back one attempt", async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      await clearFailedSignIns({
+        email: 'Test@Example.com',
+        ipAddress: '203.0.113.7',
+        accountFailures: 2,
+        ipFailures: 12,
+      });
+
+      expect(mockQuery.mock.calls[0][0]).toContain("scope = 'account'");
+      expect(mockQuery.mock.calls[0][1]).toEqual(['test@example.com']);
+      expect(mockQuery.mock.calls[1][0]).toContain('failed_attempts - 1');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['203.0.113.7', 12]);
+    });
+
+    it('should leave IPs alone when the attempt had none', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      await clearFailedSignIns({
+        email: 'test@example.com',
+        ipAddress: null,
+        accountFailures: 1,
+        ipFailures: null,
+      });
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import net from 'net';
+import { createSmtpMailer, formatMessage } from '../smtp';
+
+/**
+ * Run a scripted SMTP server that records each command it receives
+ * @param extensions - EHLO keywords to advertise
+ */
+async function startServer(extensions: string[] = []) {
+  const commands: string[] = [];
+  let data = '';
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test.local ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      let end = buffer.indexOf('\r\n');
+      while (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 Queued\r\n');
+          } else {
+            data += `${line}\r\n`;
+          }
+        } else {
+          commands.push(line);
+          if (line.startsWith('EHLO')) {
+            socket.write(
+              ['250-test.local', ...extensions.map((ext) => `250-${ext}`), '250 8BITMIME']
+                .map((reply) => `${reply}\r\n`)
+                .join('')
+            );
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 Go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 Bye\r\n');
+          } else {
+            socket.write('250 OK\r\n');
+          }
+        }
+        end = buffer.indexOf('\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    commands,
+    getData: () => data,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('SMTP mailer', () => {
+  const message = {
+    to: 'test@example.com',
+    subject: 'Verify your email',
+    text: 'Plain body',
+    html: '<p>HTML body</p>',
+  };
+
+  it('should deliver a message to the relay', async () => {
+    const server = await startServer();
+
+    try {
+      await createSmtpMailer({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        from: 'App <noreply@example.com>',
+      }).send(message);
+
+      expect(server.commands).toEqual([
+        expect.stringMatching(/^EHLO /),
+        'MAIL FROM:<noreply@example.com>',
+        'RCPT TO:<test@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      expect(server.getData()).toContain('To: test@example.com');
+      expect(server.getData()).toContain(Buffer.from('Plain body').toString('base64'));
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should refuse to send credentials without TLS', async () => {
+    const server = await startServer();
+
+    try {
+      await expect(
+        createSmtpMailer({
+          host: '127.0.0.1',
+          port: server.port,
+          secure: false,
+          user: 'user',
+          password: 'secret',
+          from: 'noreply@example.com',
+        }).send(message)
+      ).rejects.toThrow('refusing to send credentials');
+      expect(server.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should reject recipients that would add headers', async () => {
+    const mailer = createSmtpMailer({
+      host: '127.0.0.1',
+      port: 25,
+      secure: false,
+      from: 'noreply@example.com',
+    });
+
+    await expect(
+      mailer.send({ ...message, to: 'a@example.com\r\nBcc: b@example.com' })
+    ).rejects.toThrow('Invalid recipient for email');
+  });
+
+  describe('formatMessage', () => {
+    it('should encode the subject and add an HTML alternative', () => {
+      const formatted = formatMessage('noreply@example.com', message);
+
+      expect(formatted).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from('Verify your email').toString('base64')}?=`
+      );
+      expect(formatted).toContain('Content-Type: multipart/alternative');
+      expect(formatted).toContain(Buffer.from('<p>HTML body</p>').toString('base64'));
+    });
+
+    it('should send plain text alone when there is no HTML', () => {
+      const formatted = formatMessage('noreply@example.com', { ...message, html: undefined });
+
+      expect(formatted).toContain('Content-Type: text/plain; charset=utf-8');
+      expect(formatted).not.toContain('multipart');
+    });
+  });
+});
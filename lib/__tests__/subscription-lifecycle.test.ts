@@ -0,0 +1,186 @@
+import {
+  cancelSubscription,
+  isCancellationReason,
+  pauseSubscription,
+  resumeSubscription,
+} from '../subscription-lifecycle';
+import type { CurrentSubscription } from '../plan-changes';
+import { manageSubscriptionStatusChange } from '../stripe-sync';
+import * as zerodb from '../zerodb';
+import { stripe } from '@/utils/stripe/config';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+jest.mock('../stripe-sync', () => ({
+  manageSubscriptionStatusChange: jest.fn(),
+}));
+jest.mock('@/utils/stripe/config', () => ({
+  stripe: {
+    subscriptions: { retrieve: jest.fn(), update: jest.fn(), cancel: jest.fn() },
+    subscriptionSchedules: { release: jest.fn() },
+  },
+}));
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockSync = manageSubscriptionStatusChange as jest.MockedFunction<
+  typeof manageSubscriptionStatusChange
+>;
+const mockStripe = stripe as any;
+
+const NOW = 1_700_000_000;
+
+const CURRENT: CurrentSubscription = {
+  id: 'sub_123',
+  status: 'active',
+  cancelAtPeriodEnd: false,
+  priceId: 'price_hobby',
+  quantity: 1,
+  currentPeriodEnd: NOW + 20 * 24 * 60 * 60,
+  unitAmount: 1000,
+  currency: 'usd',
+  interval: 'month',
+  intervalCount: 1,
+  userId: 'user-1',
+  organizationId: 'org-1',
+};
+
+describe('Subscription Lifecycle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+    mockStripe.subscriptions.retrieve.mockResolvedValue({ id: 'sub_123', schedule: null });
+    mockStripe.subscriptions.update.mockResolvedValue({ id: 'sub_123', customer: 'cus_123' });
+    mockStripe.subscriptions.cancel.mockResolvedValue({ id: 'sub_123', customer: 'cus_123' });
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isCancellationReason', () => {
+    it('should accept Stripe feedback values only', () => {
+      expect(isCancellationReason('too_expensive')).toBe(true);
+      expect(isCancellationReason('other')).toBe(true);
+      expect(isCancellationReason('bored')).toBe(false);
+      expect(isCancellationReason(null)).toBe(false);
+    });
+  });
+
+  describe('cancelSubscription', () => {
+    it('should cancel at the period end and record the survey', async () => {
+      await cancelSubscription(
+        CURRENT,
+        'period_end',
+        { reason: 'too_expensive', comment: '  Budget cuts  ' },
+        'user-1'
+      );
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        cancel_at_period_end: true,
+        cancellation_details: { feedback: 'too_expensive', comment: 'Budget cuts' },
+      });
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO subscription_cancellations'),
+        ['sub_123', 'user-1', 'org-1', 'too_expensive', 'Budget cuts', 'period_end']
+      );
+      expect(mockSync).toHaveBeenCalledWith('sub_123', 'cus_123', false, null);
+    });
+
+    it('should release a scheduled downgrade before canceling at the period end', async () => {
+      mockStripe.subscriptions.retrieve.mockResolvedValue({
+        id: 'sub_123',
+        schedule: 'sub_sched_123',
+      });
+
+      await cancelSubscription(CURRENT, 'period_end', { reason: 'unused' }, 'user-1');
+
+      expect(mockStripe.subscriptionSchedules.release).toHaveBeenCalledWith('sub_sched_123');
+    });
+
+    it('should cancel immediately', async () => {
+      await cancelSubscription(CURRENT, 'immediate', { reason: 'switched_service' }, 'user-1');
+
+      expect(mockStripe.subscriptions.cancel).toHaveBeenCalledWith('sub_123', {
+        cancellation_details: { feedback: 'switched_service', comment: '' },
+      });
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        'sub_123',
+        'user-1',
+        'org-1',
+        'switched_service',
+        null,
+        'immediate',
+      ]);
+      expect(mockSync).toHaveBeenCalledWith('sub_123', 'cus_123', false, null);
+    });
+
+    it('should require a known reason', async () => {
+      await expect(
+        cancelSubscription(CURRENT, 'immediate', { reason: 'bored' as any }, 'user-1')
+      ).rejects.toThrow('Please tell us why you are canceling.');
+      expect(mockStripe.subscriptions.cancel).not.toHaveBeenCalled();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to cancel twice at the period end', async () => {
+      await expect(
+        cancelSubscription(
+          { ...CURRENT, cancelAtPeriodEnd: true },
+          'period_end',
+          { reason: 'other' },
+          'user-1'
+        )
+      ).rejects.toThrow('Your subscription is already set to cancel.');
+    });
+  });
+
+  describe('pauseSubscription', () => {
+    it('should pause collection and write the result', async () => {
+      await pauseSubscription(CURRENT);
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        pause_collection: { behavior: 'void' },
+      });
+      expect(mockSync).toHaveBeenCalledWith('sub_123', 'cus_123', false, null);
+    });
+
+    it('should refuse paused or canceling subscriptions', async () => {
+      await expect(pauseSubscription({ ...CURRENT, status: 'paused' })).rejects.toThrow(
+        'Your subscription is already paused.'
+      );
+      await expect(pauseSubscription({ ...CURRENT, cancelAtPeriodEnd: true })).rejects.toThrow(
+        'Your subscription is already set to cancel.'
+      );
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resumeSubscription', () => {
+    it('should resume collection on paused subscriptions', async () => {
+      await resumeSubscription({ ...CURRENT, status: 'paused' });
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        pause_collection: '',
+      });
+      expect(mockSync).toHaveBeenCalledWith('sub_123', 'cus_123', false, null);
+    });
+
+    it('should undo a cancellation at the period end', async () => {
+      await resumeSubscription({ ...CURRENT, cancelAtPeriodEnd: true });
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith('sub_123', {
+        cancel_at_period_end: false,
+      });
+    });
+
+    it('should refuse active subscriptions', async () => {
+      await expect(resumeSubscription(CURRENT)).rejects.toThrow(
+        'Your subscription is already active.'
+      );
+      expect(mockSync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from '../totp';
+
+// RFC 6238 appendix B test key for HMAC-SHA1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should match the RFC 4648 test vectors', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at %i seconds', (seconds, code) => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    it('should return the step of a current code', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', { now })).toBe(getTotpStep(now));
+    });
+
+    it('should accept codes one step either side', () => {
+      const step = getTotpStep(now);
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { now })).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now })).toBe(step + 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const step = getTotpStep(now);
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), { now })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '', { now })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '81804', { now })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull();
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate 160-bit base32 secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should label the account with the issuer', () => {
+      const uri = new URL(buildOtpauthUri('JBSWY3DPEHPK3PXP', 'test@example.com', 'Acme Billing'));
+
+      expect(uri.protocol).toBe('otpauth:');
+      expect(uri.host).toBe('totp');
+      expect(decodeURIComponent(uri.pathname)).toBe('/Acme Billing:test@example.com');
+      expect(uri.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+      expect(uri.searchParams.get('issuer')).toBe('Acme Billing');
+      expect(uri.searchParams.get('digits')).toBe('6');
+      expect(uri.searchParams.get('period')).toBe('30');
+    });
+  });
+});
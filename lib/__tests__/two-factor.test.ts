@@ -0,0 +1,213 @@
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  removeTwoFactor,
+  verifyTwoFactorCode,
+  MAX_TWO_FACTOR_ATTEMPTS,
+  RECOVERY_CODE_COUNT,
+  TWO_FACTOR_LOCKOUT,
+} from '../two-factor';
+import { generateTotp, generateTotpSecret, getTotpStep } from '../totp';
+import { hashToken } from '../tokens';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('Two-Factor Authentication', () => {
+  const secret = generateTotpSecret();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isTwoFactorEnabled', () => {
+    it('should only count confirmed enrollments', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{}] } as any);
+
+      await expect(isTwoFactorEnabled('user-123')).resolves.toBe(true);
+      expect(mockQuery.mock.calls[0][0]).toContain('enabled_at IS NOT NULL');
+    });
+
+    it('should return false without an enrollment', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(isTwoFactorEnabled('user-123')).resolves.toBe(false);
+    });
+  });
+
+  describe('getTwoFactorStatus', () => {
+    it('should report the remaining recovery codes', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ enabled_at: new Date(), recovery_codes_remaining: 7 }],
+      } as any);
+
+      await expect(getTwoFactorStatus('user-123')).resolves.toEqual({
+        enabled: true,
+        recoveryCodesRemaining: 7,
+      });
+    });
+  });
+
+  describe('beginTwoFactorEnrollment', () => {
+    it('should store a pending secret and return the otpauth URI', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      const enrollment = await beginTwoFactorEnrollment({
+        id: 'user-123',
+        email: 'test@example.com',
+      });
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment.otpauthUri).toContain(`secret=${enrollment.secret}`);
+      expect(enrollment.otpauthUri).toContain('test%40example.com');
+      expect(mockQuery.mock.calls[0][0]).toContain('WHERE user_totp.enabled_at IS NULL');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-123', enrollment.secret]);
+    });
+
+    it('should refuse when two-factor authentication is already enabled', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(
+        beginTwoFactorEnrollment({ id: 'user-123', email: 'test@example.com' })
+      ).rejects.toThrow('already enabled');
+    });
+  });
+
+  describe('confirmTwoFactorEnrollment', () => {
+    it('should enable two-factor authentication and issue hashed recovery codes', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ secret }] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: RECOVERY_CODE_COUNT } as any);
+
+      const step = getTotpStep();
+      const codes = await confirmTwoFactorEnrollment('user-123', generateTotp(secret, step));
+
+      expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+      codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+
+      expect(mockQuery.mock.calls[1][0]).toContain('SET enabled_at = NOW()');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-123', step]);
+      expect(mockQuery.mock.calls[2][0]).toContain('DELETE FROM recovery_codes');
+
+      // Only hashes are stored
+      const [insertSql, insertParams] = mockQuery.mock.calls[3];
+      expect(insertSql).toContain('INSERT INTO recovery_codes');
+      expect(insertParams![1]).toEqual(codes.map((code) => hashToken(code.replace('-', ''))));
+    });
+
+    it('should reject a wrong code', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ secret }] } as any);
+
+      await expect(confirmTwoFactorEnrollment('user-123', '000000')).rejects.toThrow(
+        'Invalid authentication code'
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail without a pending enrollment', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(confirmTwoFactorEnrollment('user-123', '123456')).rejects.toThrow(
+        'No two-factor setup is in progress'
+      );
+    });
+  });
+
+  describe('verifyTwoFactorCode', () => {
+    function mockEnrolled(overrides: Record<string, unknown> = {}) {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ secret, last_used_step: null, locked: false, ...overrides }],
+      } as any);
+    }
+
+    it('should accept a current authenticator code once', async () => {
+      mockEnrolled();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      const step = getTotpStep();
+      await expect(verifyTwoFactorCode('user-123', generateTotp(secret, step))).resolves.toBe(
+        true
+      );
+
+      expect(mockQuery.mock.calls[1][0]).toContain('last_used_step < $2');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-123', step]);
+    });
+
+    it('should refuse a code whose time step was already used', async () => {
+      mockEnrolled({ last_used_step: getTotpStep() });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(verifyTwoFactorCode('user-123', generateTotp(secret))).resolves.toBe(false);
+
+      expect(mockQuery.mock.calls[2][0]).toContain('failed_attempts');
+    });
+
+    it('should use up a recovery code however it is typed', async () => {
+      mockEnrolled();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 'code-1' }] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(verifyTwoFactorCode('user-123', ' ABCDE-fghij ')).resolves.toBe(true);
+
+      expect(mockQuery.mock.calls[1][0]).toContain('UPDATE recovery_codes SET used_at = NOW()');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user-123', hashToken('abcdefghij')]);
+    });
+
+    it('should count wrong codes toward the lockout', async () => {
+      mockEnrolled();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      await expect(verifyTwoFactorCode('user-123', 'wrong-code')).resolves.toBe(false);
+
+      expect(mockQuery.mock.calls[2][0]).toContain('locked_until');
+      expect(mockQuery.mock.calls[2][1]).toEqual([
+        'user-123',
+        MAX_TWO_FACTOR_ATTEMPTS,
+        TWO_FACTOR_LOCKOUT,
+      ]);
+    });
+
+    it('should refuse even correct codes while locked', async () => {
+      mockEnrolled({ locked: true });
+
+      await expect(verifyTwoFactorCode('user-123', generateTotp(secret))).rejects.toThrow(
+        'Too many incorrect codes'
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return false when two-factor authentication is not enabled', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(verifyTwoFactorCode('user-123', '123456')).resolves.toBe(false);
+    });
+  });
+
+  describe('removeTwoFactor', () => {
+    it('should delete the secret and recovery codes', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      await removeTwoFactor('user-123');
+
+      expect(mockQuery.mock.calls.map(([sql]) => sql)).toEqual([
+        'DELETE FROM recovery_codes WHERE user_id = $1',
+        'DELETE FROM user_totp WHERE user_id = $1',
+      ]);
+    });
+  });
+});
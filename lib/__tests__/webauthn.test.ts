@@ -0,0 +1,343 @@
+import { createHash } from 'crypto';
+import {
+  deletePasskey,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  listPasskeys,
+  verifyAuthentication,
+  verifyRegistration,
+} from '../webauthn';
+import { signJwt, verifyJwt } from '../jwt-keys';
+import * as zerodb from '../zerodb';
+import {
+  createSoftwareAuthenticator,
+  type SoftwareAuthenticator,
+} from '@/__tests__/mocks/software-authenticator';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+
+describe('WebAuthn', () => {
+  const user = { id: 'user-123', email: 'test@example.com', full_name: 'Test User' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  /**
+   * Answer the query that marks a challenge used
+   */
+  function mockChallengeClaimed(claimed = true) {
+    mockQuery.mockResolvedValueOnce({ rows: [], rowCount: claimed ? 1 : 0 } as any);
+  }
+
+  /**
+   * Register a passkey and return the row the server stored
+   */
+  async function register(authenticator: SoftwareAuthenticator) {
+    mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+    const { options, challengeToken } = await generateRegistrationOptions(user);
+    const credential = authenticator.create(options);
+
+    mockChallengeClaimed();
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ id: 'passkey-1', name: 'Laptop', created_at: '2026-01-01', last_used_at: null }],
+    } as any);
+    await verifyRegistration(user.id, credential, challengeToken, 'Laptop');
+
+    const params = mockQuery.mock.calls[mockQuery.mock.calls.length - 1][1]!;
+    return {
+      id: 'passkey-1',
+      user_id: params[0],
+      credential_id: params[1],
+      public_key: params[2],
+      algorithm: params[3],
+      sign_count: String(params[4]),
+    };
+  }
+
+  /**
+   * Sign in with a passkey whose stored row the lookup returns
+   */
+  async function authenticate(
+    authenticator: SoftwareAuthenticator,
+    stored: Record<string, unknown>,
+    overrides = {}
+  ) {
+    const { options, challengeToken } = generateAuthenticationOptions();
+    const credential = authenticator.get(options, overrides);
+
+    mockChallengeClaimed();
+    mockQuery
+      .mockResolvedValueOnce({ rows: [stored] } as any)
+      .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+    return verifyAuthentication(credential, challengeToken);
+  }
+
+  describe('generateRegistrationOptions', () => {
+    it('should bind the options to this site and require a discoverable, verified passkey', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ credential_id: 'existing-id', transports: ['usb'] }],
+      } as any);
+
+      const { options, challengeToken } = await generateRegistrationOptions(user);
+
+      expect(options).toMatchObject({
+        rp: { id: 'localhost' },
+        user: {
+          id: Buffer.from('user-123').toString('base64url'),
+          name: 'test@example.com',
+          displayName: 'Test User',
+        },
+        authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+        excludeCredentials: [{ type: 'public-key', id: 'existing-id', transports: ['usb'] }],
+      });
+      expect(verifyJwt<any>(challengeToken)).toMatchObject({
+        purpose: 'webauthn_registration',
+        challenge: options.challenge,
+        sub: 'user-123',
+      });
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    it.each([
+      ['ES256', -7 as const],
+      ['RS256', -257 as const],
+    ])('should store the public key of an %s passkey', async (_name, algorithm) => {
+      const authenticator = createSoftwareAuthenticator({ algorithm });
+
+      const stored = await register(authenticator);
+
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('INSERT INTO webauthn_credentials');
+      expect(stored.algorithm).toBe(algorithm);
+      expect(stored.sign_count).toBe('0');
+      expect(params![5]).toEqual(['internal']);
+      expect(params![6]).toBe('Laptop');
+    });
+
+    it('should refuse a challenge issued to another user', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const { options, challengeToken } = await generateRegistrationOptions(user);
+      const credential = createSoftwareAuthenticator().create(options);
+      mockChallengeClaimed();
+
+      await expect(verifyRegistration('user-456', credential, challengeToken)).rejects.toThrow(
+        'took too long'
+      );
+    });
+
+    it('should refuse a missing or sign-in challenge', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const { options } = await generateRegistrationOptions(user);
+      const credential = createSoftwareAuthenticator().create(options);
+
+      await expect(verifyRegistration(user.id, credential, undefined)).rejects.toThrow(
+        'took too long'
+      );
+      await expect(
+        verifyRegistration(user.id, credential, generateAuthenticationOptions().challengeToken)
+      ).rejects.toThrow('took too long');
+    });
+
+    it('should refuse a response for a different challenge', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+      const first = await generateRegistrationOptions(user);
+      const second = await generateRegistrationOptions(user);
+      const credential = createSoftwareAuthenticator().create(first.options);
+      mockChallengeClaimed();
+
+      await expect(
+        verifyRegistration(user.id, credential, second.challengeToken)
+      ).rejects.toThrow('challenge does not match');
+    });
+
+    it('should refuse responses from another origin or relying party', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const { options, challengeToken } = await generateRegistrationOptions(user);
+      const authenticator = createSoftwareAuthenticator();
+      mockChallengeClaimed();
+      mockChallengeClaimed();
+
+      await expect(
+        verifyRegistration(
+          user.id,
+          authenticator.create(options, { origin: 'https://evil.example' }),
+          challengeToken
+        )
+      ).rejects.toThrow('origin does not match');
+      await expect(
+        verifyRegistration(
+          user.id,
+          authenticator.create(options, { rpId: 'evil.example' }),
+          challengeToken
+        )
+      ).rejects.toThrow('another site');
+    });
+
+    it('should require user verification', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const { options, challengeToken } = await generateRegistrationOptions(user);
+      const credential = createSoftwareAuthenticator().create(options, { flags: 0x01 });
+      mockChallengeClaimed();
+
+      await expect(verifyRegistration(user.id, credential, challengeToken)).rejects.toThrow(
+        'did not verify the user'
+      );
+    });
+
+    it('should refuse a passkey that is already registered', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const { options, challengeToken } = await generateRegistrationOptions(user);
+      const credential = createSoftwareAuthenticator().create(options);
+      mockChallengeClaimed();
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(verifyRegistration(user.id, credential, challengeToken)).rejects.toThrow(
+        'already registered'
+      );
+    });
+
+    it('should mark the challenge used and refuse it the second time', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const { options, challengeToken } = await generateRegistrationOptions(user);
+      const credential = createSoftwareAuthenticator().create(options);
+      mockChallengeClaimed(false);
+
+      await expect(verifyRegistration(user.id, credential, challengeToken)).rejects.toThrow(
+        'took too long'
+      );
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('INSERT INTO webauthn_challenges');
+      expect(sql).toContain('ON CONFLICT (challenge_hash) DO NOTHING');
+      expect(params).toEqual([
+        createHash('sha256').update(String(options.challenge)).digest('hex'),
+        verifyJwt<{ exp: number }>(challengeToken).exp,
+      ]);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('verifyAuthentication', () => {
+    it.each([
+      ['ES256', -7 as const],
+      ['RS256', -257 as const],
+    ])('should sign in with an %s passkey and advance its counter', async (_name, algorithm) => {
+      const authenticator = createSoftwareAuthenticator({ algorithm });
+      const stored = await register(authenticator);
+      mockQuery.mockClear();
+
+      await expect(authenticate(authenticator, stored)).resolves.toBe('user-123');
+
+      expect(mockQuery.mock.calls[0][0]).toContain('INSERT INTO webauthn_challenges');
+      expect(mockQuery.mock.calls[1][1]).toEqual([stored.credential_id]);
+      expect(mockQuery.mock.calls[2][0]).toContain('SET sign_count = $2, last_used_at = NOW()');
+      expect(mockQuery.mock.calls[2][1]).toEqual(['passkey-1', 1]);
+    });
+
+    it('should allow synced passkeys that never count', async () => {
+      const authenticator = createSoftwareAuthenticator({ counter: false });
+      const stored = await register(authenticator);
+
+      await expect(authenticate(authenticator, stored)).resolves.toBe('user-123');
+      await expect(authenticate(authenticator, stored)).resolves.toBe('user-123');
+    });
+
+    it('should refuse a counter that did not increase', async () => {
+      const authenticator = createSoftwareAuthenticator();
+      const stored = await register(authenticator);
+
+      await expect(
+        authenticate(authenticator, { ...stored, sign_count: '5' }, { signCount: 5 })
+      ).rejects.toThrow('sign counter did not increase');
+    });
+
+    it('should refuse a signature from another key', async () => {
+      const authenticator = createSoftwareAuthenticator();
+      const stored = await register(authenticator);
+      const other = await register(createSoftwareAuthenticator());
+
+      await expect(
+        authenticate(authenticator, { ...stored, public_key: other.public_key })
+      ).rejects.toThrow('signature is invalid');
+    });
+
+    it('should refuse a passkey that belongs to another user', async () => {
+      const authenticator = createSoftwareAuthenticator();
+      const stored = await register(authenticator);
+
+      await expect(
+        authenticate(authenticator, { ...stored, user_id: 'user-456' })
+      ).rejects.toThrow('user does not match');
+    });
+
+    it('should refuse an unknown passkey', async () => {
+      const authenticator = createSoftwareAuthenticator();
+      await register(authenticator);
+      const { options, challengeToken } = generateAuthenticationOptions();
+      mockChallengeClaimed();
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(
+        verifyAuthentication(authenticator.get(options), challengeToken)
+      ).rejects.toThrow('not registered');
+    });
+
+    it('should refuse a challenge that was already used', async () => {
+      const authenticator = createSoftwareAuthenticator();
+      await register(authenticator);
+      const { options, challengeToken } = generateAuthenticationOptions();
+      mockQuery.mockClear();
+      mockChallengeClaimed(false);
+
+      await expect(
+        verifyAuthentication(authenticator.get(options), challengeToken)
+      ).rejects.toThrow('took too long');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse a registration challenge', async () => {
+      const authenticator = createSoftwareAuthenticator();
+      await register(authenticator);
+      const { options } = generateAuthenticationOptions();
+      const challengeToken = signJwt(
+        { purpose: 'webauthn_registration', challenge: options.challenge, sub: user.id },
+        300
+      );
+
+      await expect(
+        verifyAuthentication(authenticator.get(options), challengeToken)
+      ).rejects.toThrow('took too long');
+    });
+  });
+
+  describe('listPasskeys', () => {
+    it("should list only the user's passkeys", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'passkey-1', name: 'Laptop', created_at: '2026-01-01', last_used_at: null }],
+      } as any);
+
+      await expect(listPasskeys('user-123')).resolves.toEqual([
+        { id: 'passkey-1', name: 'Laptop', createdAt: '2026-01-01', lastUsedAt: null },
+      ]);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user-123']);
+    });
+  });
+
+  describe('deletePasskey', () => {
+    it('should only delete passkeys the user owns', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      await expect(deletePasskey('user-123', 'passkey-9')).resolves.toBe(false);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['passkey-9', 'user-123']);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import Stripe from 'stripe';
+import {
+  claimWebhookEvent,
+  processWebhookEvent,
+  markWebhookEventFailed,
+  listFailedWebhookEvents,
+  getWebhookEvent,
+} from '../webhook-events';
+import * as zerodb from '../zerodb';
+
+// Mock the zerodb module
+jest.mock('../zerodb');
+
+const mockQuery = zerodb.query as jest.MockedFunction<typeof zerodb.query>;
+const mockTransaction = zerodb.transaction as jest.MockedFunction<
+  typeof zerodb.transaction
+>;
+
+describe('Webhook Event Ledger', () => {
+  const event = {
+    id: 'evt_123',
+    object: 'event',
+    type: 'product.created',
+    created: 1234567890,
+    data: { object: { id: 'prod_123' } },
+  } as unknown as Stripe.Event;
+
+  const mockClient = { query: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.query.mockReset();
+    mockTransaction.mockImplementation(async (callback) =>
+      callback(mockClient as any)
+    );
+  });
+
+  describe('claimWebhookEvent', () => {
+    it('should record the event and claim it', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'evt_123' }] } as any);
+
+      await expect(claimWebhookEvent(event)).resolves.toBe(true);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO webhook_events');
+      expect(sql).toContain('attempts = webhook_events.attempts + 1');
+      expect(sql).toContain("WHERE webhook_events.status <> 'processed'");
+      expect(params).toEqual([
+        'evt_123',
+        'product.created',
+        JSON.stringify(event),
+      ]);
+    });
+
+    it('should not claim an event that was already processed', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(claimWebhookEvent(event)).resolves.toBe(false);
+    });
+  });
+
+  describe('processWebhookEvent', () => {
+    it('should run the handler and mark the event processed in one transaction', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ status: 'processing' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'prod_123' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const handler = jest.fn(async (execute: zerodb.QueryExecutor) => {
+        await execute('INSERT INTO products (id) VALUES ($1)', ['prod_123']);
+      });
+
+      await expect(processWebhookEvent(event, handler)).resolves.toBe(true);
+
+      expect(mockTransaction).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('FOR UPDATE'),
+        ['evt_123']
+      );
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        2,
+        'INSERT INTO products (id) VALUES ($1)',
+        ['prod_123']
+      );
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        3,
+        expect.stringContaining("status = 'processed'"),
+        ['evt_123']
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should skip the handler when a concurrent delivery already processed the event', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ status: 'processed' }] });
+      const handler = jest.fn();
+
+      await expect(processWebhookEvent(event, handler)).resolves.toBe(false);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark the event failed and rethrow when the handler fails', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ status: 'processing' }] });
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+      const handler = jest.fn().mockRejectedValue(new Error('Customer not found'));
+
+      await expect(processWebhookEvent(event, handler)).rejects.toThrow(
+        'Customer not found'
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining("status = 'failed'"),
+        ['evt_123', 'Customer not found']
+      );
+    });
+  });
+
+  describe('markWebhookEventFailed', () => {
+    it('should store non-Error values as strings', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await markWebhookEventFailed('evt_123', 'timeout');
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE webhook_events'),
+        ['evt_123', 'timeout']
+      );
+    });
+  });
+
+  describe('listFailedWebhookEvents', () => {
+    it('should list failed events without filters', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'evt_123' }] } as any);
+
+      const events = await listFailedWebhookEvents();
+
+      expect(events).toEqual([{ id: 'evt_123' }]);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("WHERE status = 'failed'");
+      expect(params).toEqual([null, null, null]);
+    });
+
+    it('should filter by type and date range', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await listFailedWebhookEvents({
+        type: 'customer.subscription.updated',
+        from: new Date('2024-01-01T00:00:00Z'),
+        to: new Date('2024-01-31T00:00:00Z'),
+      });
+
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        'customer.subscription.updated',
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-31T00:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('getWebhookEvent', () => {
+    it('should return the ledger entry', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'evt_123', payload: event }],
+      } as any);
+
+      await expect(getWebhookEvent('evt_123')).resolves.toEqual({
+        id: 'evt_123',
+        payload: event,
+      });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['evt_123']);
+    });
+
+    it('should return null for unknown events', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(getWebhookEvent('evt_missing')).resolves.toBeNull();
+    });
+  });
+});
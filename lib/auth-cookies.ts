@@ -0,0 +1,85 @@
+import type { NextResponse } from 'next/server';
+
+/**
+ * Auth cookie names and lifetimes
+ * Kept free of database and Node-only imports so middleware can use it.
+ */
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/** Access token lifetime in seconds (15 minutes) */
+export const ACCESS_TOKEN_EXPIRY = 15 * 60;
+
+/** Refresh token lifetime in seconds (30 days) */
+export const REFRESH_TOKEN_EXPIRY = 30 * 24 * 60 * 60;
+
+/** Holds a password reset token between the emailed link and the new-password form */
+export const PASSWORD_RESET_COOKIE = 'password_reset_token';
+
+/** Holds a magic link token between the emailed link and the confirmation page */
+export const MAGIC_LINK_COOKIE = 'magic_link_token';
+
+/** Holds a two-factor challenge between the password and the code steps of sign-in */
+export const TWO_FACTOR_CHALLENGE_COOKIE = 'two_factor_challenge';
+
+/** Time allowed for entering the second-step code, in seconds (5 minutes) */
+export const TWO_FACTOR_CHALLENGE_EXPIRY = 5 * 60;
+
+/** Response cookies, or the cookies() store inside a server action */
+type ResponseCookies = Pick<NextResponse['cookies'], 'set' | 'delete'>;
+
+export interface AuthTokens {
+  access_token: string;
+  refresh_token: string;
+}
+
+/**
+ * Set the access and refresh token cookies
+ * @param cookies - Response cookies to write to
+ * @param tokens - Tokens from an AuthResponse
+ */
+export function setAuthCookies(cookies: ResponseCookies, tokens: AuthTokens): void {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+  };
+
+  cookies.set(ACCESS_TOKEN_COOKIE, tokens.access_token, {
+    ...options,
+    maxAge: ACCESS_TOKEN_EXPIRY,
+  });
+  cookies.set(REFRESH_TOKEN_COOKIE, tokens.refresh_token, {
+    ...options,
+    maxAge: REFRESH_TOKEN_EXPIRY,
+  });
+}
+
+/**
+ * Set the two-factor challenge cookie that the second sign-in step reads
+ * @param cookies - Response cookies to write to
+ * @param challengeToken - Token from a TwoFactorChallenge
+ */
+export function setTwoFactorChallengeCookie(
+  cookies: ResponseCookies,
+  challengeToken: string,
+): void {
+  cookies.set(TWO_FACTOR_CHALLENGE_COOKIE, challengeToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: TWO_FACTOR_CHALLENGE_EXPIRY,
+  });
+}
+
+/**
+ * Remove the access and refresh token cookies
+ * @param cookies - Response cookies to write to
+ */
+export function clearAuthCookies(cookies: ResponseCookies): void {
+  cookies.delete(ACCESS_TOKEN_COOKIE);
+  cookies.delete(REFRESH_TOKEN_COOKIE);
+}
@@ -1,12 +1,25 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { query } from './zerodb';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const TOKEN_EXPIRY = '7d'; // 7 days
+import {
+  ACCESS_TOKEN_EXPIRY,
+  REFRESH_TOKEN_EXPIRY,
+  TWO_FACTOR_CHALLENGE_EXPIRY,
+} from './auth-cookies';
+import { sendExistingAccountEmail, sendVerificationEmail } from './email-verification';
+import { consumeMagicLink, consumeSignInCode } from './passwordless';
+import type { OAuthProfile } from './oauth';
+import { signJwt, verifyJwt } from './jwt-keys';
+import { deriveToken, generateToken, hashToken } from './tokens';
+import { isTwoFactorEnabled, removeTwoFactor, verifyTwoFactorCode } from './two-factor';
+import { claimSignInAttempt, clearFailedSignIns, recordFailedSignIn } from './sign-in-throttle';
+import { verifyAuthentication, type AuthenticationCredentialJSON } from './webauthn';
+import { assertPasswordAllowed } from './password-policy';
+import { isSessionActive } from './sessions';
 
 export interface AuthResponse {
   access_token: string;
+  refresh_token: string;
   token_type: string;
   expires_in: number;
   user: {
@@ -22,6 +35,37 @@ export interface User {
   full_name?: string;
 }
 
+/**
+ * First sign-in step passed for a user with two-factor authentication
+ * The challenge token is exchanged, with a code, by completeTwoFactorSignIn.
+ */
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+}
+
+export type SignInResult = AuthResponse | TwoFactorChallenge;
+
+/**
+ * bcrypt hash of a throwaway password, compared against when an account has
+ * no password so every failed sign-in takes as long as a real one
+ */
+const DUMMY_PASSWORD_HASH = '$2b$10$XwtbkVuATIR5VxKEURyNB.hSc7GJrdaUBoyr0Tjokeb3BcbTk9TL6';
+
+/**
+ * Seconds after rotation in which a refresh token still yields its successor,
+ * so requests that refresh at the same moment do not look like reuse
+ */
+const REFRESH_TOKEN_REUSE_GRACE = 30;
+
+/**
+ * Device details recorded on a new session
+ */
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
 /**
  * Validate email format using regex
  */
@@ -42,129 +86,484 @@ function isValidEmail(email: string): boolean {
   return true;
 }
 
+/**
+ * Issue a new refresh token in a session
+ * Issuing the same token twice is a no-op, so concurrent refreshes can both
+ * store the successor they derived.
+ * @param sessionId - Session the token belongs to
+ * @param next - Token to issue; a random one when omitted
+ * @returns The opaque token; only its hash is stored
+ */
+async function issueRefreshToken(
+  sessionId: string,
+  next: { token: string; hash: string } = generateToken()
+): Promise<string> {
+  const { token, hash } = next;
+
+  await query(
+    `INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(secs => $3))
+     ON CONFLICT (token_hash) DO NOTHING`,
+    [sessionId, hash, REFRESH_TOKEN_EXPIRY]
+  );
+
+  return token;
+}
+
+/**
+ * Build an AuthResponse with a short-lived access token
+ */
+function buildAuthResponse(user: User, sessionId: string, refreshToken: string): AuthResponse {
+  const accessToken = signJwt(
+    { userId: user.id, email: user.email, sid: sessionId },
+    ACCESS_TOKEN_EXPIRY
+  );
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_EXPIRY,
+    user: {
+      id: user.id,
+      email: user.email,
+      full_name: user.full_name,
+    },
+  };
+}
+
+/**
+ * Start a session for a user and issue its first refresh token
+ */
+async function createSession(user: User, context: SessionContext): Promise<AuthResponse> {
+  const result = await query(
+    `INSERT INTO sessions (user_id, user_agent, ip_address)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [user.id, context.userAgent ?? null, context.ipAddress ?? null]
+  );
+  const sessionId = result.rows[0].id;
+
+  const refreshToken = await issueRefreshToken(sessionId);
+
+  return buildAuthResponse(user, sessionId, refreshToken);
+}
+
+/**
+ * Start a session, or ask for a second step if the user has two-factor
+ * authentication enabled
+ */
+async function startSignIn(user: User, context: SessionContext): Promise<SignInResult> {
+  if (!(await isTwoFactorEnabled(user.id))) {
+    return createSession(user, context);
+  }
+
+  return {
+    two_factor_required: true,
+    challenge_token: signJwt(
+      { purpose: 'two_factor', sub: user.id },
+      TWO_FACTOR_CHALLENGE_EXPIRY
+    ),
+  };
+}
+
+/**
+ * Check whether a sign-in result still needs a two-factor code
+ */
+export function requiresTwoFactor(result: SignInResult): result is TwoFactorChallenge {
+  return 'two_factor_required' in result;
+}
+
+/**
+ * Revoke a session, which invalidates every refresh token issued to it
+ * @param sessionId - Session to revoke
+ * @param reason - Recorded in sessions.revoked_reason
+ */
+async function revokeSession(sessionId: string, reason: string): Promise<void> {
+  await query(
+    `UPDATE sessions
+     SET revoked_at = NOW(), revoked_reason = $2
+     WHERE id = $1 AND revoked_at IS NULL`,
+    [sessionId, reason]
+  );
+}
+
 /**
  * Sign up a new user with email and password
+ * The outcome is the same whether or not the email already has an account,
+ * so sign-up cannot be used to find out which emails are registered: a new
+ * account gets a verification link, an existing one a notice pointing to
+ * sign-in and password reset. Either way the user signs in afterwards.
  * @param email - User's email address
  * @param password - User's password (will be hashed)
  * @param fullName - Optional full name
- * @returns AuthResponse with access token and user data
- * @throws Error if validation fails or user already exists
+ * @throws PasswordPolicyError if the password breaks the password policy
+ * @throws Error if the email is invalid
  */
 export async function signUp(
   email: string,
   password: string,
   fullName?: string
-): Promise<AuthResponse> {
+): Promise<void> {
   // Validate email
   if (!isValidEmail(email)) {
     throw new Error('Invalid email format');
   }
 
-  // Validate password (minimum 6 characters)
-  if (!password || password.length < 6) {
-    throw new Error('Password must be at least 6 characters long');
-  }
-
-  // Check if user exists
-  const existing = await query(
-    'SELECT id FROM users WHERE email = $1',
-    [email]
-  );
-
-  if (existing.rows.length > 0) {
-    throw new Error('User already exists');
-  }
+  // Validate password against the policy
+  await assertPasswordAllowed(password, [email, fullName]);
 
-  // Hash password with bcrypt (10 rounds)
+  // Hash password with bcrypt (10 rounds), even for taken emails so both
+  // outcomes take the same time
   const passwordHash = await bcrypt.hash(password, 10);
 
-  // Create user
+  // Create user unless the email is taken
   const result = await query(
     `INSERT INTO users (email, full_name, password_hash)
      VALUES ($1, $2, $3)
+     ON CONFLICT (email) DO NOTHING
      RETURNING id, email, full_name`,
     [email, fullName, passwordHash]
   );
 
-  const user = result.rows[0];
-
-  // Generate JWT token
-  const token = jwt.sign(
-    { userId: user.id, email: user.email },
-    JWT_SECRET,
-    { expiresIn: TOKEN_EXPIRY }
-  );
-
-  return {
-    access_token: token,
-    token_type: 'Bearer',
-    expires_in: 7 * 24 * 60 * 60, // 7 days in seconds
-    user: {
-      id: user.id,
-      email: user.email,
-      full_name: user.full_name,
-    },
-  };
+  // A mail outage should not block sign-up; the link can be resent
+  try {
+    if (result.rows.length === 0) {
+      await sendExistingAccountEmail(email);
+    } else {
+      await sendVerificationEmail(result.rows[0]);
+    }
+  } catch (error) {
+    console.error('Error sending sign-up email:', error);
+  }
 }
 
 /**
  * Sign in an existing user with email and password
+ * Failures are throttled per account and per IP, with the same error for
+ * unknown emails as for wrong passwords.
  * @param email - User's email address
  * @param password - User's password
- * @returns AuthResponse with access token and user data
- * @throws Error if credentials are invalid
+ * @param context - Device details recorded on the new session
+ * @returns AuthResponse with access token and user data, or a
+ *   TwoFactorChallenge if the user has two-factor authentication enabled
+ * @throws Error if credentials are invalid or too many attempts failed
  */
 export async function signIn(
   email: string,
-  password: string
-): Promise<AuthResponse> {
+  password: string,
+  context: SessionContext = {}
+): Promise<SignInResult> {
   // Validate inputs
   if (!email || !password) {
     throw new Error('Invalid credentials');
   }
 
+  const attempt = await claimSignInAttempt(email, context.ipAddress);
+
   const result = await query(
     'SELECT id, email, full_name, password_hash FROM users WHERE email = $1',
     [email]
   );
 
+  // Unknown emails and accounts created through a provider have no password
+  // to check, but still pay for a bcrypt comparison
+  const user = result.rows[0];
+  const validPassword = await bcrypt.compare(
+    password,
+    user?.password_hash || DUMMY_PASSWORD_HASH
+  );
+
+  if (!user?.password_hash || !validPassword) {
+    await recordFailedSignIn(attempt);
+    throw new Error('Invalid credentials');
+  }
+
+  await clearFailedSignIns(attempt);
+
+  return startSignIn(user, context);
+}
+
+/**
+ * Start a session for the owner of an email that just proved access to it
+ * Following the emailed link or code also verifies the address.
+ */
+async function createSessionForEmail(
+  email: string,
+  context: SessionContext
+): Promise<SignInResult> {
+  const result = await query(
+    `UPDATE users
+     SET email_verified_at = COALESCE(email_verified_at, NOW())
+     WHERE email = $1
+     RETURNING id, email, full_name`,
+    [email]
+  );
+
   if (result.rows.length === 0) {
     throw new Error('Invalid credentials');
   }
 
-  const user = result.rows[0];
+  return startSignIn(result.rows[0], context);
+}
+
+/**
+ * Sign in with an emailed magic link
+ * @param token - Token from the link
+ * @param context - Device details recorded on the new session
+ * @returns AuthResponse with access token and user data, or a TwoFactorChallenge
+ * @throws Error if the link is invalid, used or expired
+ */
+export async function signInWithMagicLink(
+  token: string,
+  context: SessionContext = {}
+): Promise<SignInResult> {
+  const email = await consumeMagicLink(token);
+  return createSessionForEmail(email, context);
+}
 
-  // Verify password using bcrypt
-  const validPassword = await bcrypt.compare(password, user.password_hash);
+/**
+ * Sign in with an emailed 6-digit code
+ * @param email - Address the code was sent to
+ * @param code - Code from the email
+ * @param context - Device details recorded on the new session
+ * @returns AuthResponse with access token and user data, or a TwoFactorChallenge
+ * @throws Error if the code is wrong, used or expired
+ */
+export async function signInWithCode(
+  email: string,
+  code: string,
+  context: SessionContext = {}
+): Promise<SignInResult> {
+  if (!email || !/^\d{6}$/.test(code)) {
+    throw new Error('Invalid or expired sign-in code');
+  }
+
+  await consumeSignInCode(email, code);
+  return createSessionForEmail(email, context);
+}
+
+/**
+ * Sign in with a profile from an OAuth or OIDC provider
+ * A known identity signs in to its linked user. A new identity is linked to
+ * the user with the same email, or a new user is created, but only when the
+ * provider has verified the email. If that user never verified the address,
+ * whoever set its password did not prove they own it, so the password is
+ * removed and existing sessions are signed out before linking.
+ * @param profile - Profile returned by completeOAuthFlow
+ * @param context - Device details recorded on the new session
+ * @returns AuthResponse with access token and user data, or a TwoFactorChallenge
+ * @throws Error if a new identity has no verified email
+ */
+export async function signInWithOAuthProfile(
+  profile: OAuthProfile,
+  context: SessionContext = {}
+): Promise<SignInResult> {
+  const linked = await query(
+    `SELECT u.id, u.email, u.full_name
+     FROM user_identities i
+     JOIN users u ON u.id = i.user_id
+     WHERE i.provider = $1 AND i.provider_user_id = $2`,
+    [profile.provider, profile.subject]
+  );
+
+  if (linked.rows.length > 0) {
+    return startSignIn(linked.rows[0], context);
+  }
+
+  if (!profile.email || !profile.emailVerified) {
+    throw new Error('Your account at the provider has no verified email address');
+  }
+
+  const existing = await query(
+    'SELECT id, email, full_name, email_verified_at FROM users WHERE email = $1',
+    [profile.email]
+  );
+
+  let user: User;
+  if (existing.rows.length > 0) {
+    const { email_verified_at, ...found } = existing.rows[0];
+    user = found;
+
+    if (!email_verified_at) {
+      await query(
+        `UPDATE users
+         SET email_verified_at = NOW(), password_hash = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [user.id]
+      );
+      await query(
+        `UPDATE sessions
+         SET revoked_at = NOW(), revoked_reason = 'account_linked'
+         WHERE user_id = $1 AND revoked_at IS NULL`,
+        [user.id]
+      );
+    }
+  } else {
+    const created = await query(
+      `INSERT INTO users (email, full_name, avatar_url, email_verified_at)
+       VALUES ($1, $2, $3, NOW())
+       RETURNING id, email, full_name`,
+      [profile.email, profile.name, profile.avatarUrl]
+    );
+    user = created.rows[0];
+  }
+
+  await query(
+    `INSERT INTO user_identities (user_id, provider, provider_user_id, email)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (provider, provider_user_id) DO NOTHING`,
+    [user.id, profile.provider, profile.subject, profile.email]
+  );
+
+  return startSignIn(user, context);
+}
 
-  if (!validPassword) {
+/**
+ * Sign in with a passkey
+ * Passkeys verify the user on the device, so no two-factor code is asked for.
+ * @param credential - Response from navigator.credentials.get()
+ * @param challengeToken - Value of the WEBAUTHN_CHALLENGE_COOKIE
+ * @param context - Device details recorded on the new session
+ * @returns AuthResponse with access token and user data
+ * @throws Error if the passkey is unknown or its response does not verify
+ */
+export async function signInWithPasskey(
+  credential: AuthenticationCredentialJSON,
+  challengeToken: string | undefined,
+  context: SessionContext = {}
+): Promise<AuthResponse> {
+  const userId = await verifyAuthentication(credential, challengeToken);
+
+  const result = await query(
+    'SELECT id, email, full_name FROM users WHERE id = $1',
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
     throw new Error('Invalid credentials');
   }
 
-  // Generate JWT token
-  const token = jwt.sign(
-    { userId: user.id, email: user.email },
-    JWT_SECRET,
-    { expiresIn: TOKEN_EXPIRY }
+  return createSession(result.rows[0], context);
+}
+
+/**
+ * Finish signing in with a code from the authenticator app or a recovery code
+ * @param challengeToken - Token from the TwoFactorChallenge
+ * @param code - 6-digit authenticator code or recovery code
+ * @param context - Device details recorded on the new session
+ * @returns AuthResponse with access token and user data
+ * @throws Error if the challenge expired, the code is wrong or the second step is locked
+ */
+export async function completeTwoFactorSignIn(
+  challengeToken: string,
+  code: string,
+  context: SessionContext = {}
+): Promise<AuthResponse> {
+  let userId: string | undefined;
+  try {
+    const decoded = verifyJwt<{ purpose?: string; sub?: string }>(challengeToken);
+    userId = decoded.purpose === 'two_factor' ? decoded.sub : undefined;
+  } catch (error) {
+    userId = undefined;
+  }
+
+  if (!userId) {
+    throw new Error('Sign in took too long. Please try again.');
+  }
+
+  const result = await query(
+    'SELECT id, email, full_name FROM users WHERE id = $1',
+    [userId]
   );
 
-  return {
-    access_token: token,
-    token_type: 'Bearer',
-    expires_in: 7 * 24 * 60 * 60, // 7 days in seconds
-    user: {
-      id: user.id,
-      email: user.email,
-      full_name: user.full_name,
-    },
-  };
+  if (result.rows.length === 0) {
+    throw new Error('Invalid credentials');
+  }
+
+  if (!(await verifyTwoFactorCode(userId, code))) {
+    throw new Error('Invalid authentication code');
+  }
+
+  return createSession(result.rows[0], context);
+}
+
+/**
+ * Turn off two-factor authentication after re-authenticating
+ * Accounts with a password must enter it along with a current code, so a
+ * stolen session alone cannot remove the second factor.
+ * @param userId - User ID
+ * @param password - Current password; ignored for accounts without one
+ * @param code - 6-digit authenticator code or recovery code
+ * @throws Error if the password or code is wrong
+ */
+export async function disableTwoFactor(
+  userId: string,
+  password: string,
+  code: string
+): Promise<void> {
+  const result = await query(
+    'SELECT password_hash FROM users WHERE id = $1',
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('User not found');
+  }
+
+  const passwordHash = result.rows[0].password_hash;
+  if (passwordHash && !(password && (await bcrypt.compare(password, passwordHash)))) {
+    throw new Error('Incorrect password');
+  }
+
+  if (!(await verifyTwoFactorCode(userId, code))) {
+    throw new Error('Invalid authentication code');
+  }
+
+  await removeTwoFactor(userId);
+}
+
+/**
+ * Re-authenticate the signed-in user before adding a way to sign in
+ * Accounts with a password must enter it, and accounts with two-factor
+ * authentication a current code, so a stolen session alone cannot add a
+ * passkey that skips the second factor.
+ * @param userId - User ID
+ * @param password - Current password; ignored for accounts without one
+ * @param code - 6-digit authenticator code or recovery code; ignored
+ * without two-factor authentication
+ * @throws Error if the password or code is wrong
+ */
+export async function reauthenticate(
+  userId: string,
+  password: string,
+  code: string
+): Promise<void> {
+  const result = await query(
+    'SELECT password_hash FROM users WHERE id = $1',
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('User not found');
+  }
+
+  const passwordHash = result.rows[0].password_hash;
+  if (passwordHash && !(password && (await bcrypt.compare(password, passwordHash)))) {
+    throw new Error('Incorrect password');
+  }
+
+  if ((await isTwoFactorEnabled(userId)) && !(await verifyTwoFactorCode(userId, code))) {
+    throw new Error('Invalid authentication code');
+  }
 }
 
 /**
  * Get user data from access token
+ * Tokens of revoked sessions are refused even before they expire.
  * @param accessToken - JWT access token
  * @returns User object with id, email, and full_name
- * @throws Error if token is invalid or user not found
+ * @throws Error if token is invalid, its session revoked or user not found
  */
 export async function getUser(accessToken: string): Promise<User> {
   if (!accessToken) {
@@ -173,10 +572,20 @@ export async function getUser(accessToken: string): Promise<User> {
 
   try {
     // Verify and decode JWT token
-    const decoded = jwt.verify(accessToken, JWT_SECRET) as {
+    const decoded = verifyJwt<{
       userId: string;
       email: string;
-    };
+      sid?: string;
+    }>(accessToken);
+
+    // Challenge and flow tokens are signed with the same keys but carry no userId
+    if (!decoded.userId || !decoded.sid) {
+      throw new Error('Invalid token');
+    }
+
+    if (!(await isSessionActive(decoded.sid))) {
+      throw new Error('Session revoked');
+    }
 
     // Fetch user from database
     const result = await query(
@@ -202,83 +611,203 @@ export async function getUser(accessToken: string): Promise<User> {
 }
 
 /**
- * Sign out a user (invalidates the token on client side)
- * Note: JWT tokens are stateless, so actual invalidation happens client-side
- * by removing the token from storage/cookies
- * @param accessToken - JWT access token (validated but not stored)
- * @returns Success response
+ * Sign out a user by revoking their session
+ * Every refresh token in the session stops working; access tokens already
+ * issued expire on their own within ACCESS_TOKEN_EXPIRY.
+ * @param refreshToken - The session's current refresh token
+ * @returns Success response, also when the token is unknown or already revoked
  */
-export async function signOut(accessToken: string): Promise<{ success: boolean }> {
-  // Validate token before allowing sign out
-  if (accessToken) {
-    try {
-      jwt.verify(accessToken, JWT_SECRET);
-    } catch (error) {
-      // Token is invalid, but we still return success
-      // as the goal is to sign out
-    }
+export async function signOut(refreshToken: string): Promise<{ success: boolean }> {
+  if (refreshToken) {
+    await query(
+      `UPDATE sessions
+       SET revoked_at = NOW(), revoked_reason = 'sign_out'
+       WHERE id = (SELECT session_id FROM refresh_tokens WHERE token_hash = $1)
+         AND revoked_at IS NULL`,
+      [hashToken(refreshToken)]
+    );
   }
 
-  // In a JWT-based system, sign out is primarily handled client-side
-  // by removing the token from storage
-  // For enhanced security, you could implement a token blacklist here
   return { success: true };
 }
 
 /**
- * Refresh an access token (generates a new token with extended expiry)
- * @param accessToken - Current JWT access token
- * @returns AuthResponse with new access token
- * @throws Error if token is invalid
+ * Answer a refresh with an already rotated token
+ * Within the grace window the token's successor is issued again (it may not
+ * be stored yet if the rotating request is still running); after it, the
+ * session is revoked as the token was replayed.
  */
-export async function refreshToken(accessToken: string): Promise<AuthResponse> {
-  if (!accessToken) {
+async function reissueSuccessor(
+  token: {
+    session_id: string;
+    rotated_at: string | Date | null;
+    successor_salt: string | null;
+    revoked_at: string | Date | null;
+    user_id: string;
+    email: string;
+    full_name?: string;
+  },
+  refreshToken: string
+): Promise<AuthResponse> {
+  if (token.revoked_at) {
+    throw new Error('Session revoked');
+  }
+
+  const rotatedAt = token.rotated_at ? new Date(token.rotated_at).getTime() : 0;
+  if (!token.successor_salt || Date.now() - rotatedAt > REFRESH_TOKEN_REUSE_GRACE * 1000) {
+    await revokeSession(token.session_id, 'token_reuse');
+    throw new Error('Refresh token reuse detected');
+  }
+
+  const nextToken = await issueRefreshToken(
+    token.session_id,
+    deriveToken(refreshToken, token.successor_salt)
+  );
+
+  return buildAuthResponse(
+    { id: token.user_id, email: token.email, full_name: token.full_name },
+    token.session_id,
+    nextToken
+  );
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * Each refresh token can be used once. Presenting an already rotated token
+ * means it was stolen or replayed, so the whole session is revoked; within
+ * REFRESH_TOKEN_REUSE_GRACE seconds of the rotation it instead yields the
+ * same successor, as concurrent requests each refresh with the old token.
+ * @param refreshToken - Opaque refresh token from a previous AuthResponse
+ * @returns AuthResponse with a new access token and rotated refresh token
+ * @throws Error if the token is unknown, reused, revoked or expired
+ */
+export async function refreshToken(refreshToken: string): Promise<AuthResponse> {
+  if (!refreshToken) {
     throw new Error('Invalid token');
   }
 
-  try {
-    // Verify current token (allow expired tokens for refresh)
-    const decoded = jwt.verify(accessToken, JWT_SECRET, {
-      ignoreExpiration: true,
-    }) as {
-      userId: string;
-      email: string;
-    };
+  const result = await query(
+    `SELECT rt.id, rt.session_id, rt.expires_at, rt.rotated_at, rt.successor_salt,
+            s.revoked_at, u.id AS user_id, u.email, u.full_name
+     FROM refresh_tokens rt
+     JOIN sessions s ON s.id = rt.session_id
+     JOIN users u ON u.id = s.user_id
+     WHERE rt.token_hash = $1`,
+    [hashToken(refreshToken)]
+  );
 
-    // Fetch user to ensure they still exist
-    const result = await query(
-      'SELECT id, email, full_name FROM users WHERE id = $1',
-      [decoded.userId]
-    );
+  if (result.rows.length === 0) {
+    throw new Error('Invalid token');
+  }
 
-    if (result.rows.length === 0) {
-      throw new Error('User not found');
-    }
+  const token = result.rows[0];
+
+  if (token.rotated_at) {
+    return reissueSuccessor(token, refreshToken);
+  }
+
+  if (token.revoked_at) {
+    throw new Error('Session revoked');
+  }
 
-    const user = result.rows[0];
+  if (new Date(token.expires_at).getTime() <= Date.now()) {
+    throw new Error('Token expired');
+  }
+
+  // Claim the token; the salt lets a concurrent refresh derive the same successor
+  const salt = generateToken().token;
+  const rotated = await query(
+    `WITH rotated AS (
+       UPDATE refresh_tokens
+       SET rotated_at = NOW(), successor_salt = $2
+       WHERE id = $1 AND rotated_at IS NULL
+       RETURNING session_id
+     )
+     UPDATE sessions
+     SET last_seen_at = NOW()
+     WHERE id IN (SELECT session_id FROM rotated)`,
+    [token.id, salt]
+  );
 
-    // Generate new JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      JWT_SECRET,
-      { expiresIn: TOKEN_EXPIRY }
+  if (rotated.rowCount === 0) {
+    // A concurrent refresh claimed it first
+    const claimed = await query(
+      'SELECT rotated_at, successor_salt FROM refresh_tokens WHERE id = $1',
+      [token.id]
     );
+    return reissueSuccessor({ ...token, ...claimed.rows[0] }, refreshToken);
+  }
+
+  const nextToken = await issueRefreshToken(
+    token.session_id,
+    deriveToken(refreshToken, salt)
+  );
+
+  return buildAuthResponse(
+    { id: token.user_id, email: token.email, full_name: token.full_name },
+    token.session_id,
+    nextToken
+  );
+}
 
-    return {
-      access_token: token,
-      token_type: 'Bearer',
-      expires_in: 7 * 24 * 60 * 60,
-      user: {
-        id: user.id,
-        email: user.email,
-        full_name: user.full_name,
-      },
-    };
+/**
+ * Set a user's password and sign out their sessions
+ * Every session is revoked so a stolen password or token stops working;
+ * a signed-in user changing their password can keep the current one.
+ * @param userId - User ID
+ * @param password - New password (will be hashed)
+ * @param keepSessionId - Session to leave signed in, if any
+ * @throws PasswordPolicyError if the password breaks the password policy
+ * @throws Error if the user does not exist
+ */
+export async function setPassword(
+  userId: string,
+  password: string,
+  keepSessionId?: string | null
+): Promise<void> {
+  const userResult = await query(
+    'SELECT email, full_name FROM users WHERE id = $1',
+    [userId]
+  );
+  const user = userResult.rows[0];
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  await assertPasswordAllowed(password, [user.email, user.full_name]);
+
+  const passwordHash = await bcrypt.hash(password, 10);
+
+  await query(
+    'UPDATE users SET password_hash = $1, updated_at = NOW() WHERE id = $2',
+    [passwordHash, userId]
+  );
+
+  await query(
+    `UPDATE sessions
+     SET revoked_at = NOW(), revoked_reason = 'password_changed'
+     WHERE user_id = $1 AND revoked_at IS NULL
+       AND ($2::uuid IS NULL OR id <> $2::uuid)`,
+    [userId, keepSessionId ?? null]
+  );
+}
+
+/**
+ * Get the session an access token belongs to
+ * @param accessToken - JWT access token
+ * @returns Session ID, or null if the token is invalid or predates sessions
+ */
+export function getSessionId(accessToken: string): string | null {
+  if (!accessToken) {
+    return null;
+  }
+
+  try {
+    const decoded = verifyJwt<{ sid?: string }>(accessToken);
+    return decoded.sid ?? null;
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      throw new Error('Invalid token');
-    }
-    throw error;
+    return null;
   }
 }
 
@@ -293,7 +822,7 @@ export function verifyToken(accessToken: string): boolean {
   }
 
   try {
-    jwt.verify(accessToken, JWT_SECRET);
+    verifyJwt(accessToken);
     return true;
   } catch (error) {
     return false;
@@ -0,0 +1,84 @@
+import { getOrganization, type Organization, type OrganizationRole } from './organizations';
+
+/**
+ * Organization authorization
+ *
+ * What each organization role may do. Server actions check here before
+ * managing members or billing, so the rules live in one place:
+ *
+ * - owner: everything, including changing roles
+ * - billing_admin: checkout, plan changes and the billing portal
+ * - member: uses the organization's plan
+ *
+ * The personal account has no roles; its owner may do everything.
+ */
+
+export type Permission = 'manage_billing' | 'manage_members';
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  owner: ['manage_billing', 'manage_members'],
+  billing_admin: ['manage_billing'],
+  member: [],
+};
+
+const PERMISSION_ERRORS: Record<Permission, string> = {
+  manage_billing: 'Only owners and billing admins can manage billing.',
+  manage_members: 'Only organization owners can manage members.',
+};
+
+/**
+ * A user tried something their organization role does not allow
+ */
+export class AuthorizationError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission, message: string = PERMISSION_ERRORS[permission]) {
+    super(message);
+    this.name = 'AuthorizationError';
+    this.permission = permission;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, AuthorizationError.prototype);
+  }
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param role - Organization role, or null for someone outside it
+ */
+export function can(role: OrganizationRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Require the user's role in an organization to grant a permission
+ * @param organization - Organization loaded for the user
+ * @throws AuthorizationError if the role does not grant it
+ */
+export function assertCan(organization: Organization, permission: Permission): void {
+  if (!can(organization.role, permission)) {
+    throw new AuthorizationError(permission);
+  }
+}
+
+/**
+ * Load an organization for a user and require a permission in it
+ * @param userId - User ID
+ * @param organizationId - Organization ID
+ * @param permission - Permission required
+ * @returns The organization, with the user's role
+ * @throws AuthorizationError if the user is not a member or lacks the permission
+ */
+export async function authorize(
+  userId: string,
+  organizationId: string,
+  permission: Permission,
+): Promise<Organization> {
+  const organization = await getOrganization(userId, organizationId);
+
+  if (!organization) {
+    throw new AuthorizationError(permission, 'You are not a member of that organization.');
+  }
+  assertCan(organization, permission);
+
+  return organization;
+}
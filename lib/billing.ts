@@ -0,0 +1,133 @@
+import { query } from './zerodb';
+
+export const BILLING_HISTORY_PAGE_SIZE = 10;
+
+export interface BillingHistoryEntry {
+  id: string;
+  kind: 'invoice' | 'payment';
+  created: string;
+  amount: number;
+  amountRefunded: number;
+  currency: string;
+  status: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  hostedUrl: string | null;
+  pdfUrl: string | null;
+}
+
+export interface BillingHistoryPage {
+  entries: BillingHistoryEntry[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+interface BillingHistoryRow {
+  id: string;
+  kind: BillingHistoryEntry['kind'];
+  created: Date | string;
+  amount: string | number;
+  amount_refunded: string | number;
+  currency: string;
+  status: string;
+  period_start: Date | string | null;
+  period_end: Date | string | null;
+  hosted_url: string | null;
+  pdf_url: string | null;
+}
+
+/**
+ * Get a page of a user's billing history, newest first
+ * Combines invoices with payments made outside of an invoice, such as
+ * one-time purchases. Invoices carry the refunds of their charges.
+ * @param userId - User ID
+ * @param page - 1-based page number
+ * @param pageSize - Entries per page
+ * @returns The requested page and pagination totals
+ */
+export async function getBillingHistory(
+  userId: string,
+  page = 1,
+  pageSize = BILLING_HISTORY_PAGE_SIZE
+): Promise<BillingHistoryPage> {
+  const currentPage = Math.max(1, Math.floor(page) || 1);
+
+  const [entriesResult, countResult] = await Promise.all([
+    query<BillingHistoryRow>(
+      `SELECT *
+       FROM (
+         SELECT
+           i.id,
+           'invoice' AS kind,
+           i.created,
+           CASE WHEN i.status = 'paid' THEN i.amount_paid ELSE i.amount_due END AS amount,
+           COALESCE(
+             (SELECT SUM(p.amount_refunded) FROM payments p WHERE p.invoice_id = i.id),
+             0
+           ) AS amount_refunded,
+           i.currency,
+           i.status::text AS status,
+           i.period_start,
+           i.period_end,
+           i.hosted_invoice_url AS hosted_url,
+           i.invoice_pdf AS pdf_url
+         FROM invoices i
+         WHERE i.user_id = $1 AND i.status <> 'draft'
+         UNION ALL
+         SELECT
+           p.id,
+           'payment' AS kind,
+           p.created,
+           p.amount,
+           p.amount_refunded,
+           p.currency,
+           p.status::text AS status,
+           NULL AS period_start,
+           NULL AS period_end,
+           p.receipt_url AS hosted_url,
+           NULL AS pdf_url
+         FROM payments p
+         WHERE p.user_id = $1 AND p.invoice_id IS NULL
+       ) history
+       ORDER BY created DESC, id
+       LIMIT $2 OFFSET $3`,
+      [userId, pageSize, (currentPage - 1) * pageSize]
+    ),
+    query<{ total_count: string }>(
+      `SELECT
+         (SELECT COUNT(*) FROM invoices WHERE user_id = $1 AND status <> 'draft') +
+         (SELECT COUNT(*) FROM payments WHERE user_id = $1 AND invoice_id IS NULL)
+         AS total_count`,
+      [userId]
+    ),
+  ]);
+
+  // BIGINT and aggregate columns come back from pg as strings, timestamps as Dates
+  const toISOString = (value: Date | string | null) =>
+    value === null ? null : new Date(value).toISOString();
+
+  const entries = entriesResult.rows.map((row) => ({
+    id: row.id,
+    kind: row.kind,
+    created: toISOString(row.created)!,
+    amount: Number(row.amount),
+    amountRefunded: Number(row.amount_refunded),
+    currency: row.currency,
+    status: row.status,
+    periodStart: toISOString(row.period_start),
+    periodEnd: toISOString(row.period_end),
+    hostedUrl: row.hosted_url,
+    pdfUrl: row.pdf_url,
+  }));
+  const totalCount = Number(countResult.rows[0]?.total_count ?? 0);
+
+  return {
+    entries,
+    page: currentPage,
+    pageSize,
+    totalCount,
+    totalPages: Math.ceil(totalCount / pageSize),
+  };
+}
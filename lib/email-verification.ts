@@ -0,0 +1,181 @@
+import { getURL } from '@/utils/helpers';
+import { sendMail } from './mailer';
+import { generateToken, hashToken } from './tokens';
+import { query } from './zerodb';
+
+/** Verification link lifetime in seconds (24 hours) */
+export const EMAIL_VERIFICATION_EXPIRY = 24 * 60 * 60;
+
+/**
+ * Store a hashed single-use verification token and build its link
+ * @param userId - User the link belongs to
+ * @param email - Address the link proves ownership of
+ * @returns Link to `/auth/verify` carrying the plain token
+ */
+async function createVerificationLink(
+  userId: string,
+  email: string
+): Promise<string> {
+  const { token, hash } = generateToken();
+
+  await query(
+    `INSERT INTO email_verification_tokens (user_id, email, token_hash, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(secs => $4))`,
+    [userId, email, hash, EMAIL_VERIFICATION_EXPIRY]
+  );
+
+  return getURL(`/auth/verify?token=${encodeURIComponent(token)}`);
+}
+
+/**
+ * Email a single-use verification link to a user's current address
+ * @param user - User to verify; the link only verifies this email
+ */
+export async function sendVerificationEmail(user: {
+  id: string;
+  email: string;
+}): Promise<void> {
+  const link = await createVerificationLink(user.id, user.email);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      'Confirm that this is your email address by opening the link below:',
+      '',
+      link,
+      '',
+      'The link expires in 24 hours. If you did not create an account, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Confirm that this is your email address:</p><p><a href="${link}">Verify email</a></p><p>The link expires in 24 hours. If you did not create an account, you can ignore this email.</p>`,
+  });
+}
+
+/**
+ * Start moving a user to a new email address
+ * The address is kept as the user's pending email and a verification link is
+ * sent to it; the current email stays in place until that link is followed.
+ * A later request replaces the pending address, so only its link can switch.
+ * @param userId - User changing their email
+ * @param newEmail - Address to switch to once verified
+ */
+export async function requestEmailChange(
+  userId: string,
+  newEmail: string
+): Promise<void> {
+  await query(
+    'UPDATE users SET pending_email = $1, updated_at = NOW() WHERE id = $2',
+    [newEmail, userId]
+  );
+
+  const link = await createVerificationLink(userId, newEmail);
+
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new email address',
+    text: [
+      'Confirm that you want to use this email address for your account by opening the link below:',
+      '',
+      link,
+      '',
+      'Your current address stays in use until you do. The link expires in 24 hours. If you did not ask to change your email, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Confirm that you want to use this email address for your account:</p><p><a href="${link}">Confirm new email</a></p><p>Your current address stays in use until you do. The link expires in 24 hours. If you did not ask to change your email, you can ignore this email.</p>`,
+  });
+}
+
+/**
+ * Tell the owner of an email that someone tried to sign up with it
+ * Sent instead of a verification link, so sign-up looks the same whether or
+ * not the email is taken.
+ * @param email - Address entered on the sign-up form
+ */
+export async function sendExistingAccountEmail(email: string): Promise<void> {
+  const signInLink = getURL('/signin');
+  const resetLink = getURL('/signin/forgot_password');
+
+  await sendMail({
+    to: email,
+    subject: 'You already have an account',
+    text: [
+      'Someone tried to sign up with this email address, but it already has an account.',
+      '',
+      'Sign in here:',
+      signInLink,
+      '',
+      'Forgot your password? Choose a new one here:',
+      resetLink,
+      '',
+      'If you did not try to sign up, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Someone tried to sign up with this email address, but it already has an account.</p><p><a href="${signInLink}">Sign in</a> or <a href="${resetLink}">choose a new password</a>.</p><p>If you did not try to sign up, you can ignore this email.</p>`,
+  });
+}
+
+/**
+ * Consume a verification link and mark the email verified
+ * The token is claimed atomically, so a link works once even under
+ * concurrent requests. A link for the user's pending email switches the
+ * account to that address, unless another account has taken it meanwhile.
+ * A link for any other address, such as one sent before an email change or
+ * for a replaced pending email, is rejected.
+ * @param token - Token from the verification link
+ * @returns ID of the verified user
+ * @throws Error if the token is unknown, used, expired or for an old address
+ */
+export async function verifyEmail(token: string): Promise<string> {
+  if (!token) {
+    throw new Error('Invalid verification link');
+  }
+
+  const result = await query(
+    `WITH claimed AS (
+       UPDATE email_verification_tokens
+       SET used_at = NOW()
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id, email
+     )
+     UPDATE users u
+     SET email = claimed.email,
+         pending_email = CASE WHEN u.email = claimed.email THEN u.pending_email END,
+         email_verified_at = CASE
+           WHEN u.email = claimed.email THEN COALESCE(u.email_verified_at, NOW())
+           ELSE NOW()
+         END,
+         updated_at = NOW()
+     FROM claimed
+     WHERE u.id = claimed.user_id
+       AND (
+         u.email = claimed.email
+         OR (
+           u.pending_email = claimed.email
+           AND NOT EXISTS (
+             SELECT 1 FROM users other
+             WHERE other.email = claimed.email AND other.id != u.id
+           )
+         )
+       )
+     RETURNING u.id`,
+    [hashToken(token)]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('Invalid or expired verification link');
+  }
+
+  return result.rows[0].id;
+}
+
+/**
+ * Check whether a user has verified their current email
+ * @param userId - User ID
+ * @returns True once the user has followed a verification link
+ */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const result = await query(
+    'SELECT email_verified_at FROM users WHERE id = $1',
+    [userId]
+  );
+
+  return Boolean(result.rows[0]?.email_verified_at);
+}
@@ -0,0 +1,243 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { NextResponse } from 'next/server';
+import { query } from './zerodb';
+import { getUser } from './auth';
+import { highestTier, type PlanTier } from './route-rules';
+
+/**
+ * Entitlements are declared in Stripe product metadata:
+ * - `tier`: the plan tier, one of PLAN_TIERS in route-rules
+ * - `features`: comma-separated feature keys, e.g. "api_access,priority_support"
+ * - `limit_<key>`: a number, or "unlimited", e.g. `limit_projects: "10"`
+ *
+ * A user's entitlements are the union of every product they have an active
+ * subscription to, through their personal account or an organization they
+ * belong to, or a paid lifetime purchase of. The highest tier and the
+ * highest limit win.
+ */
+export interface Entitlements {
+  /** Highest plan tier, or null without a tiered plan */
+  tier: PlanTier | null;
+  features: string[];
+  /** Numeric limits by key; unlimited limits are Infinity */
+  limits: Record<string, number>;
+}
+
+export const ENTITLEMENTS_CACHE_TTL_MS = 60 * 1000;
+
+const TIER_KEY = 'tier';
+const FEATURES_KEY = 'features';
+const LIMIT_PREFIX = 'limit_';
+
+const cache = new Map<string, { entitlements: Promise<Entitlements>; expiresAt: number }>();
+
+/**
+ * Merge the entitlements declared in product metadata
+ * @param metadataList - Metadata of each product the user is entitled to
+ * @returns Combined features and limits
+ */
+export function parseEntitlements(
+  metadataList: (Record<string, string> | null)[]
+): Entitlements {
+  const features = new Set<string>();
+  const limits: Record<string, number> = {};
+
+  for (const metadata of metadataList) {
+    for (const [key, value] of Object.entries(metadata ?? {})) {
+      if (key === FEATURES_KEY) {
+        value
+          .split(',')
+          .map((feature) => feature.trim())
+          .filter(Boolean)
+          .forEach((feature) => features.add(feature));
+      } else if (key.startsWith(LIMIT_PREFIX)) {
+        const limit = value.trim() === 'unlimited' ? Infinity : Number(value);
+        if (isNaN(limit)) continue;
+
+        const name = key.slice(LIMIT_PREFIX.length);
+        limits[name] = Math.max(limits[name] ?? 0, limit);
+      }
+    }
+  }
+
+  return {
+    tier: highestTier(metadataList.map((metadata) => metadata?.[TIER_KEY])),
+    features: Array.from(features),
+    limits,
+  };
+}
+
+/**
+ * Load entitlements from active personal and organization subscriptions
+ * and paid purchases
+ */
+async function loadEntitlements(userId: string): Promise<Entitlements> {
+  const result = await query<{ metadata: Record<string, string> | null }>(
+    `SELECT p.metadata
+     FROM subscriptions s
+     JOIN prices pr ON pr.id = s.price_id
+     JOIN products p ON p.id = pr.product_id
+     WHERE s.user_id = $1 AND s.organization_id IS NULL
+       AND s.status IN ('trialing', 'active')
+     UNION ALL
+     SELECT p.metadata
+     FROM subscriptions s
+     JOIN memberships m ON m.organization_id = s.organization_id
+     JOIN prices pr ON pr.id = s.price_id
+     JOIN products p ON p.id = pr.product_id
+     WHERE m.user_id = $1 AND s.status IN ('trialing', 'active')
+     UNION ALL
+     SELECT p.metadata
+     FROM purchases pu
+     JOIN prices pr ON pr.id = pu.price_id
+     JOIN products p ON p.id = pr.product_id
+     WHERE pu.user_id = $1 AND pu.status = 'paid'`,
+    [userId]
+  );
+
+  return parseEntitlements(result.rows.map((row) => row.metadata));
+}
+
+/**
+ * Get a user's entitlements, cached per user for ENTITLEMENTS_CACHE_TTL_MS
+ * Concurrent calls for the same user share one database query.
+ * @param userId - User ID
+ * @returns The user's features and limits
+ */
+export async function getEntitlements(userId: string): Promise<Entitlements> {
+  const cached = cache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.entitlements;
+  }
+
+  const entitlements = loadEntitlements(userId);
+  cache.set(userId, {
+    entitlements,
+    expiresAt: Date.now() + ENTITLEMENTS_CACHE_TTL_MS,
+  });
+
+  try {
+    return await entitlements;
+  } catch (error) {
+    cache.delete(userId);
+    throw error;
+  }
+}
+
+/**
+ * Drop cached entitlements after a subscription or purchase changes
+ * @param userId - User ID, or omit to clear the whole cache
+ */
+export function invalidateEntitlements(userId?: string): void {
+  if (userId) {
+    cache.delete(userId);
+  } else {
+    cache.clear();
+  }
+}
+
+/**
+ * Check whether a user has a feature
+ * @param userId - User ID
+ * @param key - Feature key from product metadata
+ * @returns True if any active plan grants the feature
+ */
+export async function hasFeature(userId: string, key: string): Promise<boolean> {
+  const { features } = await getEntitlements(userId);
+  return features.includes(key);
+}
+
+/**
+ * Get a user's numeric limit
+ * @param userId - User ID
+ * @param key - Limit key, without the `limit_` prefix
+ * @returns The highest limit across active plans, Infinity if unlimited, 0 if none
+ */
+export async function getLimit(userId: string, key: string): Promise<number> {
+  const { limits } = await getEntitlements(userId);
+  return limits[key] ?? 0;
+}
+
+/**
+ * Get the signed-in user's ID from the access token cookie
+ * @returns User ID, or null if no valid session
+ */
+async function getCurrentUserId(): Promise<string | null> {
+  const token = cookies().get('access_token')?.value;
+  if (!token) {
+    return null;
+  }
+
+  try {
+    return (await getUser(token)).id;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Get the signed-in user's entitlements in a server component
+ * @returns Entitlements, or null if no valid session
+ */
+export async function getCurrentEntitlements(): Promise<Entitlements | null> {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return null;
+  }
+
+  return getEntitlements(userId);
+}
+
+/**
+ * Require a feature in a server component
+ * Redirects to sign-in without a session, and to the pricing page without the feature.
+ * @param key - Feature key from product metadata
+ * @param redirectPath - Where to send users who lack the feature
+ * @returns The signed-in user's entitlements
+ */
+export async function requireFeature(
+  key: string,
+  redirectPath = '/'
+): Promise<Entitlements> {
+  const entitlements = await getCurrentEntitlements();
+
+  if (!entitlements) {
+    redirect('/signin');
+  }
+
+  if (!entitlements.features.includes(key)) {
+    redirect(redirectPath);
+  }
+
+  return entitlements;
+}
+
+/**
+ * Guard a route handler behind a feature
+ * Verifies the access token cookie itself rather than trusting headers, so
+ * the check holds for routes middleware does not cover.
+ * @param key - Feature key from product metadata
+ * @param handler - Route handler to run when the user has the feature
+ * @returns A route handler that responds 401 without a user and 403 without the feature
+ */
+export function withFeature<Context>(
+  key: string,
+  handler: (request: Request, context: Context) => Promise<Response> | Response
+) {
+  return async (request: Request, context: Context): Promise<Response> => {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeature(userId, key))) {
+      return NextResponse.json(
+        { error: `Your plan does not include ${key}` },
+        { status: 403 }
+      );
+    }
+
+    return handler(request, context);
+  };
+}
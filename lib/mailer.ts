@@ -0,0 +1,132 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { createSmtpMailer, type SmtpOptions } from './smtp';
+
+/**
+ * Outgoing email
+ *
+ * Mail goes through a Mailer so the delivery provider can be swapped
+ * without touching the flows that send it. The transport is chosen by
+ * MAIL_TRANSPORT:
+ *   - smtp: delivers through the relay at SMTP_HOST (see getSmtpOptions)
+ *   - console (default outside production): logs each message
+ *   - file: writes each message as JSON to MAIL_OUTBOX_DIR (default .mail-outbox)
+ * Production deployments use smtp or register a provider-backed mailer with
+ * setMailer; the local transports are refused there so mail is never
+ * silently dropped.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Mailer that logs messages instead of delivering them
+ * @returns Console transport
+ */
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(
+        `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}`
+      );
+    },
+  };
+}
+
+/**
+ * Mailer that writes one JSON file per message
+ * @param directory - Outbox directory, created on first send
+ * @returns File transport
+ */
+export function createFileMailer(directory: string): Mailer {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+
+      const sentAt = new Date();
+      const fileName = `${sentAt.getTime()}-${randomUUID()}.json`;
+      await writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+let configuredMailer: Mailer | null = null;
+
+/**
+ * Read the SMTP relay settings from the environment
+ * SMTP_PORT defaults to 465 when SMTP_SECURE is "true" and 587 otherwise.
+ * @throws Error if SMTP_HOST or MAIL_FROM is missing
+ */
+function getSmtpOptions(): SmtpOptions {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.MAIL_FROM;
+  if (!host || !from) {
+    throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST and MAIL_FROM');
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+  };
+}
+
+/**
+ * Get the mailer used to send email
+ * @returns The registered mailer, or the MAIL_TRANSPORT transport
+ * @throws Error in production when neither smtp nor a registered mailer is set up
+ */
+export function getMailer(): Mailer {
+  if (configuredMailer) {
+    return configuredMailer;
+  }
+
+  if (process.env.MAIL_TRANSPORT === 'smtp') {
+    return createSmtpMailer(getSmtpOptions());
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'No mail transport configured: set MAIL_TRANSPORT=smtp or register a mailer with setMailer'
+    );
+  }
+
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return createFileMailer(process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+  }
+
+  return createConsoleMailer();
+}
+
+/**
+ * Register the mailer used to send email
+ * @param mailer - Mailer to use, or null to go back to MAIL_TRANSPORT
+ */
+export function setMailer(mailer: Mailer | null): void {
+  configuredMailer = mailer;
+}
+
+/**
+ * Send an email through the current mailer
+ * @param message - Message to send
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailer().send(message);
+}
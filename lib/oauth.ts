@@ -0,0 +1,465 @@
+import jwt from 'jsonwebtoken';
+import { createHash, createPublicKey, timingSafeEqual, type JsonWebKey } from 'crypto';
+import { signJwt, verifyJwt } from './jwt-keys';
+import { generateToken } from './tokens';
+
+/**
+ * OAuth 2.0 / OpenID Connect sign-in
+ *
+ * Every provider uses the authorization code flow with PKCE (S256). The
+ * state, nonce and code verifier travel in a short-lived signed cookie
+ * between the redirect to the provider and the callback, so no server-side
+ * storage is needed. OIDC providers return an ID token, verified against
+ * their JWKS along with the nonce; plain OAuth providers such as GitHub are
+ * asked for the profile with the access token instead.
+ *
+ * Providers are configured from the environment (GITHUB_CLIENT_ID, or
+ * OIDC_ISSUER for any OpenID Connect provider), or added with
+ * registerOAuthProvider.
+ */
+
+export const OAUTH_FLOW_COOKIE = 'oauth_flow';
+
+/** Time allowed to finish signing in at the provider, in seconds (10 minutes) */
+export const OAUTH_FLOW_EXPIRY = 10 * 60;
+
+export interface OAuthProfile {
+  /** Provider ID, e.g. github */
+  provider: string;
+  /** Stable user ID at the provider */
+  subject: string;
+  email: string | null;
+  /** Whether the provider vouches for the email */
+  emailVerified: boolean;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
+export interface AuthorizationRequest {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface CodeExchange {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+export interface OAuthProvider {
+  id: string;
+  displayName: string;
+  getAuthorizationUrl(request: AuthorizationRequest): Promise<string>;
+  exchangeCode(exchange: CodeExchange): Promise<OAuthProfile>;
+}
+
+interface OAuthFlow {
+  purpose: 'oauth_flow';
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Derive the S256 PKCE challenge for a code verifier
+ */
+function codeChallengeFor(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/** The parts of an OpenID Connect discovery document used here */
+interface OidcDiscovery {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** Token endpoint response; GitHub returns no ID token */
+interface TokenResponse {
+  access_token: string;
+  id_token?: string;
+}
+
+interface GitHubUser {
+  id: number;
+  login: string;
+  name: string | null;
+  avatar_url: string | null;
+}
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * Read a JSON response, failing on HTTP errors
+ */
+async function readJson<T>(response: Response, what: string): Promise<T> {
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body) {
+    throw new Error(`${what} failed with status ${response.status}`);
+  }
+
+  return body;
+}
+
+/**
+ * Exchange an authorization code at a token endpoint
+ */
+async function requestTokens(
+  tokenEndpoint: string,
+  client: { clientId: string; clientSecret: string },
+  exchange: CodeExchange
+): Promise<TokenResponse> {
+  const response = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: exchange.code,
+      redirect_uri: exchange.redirectUri,
+      code_verifier: exchange.codeVerifier,
+      client_id: client.clientId,
+      client_secret: client.clientSecret,
+    }).toString(),
+  });
+
+  const body = await response.json().catch(() => ({}));
+
+  // GitHub reports errors with a 200 status
+  if (!response.ok || body.error || !body.access_token) {
+    throw new Error(
+      `Token exchange failed: ${body.error_description || body.error || response.status}`
+    );
+  }
+
+  return body;
+}
+
+export interface OidcProviderOptions {
+  id: string;
+  displayName: string;
+  /** Issuer URL; endpoints are read from its discovery document */
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+}
+
+/**
+ * Create a provider for any OpenID Connect issuer
+ * @param options - Issuer and client credentials
+ * @returns Provider that verifies ID tokens against the issuer's JWKS
+ */
+export function createOidcProvider(options: OidcProviderOptions): OAuthProvider {
+  const issuer = options.issuer.replace(/\/+$/, '');
+  let metadata: Promise<OidcDiscovery> | null = null;
+
+  // Discovery is fetched once; a failed fetch is retried on the next sign-in
+  function discover(): Promise<OidcDiscovery> {
+    if (!metadata) {
+      metadata = fetch(`${issuer}/.well-known/openid-configuration`)
+        .then((response) => readJson<OidcDiscovery>(response, 'OIDC discovery'))
+        .then((document) => {
+          if (document.issuer?.replace(/\/+$/, '') !== issuer) {
+            throw new Error('OIDC discovery issuer does not match');
+          }
+          return document;
+        })
+        .catch((error) => {
+          metadata = null;
+          throw error;
+        });
+    }
+    return metadata;
+  }
+
+  async function verifyIdToken(idToken: string, nonce: string): Promise<jwt.JwtPayload> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Invalid ID token');
+    }
+
+    const { jwks_uri: jwksUri } = await discover();
+    const { keys } = await readJson<{ keys: JsonWebKey[] }>(await fetch(jwksUri), 'JWKS fetch');
+    const jwk = keys.find((key) => key.kid === decoded.header.kid);
+    if (!jwk) {
+      throw new Error('Unknown ID token signing key');
+    }
+
+    const claims = jwt.verify(idToken, createPublicKey({ key: jwk, format: 'jwk' }), {
+      algorithms: ['RS256', 'ES256'],
+      issuer: [issuer, `${issuer}/`],
+      audience: options.clientId,
+    }) as jwt.JwtPayload;
+
+    if (typeof claims.nonce !== 'string' || !safeEqual(claims.nonce, nonce)) {
+      throw new Error('ID token nonce does not match');
+    }
+
+    return claims;
+  }
+
+  return {
+    id: options.id,
+    displayName: options.displayName,
+
+    async getAuthorizationUrl(request) {
+      const { authorization_endpoint } = await discover();
+      const url = new URL(authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: options.clientId,
+        redirect_uri: request.redirectUri,
+        scope: (options.scopes ?? ['openid', 'email', 'profile']).join(' '),
+        state: request.state,
+        nonce: request.nonce,
+        code_challenge: request.codeChallenge,
+        code_challenge_method: 'S256',
+      }).toString();
+      return url.toString();
+    },
+
+    async exchangeCode(exchange) {
+      const { token_endpoint } = await discover();
+      const tokens = await requestTokens(token_endpoint, options, exchange);
+
+      if (!tokens.id_token) {
+        throw new Error('Token response did not include an ID token');
+      }
+
+      const claims = await verifyIdToken(tokens.id_token, exchange.nonce);
+
+      return {
+        provider: options.id,
+        subject: String(claims.sub),
+        email: claims.email ?? null,
+        emailVerified: claims.email_verified === true,
+        name: claims.name ?? null,
+        avatarUrl: claims.picture ?? null,
+      };
+    },
+  };
+}
+
+/**
+ * Create the GitHub provider
+ * GitHub is OAuth 2.0 without OpenID Connect, so the nonce is unused and
+ * the profile and verified emails come from its REST API.
+ * @param client - OAuth app credentials
+ * @returns GitHub provider
+ */
+export function createGitHubProvider(client: {
+  clientId: string;
+  clientSecret: string;
+}): OAuthProvider {
+  return {
+    id: 'github',
+    displayName: 'GitHub',
+
+    async getAuthorizationUrl(request) {
+      const url = new URL('https://github.com/login/oauth/authorize');
+      url.search = new URLSearchParams({
+        client_id: client.clientId,
+        redirect_uri: request.redirectUri,
+        scope: 'read:user user:email',
+        state: request.state,
+        code_challenge: request.codeChallenge,
+        code_challenge_method: 'S256',
+        allow_signup: 'true',
+      }).toString();
+      return url.toString();
+    },
+
+    async exchangeCode(exchange) {
+      const tokens = await requestTokens(
+        'https://github.com/login/oauth/access_token',
+        client,
+        exchange
+      );
+
+      const headers = {
+        Authorization: `Bearer ${tokens.access_token}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'nextjs-subscription-payments',
+      };
+
+      const user = await readJson<GitHubUser>(
+        await fetch('https://api.github.com/user', { headers }),
+        'GitHub profile fetch'
+      );
+      const emails = await readJson<GitHubEmail[]>(
+        await fetch('https://api.github.com/user/emails', { headers }),
+        'GitHub email fetch'
+      );
+
+      const email =
+        emails.find((entry) => entry.primary && entry.verified) ??
+        emails.find((entry) => entry.verified);
+
+      return {
+        provider: 'github',
+        subject: String(user.id),
+        email: email?.email ?? null,
+        emailVerified: Boolean(email),
+        name: user.name ?? user.login ?? null,
+        avatarUrl: user.avatar_url ?? null,
+      };
+    },
+  };
+}
+
+const registeredProviders = new Map<string, OAuthProvider>();
+let configuredProviders: Map<string, OAuthProvider> | null = null;
+
+/**
+ * Providers configured in environment variables, built once
+ */
+function getConfiguredProviders(): Map<string, OAuthProvider> {
+  if (!configuredProviders) {
+    configuredProviders = new Map();
+    const env = process.env;
+
+    if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET) {
+      configuredProviders.set(
+        'github',
+        createGitHubProvider({
+          clientId: env.GITHUB_CLIENT_ID,
+          clientSecret: env.GITHUB_CLIENT_SECRET,
+        })
+      );
+    }
+
+    if (env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_CLIENT_SECRET) {
+      configuredProviders.set(
+        'oidc',
+        createOidcProvider({
+          id: 'oidc',
+          displayName: env.OIDC_DISPLAY_NAME || 'Single sign-on',
+          issuer: env.OIDC_ISSUER,
+          clientId: env.OIDC_CLIENT_ID,
+          clientSecret: env.OIDC_CLIENT_SECRET,
+        })
+      );
+    }
+  }
+
+  return configuredProviders;
+}
+
+/**
+ * Add a provider, replacing any configured provider with the same ID
+ * @param provider - Provider to offer for sign-in
+ */
+export function registerOAuthProvider(provider: OAuthProvider): void {
+  registeredProviders.set(provider.id, provider);
+}
+
+/**
+ * Look up a sign-in provider
+ * @param id - Provider ID from the URL
+ * @returns The provider, or null if it is not configured
+ */
+export function getOAuthProvider(id: string): OAuthProvider | null {
+  return registeredProviders.get(id) ?? getConfiguredProviders().get(id) ?? null;
+}
+
+/**
+ * Start signing in with a provider
+ * @param provider - Provider to sign in with
+ * @param redirectUri - Callback URL registered with the provider
+ * @returns Authorization URL to redirect to, and the flow token to store in
+ *   the OAUTH_FLOW_COOKIE until the callback
+ */
+export async function beginOAuthFlow(
+  provider: OAuthProvider,
+  redirectUri: string
+): Promise<{ url: string; flowToken: string }> {
+  const state = generateToken().token;
+  const nonce = generateToken().token;
+  const codeVerifier = generateToken().token;
+
+  const url = await provider.getAuthorizationUrl({
+    redirectUri,
+    state,
+    nonce,
+    codeChallenge: codeChallengeFor(codeVerifier),
+  });
+
+  const flow: OAuthFlow = {
+    purpose: 'oauth_flow',
+    provider: provider.id,
+    state,
+    nonce,
+    codeVerifier,
+  };
+
+  return { url, flowToken: signJwt(flow, OAUTH_FLOW_EXPIRY) };
+}
+
+/**
+ * Finish signing in when the provider redirects back
+ * @param provider - Provider named in the callback URL
+ * @param params - `code`, `state` and `error` query parameters
+ * @param flowToken - Value of the OAUTH_FLOW_COOKIE
+ * @param redirectUri - Callback URL used to start the flow
+ * @returns Profile of the user who signed in at the provider
+ * @throws Error if the flow expired, the state does not match or the exchange fails
+ */
+export async function completeOAuthFlow(
+  provider: OAuthProvider,
+  params: { code: string | null; state: string | null; error?: string | null },
+  flowToken: string | undefined,
+  redirectUri: string
+): Promise<OAuthProfile> {
+  if (params.error) {
+    throw new Error('Sign in was cancelled at the provider');
+  }
+
+  let flow: OAuthFlow;
+  try {
+    flow = verifyJwt<OAuthFlow>(flowToken ?? '');
+  } catch (error) {
+    throw new Error('Sign in took too long. Please try again.');
+  }
+
+  if (
+    flow.purpose !== 'oauth_flow' ||
+    flow.provider !== provider.id ||
+    !params.state ||
+    !safeEqual(params.state, flow.state)
+  ) {
+    throw new Error('Invalid OAuth state');
+  }
+
+  if (!params.code) {
+    throw new Error('Missing authorization code');
+  }
+
+  return provider.exchangeCode({
+    code: params.code,
+    redirectUri,
+    codeVerifier: flow.codeVerifier,
+    nonce: flow.nonce,
+  });
+}
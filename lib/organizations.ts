@@ -0,0 +1,648 @@
+import { stripe } from '@/utils/stripe/config';
+import { getURL } from '@/utils/helpers';
+import { invalidateEntitlements } from './entitlements';
+import { isEmailVerified } from './email-verification';
+import { sendMail } from './mailer';
+import { generateToken, hashToken } from './tokens';
+import { query } from './zerodb';
+
+/**
+ * Organizations
+ *
+ * An organization shares one subscription between its members and is billed
+ * per seat: every membership takes one, and the subscription quantity follows
+ * the member count as people join and leave. Invitations are emailed as a link
+ * with an expiring token, and are also listed on the invitee's account page.
+ *
+ * These functions do not check the acting user's role; server actions call
+ * lib/authorization.ts first.
+ */
+
+export const ORGANIZATION_ROLES = ['owner', 'billing_admin', 'member'] as const;
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+/** Invitation link lifetime in seconds (7 days) */
+export const INVITATION_EXPIRY = 7 * 24 * 60 * 60;
+
+export interface Organization {
+  id: string;
+  name: string;
+  /** The requesting user's role */
+  role: OrganizationRole;
+  memberCount: number;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  fullName: string | null;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface Invitation {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  email: string;
+  /** Role the invitee joins with */
+  role: OrganizationRole;
+  invitedByEmail: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface OrganizationRow {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  /** COUNT(*) comes back from Postgres as a string */
+  member_count: string | number;
+}
+
+interface MemberRow {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  role: OrganizationRole;
+  created_at: Date | string;
+}
+
+interface InvitationRow {
+  id: string;
+  organization_id: string;
+  organization_name: string;
+  email: string;
+  role: OrganizationRole;
+  invited_by_email: string | null;
+  created_at: Date | string;
+  expires_at: Date | string;
+}
+
+/** Subscription statuses that still bill for seats */
+const BILLED_STATUSES = ['trialing', 'active', 'past_due'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ROLE_NAMES: Record<OrganizationRole, string> = {
+  owner: 'an owner',
+  billing_admin: 'a billing admin',
+  member: 'a member',
+};
+
+/**
+ * Check a role submitted from a form
+ */
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return ORGANIZATION_ROLES.includes(value as OrganizationRole);
+}
+
+function toOrganization(row: OrganizationRow): Organization {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    memberCount: Number(row.member_count),
+  };
+}
+
+function toInvitation(row: InvitationRow): Invitation {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    organizationName: row.organization_name,
+    email: row.email,
+    role: row.role,
+    invitedByEmail: row.invited_by_email,
+    createdAt: new Date(row.created_at).toISOString(),
+    expiresAt: new Date(row.expires_at).toISOString(),
+  };
+}
+
+/**
+ * Email an invitation link
+ */
+async function sendInvitationEmail(invitation: Invitation, token: string): Promise<void> {
+  const link = getURL(`/auth/invitation?token=${encodeURIComponent(token)}`);
+  const inviter = invitation.invitedByEmail ?? 'Someone';
+  const role = ROLE_NAMES[invitation.role];
+
+  await sendMail({
+    to: invitation.email,
+    subject: `Join ${invitation.organizationName}`,
+    text: [
+      `${inviter} invited you to join ${invitation.organizationName} as ${role}. Open the link below to accept:`,
+      '',
+      link,
+      '',
+      `The link expires in 7 days. If you do not have an account yet, sign up with ${invitation.email} first.`,
+    ].join('\n'),
+    html: `<p>${inviter} invited you to join ${invitation.organizationName} as ${role}.</p><p><a href="${link}">Accept the invitation</a></p><p>The link expires in 7 days. If you do not have an account yet, sign up with ${invitation.email} first.</p>`,
+  });
+}
+
+/**
+ * Create an organization with the user as its owner
+ * @param userId - User creating the organization
+ * @param name - Organization name
+ * @throws Error if the name is empty or too long
+ */
+export async function createOrganization(
+  userId: string,
+  name: string,
+): Promise<Organization> {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > 64) {
+    throw new Error('Organization names must be 1 to 64 characters long.');
+  }
+
+  const result = await query<{ id: string; name: string }>(
+    `WITH organization AS (
+       INSERT INTO organizations (name, created_by)
+       VALUES ($1, $2)
+       RETURNING id, name
+     ),
+     membership AS (
+       INSERT INTO memberships (organization_id, user_id, role)
+       SELECT id, $2, 'owner' FROM organization
+     )
+     SELECT id, name FROM organization`,
+    [trimmed, userId],
+  );
+
+  return { ...result.rows[0], role: 'owner', memberCount: 1 };
+}
+
+/**
+ * List the organizations a user belongs to
+ * @param userId - User ID
+ * @returns Organizations with the user's role, by name
+ */
+export async function listOrganizations(userId: string): Promise<Organization[]> {
+  const result = await query<OrganizationRow>(
+    `SELECT o.id, o.name, m.role,
+       (SELECT COUNT(*) FROM memberships c WHERE c.organization_id = o.id) AS member_count
+     FROM memberships m
+     JOIN organizations o ON o.id = m.organization_id
+     WHERE m.user_id = $1
+     ORDER BY o.name, o.id`,
+    [userId],
+  );
+
+  return result.rows.map(toOrganization);
+}
+
+/**
+ * Get an organization the user belongs to
+ * Used to check the organization selected in the switcher, which comes from
+ * a cookie and may be stale or forged.
+ * @param userId - User ID
+ * @param organizationId - Organization ID, or null for the personal account
+ * @returns The organization, or null if there is none or the user is not a member
+ */
+export async function getOrganization(
+  userId: string,
+  organizationId: string | null | undefined,
+): Promise<Organization | null> {
+  if (!organizationId || !UUID_PATTERN.test(organizationId)) {
+    return null;
+  }
+
+  const result = await query<OrganizationRow>(
+    `SELECT o.id, o.name, m.role,
+       (SELECT COUNT(*) FROM memberships c WHERE c.organization_id = o.id) AS member_count
+     FROM memberships m
+     JOIN organizations o ON o.id = m.organization_id
+     WHERE m.user_id = $1 AND o.id = $2`,
+    [userId, organizationId],
+  );
+
+  return result.rows[0] ? toOrganization(result.rows[0]) : null;
+}
+
+/**
+ * List an organization's members
+ * @param organizationId - Organization ID
+ * @returns Members, owners first, then by when they joined
+ */
+export async function listMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const result = await query<MemberRow>(
+    `SELECT m.user_id, u.email, u.full_name, m.role, m.created_at
+     FROM memberships m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.organization_id = $1
+     ORDER BY m.role = 'owner' DESC, m.role = 'billing_admin' DESC, m.created_at`,
+    [organizationId],
+  );
+
+  return result.rows.map((row) => ({
+    userId: row.user_id,
+    email: row.email,
+    fullName: row.full_name,
+    role: row.role,
+    joinedAt: new Date(row.created_at).toISOString(),
+  }));
+}
+
+/**
+ * Invite an address to an organization and email them a link
+ * An expired invitation to the same address is replaced.
+ * @param organizationId - Organization ID
+ * @param invitedBy - User sending the invitation
+ * @param email - Address to invite
+ * @param role - Role the invitee joins with
+ * @throws Error if the address is already a member or has a pending invitation
+ */
+export async function inviteMember(
+  organizationId: string,
+  invitedBy: string,
+  email: string,
+  role: OrganizationRole = 'member',
+): Promise<Invitation> {
+  const address = email.trim().toLowerCase();
+
+  const memberResult = await query(
+    `SELECT 1 FROM memberships m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.organization_id = $1 AND lower(u.email) = $2`,
+    [organizationId, address],
+  );
+  if (memberResult.rows.length > 0) {
+    throw new Error('That person is already a member.');
+  }
+
+  const { token, hash } = generateToken();
+
+  const result = await query<InvitationRow>(
+    `WITH invitation AS (
+       INSERT INTO invitations (organization_id, email, invited_by, role, token_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(secs => $6))
+       ON CONFLICT (organization_id, lower(email)) WHERE accepted_at IS NULL
+       DO UPDATE SET invited_by = EXCLUDED.invited_by, role = EXCLUDED.role,
+         token_hash = EXCLUDED.token_hash, expires_at = EXCLUDED.expires_at, created_at = NOW()
+       WHERE invitations.expires_at <= NOW()
+       RETURNING id, organization_id, email, role, created_at, expires_at
+     )
+     SELECT i.*, o.name AS organization_name, u.email AS invited_by_email
+     FROM invitation i
+     JOIN organizations o ON o.id = i.organization_id
+     LEFT JOIN users u ON u.id = $3`,
+    [organizationId, address, invitedBy, role, hash, INVITATION_EXPIRY],
+  );
+  if (result.rows.length === 0) {
+    throw new Error('That address has already been invited.');
+  }
+
+  const invitation = toInvitation(result.rows[0]);
+  await sendInvitationEmail(invitation, token);
+
+  return invitation;
+}
+
+/**
+ * Email a pending invitation again with a new link
+ * The old link stops working and the expiry starts over.
+ * @param organizationId - Organization ID
+ * @param invitationId - Invitation ID
+ * @returns False if there was no such pending invitation
+ */
+export async function resendInvitation(
+  organizationId: string,
+  invitationId: string,
+): Promise<boolean> {
+  const { token, hash } = generateToken();
+
+  const result = await query<InvitationRow>(
+    `WITH invitation AS (
+       UPDATE invitations
+       SET token_hash = $3, expires_at = NOW() + make_interval(secs => $4)
+       WHERE id = $1 AND organization_id = $2 AND accepted_at IS NULL
+       RETURNING id, organization_id, email, role, invited_by, created_at, expires_at
+     )
+     SELECT i.*, o.name AS organization_name, u.email AS invited_by_email
+     FROM invitation i
+     JOIN organizations o ON o.id = i.organization_id
+     LEFT JOIN users u ON u.id = i.invited_by`,
+    [invitationId, organizationId, hash, INVITATION_EXPIRY],
+  );
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  await sendInvitationEmail(toInvitation(result.rows[0]), token);
+
+  return true;
+}
+
+/**
+ * List an organization's pending invitations
+ * Expired ones are included so they can be sent again.
+ * @param organizationId - Organization ID
+ * @returns Invitations, newest first
+ */
+export async function listOrganizationInvitations(
+  organizationId: string,
+): Promise<Invitation[]> {
+  const result = await query<InvitationRow>(
+    `SELECT i.id, i.organization_id, i.email, i.role, i.created_at, i.expires_at,
+       o.name AS organization_name, u.email AS invited_by_email
+     FROM invitations i
+     JOIN organizations o ON o.id = i.organization_id
+     LEFT JOIN users u ON u.id = i.invited_by
+     WHERE i.organization_id = $1 AND i.accepted_at IS NULL
+     ORDER BY i.created_at DESC`,
+    [organizationId],
+  );
+
+  return result.rows.map(toInvitation);
+}
+
+/**
+ * List the unexpired invitations sent to an address
+ * @param email - The user's email
+ * @returns Invitations, newest first
+ */
+export async function listInvitationsForEmail(email: string): Promise<Invitation[]> {
+  const result = await query<InvitationRow>(
+    `SELECT i.id, i.organization_id, i.email, i.role, i.created_at, i.expires_at,
+       o.name AS organization_name, u.email AS invited_by_email
+     FROM invitations i
+     JOIN organizations o ON o.id = i.organization_id
+     LEFT JOIN users u ON u.id = i.invited_by
+     WHERE lower(i.email) = lower($1) AND i.accepted_at IS NULL AND i.expires_at > NOW()
+     ORDER BY i.created_at DESC`,
+    [email],
+  );
+
+  return result.rows.map(toInvitation);
+}
+
+/**
+ * Withdraw a pending invitation
+ * @param organizationId - Organization ID
+ * @param invitationId - Invitation ID
+ * @returns False if there was no such pending invitation
+ */
+export async function revokeInvitation(
+  organizationId: string,
+  invitationId: string,
+): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM invitations
+     WHERE id = $1 AND organization_id = $2 AND accepted_at IS NULL`,
+    [invitationId, organizationId],
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Claim a pending invitation and add the user with its role
+ * @param condition - SQL matching the invitation against $1
+ * @param value - Value for $1
+ * @param user - The signed-in user
+ * @returns ID of the organization joined, or null if nothing matched
+ */
+async function joinOrganization(
+  condition: string,
+  value: string,
+  user: { id: string; email: string },
+): Promise<string | null> {
+  const result = await query<{ organization_id: string }>(
+    `WITH accepted AS (
+       UPDATE invitations
+       SET accepted_at = NOW()
+       WHERE ${condition} AND lower(email) = lower($2)
+         AND accepted_at IS NULL AND expires_at > NOW()
+       RETURNING organization_id, role
+     ),
+     joined AS (
+       INSERT INTO memberships (organization_id, user_id, role)
+       SELECT organization_id, $3, role FROM accepted
+       ON CONFLICT (organization_id, user_id) DO NOTHING
+     )
+     SELECT organization_id FROM accepted`,
+    [value, user.email, user.id],
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const organizationId = result.rows[0].organization_id;
+  invalidateEntitlements(user.id);
+  await syncSeatsAfterChange(organizationId);
+
+  return organizationId;
+}
+
+/**
+ * Join an organization from the invitations on the account page
+ * The email must be verified, or anyone could sign up with the invited
+ * address and take the seat.
+ * @param invitationId - Invitation ID
+ * @param user - The signed-in user
+ * @returns ID of the organization joined
+ * @throws Error if the email is unverified or the invitation is not pending
+ *   for the user's email
+ */
+export async function acceptInvitation(
+  invitationId: string,
+  user: { id: string; email: string },
+): Promise<string> {
+  if (!(await isEmailVerified(user.id))) {
+    throw new Error('Please verify your email address before joining an organization.');
+  }
+
+  const organizationId = await joinOrganization('id = $1', invitationId, user);
+  if (!organizationId) {
+    throw new Error('This invitation is no longer valid.');
+  }
+
+  return organizationId;
+}
+
+/**
+ * Join an organization through an emailed invitation link
+ * Following the link proves the user reads the invited address, so an
+ * unverified email is fine here.
+ * @param token - Token from the invitation link
+ * @param user - The signed-in user
+ * @returns ID of the organization joined
+ * @throws Error if the token is unknown, used or expired, or was sent to
+ *   another address
+ */
+export async function acceptInvitationToken(
+  token: string,
+  user: { id: string; email: string },
+): Promise<string> {
+  const organizationId = token
+    ? await joinOrganization('token_hash = $1', hashToken(token), user)
+    : null;
+
+  if (!organizationId) {
+    throw new Error(
+      'This invitation has expired, has already been used, or was sent to a different email address.',
+    );
+  }
+
+  return organizationId;
+}
+
+/**
+ * Decline an invitation sent to the user's email
+ * @returns False if there was no such pending invitation
+ */
+export async function declineInvitation(
+  invitationId: string,
+  email: string,
+): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM invitations
+     WHERE id = $1 AND lower(email) = lower($2) AND accepted_at IS NULL`,
+    [invitationId, email],
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Throw the reason a membership change matched no row
+ */
+async function throwMembershipError(organizationId: string, memberId: string): Promise<never> {
+  const member = await getOrganization(memberId, organizationId);
+  throw new Error(
+    member
+      ? 'An organization needs at least one owner.'
+      : 'That person is not a member.',
+  );
+}
+
+/**
+ * Remove a member, or leave an organization
+ * The last owner cannot leave, so an organization always has someone to
+ * manage it.
+ * @param organizationId - Organization ID
+ * @param memberId - Member to remove
+ * @throws Error if they are not a member or are the last owner
+ */
+export async function removeMember(
+  organizationId: string,
+  memberId: string,
+): Promise<void> {
+  const result = await query(
+    `DELETE FROM memberships
+     WHERE organization_id = $1 AND user_id = $2
+       AND (role <> 'owner' OR EXISTS (
+         SELECT 1 FROM memberships o
+         WHERE o.organization_id = $1 AND o.role = 'owner' AND o.user_id <> $2
+       ))
+     RETURNING user_id`,
+    [organizationId, memberId],
+  );
+
+  if (result.rows.length === 0) {
+    await throwMembershipError(organizationId, memberId);
+  }
+
+  invalidateEntitlements(memberId);
+  await syncSeatsAfterChange(organizationId);
+}
+
+/**
+ * Change a member's role
+ * The last owner cannot be demoted.
+ * @param organizationId - Organization ID
+ * @param memberId - Member to change
+ * @param role - New role
+ * @throws Error if they are not a member or are the last owner
+ */
+export async function updateMemberRole(
+  organizationId: string,
+  memberId: string,
+  role: OrganizationRole,
+): Promise<void> {
+  const result = await query(
+    `UPDATE memberships
+     SET role = $3
+     WHERE organization_id = $1 AND user_id = $2
+       AND ($3 = 'owner' OR role <> 'owner' OR EXISTS (
+         SELECT 1 FROM memberships o
+         WHERE o.organization_id = $1 AND o.role = 'owner' AND o.user_id <> $2
+       ))
+     RETURNING user_id`,
+    [organizationId, memberId, role],
+  );
+
+  if (result.rows.length === 0) {
+    await throwMembershipError(organizationId, memberId);
+  }
+}
+
+/**
+ * Count an organization's seats
+ * @returns One seat per member
+ */
+export async function getSeatCount(organizationId: string): Promise<number> {
+  const result = await query<{ seats: string }>(
+    'SELECT COUNT(*) AS seats FROM memberships WHERE organization_id = $1',
+    [organizationId],
+  );
+
+  return Number(result.rows[0]?.seats ?? 0);
+}
+
+/**
+ * Set the organization's subscription quantity to its member count
+ * Stripe prorates the change. The local row is updated straight away so the
+ * account page shows the new seat count before the webhook arrives.
+ * @param organizationId - Organization ID
+ * @returns The seat count, or null without a billed subscription
+ */
+export async function syncSeatQuantity(organizationId: string): Promise<number | null> {
+  const result = await query<{ id: string; quantity: number | null; seats: string }>(
+    `SELECT s.id, s.quantity,
+       (SELECT COUNT(*) FROM memberships m WHERE m.organization_id = $1) AS seats
+     FROM subscriptions s
+     WHERE s.organization_id = $1 AND s.status = ANY($2::subscription_status[])
+     ORDER BY s.created DESC
+     LIMIT 1`,
+    [organizationId, BILLED_STATUSES],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const seats = Math.max(Number(row.seats), 1);
+  if (seats === row.quantity) {
+    return seats;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(row.id);
+  await stripe.subscriptions.update(row.id, {
+    items: [{ id: subscription.items.data[0].id, quantity: seats }],
+    proration_behavior: 'create_prorations',
+  });
+
+  await query(
+    'UPDATE subscriptions SET quantity = $1, updated_at = NOW() WHERE id = $2',
+    [seats, row.id],
+  );
+
+  return seats;
+}
+
+/**
+ * Sync seats after a membership change that has already been saved
+ * A Stripe outage should not undo the change; the next one syncs again.
+ */
+async function syncSeatsAfterChange(organizationId: string): Promise<void> {
+  try {
+    await syncSeatQuantity(organizationId);
+  } catch (error) {
+    console.error('Error syncing organization seats:', error);
+  }
+}
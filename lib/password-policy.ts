@@ -0,0 +1,302 @@
+import { createHash } from 'crypto';
+import { open } from 'fs/promises';
+import path from 'path';
+import { estimatePasswordStrength, type PasswordScore } from './password-strength';
+
+/**
+ * Password policy
+ *
+ * Every new password (sign-up, reset and change) must be long enough, score
+ * well enough on the strength estimate, and not appear in the breached
+ * password corpus. The corpus is the Pwned Passwords SHA-1 list ordered by
+ * hash ("HASH:COUNT" per line); it is searched the same way the Pwned
+ * Passwords range API works, by the first five characters of the hash, so it
+ * can be swapped for the API without changing callers.
+ *
+ * In production a corpus that cannot be read rejects the password rather than
+ * skipping the check, so a deployment missing the file is noticed.
+ */
+
+export interface PasswordPolicy {
+  /** Shortest password accepted */
+  minLength: number;
+  /** Longest password accepted, in bytes; at most 72, as bcrypt ignores the rest */
+  maxLength: number;
+  /** Lowest strength score accepted, from 0 (anything) to 4 */
+  minScore: PasswordScore;
+  /** Breached password corpus, or null to skip the check */
+  breachedPasswordsFile: string | null;
+}
+
+export type PasswordViolationCode =
+  | 'too_short'
+  | 'too_long'
+  | 'too_weak'
+  | 'breached'
+  | 'breach_check_failed';
+
+export interface PasswordViolation {
+  code: PasswordViolationCode;
+  message: string;
+}
+
+export interface PasswordCheckResult {
+  valid: boolean;
+  score: PasswordScore;
+  violations: PasswordViolation[];
+}
+
+/**
+ * A new password that breaks the policy
+ * The message lists every violation, ready to show to the user.
+ */
+export class PasswordPolicyError extends Error {
+  violations: PasswordViolation[];
+
+  constructor(violations: PasswordViolation[]) {
+    super(violations.map((violation) => violation.message).join(' '));
+    this.name = 'PasswordPolicyError';
+    this.violations = violations;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, PasswordPolicyError.prototype);
+  }
+}
+
+/** Length of the hash prefix a range lookup reveals */
+const RANGE_PREFIX_LENGTH = 5;
+
+/** Longest password bcrypt can hash; it ignores every byte past this */
+const BCRYPT_MAX_BYTES = 72;
+
+/**
+ * Read a whole-number setting from the environment
+ * Fractions are rounded down; unset or non-numeric values use the fallback.
+ */
+function readIntegerSetting(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+
+  return process.env[name] && Number.isFinite(value)
+    ? Math.floor(value)
+    : fallback;
+}
+
+/**
+ * Get the password policy
+ * Configured with PASSWORD_MIN_LENGTH, PASSWORD_MAX_LENGTH,
+ * PASSWORD_MIN_SCORE and BREACHED_PASSWORDS_FILE (set it empty to skip the
+ * breach check). The maximum is capped at bcrypt's 72 bytes and the minimum
+ * kept between 1 and the maximum; a score outside 0-4 uses the default.
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  const maxLength = Math.min(
+    Math.max(readIntegerSetting('PASSWORD_MAX_LENGTH', BCRYPT_MAX_BYTES), 1),
+    BCRYPT_MAX_BYTES,
+  );
+  const minLength = Math.min(
+    Math.max(readIntegerSetting('PASSWORD_MIN_LENGTH', 8), 1),
+    maxLength,
+  );
+  const minScore = readIntegerSetting('PASSWORD_MIN_SCORE', 2);
+  const breachedPasswordsFile =
+    process.env.BREACHED_PASSWORDS_FILE ?? 'data/breached-passwords.txt';
+
+  return {
+    minLength,
+    maxLength,
+    minScore: (minScore >= 0 && minScore <= 4 ? minScore : 2) as PasswordScore,
+    breachedPasswordsFile: breachedPasswordsFile
+      ? path.resolve(process.cwd(), breachedPasswordsFile)
+      : null,
+  };
+}
+
+/**
+ * Find the first line starting at or after a byte offset
+ */
+async function lineStartAfter(
+  file: Awaited<ReturnType<typeof open>>,
+  offset: number,
+  size: number,
+): Promise<number> {
+  if (offset === 0) {
+    return 0;
+  }
+
+  const buffer = Buffer.alloc(128);
+  for (let position = offset - 1; position < size; position += buffer.length) {
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+    const newline = buffer.subarray(0, bytesRead).indexOf(10);
+    if (newline !== -1) {
+      return position + newline + 1;
+    }
+  }
+
+  return size;
+}
+
+/**
+ * Read the hash prefix of the line starting at an offset
+ */
+async function readPrefix(
+  file: Awaited<ReturnType<typeof open>>,
+  offset: number,
+): Promise<string> {
+  const buffer = Buffer.alloc(RANGE_PREFIX_LENGTH);
+  const { bytesRead } = await file.read(buffer, 0, buffer.length, offset);
+  return buffer.toString('utf8', 0, bytesRead).toUpperCase();
+}
+
+/**
+ * Look up a range of the breached password corpus
+ * Binary searches the file for the first line with the prefix, so the
+ * full multi-gigabyte list works without loading it.
+ * @param file - Corpus path
+ * @param prefix - First five hex characters of a SHA-1 hash
+ * @returns Hash suffixes in the range, with how often each was seen
+ */
+export async function findBreachedRange(
+  file: string,
+  prefix: string,
+): Promise<Map<string, number>> {
+  const range = new Map<string, number>();
+  const handle = await open(file, 'r');
+
+  try {
+    const { size } = await handle.stat();
+    const target = prefix.toUpperCase();
+
+    // Smallest offset whose next line sorts at or after the prefix
+    let low = 0;
+    let high = size;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const start = await lineStartAfter(handle, middle, size);
+      if (start < size && (await readPrefix(handle, start)) < target) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    // Read lines until the prefix changes
+    let position = await lineStartAfter(handle, low, size);
+    let pending = '';
+    const buffer = Buffer.alloc(64 * 1024);
+
+    while (position < size) {
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      position += bytesRead;
+      const lines = (pending + buffer.toString('utf8', 0, bytesRead)).split('\n');
+      pending = position < size ? lines.pop() ?? '' : '';
+
+      for (const line of lines) {
+        const [hash, count] = line.trim().toUpperCase().split(':');
+        if (!hash) {
+          continue;
+        }
+        if (!hash.startsWith(target)) {
+          return range;
+        }
+        range.set(hash.slice(RANGE_PREFIX_LENGTH), Number(count) || 1);
+      }
+    }
+
+    return range;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Check whether a password appears in the breached password corpus
+ * Only the hash prefix is used to search, as with the range API.
+ * @returns How often the password was seen in breaches, or 0
+ */
+export async function getBreachCount(password: string, file: string): Promise<number> {
+  const hash = createHash('sha1').update(password).digest('hex').toUpperCase();
+  const range = await findBreachedRange(file, hash.slice(0, RANGE_PREFIX_LENGTH));
+
+  return range.get(hash.slice(RANGE_PREFIX_LENGTH)) ?? 0;
+}
+
+/**
+ * Check a new password against the policy
+ * @param password - Password to check
+ * @param userInputs - The user's email and name, which make weak passwords
+ * @param policy - Policy to apply
+ */
+export async function checkPassword(
+  password: string,
+  userInputs: Array<string | null | undefined> = [],
+  policy: PasswordPolicy = getPasswordPolicy(),
+): Promise<PasswordCheckResult> {
+  const violations: PasswordViolation[] = [];
+
+  if (!password || password.length < policy.minLength) {
+    violations.push({
+      code: 'too_short',
+      message: `Password must be at least ${policy.minLength} characters long.`,
+    });
+  }
+  if (Buffer.byteLength(password ?? '') > policy.maxLength) {
+    violations.push({
+      code: 'too_long',
+      message:
+        `Password must be at most ${policy.maxLength} bytes long. ` +
+        'Accented letters and emoji take up more than one.',
+    });
+  }
+
+  const strength = estimatePasswordStrength(password ?? '', userInputs);
+  if (strength.score < policy.minScore) {
+    violations.push({
+      code: 'too_weak',
+      message: [
+        'Password is too easy to guess.',
+        strength.feedback.warning,
+        ...strength.feedback.suggestions,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    });
+  }
+
+  // Outside production a missing or unreadable corpus skips the check
+  if (password && policy.breachedPasswordsFile) {
+    try {
+      if ((await getBreachCount(password, policy.breachedPasswordsFile)) > 0) {
+        violations.push({
+          code: 'breached',
+          message: 'This password has appeared in a data breach. Please choose a different one.',
+        });
+      }
+    } catch (error) {
+      console.error('Error checking breached passwords:', error);
+      if (process.env.NODE_ENV === 'production') {
+        violations.push({
+          code: 'breach_check_failed',
+          message: 'This password could not be checked right now. Please try again later.',
+        });
+      }
+    }
+  }
+
+  return { valid: violations.length === 0, score: strength.score, violations };
+}
+
+/**
+ * Require a new password to meet the policy
+ * @param password - Password to check
+ * @param userInputs - The user's email and name
+ * @throws PasswordPolicyError listing every violation
+ */
+export async function assertPasswordAllowed(
+  password: string,
+  userInputs: Array<string | null | undefined> = [],
+): Promise<void> {
+  const result = await checkPassword(password, userInputs);
+
+  if (!result.valid) {
+    throw new PasswordPolicyError(result.violations);
+  }
+}
@@ -0,0 +1,128 @@
+import { getURL } from '@/utils/helpers';
+import { setPassword } from './auth';
+import { sendMail } from './mailer';
+import { assertPasswordAllowed } from './password-policy';
+import { generateToken, hashToken } from './tokens';
+import { query } from './zerodb';
+
+/** Password reset link lifetime in seconds (1 hour) */
+export const PASSWORD_RESET_EXPIRY = 60 * 60;
+
+/**
+ * Email a password reset link
+ * Unknown addresses are ignored without an error, so the response does
+ * not reveal which emails have accounts.
+ * @param email - Address entered on the forgot password form
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const result = await query(
+    'SELECT id, email FROM users WHERE email = $1',
+    [email]
+  );
+
+  const user = result.rows[0];
+  if (!user) {
+    return;
+  }
+
+  const { token, hash } = generateToken();
+
+  await query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(secs => $3))`,
+    [user.id, hash, PASSWORD_RESET_EXPIRY]
+  );
+
+  const link = getURL(`/auth/reset_password?token=${encodeURIComponent(token)}`);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      'Someone asked to reset the password for your account. Open the link below to choose a new one:',
+      '',
+      link,
+      '',
+      'The link expires in 1 hour and can be used once. If you did not ask for this, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Someone asked to reset the password for your account.</p><p><a href="${link}">Choose a new password</a></p><p>The link expires in 1 hour and can be used once. If you did not ask for this, you can ignore this email.</p>`,
+  });
+}
+
+/**
+ * Check a reset link before showing the new-password form
+ * Does not consume the token.
+ * @param token - Token from the reset link
+ * @returns True if the token is unused and unexpired
+ */
+export async function isPasswordResetTokenValid(token: string): Promise<boolean> {
+  if (!token) {
+    return false;
+  }
+
+  const result = await query(
+    `SELECT 1 FROM password_reset_tokens
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()`,
+    [hashToken(token)]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Set a new password with a reset token
+ * The token is claimed atomically along with any other outstanding reset
+ * links for the user, then every session is signed out.
+ * @param token - Token from the reset link
+ * @param password - New password
+ * @returns ID of the user whose password was reset
+ * @throws PasswordPolicyError if the password breaks the password policy
+ * @throws Error if the token is unknown, used or expired
+ */
+export async function resetPassword(token: string, password: string): Promise<string> {
+  if (!token) {
+    throw new Error('Invalid or expired reset link');
+  }
+
+  // Check the password before claiming the token, so a rejected one
+  // leaves the link usable
+  const pending = await query(
+    `SELECT u.email, u.full_name
+     FROM password_reset_tokens t
+     JOIN users u ON u.id = t.user_id
+     WHERE t.token_hash = $1 AND t.used_at IS NULL AND t.expires_at > NOW()`,
+    [hashToken(token)]
+  );
+
+  if (pending.rows.length === 0) {
+    throw new Error('Invalid or expired reset link');
+  }
+
+  await assertPasswordAllowed(password, [pending.rows[0].email, pending.rows[0].full_name]);
+
+  const result = await query(
+    `WITH claimed AS (
+       UPDATE password_reset_tokens
+       SET used_at = NOW()
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id
+     ),
+     superseded AS (
+       UPDATE password_reset_tokens t
+       SET used_at = NOW()
+       FROM claimed
+       WHERE t.user_id = claimed.user_id AND t.used_at IS NULL AND t.token_hash <> $1
+     )
+     SELECT user_id FROM claimed`,
+    [hashToken(token)]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('Invalid or expired reset link');
+  }
+
+  const userId = result.rows[0].user_id;
+  await setPassword(userId, password);
+
+  return userId;
+}
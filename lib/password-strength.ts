@@ -0,0 +1,375 @@
+/**
+ * Password strength estimation
+ *
+ * A small take on zxcvbn: the password is split into the cheapest sequence
+ * of guessable patterns (common passwords and words, the user's own details,
+ * sequences, repeats, keyboard rows, years), with anything else guessed by
+ * brute force. The estimated number of guesses maps to zxcvbn's 0-4 score.
+ */
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  /** log10 of the estimated guesses needed */
+  guessesLog10: number;
+  feedback: {
+    warning: string | null;
+    suggestions: string[];
+  };
+}
+
+type PatternKind = 'dictionary' | 'user_input' | 'sequence' | 'repeat' | 'keyboard' | 'year';
+
+interface PatternMatch {
+  kind: PatternKind;
+  start: number;
+  /** Index just past the match */
+  end: number;
+  guessesLog10: number;
+  /** Dictionary rank, for feedback */
+  rank?: number;
+}
+
+/** Guesses per character for anything no pattern covers */
+const BRUTEFORCE_CARDINALITY = 10;
+
+/** Minimum guesses for the upper end of each score, as log10 (zxcvbn's thresholds) */
+const SCORE_THRESHOLDS = [3, 6, 8, 10];
+
+/**
+ * Most common passwords and password words, most common first
+ */
+const COMMON_PASSWORDS = [
+  'password', '123456', '12345678', 'qwerty', '123456789', '12345', '1234', '111111',
+  '1234567', 'dragon', '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein',
+  '696969', 'shadow', 'master', '666666', 'qwertyuiop', '123321', 'mustang', '1234567890',
+  'michael', '654321', 'superman', '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx',
+  '123qwe', 'killer', 'trustno1', 'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter',
+  'buster', 'soccer', 'harley', 'batman', 'andrew', 'tigger', 'sunshine', 'iloveyou',
+  'fuckme', '2000', 'charlie', 'robert', 'thomas', 'hockey', 'ranger', 'daniel',
+  'starwars', 'klaster', '112233', 'george', 'asshole', 'computer', 'michelle', 'jessica',
+  'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom', '777777',
+  'pass', 'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese',
+  'amanda', 'summer', 'love', 'ashley', '6969', 'nicole', 'chelsea', 'biteme',
+  'matthew', 'access', 'yankees', '987654321', 'dallas', 'austin', 'thunder', 'taylor',
+  'matrix', 'welcome', 'admin', 'login', 'passw0rd', 'hello', 'whatever', 'secret',
+  'winter', 'spring', 'autumn', 'monday', 'friday', 'orange', 'banana', 'apple',
+  'chocolate', 'flower', 'purple', 'silver', 'golden', 'diamond', 'angel', 'baby',
+  'family', 'forever', 'lovely', 'money', 'music', 'cookie', 'butterfly', 'rainbow',
+  'tiger', 'lion', 'eagle', 'falcon', 'phoenix', 'wizard', 'ninja', 'pokemon',
+  'google', 'facebook', 'internet', 'server', 'changeme', 'default', 'guest', 'test',
+  'temp', 'qwerty123', 'password1', 'welcome1', 'letmein1', 'iloveu', 'mypassword',
+];
+
+const RANKED_DICTIONARY = new Map(COMMON_PASSWORDS.map((word, index) => [word, index + 1]));
+
+/** Common character substitutions, undone before dictionary lookups */
+const L33T_TABLE: Record<string, string> = {
+  '4': 'a',
+  '@': 'a',
+  '8': 'b',
+  '(': 'c',
+  '3': 'e',
+  '6': 'g',
+  '1': 'i',
+  '!': 'i',
+  '|': 'l',
+  '0': 'o',
+  '$': 's',
+  '5': 's',
+  '7': 't',
+  '+': 't',
+  '2': 'z',
+};
+
+const KEYBOARD_ROWS = [
+  'qwertyuiop',
+  'asdfghjkl',
+  'zxcvbnm',
+  '1234567890',
+  '!@#$%^&*()',
+  'qazwsxedcrfvtgbyhnujmikolp',
+];
+
+/**
+ * Extra guesses needed for capital letters in a dictionary word
+ */
+function uppercaseVariations(token: string): number {
+  if (token === token.toLowerCase()) {
+    return 1;
+  }
+  // Capitalized or all caps are the first things tried
+  if (/^[A-Z][^A-Z]*$/.test(token) || token === token.toUpperCase()) {
+    return 2;
+  }
+
+  const upper = token.replace(/[^A-Z]/g, '').length;
+  const lower = token.replace(/[^a-z]/g, '').length;
+  return 2 ** Math.min(upper, lower);
+}
+
+function dictionaryMatches(password: string, userInputs: Map<string, number>): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const unleet = lower.replace(/./g, (char) => L33T_TABLE[char] ?? char);
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + 3; end <= password.length; end++) {
+      const token = password.slice(start, end);
+      const variations = uppercaseVariations(token);
+      const candidates: Array<[string, number]> = [
+        [lower.slice(start, end), 1],
+        // Reversed words take one more guess each
+        [lower.slice(start, end).split('').reverse().join(''), 2],
+      ];
+
+      const substituted = unleet.slice(start, end);
+      if (substituted !== lower.slice(start, end)) {
+        const substitutions = substituted
+          .split('')
+          .filter((char, i) => char !== lower[start + i]).length;
+        candidates.push([substituted, 2 ** substitutions]);
+      }
+
+      candidates.forEach(([word, factor]) => {
+        const userRank = userInputs.get(word);
+        const rank = userRank ?? RANKED_DICTIONARY.get(word);
+        if (rank === undefined) {
+          return;
+        }
+        matches.push({
+          kind: userRank !== undefined ? 'user_input' : 'dictionary',
+          start,
+          end,
+          guessesLog10: Math.log10(Math.max(rank * variations * factor, 1)),
+          rank,
+        });
+      });
+    }
+  }
+
+  return matches;
+}
+
+function sequenceMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const sameClass = (a: string, b: string) =>
+    (/\d/.test(a) && /\d/.test(b)) || (/[a-z]/.test(a) && /[a-z]/.test(b));
+
+  let start = 0;
+  while (start < lower.length - 2) {
+    const delta = lower.charCodeAt(start + 1) - lower.charCodeAt(start);
+    let end = start + 1;
+
+    if (Math.abs(delta) === 1) {
+      while (
+        end < lower.length &&
+        lower.charCodeAt(end) - lower.charCodeAt(end - 1) === delta &&
+        sameClass(lower[end], lower[end - 1])
+      ) {
+        end++;
+      }
+    }
+
+    if (end - start >= 3) {
+      // Sequences starting at an obvious place are tried first
+      const first = lower[start];
+      const base = 'az019'.includes(first) ? 4 : /\d/.test(first) ? 10 : 26;
+      matches.push({
+        kind: 'sequence',
+        start,
+        end,
+        guessesLog10: Math.log10(base * (end - start) * (delta < 0 ? 2 : 1)),
+      });
+      start = end - 1;
+    } else {
+      start++;
+    }
+  }
+
+  return matches;
+}
+
+function repeatMatches(password: string, userInputs: Map<string, number>): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const pattern = /(.+?)\1+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(password)) !== null) {
+    const [repeated, unit] = match;
+    if (repeated.length < 3) {
+      pattern.lastIndex = match.index + 1;
+      continue;
+    }
+
+    const count = repeated.length / unit.length;
+    matches.push({
+      kind: 'repeat',
+      start: match.index,
+      end: match.index + repeated.length,
+      guessesLog10: estimateGuessesLog10(unit, userInputs) + Math.log10(count),
+    });
+  }
+
+  return matches;
+}
+
+function keyboardMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  for (let start = 0; start < lower.length; start++) {
+    for (let end = start + 4; end <= lower.length; end++) {
+      const token = lower.slice(start, end);
+      const reversed = token.split('').reverse().join('');
+      if (KEYBOARD_ROWS.some((row) => row.includes(token) || row.includes(reversed))) {
+        matches.push({
+          kind: 'keyboard',
+          start,
+          end,
+          guessesLog10: Math.log10(20 * token.length),
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+function yearMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const pattern = /(?:19|20)\d\d/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(password)) !== null) {
+    matches.push({
+      kind: 'year',
+      start: match.index,
+      end: match.index + 4,
+      guessesLog10: Math.log10(100),
+    });
+    pattern.lastIndex = match.index + 1;
+  }
+
+  return matches;
+}
+
+/**
+ * Find the cheapest way to guess a password
+ * @returns Guesses as log10, and the patterns the cheapest guess uses
+ */
+function findCheapestGuess(
+  password: string,
+  userInputs: Map<string, number>,
+): { guessesLog10: number; patterns: PatternMatch[] } {
+  const matches = [
+    ...dictionaryMatches(password, userInputs),
+    ...sequenceMatches(password),
+    ...repeatMatches(password, userInputs),
+    ...keyboardMatches(password),
+    ...yearMatches(password),
+  ];
+
+  // best[i] is the cheapest guess for the first i characters
+  const best: Array<{ guessesLog10: number; match: PatternMatch | null }> = [
+    { guessesLog10: 0, match: null },
+  ];
+  const bruteforceLog10 = Math.log10(BRUTEFORCE_CARDINALITY);
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { guessesLog10: best[end - 1].guessesLog10 + bruteforceLog10, match: null };
+
+    matches
+      .filter((match) => match.end === end)
+      .forEach((match) => {
+        const guessesLog10 = best[match.start].guessesLog10 + match.guessesLog10;
+        if (guessesLog10 < best[end].guessesLog10) {
+          best[end] = { guessesLog10, match };
+        }
+      });
+  }
+
+  const patterns: PatternMatch[] = [];
+  for (let end = password.length; end > 0; ) {
+    const { match } = best[end];
+    if (match) {
+      patterns.unshift(match);
+      end = match.start;
+    } else {
+      end--;
+    }
+  }
+
+  return { guessesLog10: best[password.length].guessesLog10, patterns };
+}
+
+function estimateGuessesLog10(password: string, userInputs: Map<string, number>): number {
+  return findCheapestGuess(password, userInputs).guessesLog10;
+}
+
+function getWarning(patterns: PatternMatch[]): string | null {
+  const kinds = new Set(patterns.map((pattern) => pattern.kind));
+
+  if (kinds.has('user_input')) {
+    return 'Avoid using your name or email address.';
+  }
+  if (kinds.has('dictionary')) {
+    const topRanked = patterns.some(
+      (pattern) => pattern.kind === 'dictionary' && (pattern.rank ?? Infinity) <= 20
+    );
+    return topRanked
+      ? 'This is one of the most common passwords.'
+      : 'This is similar to a commonly used password.';
+  }
+  if (kinds.has('keyboard')) {
+    return 'Straight rows of keys are easy to guess.';
+  }
+  if (kinds.has('sequence')) {
+    return 'Sequences like abc or 6543 are easy to guess.';
+  }
+  if (kinds.has('repeat')) {
+    return 'Repeats like "aaa" or "abcabc" are easy to guess.';
+  }
+  if (kinds.has('year')) {
+    return 'Years are easy to guess.';
+  }
+
+  return null;
+}
+
+/**
+ * Estimate how hard a password is to guess
+ * @param password - Password to check
+ * @param userInputs - The user's own details (email, name), which count as
+ *   the first words an attacker would try
+ */
+export function estimatePasswordStrength(
+  password: string,
+  userInputs: Array<string | null | undefined> = [],
+): PasswordStrength {
+  // Emails are split so "jane" in jane.doe@example.com counts too
+  const inputs = new Map<string, number>();
+  userInputs
+    .flatMap((input) => (input ? input.toLowerCase().split(/[^a-z0-9]+/) : []))
+    .filter((word) => word.length >= 3)
+    .forEach((word) => inputs.set(word, 1));
+
+  const { guessesLog10, patterns } = findCheapestGuess(password, inputs);
+  const score = SCORE_THRESHOLDS.filter((threshold) => guessesLog10 >= threshold)
+    .length as PasswordScore;
+
+  if (score >= 3) {
+    return { score, guessesLog10, feedback: { warning: null, suggestions: [] } };
+  }
+
+  return {
+    score,
+    guessesLog10,
+    feedback: {
+      warning: getWarning(patterns),
+      suggestions: ['Add another word or two. Uncommon words are better.'],
+    },
+  };
+}
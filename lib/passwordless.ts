@@ -0,0 +1,165 @@
+import { getURL } from '@/utils/helpers';
+import { sendMail } from './mailer';
+import { generateCode, generateToken, hashToken } from './tokens';
+import { query } from './zerodb';
+
+/**
+ * Passwordless sign-in tokens
+ *
+ * Each request emails a magic link and a 6-digit code; either one signs in
+ * once. Opening the link only checks it; the link is used up when the
+ * visitor confirms on the page it leads to, so mail scanners that follow
+ * links cannot spend it. Requesting a new email voids the previous link and
+ * code. Tokens are
+ * keyed by email rather than user so requests for unknown addresses are
+ * rate limited the same way as real ones.
+ */
+
+/** Sign-in link and code lifetime in seconds (10 minutes) */
+export const ONE_TIME_TOKEN_EXPIRY = 10 * 60;
+
+/** Sign-in emails allowed per address within the rate limit window */
+export const EMAIL_SIGN_IN_LIMIT = 5;
+
+/** Rate limit window in seconds (15 minutes) */
+export const EMAIL_SIGN_IN_WINDOW = 15 * 60;
+
+/** Wrong codes allowed before the code stops working */
+export const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Hash a sign-in code, salted with its email
+ */
+function hashCode(email: string, code: string): string {
+  return hashToken(`${email.toLowerCase()}:${code}`);
+}
+
+/**
+ * Email a magic link and sign-in code
+ * Unknown addresses get no email but count toward the rate limit, so the
+ * response does not reveal which emails have accounts.
+ * @param email - Address entered on the sign-in form
+ * @throws Error if too many sign-in emails were requested for the address
+ */
+export async function requestEmailSignIn(email: string): Promise<void> {
+  const recent = await query(
+    `SELECT COUNT(*)::int AS count FROM one_time_tokens
+     WHERE email = $1 AND created_at > NOW() - make_interval(secs => $2)`,
+    [email, EMAIL_SIGN_IN_WINDOW]
+  );
+
+  if (recent.rows[0].count >= EMAIL_SIGN_IN_LIMIT) {
+    throw new Error('Too many sign-in emails requested. Please try again later.');
+  }
+
+  // Only the newest link and code for an address work
+  await query(
+    `UPDATE one_time_tokens SET used_at = NOW()
+     WHERE email = $1 AND used_at IS NULL`,
+    [email]
+  );
+
+  const { token, hash } = generateToken();
+  const code = generateCode();
+
+  await query(
+    `INSERT INTO one_time_tokens (email, token_hash, code_hash, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(secs => $4))`,
+    [email, hash, hashCode(email, code), ONE_TIME_TOKEN_EXPIRY]
+  );
+
+  const user = await query('SELECT id FROM users WHERE email = $1', [email]);
+  if (user.rows.length === 0) {
+    return;
+  }
+
+  const link = getURL(`/auth/callback?token=${encodeURIComponent(token)}`);
+
+  await sendMail({
+    to: email,
+    subject: `Your sign-in code is ${code}`,
+    text: [
+      `Your sign-in code is ${code}.`,
+      '',
+      'Or sign in with this link:',
+      link,
+      '',
+      'The code and link expire in 10 minutes and work once. If you did not try to sign in, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>Your sign-in code is <strong>${code}</strong>.</p><p>Or <a href="${link}">sign in with this link</a>.</p><p>The code and link expire in 10 minutes and work once. If you did not try to sign in, you can ignore this email.</p>`,
+  });
+}
+
+/**
+ * Check a magic link without using it up
+ * @param token - Token from the emailed link
+ * @returns True if the link is unused and unexpired
+ */
+export async function isMagicLinkValid(token: string): Promise<boolean> {
+  if (!token) {
+    return false;
+  }
+
+  const result = await query(
+    `SELECT 1 FROM one_time_tokens
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()`,
+    [hashToken(token)]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Use up a magic link
+ * @param token - Token from the emailed link
+ * @returns Email the link was sent to
+ * @throws Error if the link is unknown, used or expired
+ */
+export async function consumeMagicLink(token: string): Promise<string> {
+  if (!token) {
+    throw new Error('Invalid or expired sign-in link');
+  }
+
+  const result = await query(
+    `UPDATE one_time_tokens SET used_at = NOW()
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING email`,
+    [hashToken(token)]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('Invalid or expired sign-in link');
+  }
+
+  return result.rows[0].email;
+}
+
+/**
+ * Use up a sign-in code
+ * Each wrong guess counts against the address's current code, which stops
+ * working after MAX_CODE_ATTEMPTS.
+ * @param email - Address the code was sent to
+ * @param code - 6-digit code from the email
+ * @throws Error if the code is wrong, used, expired or out of attempts
+ */
+export async function consumeSignInCode(email: string, code: string): Promise<void> {
+  const result = await query(
+    `UPDATE one_time_tokens SET used_at = NOW()
+     WHERE email = $1 AND code_hash = $2 AND used_at IS NULL
+       AND expires_at > NOW() AND attempts < $3
+     RETURNING id`,
+    [email, hashCode(email, code), MAX_CODE_ATTEMPTS]
+  );
+
+  if (result.rows.length > 0) {
+    return;
+  }
+
+  await query(
+    `UPDATE one_time_tokens SET attempts = attempts + 1
+     WHERE email = $1 AND used_at IS NULL AND expires_at > NOW()`,
+    [email]
+  );
+
+  throw new Error('Invalid or expired sign-in code');
+}
@@ -0,0 +1,338 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe/config';
+import { Tables } from '@/types_db';
+import { invalidateSubscriberEntitlements } from './stripe-sync';
+import { query } from './zerodb';
+
+/**
+ * Plan changes
+ *
+ * Switching plans inside the app rather than the billing portal. Upgrades
+ * apply straight away and invoice the prorated difference; downgrades wait
+ * for the end of the paid period through a subscription schedule, so nobody
+ * loses what they paid for. A price is an upgrade when it costs more per
+ * month, whatever its interval.
+ */
+
+type Price = Tables<'prices'>;
+
+export type PlanChangeTiming = 'immediate' | 'period_end';
+
+/**
+ * The subscription a plan change, cancellation, pause or resume applies to
+ */
+export interface CurrentSubscription {
+  id: string;
+  status: Tables<'subscriptions'>['status'];
+  cancelAtPeriodEnd: boolean;
+  priceId: string;
+  quantity: number;
+  /** Unix seconds */
+  currentPeriodEnd: number;
+  unitAmount: number;
+  currency: string;
+  interval: Price['interval'];
+  intervalCount: number;
+  userId: string;
+  organizationId: string | null;
+}
+
+export interface PlanChangePreview {
+  timing: PlanChangeTiming;
+  /** Prorated amount invoiced now in the smallest currency unit; negative for a credit */
+  amountDue: number;
+  currency: string;
+  /** Unix seconds when the new price takes effect */
+  effectiveAt: number;
+  /** Pass back to changePlan so the charge matches the preview */
+  prorationDate: number;
+}
+
+/** How long a preview's proration date is honored, in seconds */
+const PRORATION_DATE_TOLERANCE = 10 * 60;
+
+/** Months per interval, to compare prices billed at different intervals */
+const MONTHS_PER_INTERVAL: Record<NonNullable<Price['interval']>, number> = {
+  day: 12 / 365,
+  week: 12 / 52,
+  month: 1,
+  year: 12,
+};
+
+function toMonthlyAmount(
+  unitAmount: number,
+  interval: Price['interval'],
+  intervalCount: number,
+): number {
+  return unitAmount / (MONTHS_PER_INTERVAL[interval ?? 'month'] * (intervalCount || 1));
+}
+
+/**
+ * Decide when a switch takes effect
+ * @param current - The subscription being changed
+ * @param price - Price switching to
+ * @returns 'period_end' for downgrades, otherwise 'immediate'
+ */
+export function getPlanChangeTiming(
+  current: CurrentSubscription,
+  price: Price,
+): PlanChangeTiming {
+  const currentMonthly = toMonthlyAmount(current.unitAmount, current.interval, current.intervalCount);
+  const nextMonthly = toMonthlyAmount(
+    price.unit_amount ?? 0,
+    price.interval,
+    price.interval_count ?? 1,
+  );
+
+  return nextMonthly < currentMonthly ? 'period_end' : 'immediate';
+}
+
+/**
+ * Get the current subscription for the personal account or an organization
+ * @param userId - Signed-in user
+ * @param organizationId - Selected organization, or null for the personal account
+ * @returns The newest trialing, active or paused subscription, or null
+ */
+export async function getCurrentSubscription(
+  userId: string,
+  organizationId: string | null,
+): Promise<CurrentSubscription | null> {
+  const result = await query(
+    `SELECT s.id, s.status, s.cancel_at_period_end, s.user_id, s.organization_id,
+       s.price_id, s.quantity, s.current_period_end,
+       pr.unit_amount, pr.currency, pr.interval, pr.interval_count
+     FROM subscriptions s
+     JOIN prices pr ON pr.id = s.price_id
+     WHERE (
+         ($2::uuid IS NULL AND s.user_id = $1 AND s.organization_id IS NULL)
+         OR s.organization_id = $2::uuid
+       )
+       AND s.status IN ('trialing', 'active', 'paused')
+     ORDER BY s.created DESC
+     LIMIT 1`,
+    [userId, organizationId],
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    status: row.status,
+    cancelAtPeriodEnd: row.cancel_at_period_end ?? false,
+    priceId: row.price_id,
+    quantity: row.quantity ?? 1,
+    currentPeriodEnd: Math.floor(new Date(row.current_period_end).getTime() / 1000),
+    unitAmount: row.unit_amount ?? 0,
+    currency: row.currency,
+    interval: row.interval,
+    intervalCount: row.interval_count ?? 1,
+    userId: row.user_id,
+    organizationId: row.organization_id,
+  };
+}
+
+/**
+ * Load a price that can be switched to
+ * The pricing page only sends the price ID; everything else is read here so
+ * a client cannot change the amount, interval or type checked below.
+ * @param priceId - ID of the chosen price
+ * @throws Error if the price is unknown or no longer sold
+ */
+export async function getActivePrice(priceId: string): Promise<Price> {
+  const result = await query<Price>(
+    `SELECT pr.*
+     FROM prices pr
+     JOIN products p ON p.id = pr.product_id
+     WHERE pr.id = $1 AND pr.active = true AND p.active = true`,
+    [priceId],
+  );
+
+  const price = result.rows[0];
+  if (!price) {
+    throw new Error('That plan is no longer available.');
+  }
+
+  return price;
+}
+
+/**
+ * Refuse switches Stripe cannot make
+ * @throws Error for paused subscriptions, the current price, one-time prices
+ * or another currency
+ */
+function assertSwitchable(current: CurrentSubscription, price: Price) {
+  // Collection is paused, so an upgrade invoice would be voided
+  if (current.status === 'paused') {
+    throw new Error('Resume your subscription before switching plans.');
+  }
+  if (price.id === current.priceId) {
+    throw new Error('You are already on this plan.');
+  }
+  if (price.type !== 'recurring') {
+    throw new Error('You can only switch to another subscription plan.');
+  }
+  if (price.currency !== current.currency) {
+    throw new Error('You can only switch to a plan in the same currency.');
+  }
+}
+
+/**
+ * Use a preview's proration date if it is recent, otherwise now
+ * An old date would bill less of the period than has been used.
+ */
+function resolveProrationDate(prorationDate?: number): number {
+  const now = Math.floor(Date.now() / 1000);
+
+  return prorationDate &&
+    prorationDate <= now &&
+    now - prorationDate <= PRORATION_DATE_TOLERANCE
+    ? prorationDate
+    : now;
+}
+
+/**
+ * Preview switching a subscription to another price
+ * Upgrades are priced with Stripe's upcoming invoice; downgrades cost
+ * nothing now and take effect when the period ends.
+ * @param current - The subscription being changed
+ * @param price - Price switching to
+ * @throws Error if the switch is not possible
+ */
+export async function previewPlanChange(
+  current: CurrentSubscription,
+  price: Price,
+): Promise<PlanChangePreview> {
+  assertSwitchable(current, price);
+
+  const prorationDate = Math.floor(Date.now() / 1000);
+  const timing = getPlanChangeTiming(current, price);
+
+  if (timing === 'period_end') {
+    return {
+      timing,
+      amountDue: 0,
+      currency: current.currency,
+      effectiveAt: current.currentPeriodEnd,
+      prorationDate,
+    };
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(current.id);
+  const invoice = await stripe.invoices.retrieveUpcoming({
+    customer: subscription.customer as string,
+    subscription: current.id,
+    subscription_items: [
+      { id: subscription.items.data[0].id, price: price.id, quantity: current.quantity },
+    ],
+    subscription_proration_behavior: 'always_invoice',
+    subscription_proration_date: prorationDate,
+  });
+
+  // The upcoming invoice also holds the next period; only prorations are due now
+  const amountDue = invoice.lines.data
+    .filter((line) => line.proration)
+    .reduce((total, line) => total + line.amount, 0);
+
+  return {
+    timing,
+    amountDue,
+    currency: invoice.currency,
+    effectiveAt: prorationDate,
+    prorationDate,
+  };
+}
+
+/**
+ * Switch a subscription to another price
+ * Upgrades invoice the prorated difference at once and only apply if it is
+ * paid. Downgrades are scheduled for the end of the period, replacing any
+ * downgrade already scheduled; an upgrade cancels a scheduled downgrade.
+ * @param current - The subscription being changed
+ * @param price - Price switching to
+ * @param prorationDate - Proration date from the preview
+ * @returns When the new price takes effect
+ * @throws Error if the switch is not possible or the upgrade was not paid
+ */
+export async function changePlan(
+  current: CurrentSubscription,
+  price: Price,
+  prorationDate?: number,
+): Promise<{ timing: PlanChangeTiming; effectiveAt: number }> {
+  assertSwitchable(current, price);
+
+  const timing = getPlanChangeTiming(current, price);
+  const subscription = await stripe.subscriptions.retrieve(current.id);
+  const scheduleId =
+    typeof subscription.schedule === 'string'
+      ? subscription.schedule
+      : subscription.schedule?.id ?? null;
+
+  if (timing === 'period_end') {
+    await scheduleDowngrade(subscription, scheduleId, current, price);
+    return { timing, effectiveAt: current.currentPeriodEnd };
+  }
+
+  if (scheduleId) {
+    await stripe.subscriptionSchedules.release(scheduleId);
+  }
+
+  const effectiveAt = resolveProrationDate(prorationDate);
+  const updated = await stripe.subscriptions.update(current.id, {
+    items: [{ id: subscription.items.data[0].id, price: price.id, quantity: current.quantity }],
+    proration_behavior: 'always_invoice',
+    proration_date: effectiveAt,
+    payment_behavior: 'pending_if_incomplete',
+  });
+
+  if (updated.pending_update) {
+    throw new Error(
+      'The payment for the upgrade did not go through. Update your payment method in the billing portal and try again.',
+    );
+  }
+
+  // Show the new plan before the webhook arrives
+  await query(
+    'UPDATE subscriptions SET price_id = $1, updated_at = NOW() WHERE id = $2',
+    [price.id, current.id],
+  );
+  await invalidateSubscriberEntitlements(current.userId, current.organizationId);
+
+  return { timing, effectiveAt };
+}
+
+/**
+ * Keep the current price until the period ends, then move to the new one
+ * The schedule releases the subscription after the switch, so it renews on
+ * the new price as usual.
+ */
+async function scheduleDowngrade(
+  subscription: Stripe.Subscription,
+  scheduleId: string | null,
+  current: CurrentSubscription,
+  price: Price,
+) {
+  const schedule = scheduleId
+    ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+
+  const currentPhase = schedule.phases[0];
+
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    proration_behavior: 'none',
+    phases: [
+      {
+        items: [{ price: current.priceId, quantity: current.quantity }],
+        start_date: currentPhase.start_date,
+        end_date: current.currentPeriodEnd,
+      },
+      {
+        items: [{ price: price.id, quantity: current.quantity }],
+        iterations: 1,
+      },
+    ],
+  });
+}
@@ -0,0 +1,53 @@
+import { query } from './zerodb';
+
+export type PurchaseStatus = 'paid' | 'refunded';
+
+export interface LifetimePurchase {
+  id: string;
+  status: PurchaseStatus;
+  price_id: string | null;
+  product_id: string | null;
+  product_name: string | null;
+  amount_total: number;
+  currency: string;
+  created: string;
+}
+
+/** BIGINT columns come back from pg as strings, timestamps as Dates */
+interface PurchaseRow extends Omit<LifetimePurchase, 'amount_total' | 'created'> {
+  amount_total: string | number;
+  created: Date | string;
+}
+
+/**
+ * Get a user's paid one-time purchases, which grant lifetime access
+ * @param userId - User ID
+ * @returns Active purchases with their product, newest first
+ */
+export async function getActivePurchases(
+  userId: string
+): Promise<LifetimePurchase[]> {
+  const result = await query<PurchaseRow>(
+    `SELECT
+       pu.id,
+       pu.status,
+       pu.price_id,
+       pr.product_id,
+       p.name AS product_name,
+       pu.amount_total,
+       pu.currency,
+       pu.created
+     FROM purchases pu
+     LEFT JOIN prices pr ON pr.id = pu.price_id
+     LEFT JOIN products p ON p.id = pr.product_id
+     WHERE pu.user_id = $1 AND pu.status = 'paid'
+     ORDER BY pu.created DESC`,
+    [userId]
+  );
+
+  return result.rows.map((row) => ({
+    ...row,
+    amount_total: Number(row.amount_total),
+    created: new Date(row.created).toISOString(),
+  }));
+}
@@ -0,0 +1,485 @@
+import { randomUUID } from 'crypto';
+import type pg from 'pg';
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe/config';
+import { Tables } from '@/types_db';
+import { signJwt, verifyJwt } from './jwt-keys';
+import { changePlan, getPlanChangeTiming, type CurrentSubscription } from './plan-changes';
+import { isPlanTier, type PlanTier } from './route-rules';
+import type { CancellationReason } from './subscription-lifecycle';
+import { query, transaction, type QueryExecutor } from './zerodb';
+
+/**
+ * Retention offers
+ *
+ * Offers shown to subscribers after they answer the cancellation survey and
+ * before the cancellation is confirmed. Each offer has a rule on the plan
+ * tier, how long the subscriber has been paying and the reason they gave.
+ * Every offer is made at most once per subscription, and each accepted or
+ * declined offer is recorded in retention_offer_outcomes.
+ *
+ * The offers shown are signed into a short-lived token that comes back with
+ * the subscriber's answer. Offers can only be accepted from the cancellation
+ * they were shown in, and a cancellation records as declined exactly the
+ * offers that were on screen. Each token is answered once: its ID goes into
+ * retention_offer_tokens in the same transaction as the outcomes, so
+ * accepting one offer declines the others.
+ */
+
+type Price = Tables<'prices'>;
+
+export interface RetentionOfferRule {
+  /** Plan tiers the offer is made on; any tier when omitted */
+  tiers?: PlanTier[];
+  /** Fewest whole months since the subscription started */
+  minTenureMonths?: number;
+  /** Most whole months since the subscription started */
+  maxTenureMonths?: number;
+  /** Cancellation reasons the offer answers; any reason when omitted */
+  reasons?: CancellationReason[];
+}
+
+interface RetentionOfferBase {
+  /** Stable key, recorded with each outcome; renaming it starts a new offer */
+  id: string;
+  title: string;
+  description: string;
+  when: RetentionOfferRule;
+}
+
+/** A percentage off the subscription for a number of months */
+export interface DiscountOffer extends RetentionOfferBase {
+  kind: 'discount';
+  percentOff: number;
+  durationInMonths: number;
+}
+
+/** A cheaper plan from the end of the current period */
+export interface DowngradeOffer extends RetentionOfferBase {
+  kind: 'downgrade';
+  toTier: PlanTier;
+}
+
+export type RetentionOffer = DiscountOffer | DowngradeOffer;
+
+/** An offer that applies, with the price a downgrade switches to */
+export type EligibleRetentionOffer =
+  | DiscountOffer
+  | (DowngradeOffer & { price: Price });
+
+/** What the cancellation dialog shows of an offer */
+export type RetentionOfferSummary = Pick<RetentionOffer, 'id' | 'kind' | 'title' | 'description'>;
+
+export type RetentionOutcome = 'accepted' | 'declined';
+
+export interface RetentionContext {
+  tier: PlanTier | null;
+  tenureMonths: number;
+  reason: CancellationReason;
+}
+
+/** Most offers shown at once */
+export const MAX_RETENTION_OFFERS = 2;
+
+/** Time allowed for answering the offers, in seconds (30 minutes) */
+export const RETENTION_OFFER_EXPIRY = 30 * 60;
+
+/** Claims of the token signed over the offers shown */
+interface RetentionOfferToken {
+  purpose: 'retention_offers';
+  /** Token ID, recorded when the offers are answered */
+  jti: string;
+  /** Subscription being canceled */
+  sub: string;
+  reason: CancellationReason;
+  offerIds: string[];
+}
+
+/**
+ * Retention offers, checked in order; the first MAX_RETENTION_OFFERS that
+ * apply are shown
+ */
+export const RETENTION_OFFERS: RetentionOffer[] = [
+  {
+    id: 'half_price_3_months',
+    kind: 'discount',
+    title: '50% off for 3 months',
+    description: 'Stay on your plan at half price for the next three months.',
+    percentOff: 50,
+    durationInMonths: 3,
+    when: { reasons: ['too_expensive'], minTenureMonths: 1 },
+  },
+  {
+    id: 'downgrade_to_hobby',
+    kind: 'downgrade',
+    title: 'Switch to Hobby',
+    description: 'Keep the essentials for less from your next billing period.',
+    toTier: 'hobby',
+    when: {
+      tiers: ['freelancer', 'pro', 'enterprise'],
+      reasons: ['too_expensive', 'unused', 'too_complex'],
+    },
+  },
+  {
+    id: 'loyalty_25_off_6_months',
+    kind: 'discount',
+    title: '25% off for 6 months',
+    description: 'A thank-you for being with us for over a year.',
+    percentOff: 25,
+    durationInMonths: 6,
+    when: { minTenureMonths: 12 },
+  },
+];
+
+/**
+ * Whole calendar months between two dates
+ */
+export function monthsBetween(start: Date, end: Date): number {
+  const months =
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    (end.getUTCMonth() - start.getUTCMonth());
+
+  return Math.max(0, end.getUTCDate() < start.getUTCDate() ? months - 1 : months);
+}
+
+/**
+ * Check whether an offer's rule applies
+ * @param rule - The offer's rule
+ * @param context - The subscriber's tier, tenure and cancellation reason
+ */
+export function matchesRetentionRule(
+  rule: RetentionOfferRule,
+  context: RetentionContext,
+): boolean {
+  if (rule.tiers && (context.tier === null || !rule.tiers.includes(context.tier))) {
+    return false;
+  }
+  if (rule.minTenureMonths !== undefined && context.tenureMonths < rule.minTenureMonths) {
+    return false;
+  }
+  if (rule.maxTenureMonths !== undefined && context.tenureMonths > rule.maxTenureMonths) {
+    return false;
+  }
+  if (rule.reasons && !rule.reasons.includes(context.reason)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Pick the offers whose rules apply
+ * @param context - The subscriber's tier, tenure and cancellation reason
+ * @param offers - Offers to check, in order
+ * @param excludedIds - Offers already made to the subscription
+ */
+export function selectRetentionOffers(
+  context: RetentionContext,
+  offers: RetentionOffer[] = RETENTION_OFFERS,
+  excludedIds: string[] = [],
+): RetentionOffer[] {
+  return offers.filter(
+    (offer) => !excludedIds.includes(offer.id) && matchesRetentionRule(offer.when, context),
+  );
+}
+
+/**
+ * Find the cheapest price on a tier billed like the current subscription
+ */
+async function findDowngradePrice(
+  current: CurrentSubscription,
+  tier: PlanTier,
+): Promise<Price | null> {
+  const result = await query(
+    `SELECT pr.*
+     FROM prices pr
+     JOIN products p ON p.id = pr.product_id
+     WHERE p.active = true AND pr.active = true AND pr.type = 'recurring'
+       AND p.metadata->>'tier' = $1
+       AND pr.currency = $2 AND pr.interval = $3 AND pr.interval_count = $4
+     ORDER BY pr.unit_amount ASC
+     LIMIT 1`,
+    [tier, current.currency, current.interval, current.intervalCount],
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Get the offers to show a subscriber who is canceling
+ * Downgrades are only offered when the tier has a cheaper price with the
+ * same currency and interval.
+ * @param current - The subscription being canceled
+ * @param reason - The reason given in the cancellation survey
+ */
+export async function getRetentionOffers(
+  current: CurrentSubscription,
+  reason: CancellationReason,
+): Promise<EligibleRetentionOffer[]> {
+  const subscriptionResult = await query(
+    `SELECT s.created, p.metadata->>'tier' AS tier
+     FROM subscriptions s
+     LEFT JOIN prices pr ON pr.id = s.price_id
+     LEFT JOIN products p ON p.id = pr.product_id
+     WHERE s.id = $1`,
+    [current.id],
+  );
+  const row = subscriptionResult.rows[0];
+  if (!row) {
+    return [];
+  }
+
+  const outcomesResult = await query(
+    'SELECT DISTINCT offer_id FROM retention_offer_outcomes WHERE subscription_id = $1',
+    [current.id],
+  );
+
+  const candidates = selectRetentionOffers(
+    {
+      tier: isPlanTier(row.tier) ? row.tier : null,
+      tenureMonths: monthsBetween(new Date(row.created), new Date(Date.now())),
+      reason,
+    },
+    RETENTION_OFFERS,
+    outcomesResult.rows.map((outcome: { offer_id: string }) => outcome.offer_id),
+  );
+
+  const offers: EligibleRetentionOffer[] = [];
+  for (let i = 0; i < candidates.length && offers.length < MAX_RETENTION_OFFERS; i++) {
+    const offer = candidates[i];
+
+    if (offer.kind === 'discount') {
+      offers.push(offer);
+      continue;
+    }
+
+    const price = await findDowngradePrice(current, offer.toTier);
+    if (price && getPlanChangeTiming(current, price) === 'period_end') {
+      offers.push({ ...offer, price });
+    }
+  }
+
+  return offers;
+}
+
+/**
+ * Sign the offers shown to a subscriber who is canceling
+ * @param current - The subscription being canceled
+ * @param reason - The reason given in the cancellation survey
+ * @param offers - Offers shown, from getRetentionOffers
+ * @returns Token to send back with the subscriber's answer
+ */
+export function signRetentionOffers(
+  current: CurrentSubscription,
+  reason: CancellationReason,
+  offers: Pick<RetentionOffer, 'id'>[],
+): string {
+  const token: RetentionOfferToken = {
+    purpose: 'retention_offers',
+    jti: randomUUID(),
+    sub: current.id,
+    reason,
+    offerIds: offers.map((offer) => offer.id),
+  };
+
+  return signJwt(token, RETENTION_OFFER_EXPIRY);
+}
+
+/**
+ * Read the offers shown during a cancellation
+ * @param current - The subscription being canceled
+ * @param offerToken - Token from signRetentionOffers
+ * @returns The token ID and expiry (Unix seconds), the survey reason and the
+ * offers shown
+ * @throws Error if the token is invalid, expired or for another subscription
+ */
+export function readRetentionOffers(
+  current: CurrentSubscription,
+  offerToken: string,
+): { tokenId: string; expiresAt: number; reason: CancellationReason; offerIds: string[] } {
+  let token: RetentionOfferToken & { exp: number };
+  try {
+    token = verifyJwt<RetentionOfferToken & { exp: number }>(offerToken);
+  } catch (error) {
+    throw new Error('That offer is no longer available.');
+  }
+
+  if (token.purpose !== 'retention_offers' || token.sub !== current.id || !token.jti) {
+    throw new Error('That offer is no longer available.');
+  }
+
+  return {
+    tokenId: token.jti,
+    expiresAt: token.exp,
+    reason: token.reason,
+    offerIds: token.offerIds,
+  };
+}
+
+/**
+ * Run a function in a transaction once the offer token is recorded as answered
+ * @returns False, without running it, if the token was answered before
+ */
+async function answerOffers(
+  current: CurrentSubscription,
+  token: { tokenId: string; expiresAt: number },
+  answer: (execute: QueryExecutor) => Promise<void>,
+): Promise<boolean> {
+  return transaction(async (client) => {
+    const execute: QueryExecutor = <T extends pg.QueryResultRow>(
+      text: string,
+      params?: any[],
+    ) => client.query<T>(text, params);
+
+    // A second answer waits on the first one's row, then finds it taken
+    const claimed = await execute(
+      `WITH expired AS (
+         DELETE FROM retention_offer_tokens WHERE expires_at < NOW()
+       )
+       INSERT INTO retention_offer_tokens (token_id, subscription_id, expires_at)
+       VALUES ($1, $2, to_timestamp($3))
+       ON CONFLICT (token_id) DO NOTHING`,
+      [token.tokenId, current.id, token.expiresAt],
+    );
+    if (claimed.rowCount !== 1) {
+      return false;
+    }
+
+    await answer(execute);
+    return true;
+  });
+}
+
+/**
+ * Get the Stripe coupon for a discount offer, creating it on first use
+ */
+async function getOrCreateCoupon(offer: DiscountOffer): Promise<string> {
+  const couponId = `retention_${offer.id}`;
+
+  try {
+    await stripe.coupons.retrieve(couponId);
+    return couponId;
+  } catch (error) {
+    if ((error as Stripe.errors.StripeError).code !== 'resource_missing') {
+      throw error;
+    }
+  }
+
+  await stripe.coupons.create({
+    id: couponId,
+    name: offer.title,
+    percent_off: offer.percentOff,
+    duration: 'repeating',
+    duration_in_months: offer.durationInMonths,
+  });
+
+  return couponId;
+}
+
+/**
+ * Record how a subscriber answered one or more offers
+ */
+async function recordOutcomes(
+  current: CurrentSubscription,
+  offerIds: string[],
+  reason: CancellationReason,
+  outcome: RetentionOutcome,
+  userId: string,
+  execute: QueryExecutor = query,
+) {
+  for (let i = 0; i < offerIds.length; i++) {
+    await execute(
+      `INSERT INTO retention_offer_outcomes
+         (subscription_id, user_id, organization_id, offer_id, reason, outcome)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [current.id, userId, current.organizationId, offerIds[i], reason, outcome],
+    );
+  }
+}
+
+/**
+ * Accept a retention offer instead of canceling
+ * Discounts apply the offer's coupon to the subscription at once, unless it
+ * already has a discount the coupon would replace; downgrades are scheduled
+ * for the end of the period like any other. The other offers shown are
+ * recorded as declined.
+ * @param current - The subscription being kept
+ * @param offerId - The accepted offer
+ * @param offerToken - Token from signRetentionOffers for the offers shown
+ * @param userId - User accepting the offer
+ * @returns The accepted offer
+ * @throws Error if the offer was not shown in this cancellation, the offers
+ * were already answered, or the offer no longer applies to the subscription
+ */
+export async function acceptRetentionOffer(
+  current: CurrentSubscription,
+  offerId: string,
+  offerToken: string,
+  userId: string,
+): Promise<EligibleRetentionOffer> {
+  const token = readRetentionOffers(current, offerToken);
+  const { reason, offerIds } = token;
+  if (current.cancelAtPeriodEnd || !offerIds.includes(offerId)) {
+    throw new Error('That offer is no longer available.');
+  }
+
+  // Checked again, as an accepted offer is not made twice
+  const offers = await getRetentionOffers(current, reason);
+  const offer = offers.find((candidate) => candidate.id === offerId);
+  if (!offer) {
+    throw new Error('That offer is no longer available.');
+  }
+
+  // A coupon would silently replace the discount the subscription has
+  if (offer.kind === 'discount') {
+    const subscription = await stripe.subscriptions.retrieve(current.id);
+    if (subscription.discount) {
+      throw new Error('Your subscription already has a discount, so this offer cannot be added.');
+    }
+  }
+
+  // Recorded before Stripe is called; a failed call rolls the answer back
+  const answered = await answerOffers(current, token, async (execute) => {
+    await recordOutcomes(current, [offer.id], reason, 'accepted', userId, execute);
+    await recordOutcomes(
+      current,
+      offerIds.filter((id) => id !== offer.id),
+      reason,
+      'declined',
+      userId,
+      execute,
+    );
+
+    if (offer.kind === 'discount') {
+      const coupon = await getOrCreateCoupon(offer);
+      await stripe.subscriptions.update(current.id, { coupon });
+    } else {
+      await changePlan(current, offer.price);
+    }
+  });
+  if (!answered) {
+    throw new Error('That offer is no longer available.');
+  }
+
+  return offer;
+}
+
+/**
+ * Record that a subscriber canceled despite the offers they were shown
+ * Nothing is recorded if the offers were already answered.
+ * @param current - The canceled subscription
+ * @param offerToken - Token from signRetentionOffers for the offers shown
+ * @param userId - User who canceled
+ * @throws Error if the token is invalid, expired or for another subscription
+ */
+export async function declineRetentionOffers(
+  current: CurrentSubscription,
+  offerToken: string,
+  userId: string,
+): Promise<void> {
+  const token = readRetentionOffers(current, offerToken);
+
+  await answerOffers(current, token, (execute) =>
+    recordOutcomes(current, token.offerIds, token.reason, 'declined', userId, execute),
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Plan-gated route rules
+ * Kept free of database and Node-only imports so middleware can use it.
+ */
+
+/**
+ * Plan tiers from lowest to highest, matched against the `tier` key in
+ * Stripe product metadata
+ */
+export const PLAN_TIERS = ['hobby', 'freelancer', 'pro', 'enterprise'] as const;
+
+export type PlanTier = (typeof PLAN_TIERS)[number];
+
+export interface RouteRule {
+  /** Path pattern: `*` matches one segment, a trailing `/*` matches the path and everything below it */
+  pattern: string;
+  /** Lowest plan tier allowed on the route */
+  minTier?: PlanTier;
+  /** Feature key from product metadata required on the route */
+  feature?: string;
+  /** Toast description shown on the pricing page when access is denied */
+  message?: string;
+}
+
+export interface RouteAccess {
+  tier: PlanTier | null;
+  features: string[];
+}
+
+/**
+ * Route rules, checked in order; the first matching rule applies
+ */
+export const ROUTE_RULES: RouteRule[] = [
+  {
+    pattern: '/app/reports/*',
+    minTier: 'pro',
+    message: 'Reports are available on the Pro plan or higher.'
+  }
+];
+
+/**
+ * Check whether a value is a known plan tier
+ */
+export function isPlanTier(value: unknown): value is PlanTier {
+  return PLAN_TIERS.includes(value as PlanTier);
+}
+
+/**
+ * Check whether a tier is at or above a minimum tier
+ * @param tier - The user's tier, or null without a paid plan
+ * @param minTier - Lowest allowed tier
+ */
+export function isTierAtLeast(tier: PlanTier | null, minTier: PlanTier): boolean {
+  return tier !== null && PLAN_TIERS.indexOf(tier) >= PLAN_TIERS.indexOf(minTier);
+}
+
+/**
+ * Pick the highest of several tiers
+ * @returns The highest tier, or null if none are known tiers
+ */
+export function highestTier(tiers: unknown[]): PlanTier | null {
+  return tiers.filter(isPlanTier).reduce<PlanTier | null>(
+    (highest, tier) => (isTierAtLeast(highest, tier) ? highest : tier),
+    null
+  );
+}
+
+/**
+ * Check whether a pathname matches a rule pattern
+ */
+export function matchesPattern(pathname: string, pattern: string): boolean {
+  const escape = (segment: string) => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  const recursive = pattern.endsWith('/*');
+  const base = recursive ? pattern.slice(0, -2) : pattern;
+  const source = base
+    .split('*')
+    .map(escape)
+    .join('[^/]+');
+
+  return new RegExp(`^${source}${recursive ? '(?:/.*)?' : ''}/?$`).test(pathname);
+}
+
+/**
+ * Find the rule that applies to a pathname
+ * @param pathname - Request pathname
+ * @param rules - Rules to check, in order
+ * @returns The first matching rule, or undefined if the route is not gated
+ */
+export function matchRouteRule(
+  pathname: string,
+  rules: RouteRule[] = ROUTE_RULES
+): RouteRule | undefined {
+  return rules.find((rule) => matchesPattern(pathname, rule.pattern));
+}
+
+/**
+ * Check whether a user's plan satisfies a rule
+ * @param rule - Matching route rule
+ * @param access - The user's tier and features
+ */
+export function isRouteAllowed(rule: RouteRule, access: RouteAccess): boolean {
+  if (rule.minTier && !isTierAtLeast(access.tier, rule.minTier)) {
+    return false;
+  }
+
+  if (rule.feature && !access.features.includes(rule.feature)) {
+    return false;
+  }
+
+  return true;
+}
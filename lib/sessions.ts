@@ -0,0 +1,109 @@
+import { query } from './zerodb';
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  /** Whether this is the session making the request */
+  current: boolean;
+}
+
+interface SessionRow {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date | string;
+  last_seen_at: Date | string;
+}
+
+/**
+ * List a user's signed-in sessions
+ * A session is active until it is revoked or its refresh token expires.
+ * @param userId - User ID
+ * @param currentSessionId - Session making the request, flagged as current
+ * @returns Active sessions, most recently seen first
+ */
+export async function listActiveSessions(
+  userId: string,
+  currentSessionId?: string | null
+): Promise<ActiveSession[]> {
+  const result = await query<SessionRow>(
+    `SELECT s.id, s.user_agent, s.ip_address, s.created_at, s.last_seen_at
+     FROM sessions s
+     WHERE s.user_id = $1
+       AND s.revoked_at IS NULL
+       AND EXISTS (
+         SELECT 1 FROM refresh_tokens rt
+         WHERE rt.session_id = s.id
+           AND rt.rotated_at IS NULL
+           AND rt.expires_at > NOW()
+       )
+     ORDER BY s.last_seen_at DESC`,
+    [userId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: new Date(row.created_at).toISOString(),
+    lastSeenAt: new Date(row.last_seen_at).toISOString(),
+    current: row.id === currentSessionId,
+  }));
+}
+
+/**
+ * Check whether a session can still be used
+ * @param sessionId - Session ID from the access token's `sid` claim
+ * @returns False if the session is revoked or unknown
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const result = await query(
+    'SELECT 1 FROM sessions WHERE id = $1 AND revoked_at IS NULL',
+    [sessionId]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Sign out one of a user's sessions
+ * @param userId - User ID; sessions of other users are never touched
+ * @param sessionId - Session to revoke
+ * @returns True if an active session was revoked
+ */
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE sessions
+     SET revoked_at = NOW(), revoked_reason = 'user_revoked'
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [sessionId, userId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Sign out every session of a user except one
+ * @param userId - User ID
+ * @param keepSessionId - Session to keep, usually the current one
+ * @returns Number of sessions revoked
+ */
+export async function revokeOtherSessions(
+  userId: string,
+  keepSessionId: string
+): Promise<number> {
+  const result = await query(
+    `UPDATE sessions
+     SET revoked_at = NOW(), revoked_reason = 'user_revoked'
+     WHERE user_id = $1 AND id <> $2 AND revoked_at IS NULL`,
+    [userId, keepSessionId]
+  );
+
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,217 @@
+import { getURL } from '@/utils/helpers';
+import { sendMail } from './mailer';
+import { query } from './zerodb';
+
+/**
+ * Password sign-in throttling
+ *
+ * Failed password sign-ins are counted per account and per IP address. After
+ * a few free attempts each failure makes the next one wait twice as long,
+ * and enough failures lock sign-in out for a while. Accounts are keyed by
+ * email, so unknown addresses are throttled exactly like real ones and the
+ * lockout does not reveal which emails have accounts. Each attempt is
+ * counted before the password is checked and given back if it succeeds.
+ */
+
+export type ThrottleScope = 'account' | 'ip';
+
+interface ThrottlePolicy {
+  /** Failures allowed before any delay */
+  freeAttempts: number;
+  /** Failures that trigger the full lockout */
+  lockoutThreshold: number;
+}
+
+/** Lockout length, and the longest backoff, in seconds (15 minutes) */
+export const SIGN_IN_LOCKOUT = 15 * 60;
+
+/** Failures older than this are forgotten, in seconds (1 hour) */
+export const SIGN_IN_FAILURE_WINDOW = 60 * 60;
+
+/** An IP is shared by many people, so it gets more room than one account */
+export const SIGN_IN_THROTTLE_POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  account: { freeAttempts: 3, lockoutThreshold: 10 },
+  ip: { freeAttempts: 10, lockoutThreshold: 50 },
+};
+
+/** Error shown while throttled, the same for every account */
+export const SIGN_IN_THROTTLED_MESSAGE = 'Too many sign-in attempts. Please try again later.';
+
+/**
+ * Normalize an email for the account key
+ */
+function accountKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Seconds sign-in is refused for after a number of consecutive failures
+ * @param failures - Consecutive failures, including the latest one
+ * @param scope - Which policy applies
+ * @returns 0 while failures are free, then 1, 2, 4... seconds, up to SIGN_IN_LOCKOUT
+ */
+export function getThrottleDelay(failures: number, scope: ThrottleScope): number {
+  const { freeAttempts, lockoutThreshold } = SIGN_IN_THROTTLE_POLICIES[scope];
+
+  if (failures >= lockoutThreshold) {
+    return SIGN_IN_LOCKOUT;
+  }
+  if (failures < freeAttempts) {
+    return 0;
+  }
+
+  return Math.min(2 ** (failures - freeAttempts), SIGN_IN_LOCKOUT);
+}
+
+/** A password sign-in attempt, counted before the password is checked */
+export interface SignInAttempt {
+  email: string;
+  ipAddress: string | null;
+  /** Attempts counted against the account, including this one */
+  accountFailures: number;
+  /** Attempts counted against the IP, including this one; null without an IP */
+  ipFailures: number | null;
+}
+
+// A scope's count after one more attempt; failures outside the window are forgotten
+const NEXT_FAILED_ATTEMPTS = `CASE
+  WHEN sign_in_throttles.last_failed_at > NOW() - make_interval(secs => $3)
+  THEN sign_in_throttles.failed_attempts + 1
+  ELSE 1
+END`;
+
+/**
+ * Count an attempt against one scope unless it is locked
+ * The check, the count and the backoff it earns happen in one statement, so
+ * guesses sent in parallel cannot all pass the check before any of them is
+ * counted. Backoffs are looked up by count from getThrottleDelay.
+ * @returns Attempts counted, including this one, or null while locked
+ */
+async function claimAttempt(scope: ThrottleScope, key: string): Promise<number | null> {
+  const delays: number[] = [];
+  for (let failures = 1; failures <= SIGN_IN_THROTTLE_POLICIES[scope].lockoutThreshold; failures++) {
+    delays.push(getThrottleDelay(failures, scope));
+  }
+
+  const result = await query<{ failed_attempts: number }>(
+    `INSERT INTO sign_in_throttles (scope, key, failed_attempts, last_failed_at, locked_until)
+     VALUES ($1, $2, 1, NOW(), NOW() + make_interval(secs => ($4::int[])[1]))
+     ON CONFLICT (scope, key) DO UPDATE
+     SET failed_attempts = ${NEXT_FAILED_ATTEMPTS},
+         last_failed_at = NOW(),
+         locked_until = NOW() + make_interval(
+           secs => COALESCE(($4::int[])[${NEXT_FAILED_ATTEMPTS}], $5)
+         )
+     WHERE sign_in_throttles.locked_until IS NULL OR sign_in_throttles.locked_until <= NOW()
+     RETURNING failed_attempts`,
+    [scope, key, SIGN_IN_FAILURE_WINDOW, delays, SIGN_IN_LOCKOUT]
+  );
+
+  return result.rows[0]?.failed_attempts ?? null;
+}
+
+/**
+ * Count a password sign-in attempt, refusing it while the account or IP is
+ * throttled
+ * Every attempt counts as a failure until clearFailedSignIns is called for
+ * it. The IP is checked first, so a throttled IP does not add to the counts
+ * of the accounts it is guessing at.
+ * @param email - Address entered on the sign-in form
+ * @param ipAddress - Client IP, if known
+ * @returns The counted attempt, for recordFailedSignIn or clearFailedSignIns
+ * @throws Error with SIGN_IN_THROTTLED_MESSAGE while either one is locked
+ */
+export async function claimSignInAttempt(
+  email: string,
+  ipAddress?: string | null,
+): Promise<SignInAttempt> {
+  let ipFailures: number | null = null;
+  if (ipAddress) {
+    ipFailures = await claimAttempt('ip', ipAddress);
+    if (ipFailures === null) {
+      throw new Error(SIGN_IN_THROTTLED_MESSAGE);
+    }
+  }
+
+  const accountFailures = await claimAttempt('account', accountKey(email));
+  if (accountFailures === null) {
+    throw new Error(SIGN_IN_THROTTLED_MESSAGE);
+  }
+
+  return { email, ipAddress: ipAddress ?? null, accountFailures, ipFailures };
+}
+
+/**
+ * Tell the owner of an account that password sign-in has been locked
+ * Unknown addresses get no email.
+ */
+async function sendLockoutEmail(email: string): Promise<void> {
+  const result = await query('SELECT email FROM users WHERE email = $1', [email]);
+  const user = result.rows[0];
+  if (!user) {
+    return;
+  }
+
+  const link = getURL('/signin/forgot_password');
+
+  await sendMail({
+    to: user.email,
+    subject: 'Sign-in to your account was locked',
+    text: [
+      'There were too many failed attempts to sign in to your account with a password, so password sign-in is locked for 15 minutes.',
+      '',
+      'If this was not you, someone may be guessing your password. You can choose a new one here:',
+      link,
+      '',
+      'Email sign-in links and passkeys still work while password sign-in is locked.',
+    ].join('\n'),
+    html: `<p>There were too many failed attempts to sign in to your account with a password, so password sign-in is locked for 15 minutes.</p><p>If this was not you, someone may be guessing your password. <a href="${link}">Choose a new password</a>.</p><p>Email sign-in links and passkeys still work while password sign-in is locked.</p>`,
+  });
+}
+
+/**
+ * Finish a failed password sign-in
+ * The attempt was already counted; this emails the account owner when it
+ * started the lockout. A mail outage must not turn a failed sign-in into a
+ * different error, so it is only logged.
+ * @param attempt - Attempt from claimSignInAttempt
+ */
+export async function recordFailedSignIn(attempt: SignInAttempt): Promise<void> {
+  if (attempt.ipFailures === SIGN_IN_THROTTLE_POLICIES.ip.lockoutThreshold) {
+    console.warn(
+      `Password sign-in locked for IP ${attempt.ipAddress} after ${attempt.ipFailures} failures`
+    );
+  }
+
+  if (attempt.accountFailures === SIGN_IN_THROTTLE_POLICIES.account.lockoutThreshold) {
+    try {
+      await sendLockoutEmail(attempt.email);
+    } catch (error) {
+      console.error('Error sending lockout email:', error);
+    }
+  }
+}
+
+/**
+ * Forget an account's failures after a successful sign-in
+ * The IP only gets back the attempt that succeeded, so one known password
+ * cannot reset the throttle for guesses against other accounts. Its backoff
+ * is lifted only if no other attempt was counted since.
+ * @param attempt - Attempt from claimSignInAttempt
+ */
+export async function clearFailedSignIns(attempt: SignInAttempt): Promise<void> {
+  await query(
+    `DELETE FROM sign_in_throttles WHERE scope = 'account' AND key = $1`,
+    [accountKey(attempt.email)]
+  );
+
+  if (attempt.ipAddress && attempt.ipFailures !== null) {
+    await query(
+      `UPDATE sign_in_throttles
+       SET failed_attempts = GREATEST(failed_attempts - 1, 0),
+           locked_until = CASE WHEN failed_attempts = $2 THEN NOW() ELSE locked_until END
+       WHERE scope = 'ip' AND key = $1`,
+      [attempt.ipAddress, attempt.ipFailures]
+    );
+  }
+}
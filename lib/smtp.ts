@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { Mailer, MailMessage } from './mailer';
+
+/**
+ * SMTP transport
+ *
+ * A minimal SMTP client for delivering mail through a relay (a provider's
+ * SMTP endpoint or a local server). Connections use TLS from the start when
+ * secure is set (port 465), and otherwise upgrade with STARTTLS when the
+ * server offers it. Credentials are never sent over an unencrypted
+ * connection. One connection is opened per message.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start instead of upgrading with STARTTLS */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Sender address for every message */
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+type SmtpSocket = net.Socket | tls.TLSSocket;
+
+/** Milliseconds a connection may sit idle before it is dropped */
+const SMTP_TIMEOUT = 30 * 1000;
+
+/**
+ * Read complete, possibly multi-line, replies off a socket
+ * @returns A function resolving with the next reply, and one that stops
+ * reading before the socket is handed to TLS
+ */
+function readReplies(socket: SmtpSocket): {
+  next: () => Promise<SmtpReply>;
+  detach: () => void;
+} {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> =
+    [];
+
+  const flush = () => {
+    while (replies.length > 0 && waiting.length > 0) {
+      waiting.shift()!.resolve(replies.shift()!);
+    }
+    while (failure && waiting.length > 0) {
+      waiting.shift()!.reject(failure);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+
+    let end = buffer.indexOf('\r\n');
+    while (end !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines });
+        lines = [];
+      }
+      end = buffer.indexOf('\r\n');
+    }
+    flush();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    flush();
+  };
+  const onClose = () => {
+    failure = failure ?? new Error('SMTP connection closed');
+    flush();
+  };
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    next: () =>
+      new Promise((resolve, reject) => {
+        waiting.push({ resolve, reject });
+        flush();
+      }),
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+/**
+ * Reject header values that could start a new header line
+ */
+function assertHeaderValue(value: string, name: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Invalid ${name} for email`);
+  }
+  return value;
+}
+
+/**
+ * Take the address out of a "Name <address>" sender or recipient
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>\s*$/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Base64-encode a body, wrapped at 76 characters as MIME requires
+ * Base64 never starts a line with a dot, so the body needs no dot-stuffing.
+ */
+function encodeBody(body: string): string {
+  return (Buffer.from(body, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/**
+ * Format a message as MIME, with an HTML alternative when one is given
+ */
+export function formatMessage(from: string, message: MailMessage, date = new Date()): string {
+  const domain = from.slice(from.lastIndexOf('@') + 1).replace(/>$/, '') || 'localhost';
+  const headers = [
+    `From: ${assertHeaderValue(from, 'sender')}`,
+    `To: ${assertHeaderValue(message.to, 'recipient')}`,
+    `Subject: =?UTF-8?B?${Buffer.from(message.subject, 'utf8').toString('base64')}?=`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type: string, body: string) =>
+    [
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(body),
+    ].join('\r\n');
+
+  if (!message.html) {
+    return [...headers, part('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Open a connection and wait for the server's greeting
+ */
+function connect(options: SmtpOptions): Promise<SmtpSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.once('error', reject);
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+  });
+}
+
+/**
+ * Upgrade a plain connection to TLS after a STARTTLS reply
+ */
+function upgrade(socket: SmtpSocket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host });
+
+    secureSocket.setTimeout(SMTP_TIMEOUT, () =>
+      secureSocket.destroy(new Error('SMTP connection timed out'))
+    );
+    secureSocket.once('error', reject);
+    secureSocket.once('secureConnect', () => {
+      secureSocket.off('error', reject);
+      resolve(secureSocket);
+    });
+  });
+}
+
+/**
+ * Deliver one message over a new connection
+ */
+async function deliver(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const data = formatMessage(options.from, message);
+  let socket = await connect(options);
+  let replies = readReplies(socket);
+
+  const send = async (line: string, expected: number[]): Promise<SmtpReply> => {
+    socket.write(`${line}\r\n`);
+    const reply = await replies.next();
+    if (!expected.includes(reply.code)) {
+      // Name only the command, as AUTH lines carry credentials
+      throw new Error(`SMTP ${line.split(' ')[0]} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    const greeting = await replies.next();
+    if (greeting.code !== 220) {
+      throw new Error(`SMTP server refused the connection: ${greeting.code}`);
+    }
+
+    const hostname = os.hostname() || 'localhost';
+    const extensions = (await send(`EHLO ${hostname}`, [250])).lines;
+    let encrypted = options.secure;
+
+    if (!encrypted && extensions.some((line) => line.toUpperCase() === 'STARTTLS')) {
+      await send('STARTTLS', [220]);
+      replies.detach();
+      socket = await upgrade(socket, options.host);
+      replies = readReplies(socket);
+      encrypted = true;
+      await send(`EHLO ${hostname}`, [250]);
+    }
+
+    if (options.user) {
+      if (!encrypted) {
+        throw new Error('SMTP server does not support TLS; refusing to send credentials');
+      }
+      const credentials = Buffer.from(
+        `\u0000${options.user}\u0000${options.password ?? ''}`,
+        'utf8'
+      ).toString('base64');
+      await send(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await send(`MAIL FROM:<${extractAddress(options.from)}>`, [250]);
+    await send(`RCPT TO:<${extractAddress(assertHeaderValue(message.to, 'recipient'))}>`, [
+      250, 251,
+    ]);
+    await send('DATA', [354]);
+    await send(`${data}\r\n.`, [250]);
+    await send('QUIT', [221]).catch(() => undefined);
+  } finally {
+    replies.detach();
+    socket.destroy();
+  }
+}
+
+/**
+ * Mailer that delivers messages through an SMTP relay
+ * @param options - Relay address, credentials and sender
+ * @returns SMTP transport
+ */
+export function createSmtpMailer(options: SmtpOptions): Mailer {
+  return {
+    async send(message) {
+      await deliver(options, message);
+    },
+  };
+}
@@ -0,0 +1,896 @@
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe/config';
+import { query, type QueryExecutor } from './zerodb';
+import { invalidateEntitlements } from './entitlements';
+
+/**
+ * Helper function to convert Unix timestamp to ISO date string
+ */
+function toDateTime(secs: number): Date {
+  const t = new Date(0); // Unix epoch start
+  t.setSeconds(secs);
+  return t;
+}
+
+/**
+ * Upsert a product record from Stripe to ZeroDB
+ */
+async function upsertProductRecord(
+  product: Stripe.Product,
+  execute: QueryExecutor = query
+) {
+  const result = await execute(
+    `INSERT INTO products (id, active, name, description, image, metadata)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (id) DO UPDATE SET
+       active = EXCLUDED.active,
+       name = EXCLUDED.name,
+       description = EXCLUDED.description,
+       image = EXCLUDED.image,
+       metadata = EXCLUDED.metadata,
+       updated_at = NOW()
+     RETURNING *`,
+    [
+      product.id,
+      product.active,
+      product.name,
+      product.description || null,
+      product.images?.[0] || null,
+      JSON.stringify(product.metadata)
+    ]
+  );
+  console.log(`Product inserted/updated: ${product.id}`);
+  return result.rows[0];
+}
+
+/**
+ * Upsert a price record from Stripe to ZeroDB
+ * A price can arrive before its product. Outside a transaction the insert is
+ * retried while the product catches up; inside one (webhook processing) the
+ * failed insert has already aborted the transaction, so the error is thrown
+ * at once and Stripe redelivers the event later.
+ */
+async function upsertPriceRecord(
+  price: Stripe.Price,
+  execute: QueryExecutor = query,
+  retryCount = 0,
+  maxRetries = 3
+) {
+  try {
+    const result = await execute(
+      `INSERT INTO prices (
+        id, product_id, active, currency, description,
+        type, unit_amount, interval, interval_count,
+        trial_period_days, metadata
+      )
+      VALUES ($1, $2, $3, $4, $5, $6::pricing_type, $7, $8::pricing_plan_interval, $9, $10, $11)
+      ON CONFLICT (id) DO UPDATE SET
+        active = EXCLUDED.active,
+        currency = EXCLUDED.currency,
+        description = EXCLUDED.description,
+        type = EXCLUDED.type,
+        unit_amount = EXCLUDED.unit_amount,
+        interval = EXCLUDED.interval,
+        interval_count = EXCLUDED.interval_count,
+        trial_period_days = EXCLUDED.trial_period_days,
+        metadata = EXCLUDED.metadata
+      RETURNING *`,
+      [
+        price.id,
+        typeof price.product === 'string' ? price.product : price.product.id,
+        price.active,
+        price.currency,
+        price.nickname || null,
+        price.type,
+        price.unit_amount || null,
+        price.recurring?.interval || null,
+        price.recurring?.interval_count || null,
+        price.recurring?.trial_period_days || null,
+        JSON.stringify(price.metadata)
+      ]
+    );
+    console.log(`Price inserted/updated: ${price.id}`);
+    return result.rows[0];
+  } catch (error: any) {
+    // Handle foreign key constraint errors with retry logic
+    if (error.message?.includes('foreign key constraint') || error.code === '23503') {
+      if (execute !== query) {
+        throw new Error(`Price insert/update failed, product not synced yet: ${error.message}`);
+      }
+      if (retryCount < maxRetries) {
+        console.log(`Retry attempt ${retryCount + 1} for price ID: ${price.id}`);
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        return await upsertPriceRecord(price, execute, retryCount + 1, maxRetries);
+      } else {
+        throw new Error(
+          `Price insert/update failed after ${maxRetries} retries: ${error.message}`
+        );
+      }
+    }
+    throw new Error(`Price insert/update failed: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a product record by marking it as inactive
+ */
+async function deleteProductRecord(
+  product: Stripe.Product,
+  execute: QueryExecutor = query
+) {
+  await execute(
+    `UPDATE products SET active = false, updated_at = NOW() WHERE id = $1`,
+    [product.id]
+  );
+  console.log(`Product deleted: ${product.id}`);
+}
+
+/**
+ * Delete a price record by marking it as inactive
+ */
+async function deletePriceRecord(
+  price: Stripe.Price,
+  execute: QueryExecutor = query
+) {
+  await execute(
+    `UPDATE prices SET active = false WHERE id = $1`,
+    [price.id]
+  );
+  console.log(`Price deleted: ${price.id}`);
+}
+
+/**
+ * Create or retrieve a customer from Stripe and ZeroDB
+ */
+async function createOrRetrieveCustomer({
+  email,
+  uuid
+}: {
+  email: string;
+  uuid: string;
+}) {
+  // Check if customer exists in ZeroDB
+  const existing = await query(
+    'SELECT stripe_customer_id FROM customers WHERE user_id = $1',
+    [uuid]
+  );
+
+  if (existing.rows.length > 0 && existing.rows[0].stripe_customer_id) {
+    const stripeCustomerId = existing.rows[0].stripe_customer_id;
+
+    // Verify customer exists in Stripe
+    try {
+      await stripe.customers.retrieve(stripeCustomerId);
+      return stripeCustomerId;
+    } catch (error) {
+      console.warn(`Stripe customer ${stripeCustomerId} not found, creating new one`);
+    }
+  }
+
+  // Try to find existing Stripe customer by email
+  let stripeCustomerId: string | undefined;
+  const stripeCustomers = await stripe.customers.list({ email });
+
+  if (stripeCustomers.data.length > 0) {
+    stripeCustomerId = stripeCustomers.data[0].id;
+  } else {
+    // Create new Stripe customer
+    const customer = await stripe.customers.create({
+      email,
+      metadata: { user_id: uuid }
+    });
+    stripeCustomerId = customer.id;
+  }
+
+  // Upsert customer record in ZeroDB
+  await query(
+    `INSERT INTO customers (user_id, stripe_customer_id)
+     VALUES ($1, $2)
+     ON CONFLICT (user_id) DO UPDATE SET
+       stripe_customer_id = EXCLUDED.stripe_customer_id,
+       updated_at = NOW()`,
+    [uuid, stripeCustomerId]
+  );
+
+  console.log(`Customer record created/updated for user ${uuid}`);
+  return stripeCustomerId;
+}
+
+/**
+ * Copy billing details from payment method to customer
+ */
+async function copyBillingDetailsToCustomer(
+  uuid: string,
+  payment_method: Stripe.PaymentMethod,
+  execute: QueryExecutor = query
+) {
+  const customer = payment_method.customer as string;
+  const { name, phone, address } = payment_method.billing_details;
+
+  if (!name || !phone || !address) return;
+
+  // Update Stripe customer
+  await stripe.customers.update(customer, { name, phone, address });
+
+  // Update user billing information in ZeroDB
+  await execute(
+    `UPDATE users
+     SET billing_address = $1,
+         payment_method = $2,
+         updated_at = NOW()
+     WHERE id = $3`,
+    [
+      JSON.stringify(address),
+      JSON.stringify(payment_method[payment_method.type as keyof Stripe.PaymentMethod]),
+      uuid
+    ]
+  );
+
+  console.log(`Billing details updated for user ${uuid}`);
+}
+
+/**
+ * Look up who a Stripe customer bills: a user, or an organization.
+ * Checkout saves a user's customer on users.stripe_customer_id; older
+ * customers may only be in the customers mapping. Organization invoices and
+ * payments are filed under its first owner.
+ * @throws If the customer belongs to neither
+ */
+async function getBillingAccountForCustomer(
+  customerId: string,
+  execute: QueryExecutor = query
+): Promise<{ userId: string; organizationId: string | null }> {
+  const customerResult = await execute<{ user_id: string }>(
+    `SELECT user_id FROM customers WHERE stripe_customer_id = $1
+     UNION ALL
+     SELECT id AS user_id FROM users WHERE stripe_customer_id = $1
+     LIMIT 1`,
+    [customerId]
+  );
+
+  if (customerResult.rows.length > 0) {
+    return { userId: customerResult.rows[0].user_id, organizationId: null };
+  }
+
+  const organizationResult = await execute(
+    `SELECT o.id, m.user_id
+     FROM organizations o
+     JOIN memberships m ON m.organization_id = o.id AND m.role = 'owner'
+     WHERE o.stripe_customer_id = $1
+     ORDER BY m.created_at
+     LIMIT 1`,
+    [customerId]
+  );
+
+  if (organizationResult.rows.length === 0) {
+    throw new Error(`Customer not found: ${customerId}`);
+  }
+
+  return {
+    userId: organizationResult.rows[0].user_id,
+    organizationId: organizationResult.rows[0].id
+  };
+}
+
+/**
+ * Look up the user a Stripe customer's records are filed under
+ * @throws If the customer is not mapped to a user or organization
+ */
+async function getUserIdForCustomer(
+  customerId: string,
+  execute: QueryExecutor = query
+): Promise<string> {
+  return (await getBillingAccountForCustomer(customerId, execute)).userId;
+}
+
+/**
+ * Drop cached entitlements for everyone a subscription covers
+ */
+async function invalidateSubscriberEntitlements(
+  userId: string,
+  organizationId: string | null,
+  execute: QueryExecutor = query
+) {
+  if (!organizationId) {
+    invalidateEntitlements(userId);
+    return;
+  }
+
+  const members = await execute<{ user_id: string }>(
+    'SELECT user_id FROM memberships WHERE organization_id = $1',
+    [organizationId]
+  );
+  members.rows.forEach((row) => invalidateEntitlements(row.user_id));
+}
+
+/**
+ * Upsert a subscription read from Stripe
+ * Rows written for a later event are left alone. A row written for an event
+ * from the same second is only overwritten when allowTie is set, since the
+ * order of two such events is unknown.
+ * @returns False if the write was skipped as stale
+ */
+async function upsertSubscriptionRecord(
+  subscription: Stripe.Subscription,
+  userId: string,
+  organizationId: string | null,
+  eventCreated: number | null,
+  allowTie: boolean,
+  execute: QueryExecutor
+): Promise<boolean> {
+  // Prepare subscription data
+  const subscriptionData = {
+    id: subscription.id,
+    user_id: userId,
+    organization_id: organizationId,
+    metadata: subscription.metadata,
+    // Stripe keeps a subscription with paused collection active; store it as
+    // paused so it shows as such and stops granting entitlements
+    status: subscription.pause_collection ? 'paused' : subscription.status,
+    price_id: subscription.items.data[0].price.id,
+    quantity: subscription.items.data[0].quantity || 1,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    cancel_at: subscription.cancel_at
+      ? toDateTime(subscription.cancel_at).toISOString()
+      : null,
+    canceled_at: subscription.canceled_at
+      ? toDateTime(subscription.canceled_at).toISOString()
+      : null,
+    current_period_start: toDateTime(subscription.current_period_start).toISOString(),
+    current_period_end: toDateTime(subscription.current_period_end).toISOString(),
+    created: toDateTime(subscription.created).toISOString(),
+    ended_at: subscription.ended_at
+      ? toDateTime(subscription.ended_at).toISOString()
+      : null,
+    trial_start: subscription.trial_start
+      ? toDateTime(subscription.trial_start).toISOString()
+      : null,
+    trial_end: subscription.trial_end
+      ? toDateTime(subscription.trial_end).toISOString()
+      : null,
+    last_event_created: eventCreated
+      ? toDateTime(eventCreated).toISOString()
+      : null
+  };
+
+  // Upsert subscription, ignoring data from events older than the stored row
+  const upsertResult = await execute(
+    `INSERT INTO subscriptions (
+      id, user_id, status, price_id, quantity,
+      cancel_at_period_end, cancel_at, canceled_at,
+      current_period_start, current_period_end,
+      created, ended_at, trial_start, trial_end, metadata,
+      last_event_created, organization_id
+    )
+    VALUES ($1, $2, $3::subscription_status, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+    ON CONFLICT (id) DO UPDATE SET
+      status = EXCLUDED.status::subscription_status,
+      price_id = EXCLUDED.price_id,
+      quantity = EXCLUDED.quantity,
+      cancel_at_period_end = EXCLUDED.cancel_at_period_end,
+      cancel_at = EXCLUDED.cancel_at,
+      canceled_at = EXCLUDED.canceled_at,
+      current_period_start = EXCLUDED.current_period_start,
+      current_period_end = EXCLUDED.current_period_end,
+      ended_at = EXCLUDED.ended_at,
+      trial_start = EXCLUDED.trial_start,
+      trial_end = EXCLUDED.trial_end,
+      metadata = EXCLUDED.metadata,
+      last_event_created = COALESCE(EXCLUDED.last_event_created, subscriptions.last_event_created),
+      updated_at = NOW()
+    WHERE subscriptions.last_event_created IS NULL
+      OR EXCLUDED.last_event_created IS NULL
+      OR EXCLUDED.last_event_created > subscriptions.last_event_created
+      OR ($18::boolean AND EXCLUDED.last_event_created = subscriptions.last_event_created)
+    RETURNING id`,
+    [
+      subscriptionData.id,
+      subscriptionData.user_id,
+      subscriptionData.status,
+      subscriptionData.price_id,
+      subscriptionData.quantity,
+      subscriptionData.cancel_at_period_end,
+      subscriptionData.cancel_at,
+      subscriptionData.canceled_at,
+      subscriptionData.current_period_start,
+      subscriptionData.current_period_end,
+      subscriptionData.created,
+      subscriptionData.ended_at,
+      subscriptionData.trial_start,
+      subscriptionData.trial_end,
+      JSON.stringify(subscriptionData.metadata),
+      subscriptionData.last_event_created,
+      subscriptionData.organization_id,
+      allowTie
+    ]
+  );
+
+  return upsertResult.rows.length > 0;
+}
+
+/**
+ * Check whether a subscription's or invoice's row was written for an event
+ * from the given second
+ */
+async function isSameEventTime(
+  table: 'subscriptions' | 'invoices',
+  id: string,
+  eventCreated: number,
+  execute: QueryExecutor
+): Promise<boolean> {
+  const result = await execute(
+    `SELECT 1 FROM ${table} WHERE id = $1 AND last_event_created = $2`,
+    [id, toDateTime(eventCreated).toISOString()]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Manage subscription status changes from Stripe webhooks
+ * Writes carry the creation time of the triggering event, and the upsert
+ * rejects data older than what the row already holds. Events without a
+ * timestamp always write. Stripe timestamps are in whole seconds, so when
+ * the row was written for another event from the same second, the
+ * subscription is read from Stripe again and that state is written instead;
+ * it is at least as new as whatever either event saw.
+ */
+async function manageSubscriptionStatusChange(
+  subscriptionId: string,
+  customerId: string,
+  createAction = false,
+  eventCreated: number | null = null,
+  execute: QueryExecutor = query
+) {
+  const { userId, organizationId } = await getBillingAccountForCustomer(
+    customerId,
+    execute
+  );
+
+  // Get subscription details from Stripe
+  const retrieveSubscription = () =>
+    stripe.subscriptions.retrieve(subscriptionId, {
+      expand: ['default_payment_method']
+    });
+  let subscription = await retrieveSubscription();
+
+  let written = await upsertSubscriptionRecord(
+    subscription,
+    userId,
+    organizationId,
+    eventCreated,
+    false,
+    execute
+  );
+
+  if (
+    !written &&
+    eventCreated &&
+    (await isSameEventTime('subscriptions', subscriptionId, eventCreated, execute))
+  ) {
+    subscription = await retrieveSubscription();
+    written = await upsertSubscriptionRecord(
+      subscription,
+      userId,
+      organizationId,
+      eventCreated,
+      true,
+      execute
+    );
+  }
+
+  if (!written) {
+    console.log(`Skipped stale update for subscription [${subscription.id}]`);
+    return;
+  }
+
+  console.log(
+    organizationId
+      ? `Inserted/updated subscription [${subscription.id}] for organization [${organizationId}]`
+      : `Inserted/updated subscription [${subscription.id}] for user [${userId}]`
+  );
+  await invalidateSubscriberEntitlements(userId, organizationId, execute);
+
+  // For new personal subscriptions, copy billing details
+  if (createAction && subscription.default_payment_method && !organizationId) {
+    await copyBillingDetailsToCustomer(
+      userId,
+      subscription.default_payment_method as Stripe.PaymentMethod,
+      execute
+    );
+  }
+}
+
+/**
+ * Upsert an invoice record from Stripe to ZeroDB
+ * Uses the same event ordering guard as subscriptions, so a late
+ * invoice.finalized cannot reopen a paid invoice.
+ * @returns False if the write was skipped as stale
+ */
+async function upsertInvoiceRecord(
+  invoice: Stripe.Invoice,
+  eventCreated: number | null = null,
+  allowTie = false,
+  execute: QueryExecutor = query
+): Promise<boolean> {
+  const customerId =
+    typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id;
+  if (!customerId) {
+    throw new Error(`Invoice has no customer: ${invoice.id}`);
+  }
+
+  const userId = await getUserIdForCustomer(customerId, execute);
+  const subscriptionId =
+    typeof invoice.subscription === 'string'
+      ? invoice.subscription
+      : invoice.subscription?.id || null;
+  const paidAt = invoice.status_transitions?.paid_at;
+
+  const result = await execute(
+    `INSERT INTO invoices (
+      id, user_id, stripe_customer_id, subscription_id, status,
+      number, billing_reason, currency, amount_due, amount_paid,
+      amount_remaining, attempt_count, hosted_invoice_url, invoice_pdf, metadata,
+      created, period_start, period_end, due_date, paid_at,
+      next_payment_attempt, last_event_created
+    )
+    VALUES ($1, $2, $3, $4, $5::invoice_status, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+    ON CONFLICT (id) DO UPDATE SET
+      subscription_id = EXCLUDED.subscription_id,
+      status = EXCLUDED.status,
+      number = EXCLUDED.number,
+      amount_due = EXCLUDED.amount_due,
+      amount_paid = EXCLUDED.amount_paid,
+      amount_remaining = EXCLUDED.amount_remaining,
+      attempt_count = EXCLUDED.attempt_count,
+      hosted_invoice_url = EXCLUDED.hosted_invoice_url,
+      invoice_pdf = EXCLUDED.invoice_pdf,
+      metadata = EXCLUDED.metadata,
+      due_date = EXCLUDED.due_date,
+      paid_at = EXCLUDED.paid_at,
+      next_payment_attempt = EXCLUDED.next_payment_attempt,
+      last_event_created = COALESCE(EXCLUDED.last_event_created, invoices.last_event_created),
+      updated_at = NOW()
+    WHERE invoices.last_event_created IS NULL
+      OR EXCLUDED.last_event_created IS NULL
+      OR EXCLUDED.last_event_created > invoices.last_event_created
+      OR ($23::boolean AND EXCLUDED.last_event_created = invoices.last_event_created)
+    RETURNING id`,
+    [
+      invoice.id,
+      userId,
+      customerId,
+      subscriptionId,
+      invoice.status,
+      invoice.number,
+      invoice.billing_reason,
+      invoice.currency,
+      invoice.amount_due,
+      invoice.amount_paid,
+      invoice.amount_remaining,
+      invoice.attempt_count,
+      invoice.hosted_invoice_url || null,
+      invoice.invoice_pdf || null,
+      JSON.stringify(invoice.metadata || {}),
+      toDateTime(invoice.created).toISOString(),
+      toDateTime(invoice.period_start).toISOString(),
+      toDateTime(invoice.period_end).toISOString(),
+      invoice.due_date ? toDateTime(invoice.due_date).toISOString() : null,
+      paidAt ? toDateTime(paidAt).toISOString() : null,
+      invoice.next_payment_attempt
+        ? toDateTime(invoice.next_payment_attempt).toISOString()
+        : null,
+      eventCreated ? toDateTime(eventCreated).toISOString() : null,
+      allowTie
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  console.log(`Inserted/updated invoice [${invoice.id}] for user [${userId}]`);
+  return true;
+}
+
+/**
+ * Map a Stripe charge to a payment status, treating refunds as their own states
+ */
+function getPaymentStatus(charge: Stripe.Charge) {
+  if (charge.refunded) return 'refunded';
+  if (charge.amount_refunded > 0) return 'partially_refunded';
+  return charge.status;
+}
+
+/**
+ * Upsert a payment record from a Stripe charge to ZeroDB
+ * Callers pass the charge as just read from Stripe rather than an event's
+ * snapshot of it, so no ordering guard is needed.
+ */
+async function upsertPaymentRecord(
+  charge: Stripe.Charge,
+  execute: QueryExecutor = query
+) {
+  const customerId =
+    typeof charge.customer === 'string' ? charge.customer : charge.customer?.id;
+  if (!customerId) {
+    throw new Error(`Charge has no customer: ${charge.id}`);
+  }
+
+  const userId = await getUserIdForCustomer(customerId, execute);
+  const invoiceId =
+    typeof charge.invoice === 'string' ? charge.invoice : charge.invoice?.id || null;
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id || null;
+
+  await execute(
+    `INSERT INTO payments (
+      id, user_id, stripe_customer_id, invoice_id, payment_intent_id,
+      status, currency, amount, amount_refunded, failure_code,
+      failure_message, receipt_url, metadata, created
+    )
+    VALUES ($1, $2, $3, $4, $5, $6::payment_status, $7, $8, $9, $10, $11, $12, $13, $14)
+    ON CONFLICT (id) DO UPDATE SET
+      invoice_id = EXCLUDED.invoice_id,
+      status = EXCLUDED.status,
+      amount_refunded = EXCLUDED.amount_refunded,
+      failure_code = EXCLUDED.failure_code,
+      failure_message = EXCLUDED.failure_message,
+      receipt_url = EXCLUDED.receipt_url,
+      metadata = EXCLUDED.metadata,
+      updated_at = NOW()`,
+    [
+      charge.id,
+      userId,
+      customerId,
+      invoiceId,
+      paymentIntentId,
+      getPaymentStatus(charge),
+      charge.currency,
+      charge.amount,
+      charge.amount_refunded,
+      charge.failure_code,
+      charge.failure_message,
+      charge.receipt_url,
+      JSON.stringify(charge.metadata || {}),
+      toDateTime(charge.created).toISOString()
+    ]
+  );
+
+  console.log(`Inserted/updated payment [${charge.id}] for user [${userId}]`);
+}
+
+/**
+ * Sync an invoice and, once payment was attempted, the charge behind it
+ * The invoice is written from the event's snapshot; like subscriptions, it
+ * is read from Stripe again when another event from the same second already
+ * wrote it. The charge is always read from Stripe.
+ */
+async function manageInvoiceChange(
+  invoice: Stripe.Invoice,
+  eventCreated: number | null = null,
+  execute: QueryExecutor = query
+) {
+  let written = await upsertInvoiceRecord(invoice, eventCreated, false, execute);
+
+  if (
+    !written &&
+    eventCreated &&
+    (await isSameEventTime('invoices', invoice.id, eventCreated, execute))
+  ) {
+    invoice = await stripe.invoices.retrieve(invoice.id);
+    written = await upsertInvoiceRecord(invoice, eventCreated, true, execute);
+  }
+
+  if (!written) {
+    console.log(`Skipped stale update for invoice [${invoice.id}]`);
+  }
+
+  if (invoice.charge) {
+    const charge = await stripe.charges.retrieve(
+      typeof invoice.charge === 'string' ? invoice.charge : invoice.charge.id
+    );
+    await upsertPaymentRecord(charge, execute);
+  }
+}
+
+/**
+ * Record the line items of a paid one-time checkout as purchases
+ * Existing purchases are left untouched, so a redelivered checkout event
+ * cannot restore a refunded purchase.
+ */
+async function managePurchase(
+  session: Stripe.Checkout.Session,
+  execute: QueryExecutor = query
+) {
+  if (session.payment_status !== 'paid') {
+    console.log(`Checkout session [${session.id}] is awaiting payment`);
+    return;
+  }
+
+  const customerId =
+    typeof session.customer === 'string' ? session.customer : session.customer?.id;
+  if (!customerId) {
+    throw new Error(`Checkout session has no customer: ${session.id}`);
+  }
+
+  const userId = await getUserIdForCustomer(customerId, execute);
+  const paymentIntentId =
+    typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id || null;
+  const lineItems = await stripe.checkout.sessions.listLineItems(session.id, {
+    limit: 100
+  });
+
+  for (const item of lineItems.data) {
+    await execute(
+      `INSERT INTO purchases (
+        id, user_id, price_id, stripe_customer_id, checkout_session_id,
+        payment_intent_id, quantity, currency, amount_total, created
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (id) DO NOTHING`,
+      [
+        item.id,
+        userId,
+        item.price?.id || null,
+        customerId,
+        session.id,
+        paymentIntentId,
+        item.quantity || 1,
+        item.currency,
+        item.amount_total,
+        toDateTime(session.created).toISOString()
+      ]
+    );
+  }
+
+  console.log(
+    `Recorded ${lineItems.data.length} purchase(s) from checkout session [${session.id}] for user [${userId}]`
+  );
+  invalidateEntitlements(userId);
+}
+
+/**
+ * Revoke the purchases paid by a fully refunded charge
+ */
+async function revokeRefundedPurchases(
+  charge: Stripe.Charge,
+  execute: QueryExecutor = query
+) {
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+  if (!charge.refunded || !paymentIntentId) return;
+
+  const result = await execute<{ user_id: string }>(
+    `UPDATE purchases
+     SET status = 'refunded',
+         refunded_at = NOW()
+     WHERE payment_intent_id = $1 AND status = 'paid'
+     RETURNING user_id`,
+    [paymentIntentId]
+  );
+
+  if (result.rows.length > 0) {
+    console.log(`Revoked ${result.rows.length} purchase(s) for refunded charge [${charge.id}]`);
+    result.rows.forEach((row) => invalidateEntitlements(row.user_id));
+  }
+}
+
+/**
+ * Stripe events that the webhook route processes
+ */
+const relevantEvents = new Set([
+  'product.created',
+  'product.updated',
+  'product.deleted',
+  'price.created',
+  'price.updated',
+  'price.deleted',
+  'checkout.session.completed',
+  'checkout.session.async_payment_succeeded',
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.finalized',
+  'invoice.paid',
+  'invoice.payment_failed',
+  'charge.refunded'
+]);
+
+/**
+ * Dispatch a relevant event to its handler
+ */
+async function handleStripeEvent(event: Stripe.Event, execute: QueryExecutor) {
+  switch (event.type) {
+    case 'product.created':
+    case 'product.updated':
+      await upsertProductRecord(event.data.object as Stripe.Product, execute);
+      break;
+    case 'price.created':
+    case 'price.updated':
+      await upsertPriceRecord(event.data.object as Stripe.Price, execute);
+      break;
+    case 'price.deleted':
+      await deletePriceRecord(event.data.object as Stripe.Price, execute);
+      break;
+    case 'product.deleted':
+      await deleteProductRecord(event.data.object as Stripe.Product, execute);
+      break;
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      const subscription = event.data.object as Stripe.Subscription;
+      await manageSubscriptionStatusChange(
+        subscription.id,
+        subscription.customer as string,
+        event.type === 'customer.subscription.created',
+        event.created,
+        execute
+      );
+      break;
+    case 'checkout.session.completed':
+      const checkoutSession = event.data.object as Stripe.Checkout.Session;
+      if (checkoutSession.mode === 'subscription') {
+        const subscriptionId = checkoutSession.subscription;
+        await manageSubscriptionStatusChange(
+          subscriptionId as string,
+          checkoutSession.customer as string,
+          true,
+          event.created,
+          execute
+        );
+      } else if (checkoutSession.mode === 'payment') {
+        await managePurchase(checkoutSession, execute);
+      }
+      break;
+    case 'checkout.session.async_payment_succeeded':
+      await managePurchase(event.data.object as Stripe.Checkout.Session, execute);
+      break;
+    case 'invoice.finalized':
+    case 'invoice.paid':
+    case 'invoice.payment_failed':
+      await manageInvoiceChange(
+        event.data.object as Stripe.Invoice,
+        event.created,
+        execute
+      );
+      break;
+    case 'charge.refunded':
+      // Read the charge again so a late event cannot roll back a later refund
+      const charge = await stripe.charges.retrieve(
+        (event.data.object as Stripe.Charge).id
+      );
+      await upsertPaymentRecord(charge, execute);
+      await revokeRefundedPurchases(charge, execute);
+      break;
+    default:
+      throw new Error('Unhandled relevant event!');
+  }
+}
+
+export {
+  toDateTime,
+  upsertProductRecord,
+  upsertPriceRecord,
+  deleteProductRecord,
+  deletePriceRecord,
+  createOrRetrieveCustomer,
+  copyBillingDetailsToCustomer,
+  getBillingAccountForCustomer,
+  getUserIdForCustomer,
+  invalidateSubscriberEntitlements,
+  manageSubscriptionStatusChange,
+  upsertInvoiceRecord,
+  upsertPaymentRecord,
+  manageInvoiceChange,
+  managePurchase,
+  revokeRefundedPurchases,
+  relevantEvents,
+  handleStripeEvent
+};
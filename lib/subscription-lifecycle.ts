@@ -0,0 +1,155 @@
+import { stripe } from '@/utils/stripe/config';
+import type { CurrentSubscription } from './plan-changes';
+import { manageSubscriptionStatusChange } from './stripe-sync';
+import { query } from './zerodb';
+
+/**
+ * Subscription lifecycle
+ *
+ * Canceling, pausing and resuming subscriptions inside the app rather than
+ * the billing portal. Every action writes the subscription Stripe returns
+ * straight to the database, so the account page shows the result before the
+ * webhook arrives. Cancellations record the answer to a short survey.
+ */
+
+/** Cancellation reasons, matching Stripe's cancellation feedback values */
+export const CANCELLATION_REASONS = [
+  'too_expensive',
+  'missing_features',
+  'switched_service',
+  'unused',
+  'customer_service',
+  'too_complex',
+  'low_quality',
+  'other',
+] as const;
+
+export type CancellationReason = (typeof CANCELLATION_REASONS)[number];
+
+/** period_end keeps access until the paid period ends; immediate ends it now */
+export type CancellationMode = 'period_end' | 'immediate';
+
+export interface CancellationSurvey {
+  reason: CancellationReason;
+  comment?: string | null;
+}
+
+/** Longest survey comment stored, in characters */
+const MAX_COMMENT_LENGTH = 1000;
+
+/**
+ * Check whether a value is a known cancellation reason
+ */
+export function isCancellationReason(value: unknown): value is CancellationReason {
+  return CANCELLATION_REASONS.includes(value as CancellationReason);
+}
+
+/**
+ * Write the subscription as Stripe now has it
+ * The write carries no event time: it always applies and keeps the last
+ * webhook event's time, so the next webhook is compared with Stripe's clock
+ * rather than this server's.
+ */
+async function reflectSubscription(subscriptionId: string, customerId: string) {
+  await manageSubscriptionStatusChange(subscriptionId, customerId, false, null);
+}
+
+/**
+ * Cancel a subscription and record why
+ * Canceling at the period end releases any scheduled downgrade first, as
+ * Stripe does not let a schedule-managed subscription set it. Canceling
+ * immediately ends access now without refunding the unused time.
+ * @param current - The subscription being canceled
+ * @param mode - When the subscription ends
+ * @param survey - The subscriber's reason and optional comment
+ * @param userId - User canceling the subscription
+ * @throws Error if the reason is unknown or the subscription already cancels
+ */
+export async function cancelSubscription(
+  current: CurrentSubscription,
+  mode: CancellationMode,
+  survey: CancellationSurvey,
+  userId: string,
+): Promise<void> {
+  if (!isCancellationReason(survey.reason)) {
+    throw new Error('Please tell us why you are canceling.');
+  }
+  if (mode === 'period_end' && current.cancelAtPeriodEnd) {
+    throw new Error('Your subscription is already set to cancel.');
+  }
+
+  const comment = survey.comment?.trim().slice(0, MAX_COMMENT_LENGTH) || null;
+  const cancellationDetails = { feedback: survey.reason, comment: comment ?? '' };
+
+  let customerId: string;
+  if (mode === 'immediate') {
+    const canceled = await stripe.subscriptions.cancel(current.id, {
+      cancellation_details: cancellationDetails,
+    });
+    customerId = canceled.customer as string;
+  } else {
+    const subscription = await stripe.subscriptions.retrieve(current.id);
+    const scheduleId =
+      typeof subscription.schedule === 'string'
+        ? subscription.schedule
+        : subscription.schedule?.id ?? null;
+
+    if (scheduleId) {
+      await stripe.subscriptionSchedules.release(scheduleId);
+    }
+
+    const updated = await stripe.subscriptions.update(current.id, {
+      cancel_at_period_end: true,
+      cancellation_details: cancellationDetails,
+    });
+    customerId = updated.customer as string;
+  }
+
+  await query(
+    `INSERT INTO subscription_cancellations
+       (subscription_id, user_id, organization_id, reason, comment, mode)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [current.id, userId, current.organizationId, survey.reason, comment, mode],
+  );
+  await reflectSubscription(current.id, customerId);
+}
+
+/**
+ * Pause payment collection
+ * Invoices are voided while paused and the subscription stops granting
+ * entitlements until it is resumed.
+ * @param current - The subscription being paused
+ * @throws Error if the subscription is already paused or set to cancel
+ */
+export async function pauseSubscription(current: CurrentSubscription): Promise<void> {
+  if (current.status === 'paused') {
+    throw new Error('Your subscription is already paused.');
+  }
+  if (current.cancelAtPeriodEnd) {
+    throw new Error('Your subscription is already set to cancel.');
+  }
+
+  const updated = await stripe.subscriptions.update(current.id, {
+    pause_collection: { behavior: 'void' },
+  });
+
+  await reflectSubscription(current.id, updated.customer as string);
+}
+
+/**
+ * Resume a paused subscription or undo a cancellation at the period end
+ * @param current - The subscription being resumed
+ * @throws Error if the subscription is neither paused nor set to cancel
+ */
+export async function resumeSubscription(current: CurrentSubscription): Promise<void> {
+  if (current.status !== 'paused' && !current.cancelAtPeriodEnd) {
+    throw new Error('Your subscription is already active.');
+  }
+
+  const updated = await stripe.subscriptions.update(current.id, {
+    ...(current.status === 'paused' ? { pause_collection: '' as const } : {}),
+    ...(current.cancelAtPeriodEnd ? { cancel_at_period_end: false } : {}),
+  });
+
+  await reflectSubscription(current.id, updated.customer as string);
+}
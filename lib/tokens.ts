@@ -0,0 +1,47 @@
+import { createHash, createHmac, randomBytes, randomInt } from 'crypto';
+
+/**
+ * Opaque single-use tokens (refresh tokens, email links, sign-in codes)
+ * Only the SHA-256 hash is stored, so a database leak does not expose
+ * usable tokens.
+ */
+
+/**
+ * Hash a token for storage and lookup
+ * @param token - Opaque token
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a random URL-safe token
+ * @returns The token to hand out and the hash to store
+ */
+export function generateToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashToken(token) };
+}
+
+/**
+ * Derive a URL-safe token from another token and a stored salt
+ * The same inputs always give the same token, and it cannot be computed
+ * from the database alone since the source token is only stored hashed.
+ * @param token - Opaque source token
+ * @param salt - Random salt stored alongside the source token's hash
+ * @returns The derived token and the hash to store
+ */
+export function deriveToken(token: string, salt: string): { token: string; hash: string } {
+  const derived = createHmac('sha256', salt).update(token).digest('base64url');
+  return { token: derived, hash: hashToken(derived) };
+}
+
+/**
+ * Generate a random numeric code for typing in by hand
+ * @param digits - Code length
+ * @returns Zero-padded code
+ */
+export function generateCode(digits = 6): string {
+  return randomInt(0, 10 ** digits).toString().padStart(digits, '0');
+}
@@ -0,0 +1,250 @@
+import { randomBytes } from 'crypto';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import { hashToken } from './tokens';
+import { query } from './zerodb';
+
+/**
+ * Two-factor authentication with an authenticator app
+ *
+ * Enrollment stores a pending secret; the first correct code enables it and
+ * returns a fresh set of recovery codes, which are only ever shown once and
+ * stored hashed. Each accepted code is remembered by its time step so it
+ * cannot be replayed, and too many wrong codes lock the second step for a
+ * while. Checking the user's password is up to the caller (lib/auth).
+ */
+
+/** Recovery codes issued when two-factor authentication is enabled */
+export const RECOVERY_CODE_COUNT = 10;
+
+/** Wrong codes allowed before the second step locks */
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+/** Lock duration in seconds (15 minutes) */
+export const TWO_FACTOR_LOCKOUT = 15 * 60;
+
+export interface TwoFactorEnrollment {
+  /** Base32 secret for typing into the authenticator app */
+  secret: string;
+  /** otpauth:// URI for QR codes and mobile deep links */
+  otpauthUri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Normalize a recovery code as typed, e.g. "ABCDE-12345 " to "abcde12345"
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Replace a user's recovery codes with a new set
+ * @returns The codes, formatted for display
+ */
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+  await query('DELETE FROM recovery_codes WHERE user_id = $1', [userId]);
+  await query(
+    `INSERT INTO recovery_codes (user_id, code_hash)
+     SELECT $1, unnest($2::text[])`,
+    [userId, codes.map((code) => hashToken(normalizeRecoveryCode(code)))]
+  );
+
+  return codes;
+}
+
+/**
+ * Check whether sign-in needs a second step for a user
+ * @param userId - User ID
+ */
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const result = await query(
+    'SELECT 1 FROM user_totp WHERE user_id = $1 AND enabled_at IS NOT NULL',
+    [userId]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Get two-factor settings for the account page
+ * @param userId - User ID
+ */
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const result = await query(
+    `SELECT t.enabled_at,
+            (SELECT COUNT(*)::int FROM recovery_codes r
+             WHERE r.user_id = $1 AND r.used_at IS NULL) AS recovery_codes_remaining
+     FROM users u
+     LEFT JOIN user_totp t ON t.user_id = u.id
+     WHERE u.id = $1`,
+    [userId]
+  );
+
+  const row = result.rows[0];
+
+  return {
+    enabled: Boolean(row?.enabled_at),
+    recoveryCodesRemaining: row?.recovery_codes_remaining ?? 0,
+  };
+}
+
+/**
+ * Start enrolling an authenticator app
+ * Starting again replaces a pending secret that was never confirmed.
+ * @param user - User enrolling; the email labels the entry in the app
+ * @returns Secret and otpauth URI to show the user
+ * @throws Error if two-factor authentication is already enabled
+ */
+export async function beginTwoFactorEnrollment(user: {
+  id: string;
+  email: string;
+}): Promise<TwoFactorEnrollment> {
+  const secret = generateTotpSecret();
+
+  const result = await query(
+    `INSERT INTO user_totp (user_id, secret)
+     VALUES ($1, $2)
+     ON CONFLICT (user_id) DO UPDATE
+     SET secret = EXCLUDED.secret, last_used_step = NULL,
+         failed_attempts = 0, locked_until = NULL
+     WHERE user_totp.enabled_at IS NULL`,
+    [user.id, secret]
+  );
+
+  if ((result.rowCount ?? 0) === 0) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const issuer = process.env.TOTP_ISSUER || 'Next.js Subscription Starter';
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email, issuer),
+  };
+}
+
+/**
+ * Finish enrolling with the first code from the authenticator app
+ * @param userId - User ID
+ * @param code - Current 6-digit code
+ * @returns Recovery codes to show once
+ * @throws Error if no enrollment is pending or the code is wrong
+ */
+export async function confirmTwoFactorEnrollment(
+  userId: string,
+  code: string,
+): Promise<string[]> {
+  const result = await query(
+    'SELECT secret FROM user_totp WHERE user_id = $1 AND enabled_at IS NULL',
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('No two-factor setup is in progress');
+  }
+
+  const step = verifyTotp(result.rows[0].secret, code.replace(/\s/g, ''));
+  if (step === null) {
+    throw new Error('Invalid authentication code');
+  }
+
+  const enabled = await query(
+    `UPDATE user_totp SET enabled_at = NOW(), last_used_step = $2
+     WHERE user_id = $1 AND enabled_at IS NULL`,
+    [userId, step]
+  );
+
+  if ((enabled.rowCount ?? 0) === 0) {
+    throw new Error('No two-factor setup is in progress');
+  }
+
+  return issueRecoveryCodes(userId);
+}
+
+/**
+ * Check a second-step code: an authenticator code or an unused recovery code
+ * A code is accepted once. Wrong codes count toward a lockout that stops
+ * guessing, even with the right code, until it expires.
+ * @param userId - User ID
+ * @param code - 6-digit authenticator code or recovery code
+ * @returns True if the code was accepted
+ * @throws Error if the second step is locked
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const result = await query(
+    `SELECT secret, last_used_step, locked_until > NOW() AS locked
+     FROM user_totp
+     WHERE user_id = $1 AND enabled_at IS NOT NULL`,
+    [userId]
+  );
+
+  const totp = result.rows[0];
+  if (!totp) {
+    return false;
+  }
+
+  if (totp.locked) {
+    throw new Error('Too many incorrect codes. Please try again later.');
+  }
+
+  const input = code.replace(/\s/g, '');
+  let accepted = false;
+
+  const step = verifyTotp(totp.secret, input);
+  if (step !== null) {
+    // Claim the step so the same code cannot be used again
+    const claimed = await query(
+      `UPDATE user_totp SET last_used_step = $2
+       WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+      [userId, step]
+    );
+    accepted = (claimed.rowCount ?? 0) > 0;
+  } else if (input.length > 0) {
+    const used = await query(
+      `UPDATE recovery_codes SET used_at = NOW()
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+       RETURNING id`,
+      [userId, hashToken(normalizeRecoveryCode(input))]
+    );
+    accepted = used.rows.length > 0;
+  }
+
+  if (accepted) {
+    await query(
+      'UPDATE user_totp SET failed_attempts = 0 WHERE user_id = $1 AND failed_attempts > 0',
+      [userId]
+    );
+    return true;
+  }
+
+  await query(
+    `UPDATE user_totp
+     SET failed_attempts = CASE WHEN failed_attempts + 1 >= $2 THEN 0 ELSE failed_attempts + 1 END,
+         locked_until = CASE WHEN failed_attempts + 1 >= $2
+                          THEN NOW() + make_interval(secs => $3)
+                          ELSE locked_until END
+     WHERE user_id = $1`,
+    [userId, MAX_TWO_FACTOR_ATTEMPTS, TWO_FACTOR_LOCKOUT]
+  );
+
+  return false;
+}
+
+/**
+ * Turn off two-factor authentication and delete the recovery codes
+ * Callers must re-authenticate the user first.
+ * @param userId - User ID
+ */
+export async function removeTwoFactor(userId: string): Promise<void> {
+  await query('DELETE FROM recovery_codes WHERE user_id = $1', [userId]);
+  await query('DELETE FROM user_totp WHERE user_id = $1', [userId]);
+}
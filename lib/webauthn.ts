@@ -0,0 +1,580 @@
+import { createHash, createPublicKey, timingSafeEqual, verify, type KeyObject } from 'crypto';
+import { getURL } from '@/utils/helpers';
+import { signJwt, verifyJwt } from './jwt-keys';
+import { generateToken, hashToken } from './tokens';
+import { query } from './zerodb';
+
+/**
+ * WebAuthn passkeys
+ *
+ * Registration and sign-in ceremonies for discoverable credentials that
+ * require user verification, so a passkey alone counts as two factors. As
+ * with OAuth, the challenge travels in a short-lived signed cookie between
+ * the options and verify requests, and webauthn_challenges records each one
+ * verified so it cannot be used twice. Attestation is not requested: passkeys
+ * are trusted on first use, like a password set at sign-up.
+ *
+ * Only the credential's public key (SPKI) and sign counter are stored. The
+ * relying party ID is the hostname of NEXT_PUBLIC_SITE_URL, and responses
+ * must come from that origin.
+ */
+
+export const WEBAUTHN_CHALLENGE_COOKIE = 'webauthn_challenge';
+
+/** Path the challenge cookie is scoped to; deleting it must name the same path */
+export const WEBAUTHN_CHALLENGE_PATH = '/api/auth/webauthn';
+
+/** Time allowed to complete a ceremony, in seconds (5 minutes) */
+export const WEBAUTHN_CHALLENGE_EXPIRY = 5 * 60;
+
+/** COSE algorithms accepted for new passkeys: ES256, then RS256 */
+const SUPPORTED_ALGORITHMS = [-7, -257];
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/** Credential returned by navigator.credentials.create(), base64url-encoded */
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/** Credential returned by navigator.credentials.get(), base64url-encoded */
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface WebAuthnChallenge {
+  purpose: 'webauthn_registration' | 'webauthn_authentication';
+  challenge: string;
+  sub?: string;
+  exp?: number;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  publicKey?: Map<number, unknown>;
+}
+
+/**
+ * Compare two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Relying party the ceremonies are bound to
+ */
+function getRelyingParty(): { id: string; name: string; origin: string } {
+  const url = new URL(getURL());
+  return {
+    id: url.hostname,
+    name: 'Next.js Subscription Starter',
+    origin: url.origin,
+  };
+}
+
+/**
+ * Decode one CBOR item (RFC 8949), enough for attestation objects and COSE keys
+ * @returns The value and the offset just past it
+ */
+function decodeCbor(data: Buffer, offset = 0): { value: unknown; offset: number } {
+  const initial = data[offset++];
+  if (initial === undefined) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const major = initial >> 5;
+  const info = initial & 31;
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = data.readUInt8(offset);
+    offset += 1;
+  } else if (info === 25) {
+    length = data.readUInt16BE(offset);
+    offset += 2;
+  } else if (info === 26) {
+    length = data.readUInt32BE(offset);
+    offset += 4;
+  } else {
+    throw new Error('Unsupported CBOR length');
+  }
+
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+      if (offset + length > data.length) {
+        throw new Error('Unexpected end of CBOR data');
+      }
+      return { value: data.subarray(offset, offset + length), offset: offset + length };
+    case 3:
+      return { value: data.toString('utf8', offset, offset + length), offset: offset + length };
+    case 4: {
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(data, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(data, offset);
+        const entry = decodeCbor(data, key.offset);
+        map.set(key.value, entry.value);
+        offset = entry.offset;
+      }
+      return { value: map, offset };
+    }
+    case 7:
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22) return { value: null, offset };
+      throw new Error('Unsupported CBOR simple value');
+    default:
+      throw new Error('Unsupported CBOR type');
+  }
+}
+
+/**
+ * Parse authenticator data, including the attested credential on registration
+ */
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Invalid authenticator data');
+  }
+
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // 16-byte AAGUID, then the credential ID length and ID
+    const idLength = data.readUInt16BE(53);
+    parsed.credentialId = data.subarray(55, 55 + idLength);
+    const { value } = decodeCbor(data, 55 + idLength);
+    if (!(value instanceof Map)) {
+      throw new Error('Invalid credential public key');
+    }
+    parsed.publicKey = value as Map<number, unknown>;
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert a COSE public key to a Node key object
+ */
+function coseToPublicKey(cose: Map<number, unknown>): { key: KeyObject; algorithm: number } {
+  const algorithm = cose.get(3) as number;
+  const b64 = (value: unknown) => Buffer.from(value as Buffer).toString('base64url');
+
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new Error('Unsupported passkey algorithm');
+  }
+
+  // kty 2 is EC2 (crv 1 is P-256), kty 3 is RSA
+  if (algorithm === -7 && cose.get(1) === 2 && cose.get(-1) === 1) {
+    return {
+      key: createPublicKey({
+        key: { kty: 'EC', crv: 'P-256', x: b64(cose.get(-2)), y: b64(cose.get(-3)) },
+        format: 'jwk',
+      }),
+      algorithm,
+    };
+  }
+
+  if (algorithm === -257 && cose.get(1) === 3) {
+    return {
+      key: createPublicKey({
+        key: { kty: 'RSA', n: b64(cose.get(-1)), e: b64(cose.get(-2)) },
+        format: 'jwk',
+      }),
+      algorithm,
+    };
+  }
+
+  throw new Error('Invalid credential public key');
+}
+
+/**
+ * Check the client data and authenticator data shared by both ceremonies
+ */
+function verifyCeremony(
+  clientDataJSON: string,
+  authenticatorData: Buffer,
+  expected: { type: string; challenge: string },
+): AuthenticatorData {
+  const rp = getRelyingParty();
+
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new Error('Invalid client data');
+  }
+
+  if (clientData.type !== expected.type) {
+    throw new Error('Unexpected ceremony type');
+  }
+  if (typeof clientData.challenge !== 'string' || !safeEqual(clientData.challenge, expected.challenge)) {
+    throw new Error('Passkey challenge does not match');
+  }
+  if (clientData.origin !== rp.origin) {
+    throw new Error('Passkey origin does not match');
+  }
+
+  const parsed = parseAuthenticatorData(authenticatorData);
+
+  if (!parsed.rpIdHash.equals(createHash('sha256').update(rp.id).digest())) {
+    throw new Error('Passkey is for another site');
+  }
+  if (!(parsed.flags & FLAG_USER_PRESENT) || !(parsed.flags & FLAG_USER_VERIFIED)) {
+    throw new Error('Passkey did not verify the user');
+  }
+
+  return parsed;
+}
+
+/**
+ * Read a challenge cookie issued for a ceremony and mark the challenge used
+ * The verify routes clear the cookie, but a copy replayed before it expires
+ * must not verify again. Expired challenges are pruned on the way.
+ */
+async function consumeChallenge(
+  challengeToken: string | undefined,
+  purpose: WebAuthnChallenge['purpose'],
+): Promise<WebAuthnChallenge> {
+  let challenge: WebAuthnChallenge;
+  try {
+    challenge = verifyJwt<WebAuthnChallenge>(challengeToken ?? '');
+  } catch (error) {
+    throw new Error('Passkey request took too long. Please try again.');
+  }
+
+  if (challenge.purpose !== purpose) {
+    throw new Error('Passkey request took too long. Please try again.');
+  }
+
+  const claimed = await query(
+    `WITH expired AS (
+       DELETE FROM webauthn_challenges WHERE expires_at < NOW()
+     )
+     INSERT INTO webauthn_challenges (challenge_hash, expires_at)
+     VALUES ($1, to_timestamp($2))
+     ON CONFLICT (challenge_hash) DO NOTHING`,
+    [hashToken(challenge.challenge), challenge.exp]
+  );
+
+  if (claimed.rowCount === 0) {
+    throw new Error('Passkey request took too long. Please try again.');
+  }
+
+  return challenge;
+}
+
+/**
+ * Start registering a passkey for a signed-in user
+ * @param user - User adding the passkey
+ * @returns Options for navigator.credentials.create(), and the challenge
+ *   token to store in the WEBAUTHN_CHALLENGE_COOKIE
+ */
+export async function generateRegistrationOptions(user: {
+  id: string;
+  email: string;
+  full_name?: string | null;
+}): Promise<{ options: Record<string, unknown>; challengeToken: string }> {
+  const rp = getRelyingParty();
+  const challenge = generateToken().token;
+
+  const existing = await query(
+    'SELECT credential_id, transports FROM webauthn_credentials WHERE user_id = $1',
+    [user.id]
+  );
+
+  const options = {
+    challenge,
+    rp: { id: rp.id, name: rp.name },
+    user: {
+      id: Buffer.from(user.id).toString('base64url'),
+      name: user.email,
+      displayName: user.full_name || user.email,
+    },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+    timeout: WEBAUTHN_CHALLENGE_EXPIRY * 1000,
+    attestation: 'none',
+    authenticatorSelection: {
+      residentKey: 'required',
+      requireResidentKey: true,
+      userVerification: 'required',
+    },
+    // Stop the same authenticator from being registered twice
+    excludeCredentials: existing.rows.map((row) => ({
+      type: 'public-key',
+      id: row.credential_id,
+      transports: row.transports ?? undefined,
+    })),
+  };
+
+  const token: WebAuthnChallenge = {
+    purpose: 'webauthn_registration',
+    challenge,
+    sub: user.id,
+  };
+
+  return { options, challengeToken: signJwt(token, WEBAUTHN_CHALLENGE_EXPIRY) };
+}
+
+/**
+ * Finish registering a passkey
+ * @param userId - Signed-in user; must match the user the options were for
+ * @param credential - Response from navigator.credentials.create()
+ * @param challengeToken - Value of the WEBAUTHN_CHALLENGE_COOKIE
+ * @param name - Label shown on the account page
+ * @returns The stored passkey
+ * @throws Error if the challenge expired or the response does not verify
+ */
+export async function verifyRegistration(
+  userId: string,
+  credential: RegistrationCredentialJSON,
+  challengeToken: string | undefined,
+  name?: string,
+): Promise<Passkey> {
+  const challenge = await consumeChallenge(challengeToken, 'webauthn_registration');
+
+  if (challenge.sub !== userId) {
+    throw new Error('Passkey request took too long. Please try again.');
+  }
+
+  let attestation: Map<string, unknown>;
+  try {
+    attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url'))
+      .value as Map<string, unknown>;
+  } catch (error) {
+    throw new Error('Invalid attestation object');
+  }
+
+  const authData = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!Buffer.isBuffer(authData)) {
+    throw new Error('Invalid attestation object');
+  }
+
+  const parsed = verifyCeremony(credential.response.clientDataJSON, authData, {
+    type: 'webauthn.create',
+    challenge: challenge.challenge,
+  });
+
+  if (!parsed.credentialId || !parsed.publicKey) {
+    throw new Error('Passkey response has no credential');
+  }
+
+  const credentialId = parsed.credentialId.toString('base64url');
+  if (credential.rawId !== credentialId) {
+    throw new Error('Passkey credential ID does not match');
+  }
+
+  const { key, algorithm } = coseToPublicKey(parsed.publicKey);
+
+  const result = await query(
+    `INSERT INTO webauthn_credentials
+       (user_id, credential_id, public_key, algorithm, sign_count, transports, name)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (credential_id) DO NOTHING
+     RETURNING id, name, created_at, last_used_at`,
+    [
+      userId,
+      credentialId,
+      key.export({ format: 'der', type: 'spki' }).toString('base64url'),
+      algorithm,
+      parsed.signCount,
+      credential.response.transports ?? null,
+      name?.trim() || 'Passkey',
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('This passkey is already registered');
+  }
+
+  const row = result.rows[0];
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+/**
+ * Start signing in with a passkey
+ * No credentials are listed, so the browser offers every passkey it has for
+ * this site and nothing reveals which emails have one.
+ * @returns Options for navigator.credentials.get(), and the challenge token
+ *   to store in the WEBAUTHN_CHALLENGE_COOKIE
+ */
+export function generateAuthenticationOptions(): {
+  options: Record<string, unknown>;
+  challengeToken: string;
+} {
+  const challenge = generateToken().token;
+
+  const options = {
+    challenge,
+    rpId: getRelyingParty().id,
+    timeout: WEBAUTHN_CHALLENGE_EXPIRY * 1000,
+    userVerification: 'required',
+    allowCredentials: [],
+  };
+
+  const token: WebAuthnChallenge = { purpose: 'webauthn_authentication', challenge };
+
+  return { options, challengeToken: signJwt(token, WEBAUTHN_CHALLENGE_EXPIRY) };
+}
+
+/**
+ * Verify a passkey sign-in and advance its sign counter
+ * A counter that does not increase means the passkey may have been cloned.
+ * Synced passkeys always report 0, which is allowed.
+ * @param credential - Response from navigator.credentials.get()
+ * @param challengeToken - Value of the WEBAUTHN_CHALLENGE_COOKIE
+ * @returns ID of the user the passkey belongs to
+ * @throws Error if the challenge expired, the passkey is unknown or the response does not verify
+ */
+export async function verifyAuthentication(
+  credential: AuthenticationCredentialJSON,
+  challengeToken: string | undefined,
+): Promise<string> {
+  const challenge = await consumeChallenge(challengeToken, 'webauthn_authentication');
+
+  const result = await query(
+    `SELECT id, user_id, public_key, sign_count
+     FROM webauthn_credentials
+     WHERE credential_id = $1`,
+    [credential.rawId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('This passkey is not registered');
+  }
+
+  const stored = result.rows[0];
+
+  const { userHandle } = credential.response;
+  if (userHandle && userHandle !== Buffer.from(stored.user_id).toString('base64url')) {
+    throw new Error('Passkey user does not match');
+  }
+
+  const authenticatorData = Buffer.from(credential.response.authenticatorData, 'base64url');
+  const parsed = verifyCeremony(credential.response.clientDataJSON, authenticatorData, {
+    type: 'webauthn.get',
+    challenge: challenge.challenge,
+  });
+
+  const signedData = Buffer.concat([
+    authenticatorData,
+    createHash('sha256')
+      .update(Buffer.from(credential.response.clientDataJSON, 'base64url'))
+      .digest(),
+  ]);
+
+  const publicKey = createPublicKey({
+    key: Buffer.from(stored.public_key, 'base64url'),
+    format: 'der',
+    type: 'spki',
+  });
+
+  if (
+    !verify('sha256', signedData, publicKey, Buffer.from(credential.response.signature, 'base64url'))
+  ) {
+    throw new Error('Passkey signature is invalid');
+  }
+
+  const storedCount = Number(stored.sign_count);
+  if ((parsed.signCount > 0 || storedCount > 0) && parsed.signCount <= storedCount) {
+    throw new Error('Passkey sign counter did not increase');
+  }
+
+  await query(
+    `UPDATE webauthn_credentials
+     SET sign_count = $2, last_used_at = NOW()
+     WHERE id = $1`,
+    [stored.id, parsed.signCount]
+  );
+
+  return stored.user_id;
+}
+
+/**
+ * List a user's passkeys for the account page
+ * @param userId - User ID
+ */
+export async function listPasskeys(userId: string): Promise<Passkey[]> {
+  const result = await query(
+    `SELECT id, name, created_at, last_used_at
+     FROM webauthn_credentials
+     WHERE user_id = $1
+     ORDER BY created_at`,
+    [userId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  }));
+}
+
+/**
+ * Remove one of a user's passkeys
+ * @param userId - User ID; passkeys of other users are never touched
+ * @param passkeyId - Passkey to remove
+ * @returns True if a passkey was removed
+ */
+export async function deletePasskey(userId: string, passkeyId: string): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM webauthn_credentials WHERE id = $1 AND user_id = $2',
+    [passkeyId, userId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,158 @@
+import type pg from 'pg';
+import type Stripe from 'stripe';
+import { query, transaction, type QueryExecutor } from './zerodb';
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  payload: Stripe.Event;
+  status: WebhookEventStatus;
+  attempts: number;
+  error: string | null;
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Record a webhook delivery in the ledger and claim it for processing
+ * Redeliveries of an event that is not yet processed increment its attempt count
+ * @param event - Verified Stripe event
+ * @returns True if the event should be processed, false if it was already processed
+ */
+export async function claimWebhookEvent(event: Stripe.Event): Promise<boolean> {
+  const result = await query(
+    `INSERT INTO webhook_events (id, type, payload, status, attempts)
+     VALUES ($1, $2, $3, 'processing', 1)
+     ON CONFLICT (id) DO UPDATE SET
+       status = 'processing',
+       attempts = webhook_events.attempts + 1,
+       updated_at = NOW()
+     WHERE webhook_events.status <> 'processed'
+     RETURNING id`,
+    [event.id, event.type, JSON.stringify(event)]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Process a claimed event atomically
+ * The handler's writes and the ledger update commit together in one transaction.
+ * The ledger row is locked first, so concurrent deliveries of the same event
+ * are serialized and only the first one runs the handler.
+ * @param event - Claimed Stripe event
+ * @param handler - Receives an executor bound to the transaction
+ * @returns True if the handler ran, false if another delivery already processed the event
+ * @throws The handler's error after the event is marked as failed
+ */
+export async function processWebhookEvent(
+  event: Stripe.Event,
+  handler: (execute: QueryExecutor) => Promise<void>
+): Promise<boolean> {
+  try {
+    return await transaction(async (client) => {
+      const execute: QueryExecutor = <T extends pg.QueryResultRow>(
+        text: string,
+        params?: any[]
+      ) => client.query<T>(text, params);
+
+      const locked = await execute<{ status: WebhookEventStatus }>(
+        'SELECT status FROM webhook_events WHERE id = $1 FOR UPDATE',
+        [event.id]
+      );
+
+      if (locked.rows[0]?.status === 'processed') {
+        return false;
+      }
+
+      await handler(execute);
+
+      await execute(
+        `UPDATE webhook_events
+         SET status = 'processed',
+             error = NULL,
+             processed_at = NOW()
+         WHERE id = $1`,
+        [event.id]
+      );
+
+      return true;
+    });
+  } catch (error) {
+    await markWebhookEventFailed(event.id, error);
+    throw error;
+  }
+}
+
+/**
+ * Mark an event as failed and keep the error for inspection
+ * @param eventId - Stripe event ID
+ * @param error - Error thrown while processing the event
+ */
+export async function markWebhookEventFailed(
+  eventId: string,
+  error: unknown
+): Promise<void> {
+  await query(
+    `UPDATE webhook_events
+     SET status = 'failed',
+         error = $2
+     WHERE id = $1`,
+    [eventId, error instanceof Error ? error.message : String(error)]
+  );
+}
+
+export interface WebhookEventFilter {
+  type?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * List failed events, which form the dead-letter queue
+ * @param filter - Optional event type and received-at date range
+ * @returns Failed events, oldest first
+ */
+export async function listFailedWebhookEvents(
+  filter: WebhookEventFilter = {}
+): Promise<WebhookEvent[]> {
+  const result = await query<WebhookEvent>(
+    `SELECT id, type, payload, status, attempts, error,
+            processed_at, created_at, updated_at
+     FROM webhook_events
+     WHERE status = 'failed'
+       AND ($1::text IS NULL OR type = $1)
+       AND ($2::timestamptz IS NULL OR created_at >= $2)
+       AND ($3::timestamptz IS NULL OR created_at <= $3)
+     ORDER BY created_at ASC`,
+    [
+      filter.type ?? null,
+      filter.from?.toISOString() ?? null,
+      filter.to?.toISOString() ?? null,
+    ]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get a single ledger entry with its payload
+ * @param eventId - Stripe event ID
+ * @returns The ledger entry, or null if the event was never received
+ */
+export async function getWebhookEvent(
+  eventId: string
+): Promise<WebhookEvent | null> {
+  const result = await query<WebhookEvent>(
+    `SELECT id, type, payload, status, attempts, error,
+            processed_at, created_at, updated_at
+     FROM webhook_events
+     WHERE id = $1`,
+    [eventId]
+  );
+
+  return result.rows[0] ?? null;
+}
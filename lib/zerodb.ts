@@ -107,6 +107,15 @@ function isRetryableError(error: unknown): boolean {
   return false;
 }
 
+/**
+ * Signature shared by query() and transaction-bound executors, so helpers can
+ * run either standalone or inside transaction()
+ */
+export type QueryExecutor = <T extends pg.QueryResultRow = any>(
+  text: string,
+  params?: any[]
+) => Promise<pg.QueryResult<T>>;
+
 /**
  * Execute a SQL query with automatic logging and error handling
  * @param text - SQL query string
@@ -1,7 +1,19 @@
 import { NextResponse, type NextRequest } from 'next/server';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+import {
+  matchRouteRule,
+  isRouteAllowed,
+  type RouteAccess,
+  type RouteRule
+} from '@/lib/route-rules';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  setAuthCookies,
+  clearAuthCookies,
+  type AuthTokens
+} from '@/lib/auth-cookies';
+import { verifyJwt } from '@/lib/jwt-keys';
+import { getErrorRedirect } from '@/utils/helpers';
 
 // Protected routes that require authentication
 const protectedPaths = ['/account', '/api/subscription'];
@@ -15,16 +27,147 @@ const publicPaths = [
   '/signup',
   '/pricing',
   '/api/webhooks/stripe',
-  '/api/webhooks'
+  '/api/webhooks',
+  '/api/auth',
+  '/auth/callback',
+  '/auth/oauth',
+  '/auth/verify',
+  '/auth/reset_password',
+  '/.well-known'
 ];
 
 interface JWTPayload {
   userId: string;
   email: string;
+  sid?: string;
   exp: number;
   iat?: number;
 }
 
+interface RefreshedSession extends AuthTokens {
+  user: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * Read a cookie's value from a response's Set-Cookie headers
+ */
+function readSetCookie(response: Response, name: string): string | null {
+  const prefix = `${name}=`;
+  const header = response.headers
+    .getSetCookie()
+    .find((cookie) => cookie.startsWith(prefix));
+
+  return header ? decodeURIComponent(header.slice(prefix.length).split(';')[0]) : null;
+}
+
+/**
+ * Rotate the refresh token through the refresh route
+ * Middleware cannot reach the database, so the route does the rotation. The
+ * rotated refresh token only comes back in the route's Set-Cookie header.
+ * Returns null when the refresh token is missing, reused, revoked or expired.
+ */
+async function fetchRefreshedSession(request: NextRequest): Promise<RefreshedSession | null> {
+  try {
+    const response = await fetch(new URL('/api/auth/refresh', request.url), {
+      method: 'POST',
+      headers: { cookie: request.headers.get('cookie') ?? '' }
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const refreshToken = readSetCookie(response, REFRESH_TOKEN_COOKIE);
+    if (!refreshToken) {
+      return null;
+    }
+
+    return { ...(await response.json()), refresh_token: refreshToken };
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Check that the access token's session has not been revoked
+ * Only a 401 from the session route means the session is gone; network
+ * errors and other responses leave it unknown.
+ */
+async function fetchSessionState(
+  request: NextRequest
+): Promise<'active' | 'inactive' | 'unknown'> {
+  try {
+    const response = await fetch(new URL('/api/auth/session', request.url), {
+      headers: { cookie: request.headers.get('cookie') ?? '' }
+    });
+
+    if (response.ok) {
+      return 'active';
+    }
+    if (response.status === 401) {
+      return 'inactive';
+    }
+
+    console.error('Session lookup failed with status', response.status);
+    return 'unknown';
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    return 'unknown';
+  }
+}
+
+/**
+ * Fetch the signed-in user's plan from the entitlements route
+ * Middleware cannot reach the database, so the route does the lookup.
+ * Returns null when the lookup fails, which denies access.
+ */
+async function fetchRouteAccess(request: NextRequest): Promise<RouteAccess | null> {
+  try {
+    const response = await fetch(new URL('/api/entitlements', request.url), {
+      headers: { cookie: request.headers.get('cookie') ?? '' }
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const { tier, features } = await response.json();
+    return { tier: tier ?? null, features: features ?? [] };
+  } catch (error) {
+    console.error('Entitlements lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Copy the request headers without any x-user-* headers the client sent
+ * Only middleware sets them, after verifying the access token; passing a
+ * client's own values through would let it act as any user.
+ */
+function withoutUserHeaders(request: NextRequest): Headers {
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete('x-user-id');
+  requestHeaders.delete('x-user-email');
+  return requestHeaders;
+}
+
+/**
+ * Redirect to the pricing page with an upgrade toast
+ */
+function redirectToPricing(request: NextRequest, rule: RouteRule) {
+  const redirectPath = getErrorRedirect(
+    '/',
+    'Upgrade required',
+    rule.message ?? 'Your current plan does not include this page.'
+  );
+
+  return NextResponse.redirect(new URL(redirectPath, request.url));
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
@@ -40,75 +183,114 @@ export async function middleware(request: NextRequest) {
 
   // Skip auth check for public routes
   if (isPublicRoute) {
-    return NextResponse.next();
+    return NextResponse.next({
+      request: {
+        headers: withoutUserHeaders(request),
+      },
+    });
   }
 
-  // Get JWT token from cookies
-  const token = request.cookies.get('access_token')?.value;
+  // Get JWT tokens from cookies
+  const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
 
   // Redirect to signin if no token
-  if (!token) {
+  if (!token && !refreshToken) {
     const url = request.nextUrl.clone();
     url.pathname = '/signin';
     url.searchParams.set('redirect', pathname);
     return NextResponse.redirect(url);
   }
 
+  let user: { userId: string; email: string };
+  let refreshed: RefreshedSession | null = null;
+
   try {
+    if (!token) {
+      throw new Error('Access token missing');
+    }
+
     // Verify JWT token and decode payload
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-
-    // Check if token is about to expire (within 1 hour)
-    const expiresIn = decoded.exp - Math.floor(Date.now() / 1000);
-
-    if (expiresIn > 0 && expiresIn < 3600) {
-      // Token expires soon, refresh it
-      const newToken = jwt.sign(
-        { userId: decoded.userId, email: decoded.email },
-        JWT_SECRET,
-        { expiresIn: '7d' }
-      );
-
-      const response = NextResponse.next();
-      response.cookies.set('access_token', newToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
-        path: '/',
-      });
-
-      // Add user info to headers
-      response.headers.set('x-user-id', decoded.userId);
-      response.headers.set('x-user-email', decoded.email);
+    const decoded = verifyJwt<JWTPayload>(token);
 
-      return response;
+    // Two-factor challenges and OAuth flow tokens share the signing keys
+    if (!decoded.userId) {
+      throw new Error('Not an access token');
     }
 
-    // Token is valid, add user info to request headers
-    const requestHeaders = new Headers(request.headers);
-    requestHeaders.set('x-user-id', decoded.userId);
-    requestHeaders.set('x-user-email', decoded.email);
+    // Reject sessions revoked since the token was issued; tokens issued
+    // before sessions existed carry no sid and expire on their own
+    if (decoded.sid) {
+      const session = await fetchSessionState(request);
 
-    return NextResponse.next({
-      request: {
-        headers: requestHeaders,
-      },
-    });
+      // The session may be fine, so keep the cookies and ask for a retry
+      if (session === 'unknown') {
+        return NextResponse.json(
+          { error: 'Your session could not be checked. Please try again.' },
+          { status: 503, headers: { 'Retry-After': '5' } }
+        );
+      }
+      if (session === 'inactive') {
+        throw new Error('Session revoked');
+      }
+    }
 
+    user = { userId: decoded.userId, email: decoded.email };
   } catch (error) {
-    console.error('JWT verification failed:', error);
+    // Missing or expired access tokens are renewed with the refresh token
+    const renewable =
+      !token || (error instanceof Error && error.name === 'TokenExpiredError');
 
-    // Invalid or expired token, clear cookie and redirect to signin
-    const url = request.nextUrl.clone();
-    url.pathname = '/signin';
-    url.searchParams.set('redirect', pathname);
+    if (renewable && refreshToken) {
+      refreshed = await fetchRefreshedSession(request);
+    }
+
+    if (!refreshed) {
+      console.error('JWT verification failed:', error);
+
+      // Invalid or expired session, clear cookies and redirect to signin
+      const url = request.nextUrl.clone();
+      url.pathname = '/signin';
+      url.searchParams.set('redirect', pathname);
+
+      const response = NextResponse.redirect(url);
+      clearAuthCookies(response.cookies);
+
+      return response;
+    }
 
-    const response = NextResponse.redirect(url);
-    response.cookies.delete('access_token');
+    user = { userId: refreshed.user.id, email: refreshed.user.email };
 
-    return response;
+    // Let the rest of this request see the new tokens
+    request.cookies.set(ACCESS_TOKEN_COOKIE, refreshed.access_token);
+    request.cookies.set(REFRESH_TOKEN_COOKIE, refreshed.refresh_token);
   }
+
+  // Enforce plan-gated route rules
+  const rule = matchRouteRule(pathname);
+  if (rule) {
+    const access = await fetchRouteAccess(request);
+    if (!access || !isRouteAllowed(rule, access)) {
+      return redirectToPricing(request, rule);
+    }
+  }
+
+  // Add user info to request headers
+  const requestHeaders = withoutUserHeaders(request);
+  requestHeaders.set('x-user-id', user.userId);
+  requestHeaders.set('x-user-email', user.email);
+
+  const response = NextResponse.next({
+    request: {
+      headers: requestHeaders,
+    },
+  });
+
+  if (refreshed) {
+    setAuthCookies(response.cookies, refreshed);
+  }
+
+  return response;
 }
 
 export const config = {
@@ -0,0 +1,229 @@
+#!/usr/bin/env tsx
+
+/**
+ * Webhook Replay Script
+ * Lists, inspects and replays failed Stripe webhook events
+ *
+ * Features:
+ * - Failed events stay in the webhook_events ledger, which acts as the dead-letter queue
+ * - Replays run through the same handlers as the webhook route
+ * - Filters by event type and received-at date range
+ * - Dry-run mode reports what would be replayed without writing to the database
+ *
+ * Usage:
+ *   pnpm webhooks:replay list [--type=<event type>] [--from=<date>] [--to=<date>]
+ *   pnpm webhooks:replay inspect <event id>
+ *   pnpm webhooks:replay replay [<event id>] [--type=...] [--from=...] [--to=...] [--dry-run]
+ */
+
+import { cleanup } from '@/lib/zerodb';
+import {
+  claimWebhookEvent,
+  processWebhookEvent,
+  listFailedWebhookEvents,
+  getWebhookEvent,
+  type WebhookEvent,
+  type WebhookEventFilter
+} from '@/lib/webhook-events';
+import { handleStripeEvent } from '@/lib/stripe-sync';
+
+interface CliOptions extends WebhookEventFilter {
+  eventId?: string;
+  dryRun: boolean;
+}
+
+interface ReplaySummary {
+  replayed: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+/**
+ * Parse a date option, rejecting values that do not parse
+ */
+function parseDate(name: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${name} date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Parse command line arguments into a command and its options
+ */
+function parseArgs(argv: string[]): { command: string; options: CliOptions } {
+  const [command = 'list', ...rest] = argv;
+  const options: CliOptions = { dryRun: false };
+
+  for (const arg of rest) {
+    const separator = arg.indexOf('=');
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const value = separator === -1 ? '' : arg.slice(separator + 1);
+
+    switch (flag) {
+      case '--type':
+        options.type = value;
+        break;
+      case '--from':
+        options.from = parseDate('from', value);
+        break;
+      case '--to':
+        options.to = parseDate('to', value);
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        if (flag.startsWith('--')) {
+          throw new Error(`Unknown option: ${flag}`);
+        }
+        options.eventId = flag;
+    }
+  }
+
+  return { command, options };
+}
+
+/**
+ * Print a one-line summary for each event
+ */
+function printEvents(events: WebhookEvent[]) {
+  if (events.length === 0) {
+    console.log('✅ No failed events found');
+    return;
+  }
+
+  console.log(`\n📋 ${events.length} failed event(s):`);
+  for (const event of events) {
+    console.log(
+      `   • ${event.id}  ${event.type}  received ${new Date(event.created_at).toISOString()}  attempts ${event.attempts}`
+    );
+    console.log(`     ${event.error ?? 'No error recorded'}`);
+  }
+}
+
+/**
+ * Print the full ledger entry, including the event payload
+ */
+async function inspectEvent(eventId: string): Promise<WebhookEvent> {
+  const event = await getWebhookEvent(eventId);
+  if (!event) {
+    throw new Error(`Event not found: ${eventId}`);
+  }
+
+  console.log(`\n🔍 ${event.id} (${event.type})`);
+  console.log(`   • Status: ${event.status}`);
+  console.log(`   • Attempts: ${event.attempts}`);
+  console.log(`   • Error: ${event.error ?? 'none'}`);
+  console.log(`   • Received: ${new Date(event.created_at).toISOString()}`);
+  console.log('\n📦 Payload:');
+  console.log(JSON.stringify(event.payload, null, 2));
+
+  return event;
+}
+
+/**
+ * Replay failed events through the webhook handlers
+ * @param options - A single event ID, or filters over the dead-letter queue
+ * @returns IDs of replayed, failed and skipped events
+ */
+async function replayEvents(options: CliOptions): Promise<ReplaySummary> {
+  const summary: ReplaySummary = { replayed: [], failed: [], skipped: [] };
+
+  let events: WebhookEvent[];
+  if (options.eventId) {
+    const event = await getWebhookEvent(options.eventId);
+    if (!event) {
+      throw new Error(`Event not found: ${options.eventId}`);
+    }
+    events = [event];
+  } else {
+    events = await listFailedWebhookEvents(options);
+  }
+
+  for (const event of events) {
+    if (event.status !== 'failed') {
+      console.log(`⏭️  Skipping ${event.id}: status is ${event.status}`);
+      summary.skipped.push(event.id);
+      continue;
+    }
+
+    if (options.dryRun) {
+      console.log(`📝 Would replay ${event.id} (${event.type})`);
+      summary.replayed.push(event.id);
+      continue;
+    }
+
+    try {
+      const claimed = await claimWebhookEvent(event.payload);
+      if (!claimed) {
+        console.log(`⏭️  Skipping ${event.id}: already processed`);
+        summary.skipped.push(event.id);
+        continue;
+      }
+
+      await processWebhookEvent(event.payload, (execute) =>
+        handleStripeEvent(event.payload, execute)
+      );
+      console.log(`✅ Replayed ${event.id} (${event.type})`);
+      summary.replayed.push(event.id);
+    } catch (error) {
+      console.error(
+        `❌ Replay failed for ${event.id}: ${error instanceof Error ? error.message : error}`
+      );
+      summary.failed.push(event.id);
+    }
+  }
+
+  console.log(`\n📊 Replay Summary${options.dryRun ? ' (dry run)' : ''}:`);
+  console.log(`   • ${options.dryRun ? 'Would replay' : 'Replayed'}: ${summary.replayed.length}`);
+  console.log(`   • Failed: ${summary.failed.length}`);
+  console.log(`   • Skipped: ${summary.skipped.length}`);
+
+  return summary;
+}
+
+/**
+ * CLI entry point
+ */
+async function main() {
+  let exitCode = 0;
+
+  try {
+    const { command, options } = parseArgs(process.argv.slice(2));
+
+    switch (command) {
+      case 'list':
+        printEvents(await listFailedWebhookEvents(options));
+        break;
+      case 'inspect':
+        if (!options.eventId) {
+          throw new Error('Usage: inspect <event id>');
+        }
+        await inspectEvent(options.eventId);
+        break;
+      case 'replay': {
+        const summary = await replayEvents(options);
+        exitCode = summary.failed.length > 0 ? 1 : 0;
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+    exitCode = 1;
+  } finally {
+    await cleanup();
+  }
+
+  process.exit(exitCode);
+}
+
+// Only run if this script is executed directly
+if (require.main === module) {
+  main();
+}
+
+export { parseArgs, inspectEvent, replayEvents };
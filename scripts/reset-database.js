@@ -41,7 +41,27 @@ async function dropAllObjects(client) {
 
   // Drop tables in reverse order of dependencies
   const tables = [
+    'retention_offer_outcomes',
+    'subscription_cancellations',
+    'invitations',
+    'memberships',
+    'sign_in_throttles',
+    'webauthn_challenges',
+    'webauthn_credentials',
+    'recovery_codes',
+    'user_totp',
+    'one_time_tokens',
+    'password_reset_tokens',
+    'email_verification_tokens',
+    'user_identities',
+    'refresh_tokens',
+    'sessions',
+    'purchases',
+    'payments',
+    'invoices',
+    'webhook_events',
     'subscriptions',
+    'organizations',
     'customers',
     'prices',
     'products',
@@ -61,6 +81,10 @@ async function dropAllObjects(client) {
 
   // Drop custom enum types
   const enumTypes = [
+    'purchase_status',
+    'payment_status',
+    'invoice_status',
+    'webhook_event_status',
     'subscription_status',
     'pricing_plan_interval',
     'pricing_type'
@@ -0,0 +1,396 @@
+#!/usr/bin/env tsx
+
+/**
+ * Stripe Catalog Resync Script
+ * Reconciles products, prices and subscriptions in ZeroDB with Stripe
+ *
+ * Features:
+ * - Pages through every product, price and subscription in Stripe
+ * - Upserts rows that are missing or out of date using the webhook handlers
+ * - Deactivates products and prices that no longer exist in Stripe
+ * - Reports local subscriptions that Stripe does not know about
+ * - Dry-run mode prints the report without writing to the database
+ *
+ * Usage:
+ *   pnpm stripe:resync [--dry-run]
+ */
+
+import Stripe from 'stripe';
+import { stripe } from '@/utils/stripe/config';
+import { query, cleanup } from '@/lib/zerodb';
+import {
+  toDateTime,
+  upsertProductRecord,
+  upsertPriceRecord,
+  deleteProductRecord,
+  deletePriceRecord,
+  manageSubscriptionStatusChange
+} from '@/lib/stripe-sync';
+
+interface ResyncOptions {
+  dryRun: boolean;
+}
+
+interface TableReport {
+  created: string[];
+  updated: string[];
+  deactivated: string[];
+  unchanged: number;
+  failed: string[];
+}
+
+interface ResyncReport {
+  products: TableReport;
+  prices: TableReport;
+  subscriptions: TableReport & { orphaned: string[] };
+}
+
+/** Columns read back for comparison; only products and prices have `active` */
+interface CatalogRow {
+  id: string;
+  active?: boolean;
+}
+
+interface ProductRow extends CatalogRow {
+  active: boolean;
+  name: string | null;
+  description: string | null;
+  image: string | null;
+  metadata: Record<string, string> | null;
+}
+
+interface PriceRow extends CatalogRow {
+  product_id: string | null;
+  active: boolean;
+  currency: string | null;
+  description: string | null;
+  type: Stripe.Price.Type | null;
+  /** BIGINT comes back from pg as a string */
+  unit_amount: string | number | null;
+  interval: Stripe.Price.Recurring.Interval | null;
+  interval_count: number | null;
+  trial_period_days: number | null;
+  metadata: Record<string, string> | null;
+}
+
+interface SubscriptionRow extends CatalogRow {
+  status: Stripe.Subscription.Status | null;
+  price_id: string | null;
+  quantity: number | null;
+  cancel_at_period_end: boolean | null;
+  current_period_end: Date | string;
+}
+
+const PAGE_SIZE = 100;
+
+function emptyReport(): TableReport {
+  return { created: [], updated: [], deactivated: [], unchanged: 0, failed: [] };
+}
+
+/**
+ * Collect every item of a Stripe list endpoint by following the cursor
+ * @param fetchPage - Fetches one page starting after the given ID
+ */
+async function listAll<T extends { id: string }>(
+  fetchPage: (startingAfter?: string) => Promise<Stripe.ApiList<T>>
+): Promise<T[]> {
+  const items: T[] = [];
+  let startingAfter: string | undefined;
+
+  while (true) {
+    const page = await fetchPage(startingAfter);
+    items.push(...page.data);
+
+    if (!page.has_more || page.data.length === 0) {
+      return items;
+    }
+    startingAfter = page.data[page.data.length - 1].id;
+  }
+}
+
+/**
+ * Compare Stripe metadata with the JSONB column, ignoring key order
+ */
+function sameMetadata(
+  stripeMetadata: Stripe.Metadata | null | undefined,
+  stored: Record<string, string> | null | undefined
+): boolean {
+  const a = stripeMetadata ?? {};
+  const b = stored ?? {};
+  const keys = Object.keys(a);
+
+  return (
+    keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key])
+  );
+}
+
+/**
+ * Check whether a product row matches what upsertProductRecord would write
+ */
+function productMatches(product: Stripe.Product, row: ProductRow): boolean {
+  return (
+    row.active === product.active &&
+    row.name === product.name &&
+    row.description === (product.description || null) &&
+    row.image === (product.images?.[0] || null) &&
+    sameMetadata(product.metadata, row.metadata)
+  );
+}
+
+/**
+ * Check whether a price row matches what upsertPriceRecord would write
+ */
+function priceMatches(price: Stripe.Price, row: PriceRow): boolean {
+  const productId = typeof price.product === 'string' ? price.product : price.product.id;
+  const unitAmount = row.unit_amount === null ? null : Number(row.unit_amount);
+
+  return (
+    row.product_id === productId &&
+    row.active === price.active &&
+    row.currency === price.currency &&
+    row.description === (price.nickname || null) &&
+    row.type === price.type &&
+    unitAmount === (price.unit_amount || null) &&
+    row.interval === (price.recurring?.interval || null) &&
+    row.interval_count === (price.recurring?.interval_count || null) &&
+    row.trial_period_days === (price.recurring?.trial_period_days || null) &&
+    sameMetadata(price.metadata, row.metadata)
+  );
+}
+
+/**
+ * Check whether a subscription row reflects the current Stripe state
+ */
+function subscriptionMatches(
+  subscription: Stripe.Subscription,
+  row: SubscriptionRow
+): boolean {
+  const item = subscription.items.data[0];
+
+  return (
+    row.status === subscription.status &&
+    row.price_id === item?.price.id &&
+    row.quantity === (item?.quantity || 1) &&
+    row.cancel_at_period_end === subscription.cancel_at_period_end &&
+    new Date(row.current_period_end).getTime() ===
+      toDateTime(subscription.current_period_end).getTime()
+  );
+}
+
+/**
+ * Load table rows keyed by ID
+ */
+async function loadRows<R extends CatalogRow>(sql: string): Promise<Map<string, R>> {
+  const result = await query<R>(sql);
+  return new Map(result.rows.map((row) => [row.id, row]));
+}
+
+/**
+ * Upsert Stripe objects that are missing or differ from their row, then
+ * deactivate active rows that Stripe no longer returns when a deactivate
+ * function is given
+ */
+async function reconcile<T extends { id: string }, R extends CatalogRow>(
+  label: string,
+  remote: T[],
+  rows: Map<string, R>,
+  matches: (item: T, row: R) => boolean,
+  upsert: (item: T) => Promise<unknown>,
+  options: ResyncOptions,
+  deactivate?: (id: string) => Promise<unknown>
+): Promise<TableReport> {
+  const report = emptyReport();
+
+  for (const item of remote) {
+    const row = rows.get(item.id);
+    if (row && matches(item, row)) {
+      report.unchanged++;
+      continue;
+    }
+
+    try {
+      if (!options.dryRun) {
+        await upsert(item);
+      }
+      (row ? report.updated : report.created).push(item.id);
+    } catch (error) {
+      console.error(
+        `❌ Failed to sync ${label} ${item.id}: ${error instanceof Error ? error.message : error}`
+      );
+      report.failed.push(item.id);
+    }
+  }
+
+  if (!deactivate) {
+    return report;
+  }
+
+  const remoteIds = new Set(remote.map((item) => item.id));
+  for (const [id, row] of Array.from(rows.entries())) {
+    if (remoteIds.has(id) || !row.active) continue;
+
+    try {
+      if (!options.dryRun) {
+        await deactivate(id);
+      }
+      report.deactivated.push(id);
+    } catch (error) {
+      console.error(
+        `❌ Failed to deactivate ${label} ${id}: ${error instanceof Error ? error.message : error}`
+      );
+      report.failed.push(id);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Bring the products, prices and subscriptions tables in line with Stripe
+ * Products are synced before prices so price rows always reference an existing product.
+ * @param options - Set dryRun to report differences without writing
+ * @returns Per-table lists of created, updated, deactivated and failed IDs
+ */
+async function resyncCatalog(options: ResyncOptions): Promise<ResyncReport> {
+  console.log('📥 Fetching catalog from Stripe...');
+  const [products, prices, subscriptions] = await Promise.all([
+    listAll((starting_after) => stripe.products.list({ limit: PAGE_SIZE, starting_after })),
+    listAll((starting_after) => stripe.prices.list({ limit: PAGE_SIZE, starting_after })),
+    listAll((starting_after) =>
+      stripe.subscriptions.list({ limit: PAGE_SIZE, starting_after, status: 'all' })
+    )
+  ]);
+  console.log(
+    `   • ${products.length} products, ${prices.length} prices, ${subscriptions.length} subscriptions`
+  );
+
+  const productRows = await loadRows<ProductRow>(
+    'SELECT id, active, name, description, image, metadata FROM products'
+  );
+  const productReport = await reconcile(
+    'product',
+    products,
+    productRows,
+    productMatches,
+    (product) => upsertProductRecord(product),
+    options,
+    (id) => deleteProductRecord({ id } as Stripe.Product)
+  );
+
+  const priceRows = await loadRows<PriceRow>(
+    `SELECT id, product_id, active, currency, description, type, unit_amount,
+            interval, interval_count, trial_period_days, metadata
+     FROM prices`
+  );
+  const priceReport = await reconcile(
+    'price',
+    prices,
+    priceRows,
+    priceMatches,
+    (price) => upsertPriceRecord(price),
+    options,
+    (id) => deletePriceRecord({ id } as Stripe.Price)
+  );
+
+  // Subscriptions are never deactivated here: Stripe lists canceled
+  // subscriptions too, so a missing one points at data from another account
+  const subscriptionRows = await loadRows<SubscriptionRow>(
+    `SELECT id, status, price_id, quantity, cancel_at_period_end, current_period_end
+     FROM subscriptions`
+  );
+  const subscriptionReport = await reconcile(
+    'subscription',
+    subscriptions,
+    subscriptionRows,
+    subscriptionMatches,
+    (subscription) =>
+      manageSubscriptionStatusChange(subscription.id, subscription.customer as string),
+    options
+  );
+  const remoteSubscriptionIds = new Set(subscriptions.map((subscription) => subscription.id));
+  const orphaned = Array.from(subscriptionRows.keys()).filter(
+    (id) => !remoteSubscriptionIds.has(id)
+  );
+
+  const report: ResyncReport = {
+    products: productReport,
+    prices: priceReport,
+    subscriptions: { ...subscriptionReport, orphaned }
+  };
+  printReport(report, options);
+
+  return report;
+}
+
+/**
+ * Print the per-table summary
+ */
+function printReport(report: ResyncReport, options: ResyncOptions) {
+  const verb = options.dryRun ? 'Would ' : '';
+
+  console.log(`\n📊 Resync Report${options.dryRun ? ' (dry run)' : ''}:`);
+  for (const [table, tableReport] of Object.entries(report) as [string, TableReport][]) {
+    console.log(`\n   ${table}:`);
+    console.log(`   • ${verb}Create: ${tableReport.created.length}`);
+    console.log(`   • ${verb}Update: ${tableReport.updated.length}`);
+    if (table !== 'subscriptions') {
+      console.log(`   • ${verb}Deactivate: ${tableReport.deactivated.length}`);
+    }
+    console.log(`   • Unchanged: ${tableReport.unchanged}`);
+    console.log(`   • Failed: ${tableReport.failed.length}`);
+  }
+
+  if (report.subscriptions.orphaned.length > 0) {
+    console.log('\n⚠️  Subscriptions in ZeroDB that Stripe does not know about:');
+    for (const id of report.subscriptions.orphaned) {
+      console.log(`   • ${id}`);
+    }
+  }
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): ResyncOptions {
+  const options: ResyncOptions = { dryRun: false };
+
+  for (const arg of argv) {
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * CLI entry point
+ */
+async function main() {
+  let exitCode = 0;
+
+  try {
+    const report = await resyncCatalog(parseArgs(process.argv.slice(2)));
+    const failed =
+      report.products.failed.length +
+      report.prices.failed.length +
+      report.subscriptions.failed.length;
+    exitCode = failed > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+    exitCode = 1;
+  } finally {
+    await cleanup();
+  }
+
+  process.exit(exitCode);
+}
+
+// Only run if this script is executed directly
+if (require.main === module) {
+  main();
+}
+
+export { parseArgs, listAll, resyncCatalog };
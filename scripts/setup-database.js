@@ -22,7 +22,34 @@ async function verifySchema(client) {
   console.log('\n🔍 Verifying schema...');
 
   // Check tables
-  const expectedTables = ['users', 'customers', 'products', 'prices', 'subscriptions', 'schema_version'];
+  const expectedTables = [
+    'users',
+    'customers',
+    'products',
+    'prices',
+    'subscriptions',
+    'webhook_events',
+    'invoices',
+    'payments',
+    'purchases',
+    'sessions',
+    'refresh_tokens',
+    'user_identities',
+    'email_verification_tokens',
+    'password_reset_tokens',
+    'one_time_tokens',
+    'user_totp',
+    'recovery_codes',
+    'webauthn_credentials',
+    'webauthn_challenges',
+    'sign_in_throttles',
+    'organizations',
+    'memberships',
+    'invitations',
+    'subscription_cancellations',
+    'retention_offer_outcomes',
+    'schema_version'
+  ];
   const { rows: tables } = await client.query(`
     SELECT table_name
     FROM information_schema.tables
@@ -40,7 +67,15 @@ async function verifySchema(client) {
   }
 
   // Check enum types
-  const expectedTypes = ['pricing_type', 'pricing_plan_interval', 'subscription_status'];
+  const expectedTypes = [
+    'pricing_type',
+    'pricing_plan_interval',
+    'subscription_status',
+    'webhook_event_status',
+    'invoice_status',
+    'payment_status',
+    'purchase_status'
+  ];
   const { rows: types } = await client.query(`
     SELECT typname
     FROM pg_type
@@ -9,6 +9,8 @@ import {
   calculateTrialEndUnixTimestamp,
   getStatusRedirect,
   getErrorRedirect,
+  describeUserAgent,
+  getClientIp,
 } from '../helpers';
 
 describe('Helper Utilities', () => {
@@ -322,4 +324,63 @@ describe('Helper Utilities', () => {
       expect(url).toContain('attempt=3');
     });
   });
+
+  describe('describeUserAgent', () => {
+    it('should name the browser and operating system', () => {
+      expect(
+        describeUserAgent(
+          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+        )
+      ).toBe('Chrome on macOS');
+    });
+
+    it('should not mistake Edge for Chrome', () => {
+      expect(
+        describeUserAgent(
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+        )
+      ).toBe('Edge on Windows');
+    });
+
+    it('should detect mobile Safari', () => {
+      expect(
+        describeUserAgent(
+          'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+        )
+      ).toBe('Safari on iOS');
+    });
+
+    it('should fall back for unknown or missing agents', () => {
+      expect(describeUserAgent('curl/8.4.0')).toBe('Unknown device');
+      expect(describeUserAgent(null)).toBe('Unknown device');
+    });
+  });
+
+  describe('getClientIp', () => {
+    const headersWith = (values: Record<string, string>) => new Headers(values);
+
+    it('should take the address our proxy appended, not one the client sent', () => {
+      expect(
+        getClientIp(headersWith({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }))
+      ).toBe('203.0.113.7');
+      expect(getClientIp(headersWith({ 'x-forwarded-for': '203.0.113.7' }))).toBe(
+        '203.0.113.7'
+      );
+    });
+
+    it('should skip the addresses of further trusted proxies', () => {
+      process.env.TRUSTED_PROXY_COUNT = '2';
+
+      expect(
+        getClientIp(
+          headersWith({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' })
+        )
+      ).toBe('203.0.113.7');
+    });
+
+    it('should fall back to X-Real-IP, or nothing', () => {
+      expect(getClientIp(headersWith({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+      expect(getClientIp(headersWith({}))).toBeNull();
+    });
+  });
 });
@@ -12,6 +12,7 @@ import {
   willCancelAtPeriodEnd,
   getSubscriptionProductName,
   formatSubscriptionPrice,
+  getBillingStatus,
 } from '../subscription-helpers';
 
 describe('formatPrice()', () => {
@@ -353,3 +354,29 @@ describe('Edge Cases', () => {
     expect(result).toBeTruthy();
   });
 });
+
+describe('getBillingStatus()', () => {
+  it('returns correct status for a paid invoice', () => {
+    expect(getBillingStatus('paid', 2000)).toBe('Paid');
+  });
+
+  it('returns correct status for an open invoice', () => {
+    expect(getBillingStatus('open', 2000)).toBe('Due');
+  });
+
+  it('returns correct status for a failed payment', () => {
+    expect(getBillingStatus('failed', 2000)).toBe('Failed');
+  });
+
+  it('reports a full refund over the paid status', () => {
+    expect(getBillingStatus('paid', 2000, 2000)).toBe('Refunded');
+  });
+
+  it('reports a partial refund over the paid status', () => {
+    expect(getBillingStatus('paid', 2000, 500)).toBe('Partially Refunded');
+  });
+
+  it('handles null status', () => {
+    expect(getBillingStatus(null)).toBe('Unknown');
+  });
+});
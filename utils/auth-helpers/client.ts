@@ -1,8 +1,6 @@
 'use client';
 
-import { createClient } from '@/utils/supabase/client';
-import { type Provider } from '@supabase/supabase-js';
-import { getURL } from '@/utils/helpers';
+import { getErrorRedirect, getStatusRedirect, getURL } from '@/utils/helpers';
 import { redirectToPath } from './server';
 import { AppRouterInstance } from 'next/dist/shared/lib/app-router-context.shared-runtime';
 
@@ -30,15 +28,171 @@ export async function signInWithOAuth(e: React.FormEvent<HTMLFormElement>) {
   // Prevent default form submission refresh
   e.preventDefault();
   const formData = new FormData(e.currentTarget);
-  const provider = String(formData.get('provider')).trim() as Provider;
-
-  // Create client-side supabase client and call signInWithOAuth
-  const supabase = createClient();
-  const redirectURL = getURL('/auth/callback');
-  await supabase.auth.signInWithOAuth({
-    provider: provider,
-    options: {
-      redirectTo: redirectURL
-    }
+  const provider = String(formData.get('provider')).trim();
+
+  // The sign-in route sets the state cookie and redirects to the provider
+  window.location.assign(getURL(`/auth/oauth/${encodeURIComponent(provider)}`));
+}
+
+function base64urlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function bufferToBase64url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Run one WebAuthn ceremony against the /api/auth/webauthn routes
+async function passkeyRequest(
+  path: string,
+  body: (options: any) => Promise<unknown>,
+  optionsBody?: unknown
+) {
+  const optionsResponse = await fetch(`/api/auth/webauthn/${path}/options`, {
+    method: 'POST',
+    ...(optionsBody === undefined
+      ? {}
+      : {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(optionsBody)
+        })
+  });
+  const options = await optionsResponse.json();
+  if (!optionsResponse.ok) {
+    throw new Error(options.error ?? 'Passkeys are not available right now.');
+  }
+
+  const verifyResponse = await fetch(`/api/auth/webauthn/${path}/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(await body(options))
   });
+  const result = await verifyResponse.json();
+  if (!verifyResponse.ok) {
+    throw new Error(result.error ?? 'The passkey could not be verified.');
+  }
+
+  return result;
+}
+
+export async function signInWithPasskey(
+  router: AppRouterInstance | null = null
+): Promise<boolean | void> {
+  let redirectUrl: string;
+
+  try {
+    await passkeyRequest('authenticate', async (options) => {
+      const credential = (await navigator.credentials.get({
+        publicKey: {
+          ...options,
+          challenge: base64urlToBuffer(options.challenge)
+        }
+      })) as PublicKeyCredential | null;
+      if (!credential) {
+        throw new Error('No passkey was selected.');
+      }
+
+      const response = credential.response as AuthenticatorAssertionResponse;
+      return {
+        id: credential.id,
+        rawId: bufferToBase64url(credential.rawId),
+        type: credential.type,
+        response: {
+          clientDataJSON: bufferToBase64url(response.clientDataJSON),
+          authenticatorData: bufferToBase64url(response.authenticatorData),
+          signature: bufferToBase64url(response.signature),
+          userHandle: response.userHandle
+            ? bufferToBase64url(response.userHandle)
+            : null
+        }
+      };
+    });
+
+    redirectUrl = getStatusRedirect('/', 'Success!', 'You are now signed in.');
+  } catch (error) {
+    redirectUrl = getErrorRedirect(
+      '/signin',
+      'Sign in failed.',
+      error instanceof Error ? error.message : 'You could not be signed in.'
+    );
+  }
+
+  if (router) {
+    return router.push(redirectUrl);
+  } else {
+    return await redirectToPath(redirectUrl);
+  }
+}
+
+export async function registerPasskey(
+  e: React.FormEvent<HTMLFormElement>,
+  router: AppRouterInstance
+) {
+  // Prevent default form submission refresh
+  e.preventDefault();
+  const formData = new FormData(e.currentTarget);
+  const name = String(formData.get('name') ?? '').trim();
+  // Adding a passkey requires re-authenticating first
+  const reauthentication = {
+    password: String(formData.get('password') ?? ''),
+    code: String(formData.get('code') ?? '').trim()
+  };
+  let redirectUrl: string;
+
+  try {
+    await passkeyRequest('register', async (options) => {
+      const credential = (await navigator.credentials.create({
+        publicKey: {
+          ...options,
+          challenge: base64urlToBuffer(options.challenge),
+          user: { ...options.user, id: base64urlToBuffer(options.user.id) },
+          excludeCredentials: options.excludeCredentials.map(
+            (excluded: { id: string }) => ({
+              ...excluded,
+              id: base64urlToBuffer(excluded.id)
+            })
+          )
+        }
+      })) as PublicKeyCredential | null;
+      if (!credential) {
+        throw new Error('No passkey was created.');
+      }
+
+      const response = credential.response as AuthenticatorAttestationResponse;
+      return {
+        credential: {
+          id: credential.id,
+          rawId: bufferToBase64url(credential.rawId),
+          type: credential.type,
+          response: {
+            clientDataJSON: bufferToBase64url(response.clientDataJSON),
+            attestationObject: bufferToBase64url(response.attestationObject),
+            transports: response.getTransports?.() ?? []
+          }
+        },
+        name
+      };
+    }, reauthentication);
+
+    redirectUrl = getStatusRedirect('/account', 'Success!', 'Your passkey has been added.');
+  } catch (error) {
+    redirectUrl = getErrorRedirect(
+      '/account',
+      'The passkey could not be added.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return router.push(redirectUrl);
 }
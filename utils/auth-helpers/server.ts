@@ -1,9 +1,8 @@
 'use server';
 
-import { createClient } from '@/utils/supabase/server';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { redirect } from 'next/navigation';
-import { getURL, getErrorRedirect, getStatusRedirect } from 'utils/helpers';
+import { getClientIp, getErrorRedirect, getStatusRedirect } from 'utils/helpers';
 import { getAuthTypes } from 'utils/auth-helpers/settings';
 
 function isValidEmail(email: string) {
@@ -11,6 +10,11 @@ function isValidEmail(email: string) {
   return regex.test(email);
 }
 
+// Password policy errors list every rule the new password broke
+function isPasswordPolicyError(error: unknown): error is Error {
+  return error instanceof Error && error.name === 'PasswordPolicyError';
+}
+
 export async function redirectToPath(path: string) {
   return redirect(path);
 }
@@ -18,10 +22,12 @@ export async function redirectToPath(path: string) {
 export async function SignOut(formData: FormData) {
   const pathName = String(formData.get('pathName')).trim();
 
-  const supabase = createClient();
-  const { error } = await supabase.auth.signOut();
+  const cookieStore = cookies();
 
-  if (error) {
+  try {
+    const { signOut } = await import('@/lib/auth');
+    await signOut(cookieStore.get('refresh_token')?.value ?? '');
+  } catch (error) {
     return getErrorRedirect(
       pathName,
       'Hmm... Something went wrong.',
@@ -29,239 +35,319 @@ export async function SignOut(formData: FormData) {
     );
   }
 
+  cookieStore.delete('access_token');
+  cookieStore.delete('refresh_token');
+
   return '/signin';
 }
 
 export async function signInWithEmail(formData: FormData) {
   const cookieStore = cookies();
-  const callbackURL = getURL('/auth/callback');
-
   const email = String(formData.get('email')).trim();
-  let redirectPath: string;
 
   if (!isValidEmail(email)) {
-    redirectPath = getErrorRedirect(
+    return getErrorRedirect(
       '/signin/email_signin',
       'Invalid email address.',
       'Please try again.'
     );
   }
 
-  const supabase = createClient();
-  let options = {
-    emailRedirectTo: callbackURL,
-    shouldCreateUser: true
-  };
-
-  // If allowPassword is false, do not create a new user
-  const { allowPassword } = getAuthTypes();
-  if (allowPassword) options.shouldCreateUser = false;
-  const { data, error } = await supabase.auth.signInWithOtp({
-    email,
-    options: options
-  });
-
-  if (error) {
-    redirectPath = getErrorRedirect(
+  try {
+    const { requestEmailSignIn } = await import('@/lib/passwordless');
+    await requestEmailSignIn(email);
+  } catch (error) {
+    return getErrorRedirect(
       '/signin/email_signin',
       'You could not be signed in.',
-      error.message
+      error instanceof Error ? error.message : 'Please try again.'
     );
-  } else if (data) {
-    cookieStore.set('preferredSignInView', 'email_signin', { path: '/' });
-    redirectPath = getStatusRedirect(
-      '/signin/email_signin',
-      'Success!',
-      'Please check your email for a magic link. You may now close this tab.',
-      true
+  }
+
+  cookieStore.set('preferredSignInView', 'email_signin', { path: '/' });
+
+  // Same response whether or not the email has an account
+  return getStatusRedirect(
+    '/signin/email_code',
+    'Check your email.',
+    'If an account exists for that email, we sent it a sign-in link and a 6-digit code.',
+    false,
+    `email=${encodeURIComponent(email)}`
+  );
+}
+
+export async function signInWithEmailCode(formData: FormData) {
+  const cookieStore = cookies();
+  const headersList = headers();
+  const email = String(formData.get('email')).trim();
+  const code = String(formData.get('code')).replace(/\s/g, '');
+
+  try {
+    const { requiresTwoFactor, signInWithCode } = await import('@/lib/auth');
+    const { setAuthCookies, setTwoFactorChallengeCookie } = await import(
+      '@/lib/auth-cookies'
     );
-  } else {
-    redirectPath = getErrorRedirect(
-      '/signin/email_signin',
-      'Hmm... Something went wrong.',
-      'You could not be signed in.'
+
+    const auth = await signInWithCode(email, code, {
+      userAgent: headersList.get('user-agent'),
+      ipAddress: getClientIp(headersList)
+    });
+
+    if (requiresTwoFactor(auth)) {
+      setTwoFactorChallengeCookie(cookieStore, auth.challenge_token);
+      return '/signin/two_factor';
+    }
+
+    setAuthCookies(cookieStore, auth);
+  } catch (error) {
+    return getErrorRedirect(
+      '/signin/email_code',
+      'Sign in failed.',
+      error instanceof Error ? error.message : 'You could not be signed in.',
+      false,
+      `email=${encodeURIComponent(email)}`
     );
   }
 
-  return redirectPath;
+  return getStatusRedirect('/', 'Success!', 'You are now signed in.');
 }
 
 export async function requestPasswordUpdate(formData: FormData) {
-  const callbackURL = getURL('/auth/reset_password');
-
   // Get form data
   const email = String(formData.get('email')).trim();
-  let redirectPath: string;
 
   if (!isValidEmail(email)) {
-    redirectPath = getErrorRedirect(
+    return getErrorRedirect(
       '/signin/forgot_password',
       'Invalid email address.',
       'Please try again.'
     );
   }
 
-  const supabase = createClient();
-
-  const { data, error } = await supabase.auth.resetPasswordForEmail(email, {
-    redirectTo: callbackURL
-  });
-
-  if (error) {
-    redirectPath = getErrorRedirect(
-      '/signin/forgot_password',
-      error.message,
-      'Please try again.'
-    );
-  } else if (data) {
-    redirectPath = getStatusRedirect(
-      '/signin/forgot_password',
-      'Success!',
-      'Please check your email for a password reset link. You may now close this tab.',
-      true
-    );
-  } else {
-    redirectPath = getErrorRedirect(
+  try {
+    const { requestPasswordReset } = await import('@/lib/password-reset');
+    await requestPasswordReset(email);
+  } catch (error) {
+    return getErrorRedirect(
       '/signin/forgot_password',
       'Hmm... Something went wrong.',
       'Password reset email could not be sent.'
     );
   }
 
-  return redirectPath;
+  // Same response whether or not the email has an account
+  return getStatusRedirect(
+    '/signin/forgot_password',
+    'Success!',
+    'If an account exists for that email, we sent it a password reset link. You may now close this tab.',
+    true
+  );
 }
 
 export async function signInWithPassword(formData: FormData) {
   const cookieStore = cookies();
+  const headersList = headers();
   const email = String(formData.get('email')).trim();
   const password = String(formData.get('password')).trim();
   let redirectPath: string;
 
-  const supabase = createClient();
-  const { error, data } = await supabase.auth.signInWithPassword({
-    email,
-    password
-  });
-
-  if (error) {
-    redirectPath = getErrorRedirect(
-      '/signin/password_signin',
-      'Sign in failed.',
-      error.message
+  try {
+    const { requiresTwoFactor, signIn } = await import('@/lib/auth');
+    const { setAuthCookies, setTwoFactorChallengeCookie } = await import(
+      '@/lib/auth-cookies'
     );
-  } else if (data.user) {
+
+    const auth = await signIn(email, password, {
+      userAgent: headersList.get('user-agent'),
+      ipAddress: getClientIp(headersList)
+    });
+
     cookieStore.set('preferredSignInView', 'password_signin', { path: '/' });
-    redirectPath = getStatusRedirect('/', 'Success!', 'You are now signed in.');
-  } else {
+
+    if (requiresTwoFactor(auth)) {
+      setTwoFactorChallengeCookie(cookieStore, auth.challenge_token);
+      redirectPath = '/signin/two_factor';
+    } else {
+      setAuthCookies(cookieStore, auth);
+      redirectPath = getStatusRedirect('/', 'Success!', 'You are now signed in.');
+    }
+  } catch (error) {
     redirectPath = getErrorRedirect(
       '/signin/password_signin',
-      'Hmm... Something went wrong.',
-      'You could not be signed in.'
+      'Sign in failed.',
+      error instanceof Error ? error.message : 'You could not be signed in.'
     );
   }
 
   return redirectPath;
 }
 
-export async function signUp(formData: FormData) {
-  const callbackURL = getURL('/auth/callback');
+export async function signInWithTwoFactor(formData: FormData) {
+  const cookieStore = cookies();
+  const headersList = headers();
+  const code = String(formData.get('code')).trim();
+  const challengeToken = cookieStore.get('two_factor_challenge')?.value;
+
+  if (!challengeToken) {
+    return getErrorRedirect(
+      '/signin',
+      'Sign in failed.',
+      'Sign in took too long. Please try again.'
+    );
+  }
 
+  try {
+    const { completeTwoFactorSignIn } = await import('@/lib/auth');
+    const { setAuthCookies } = await import('@/lib/auth-cookies');
+
+    const auth = await completeTwoFactorSignIn(challengeToken, code, {
+      userAgent: headersList.get('user-agent'),
+      ipAddress: getClientIp(headersList)
+    });
+
+    setAuthCookies(cookieStore, auth);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'You could not be signed in.';
+
+    // An expired challenge means starting over from the first step
+    if (message === 'Sign in took too long. Please try again.') {
+      cookieStore.delete('two_factor_challenge');
+      return getErrorRedirect('/signin', 'Sign in failed.', message);
+    }
+
+    return getErrorRedirect('/signin/two_factor', 'Sign in failed.', message);
+  }
+
+  cookieStore.delete('two_factor_challenge');
+
+  return getStatusRedirect('/', 'Success!', 'You are now signed in.');
+}
+
+export async function signUp(formData: FormData) {
   const email = String(formData.get('email')).trim();
   const password = String(formData.get('password')).trim();
-  let redirectPath: string;
 
   if (!isValidEmail(email)) {
-    redirectPath = getErrorRedirect(
+    return getErrorRedirect(
       '/signin/signup',
       'Invalid email address.',
       'Please try again.'
     );
   }
 
-  const supabase = createClient();
-  const { error, data } = await supabase.auth.signUp({
-    email,
-    password,
-    options: {
-      emailRedirectTo: callbackURL
+  try {
+    const { signUp } = await import('@/lib/auth');
+    await signUp(email, password);
+  } catch (error) {
+    if (isPasswordPolicyError(error)) {
+      return getErrorRedirect(
+        '/signin/signup',
+        'Please choose a different password.',
+        error.message
+      );
     }
-  });
-
-  if (error) {
-    redirectPath = getErrorRedirect(
-      '/signin/signup',
-      'Sign up failed.',
-      error.message
-    );
-  } else if (data.session) {
-    redirectPath = getStatusRedirect('/', 'Success!', 'You are now signed in.');
-  } else if (
-    data.user &&
-    data.user.identities &&
-    data.user.identities.length == 0
-  ) {
-    redirectPath = getErrorRedirect(
+    return getErrorRedirect(
       '/signin/signup',
       'Sign up failed.',
-      'There is already an account associated with this email address. Try resetting your password.'
-    );
-  } else if (data.user) {
-    redirectPath = getStatusRedirect(
-      '/',
-      'Success!',
-      'Please check your email for a confirmation link. You may now close this tab.'
-    );
-  } else {
-    redirectPath = getErrorRedirect(
-      '/signin/signup',
-      'Hmm... Something went wrong.',
-      'You could not be signed up.'
+      error instanceof Error ? error.message : 'You could not be signed up.'
     );
   }
 
-  return redirectPath;
+  // The same message whether or not the email already had an account
+  return getStatusRedirect(
+    '/signin/password_signin',
+    'Check your email.',
+    'We sent a link to confirm your address. You can sign in with your new password now.'
+  );
 }
 
 export async function updatePassword(formData: FormData) {
   const password = String(formData.get('password')).trim();
   const passwordConfirm = String(formData.get('passwordConfirm')).trim();
-  let redirectPath: string;
 
   // Check that the password and confirmation match
   if (password !== passwordConfirm) {
-    redirectPath = getErrorRedirect(
+    return getErrorRedirect(
       '/signin/update_password',
       'Your password could not be updated.',
       'Passwords do not match.'
     );
   }
 
-  const supabase = createClient();
-  const { error, data } = await supabase.auth.updateUser({
-    password
-  });
+  const cookieStore = cookies();
+  const resetToken = cookieStore.get('password_reset_token')?.value;
 
-  if (error) {
-    redirectPath = getErrorRedirect(
-      '/signin/update_password',
-      'Your password could not be updated.',
-      error.message
-    );
-  } else if (data.user) {
-    redirectPath = getStatusRedirect(
-      '/',
+  // Arrived from a reset link: every session is signed out, including this browser's
+  if (resetToken) {
+    try {
+      const { resetPassword } = await import('@/lib/password-reset');
+      await resetPassword(resetToken, password);
+    } catch (error) {
+      if (isPasswordPolicyError(error)) {
+        return getErrorRedirect(
+          '/signin/update_password',
+          'Please choose a different password.',
+          error.message
+        );
+      }
+      const message =
+        error instanceof Error ? error.message : 'An unknown error occurred.';
+      if (message === 'Invalid or expired reset link') {
+        cookieStore.delete('password_reset_token');
+        return getErrorRedirect(
+          '/signin/forgot_password',
+          'Your password could not be updated.',
+          'This password reset link is invalid or has expired. Please request a new one.'
+        );
+      }
+      return getErrorRedirect(
+        '/signin/update_password',
+        'Your password could not be updated.',
+        message
+      );
+    }
+
+    cookieStore.delete('password_reset_token');
+    cookieStore.delete('access_token');
+    cookieStore.delete('refresh_token');
+
+    return getStatusRedirect(
+      '/signin/password_signin',
       'Success!',
-      'Your password has been updated.'
+      'Your password has been updated. Please sign in with your new password.'
     );
-  } else {
-    redirectPath = getErrorRedirect(
+  }
+
+  // Signed in: keep this session and sign out the others
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/signin',
+      'Authentication required.',
+      'Please sign in or use a password reset link to update your password.'
+    );
+  }
+
+  try {
+    const { setPassword } = await import('@/lib/auth');
+    await setPassword(current.user.id, password, current.sessionId);
+  } catch (error) {
+    if (isPasswordPolicyError(error)) {
+      return getErrorRedirect(
+        '/signin/update_password',
+        'Please choose a different password.',
+        error.message
+      );
+    }
+    return getErrorRedirect(
       '/signin/update_password',
-      'Hmm... Something went wrong.',
-      'Your password could not be updated.'
+      'Your password could not be updated.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
     );
   }
 
-  return redirectPath;
+  return getStatusRedirect('/', 'Success!', 'Your password has been updated.');
 }
 
 export async function updateEmail(formData: FormData) {
@@ -292,9 +378,21 @@ export async function updateEmail(formData: FormData) {
   try {
     const { getUser } = await import('@/lib/auth');
     const { query } = await import('@/lib/zerodb');
+    const { isEmailVerified, requestEmailChange } = await import(
+      '@/lib/email-verification'
+    );
 
     const user = await getUser(token);
 
+    // Only a verified owner of the current address may move the account
+    if (!(await isEmailVerified(user.id))) {
+      return getErrorRedirect(
+        '/account',
+        'Your email could not be updated.',
+        'Please verify your current email address first.'
+      );
+    }
+
     // Check if email is already taken
     const existing = await query(
       'SELECT id FROM users WHERE email = $1 AND id != $2',
@@ -309,16 +407,13 @@ export async function updateEmail(formData: FormData) {
       );
     }
 
-    // Update email
-    await query(
-      'UPDATE users SET email = $1, updated_at = NOW() WHERE id = $2',
-      [newEmail, user.id]
-    );
+    // Keep the current email until the new address follows its link
+    await requestEmailChange(user.id, newEmail);
 
     return getStatusRedirect(
       '/account',
-      'Success!',
-      'Your email has been updated.'
+      'Check your inbox.',
+      `Open the link sent to ${newEmail} to switch to it. Your current email stays in use until then.`
     );
   } catch (error) {
     return getErrorRedirect(
@@ -329,6 +424,45 @@ export async function updateEmail(formData: FormData) {
   }
 }
 
+export async function resendVerificationEmail(formData: FormData) {
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to verify your email.'
+    );
+  }
+
+  try {
+    const { isEmailVerified, sendVerificationEmail } = await import(
+      '@/lib/email-verification'
+    );
+
+    if (await isEmailVerified(current.user.id)) {
+      return getStatusRedirect(
+        '/account',
+        'Already verified.',
+        'Your email address is already verified.'
+      );
+    }
+
+    await sendVerificationEmail(current.user);
+
+    return getStatusRedirect(
+      '/account',
+      'Verification email sent.',
+      `Check ${current.user.email} for a link to verify your address.`
+    );
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The verification email could not be sent.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+}
+
 export async function updateName(formData: FormData) {
   // Get form data
   const fullName = String(formData.get('fullName')).trim();
@@ -369,3 +503,560 @@ export async function updateName(formData: FormData) {
     );
   }
 }
+
+/**
+ * Get the signed-in user and their session from the access token cookie
+ */
+async function getCurrentSession() {
+  const token = cookies().get('access_token')?.value;
+  if (!token) {
+    return null;
+  }
+
+  const { getUser, getSessionId } = await import('@/lib/auth');
+
+  try {
+    const user = await getUser(token);
+    return { user, sessionId: getSessionId(token) };
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function signOutSession(formData: FormData) {
+  const sessionId = String(formData.get('sessionId')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to manage your sessions.'
+    );
+  }
+
+  try {
+    const { revokeUserSession } = await import('@/lib/sessions');
+
+    if (!(await revokeUserSession(current.user.id, sessionId))) {
+      return getErrorRedirect(
+        '/account',
+        'The session could not be signed out.',
+        'It may have already ended.'
+      );
+    }
+
+    if (sessionId === current.sessionId) {
+      const cookieStore = cookies();
+      cookieStore.delete('access_token');
+      cookieStore.delete('refresh_token');
+      return '/signin';
+    }
+
+    return getStatusRedirect('/account', 'Success!', 'The session has been signed out.');
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The session could not be signed out.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+}
+
+export async function signOutOtherSessions(formData: FormData) {
+  const current = await getCurrentSession();
+  if (!current?.sessionId) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in again to manage your sessions.'
+    );
+  }
+
+  try {
+    const { revokeOtherSessions } = await import('@/lib/sessions');
+    const revoked = await revokeOtherSessions(current.user.id, current.sessionId);
+
+    return getStatusRedirect(
+      '/account',
+      'Success!',
+      revoked === 1
+        ? 'Signed out of 1 other session.'
+        : `Signed out of ${revoked} other sessions.`
+    );
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'Your other sessions could not be signed out.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+}
+
+type TwoFactorSetupResponse = {
+  errorRedirect?: string;
+  secret?: string;
+  otpauthUri?: string;
+  recoveryCodes?: string[];
+};
+
+export async function startTwoFactorSetup(): Promise<TwoFactorSetupResponse> {
+  const current = await getCurrentSession();
+  if (!current) {
+    return {
+      errorRedirect: getErrorRedirect(
+        '/account',
+        'Authentication required.',
+        'Please sign in to set up two-factor authentication.'
+      )
+    };
+  }
+
+  try {
+    const { beginTwoFactorEnrollment } = await import('@/lib/two-factor');
+    return await beginTwoFactorEnrollment(current.user);
+  } catch (error) {
+    return {
+      errorRedirect: getErrorRedirect(
+        '/account',
+        'Two-factor authentication could not be set up.',
+        error instanceof Error ? error.message : 'An unknown error occurred.'
+      )
+    };
+  }
+}
+
+export async function confirmTwoFactorSetup(
+  formData: FormData
+): Promise<TwoFactorSetupResponse> {
+  const code = String(formData.get('code')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return {
+      errorRedirect: getErrorRedirect(
+        '/account',
+        'Authentication required.',
+        'Please sign in to set up two-factor authentication.'
+      )
+    };
+  }
+
+  try {
+    const { confirmTwoFactorEnrollment } = await import('@/lib/two-factor');
+    const recoveryCodes = await confirmTwoFactorEnrollment(current.user.id, code);
+    return { recoveryCodes };
+  } catch (error) {
+    return {
+      errorRedirect: getErrorRedirect(
+        '/account',
+        'Two-factor authentication could not be enabled.',
+        error instanceof Error ? error.message : 'An unknown error occurred.'
+      )
+    };
+  }
+}
+
+export async function disableTwoFactor(formData: FormData) {
+  const password = String(formData.get('password') ?? '');
+  const code = String(formData.get('code')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to change two-factor authentication.'
+    );
+  }
+
+  try {
+    const { disableTwoFactor } = await import('@/lib/auth');
+    await disableTwoFactor(current.user.id, password, code);
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'Two-factor authentication could not be turned off.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect(
+    '/account',
+    'Success!',
+    'Two-factor authentication has been turned off.'
+  );
+}
+
+export async function removePasskey(formData: FormData) {
+  const passkeyId = String(formData.get('passkeyId')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to manage your passkeys.'
+    );
+  }
+
+  try {
+    const { deletePasskey } = await import('@/lib/webauthn');
+
+    if (!(await deletePasskey(current.user.id, passkeyId))) {
+      return getErrorRedirect(
+        '/account',
+        'The passkey could not be removed.',
+        'It may have already been removed.'
+      );
+    }
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The passkey could not be removed.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect('/account', 'Success!', 'The passkey has been removed.');
+}
+
+export async function switchOrganization(formData: FormData) {
+  const organizationId = String(formData.get('organizationId') ?? '').trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to switch organizations.'
+    );
+  }
+
+  const cookieStore = cookies();
+
+  if (!organizationId) {
+    cookieStore.delete('current_organization');
+    return getStatusRedirect('/account', 'Success!', 'Switched to your personal account.');
+  }
+
+  const { getOrganization } = await import('@/lib/organizations');
+  const organization = await getOrganization(current.user.id, organizationId);
+  if (!organization) {
+    return getErrorRedirect(
+      '/account',
+      'The organization could not be opened.',
+      'You are not a member of that organization.'
+    );
+  }
+
+  cookieStore.set('current_organization', organization.id, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax'
+  });
+
+  return getStatusRedirect('/account', 'Success!', `Switched to ${organization.name}.`);
+}
+
+export async function createOrganization(formData: FormData) {
+  const name = String(formData.get('name') ?? '').trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to create an organization.'
+    );
+  }
+
+  try {
+    const { createOrganization } = await import('@/lib/organizations');
+    const organization = await createOrganization(current.user.id, name);
+
+    cookies().set('current_organization', organization.id, {
+      path: '/',
+      httpOnly: true,
+      sameSite: 'lax'
+    });
+
+    return getStatusRedirect(
+      '/account',
+      'Success!',
+      `${organization.name} has been created. Invite your team to share its plan.`
+    );
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The organization could not be created.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+}
+
+export async function inviteMember(formData: FormData) {
+  const organizationId = String(formData.get('organizationId')).trim();
+  const email = String(formData.get('email')).trim();
+  const role = String(formData.get('role') ?? 'member');
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to invite members.'
+    );
+  }
+
+  if (!isValidEmail(email)) {
+    return getErrorRedirect(
+      '/account',
+      'Invalid email address.',
+      'Please try again.'
+    );
+  }
+
+  try {
+    const { authorize } = await import('@/lib/authorization');
+    const { inviteMember, isOrganizationRole } = await import('@/lib/organizations');
+
+    await authorize(current.user.id, organizationId, 'manage_members');
+    if (!isOrganizationRole(role)) {
+      throw new Error('Please choose a role.');
+    }
+
+    await inviteMember(organizationId, current.user.id, email, role);
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The invitation could not be sent.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect(
+    '/account',
+    'Success!',
+    `We emailed ${email} an invitation. The link expires in 7 days.`
+  );
+}
+
+export async function revokeInvitation(formData: FormData) {
+  const organizationId = String(formData.get('organizationId')).trim();
+  const invitationId = String(formData.get('invitationId')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to manage invitations.'
+    );
+  }
+
+  try {
+    const { authorize } = await import('@/lib/authorization');
+    const { revokeInvitation } = await import('@/lib/organizations');
+
+    await authorize(current.user.id, organizationId, 'manage_members');
+    if (!(await revokeInvitation(organizationId, invitationId))) {
+      return getErrorRedirect(
+        '/account',
+        'The invitation could not be withdrawn.',
+        'It may have already been accepted or withdrawn.'
+      );
+    }
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The invitation could not be withdrawn.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect('/account', 'Success!', 'The invitation has been withdrawn.');
+}
+
+export async function resendInvitation(formData: FormData) {
+  const organizationId = String(formData.get('organizationId')).trim();
+  const invitationId = String(formData.get('invitationId')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to manage invitations.'
+    );
+  }
+
+  try {
+    const { authorize } = await import('@/lib/authorization');
+    const { resendInvitation } = await import('@/lib/organizations');
+
+    await authorize(current.user.id, organizationId, 'manage_members');
+    if (!(await resendInvitation(organizationId, invitationId))) {
+      return getErrorRedirect(
+        '/account',
+        'The invitation could not be sent again.',
+        'It may have already been accepted or withdrawn.'
+      );
+    }
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The invitation could not be sent again.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect(
+    '/account',
+    'Success!',
+    'The invitation has been sent again with a new link.'
+  );
+}
+
+export async function acceptInvitation(formData: FormData) {
+  const invitationId = String(formData.get('invitationId')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to accept the invitation.'
+    );
+  }
+
+  try {
+    const { acceptInvitation } = await import('@/lib/organizations');
+    const organizationId = await acceptInvitation(invitationId, current.user);
+
+    cookies().set('current_organization', organizationId, {
+      path: '/',
+      httpOnly: true,
+      sameSite: 'lax'
+    });
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The invitation could not be accepted.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect('/account', 'Success!', 'You have joined the organization.');
+}
+
+export async function declineInvitation(formData: FormData) {
+  const invitationId = String(formData.get('invitationId')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to decline the invitation.'
+    );
+  }
+
+  try {
+    const { declineInvitation } = await import('@/lib/organizations');
+
+    if (!(await declineInvitation(invitationId, current.user.email))) {
+      return getErrorRedirect(
+        '/account',
+        'The invitation could not be declined.',
+        'It may have already been withdrawn.'
+      );
+    }
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The invitation could not be declined.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect('/account', 'Success!', 'The invitation has been declined.');
+}
+
+export async function removeMember(formData: FormData) {
+  const organizationId = String(formData.get('organizationId')).trim();
+  const memberId = String(formData.get('userId')).trim();
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to manage members.'
+    );
+  }
+
+  const leaving = memberId === current.user.id;
+
+  try {
+    const { authorize } = await import('@/lib/authorization');
+    const { removeMember } = await import('@/lib/organizations');
+
+    // Anyone may leave; removing someone else takes the permission
+    if (!leaving) {
+      await authorize(current.user.id, organizationId, 'manage_members');
+    }
+
+    await removeMember(organizationId, memberId);
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      leaving
+        ? 'You could not leave the organization.'
+        : 'The member could not be removed.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  if (leaving) {
+    cookies().delete('current_organization');
+    return getStatusRedirect('/account', 'Success!', 'You have left the organization.');
+  }
+
+  return getStatusRedirect('/account', 'Success!', 'The member has been removed.');
+}
+
+export async function updateMemberRole(formData: FormData) {
+  const organizationId = String(formData.get('organizationId')).trim();
+  const memberId = String(formData.get('userId')).trim();
+  const role = String(formData.get('role'));
+
+  const current = await getCurrentSession();
+  if (!current) {
+    return getErrorRedirect(
+      '/account',
+      'Authentication required.',
+      'Please sign in to manage members.'
+    );
+  }
+
+  try {
+    const { authorize } = await import('@/lib/authorization');
+    const { updateMemberRole, isOrganizationRole } = await import('@/lib/organizations');
+
+    await authorize(current.user.id, organizationId, 'manage_members');
+    if (!isOrganizationRole(role)) {
+      throw new Error('Please choose a role.');
+    }
+
+    await updateMemberRole(organizationId, memberId, role);
+  } catch (error) {
+    return getErrorRedirect(
+      '/account',
+      'The role could not be changed.',
+      error instanceof Error ? error.message : 'An unknown error occurred.'
+    );
+  }
+
+  return getStatusRedirect('/account', 'Success!', 'The role has been changed.');
+}
@@ -2,6 +2,7 @@
 const allowOauth = true;
 const allowEmail = true;
 const allowPassword = true;
+const allowPasskey = true;
 
 // Boolean toggle to determine whether auth interface should route through server or client
 // (Currently set to false because screen sometimes flickers with server redirects)
@@ -12,14 +13,19 @@ if (!allowPassword && !allowEmail)
   throw new Error('At least one of allowPassword and allowEmail must be true');
 
 export const getAuthTypes = () => {
-  return { allowOauth, allowEmail, allowPassword };
+  return { allowOauth, allowEmail, allowPassword, allowPasskey };
 };
 
 export const getViewTypes = () => {
   // Define the valid view types
   let viewTypes: string[] = [];
   if (allowEmail) {
-    viewTypes = [...viewTypes, 'email_signin'];
+    viewTypes = [
+      ...viewTypes,
+      'email_signin',
+      'email_code',
+      'confirm_email_signin'
+    ];
   }
   if (allowPassword) {
     viewTypes = [
@@ -30,6 +36,8 @@ export const getViewTypes = () => {
       'signup'
     ];
   }
+  // Second sign-in step for accounts with two-factor authentication
+  viewTypes = [...viewTypes, 'two_factor'];
 
   return viewTypes;
 };
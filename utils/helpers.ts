@@ -131,3 +131,64 @@ export const getErrorRedirect = (
     disableButton,
     arbitraryParams
   );
+
+// Order matters: Edge and Opera also identify as Chrome, Chrome as Safari
+const userAgentBrowsers: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const userAgentSystems: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux']
+];
+
+export const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = userAgentBrowsers.find(([pattern]) =>
+    pattern.test(userAgent)
+  )?.[1];
+  const system = userAgentSystems.find(([pattern]) =>
+    pattern.test(userAgent)
+  )?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+
+  return browser ?? system ?? 'Unknown device';
+};
+
+/**
+ * Get the client's IP address from the X-Forwarded-For header
+ * Each proxy appends the address it received the request from, so only the
+ * entries added by our own proxies can be trusted; anything before them was
+ * sent by the client. TRUSTED_PROXY_COUNT (default 1) is how many proxies
+ * sit in front of the app.
+ */
+export const getClientIp = (headers: Headers) => {
+  const forwarded = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (forwarded.length === 0) {
+    return headers.get('x-real-ip')?.trim() || null;
+  }
+
+  const trustedProxies = Math.max(
+    1,
+    parseInt(process.env.TRUSTED_PROXY_COUNT ?? '', 10) || 1
+  );
+
+  return forwarded[Math.max(0, forwarded.length - trustedProxies)];
+};
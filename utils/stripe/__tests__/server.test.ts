@@ -2,9 +2,27 @@
  * Tests for Stripe server utilities
  */
 
-import { calculateTrialEndUnixTimestamp, getErrorRedirect, checkoutWithStripe, createStripePortal } from '../server';
+import { calculateTrialEndUnixTimestamp, getErrorRedirect, checkoutWithStripe, createStripePortal, previewPlanChange, switchPlan, cancelSubscription, pauseSubscription, resumeSubscription, getRetentionOffers, acceptRetentionOffer } from '../server';
 import { stripe } from '../config';
 import { getURL } from '@/utils/helpers';
+import { getUser } from '@/lib/auth';
+import { getOrganization, getSeatCount } from '@/lib/organizations';
+import {
+  changePlan,
+  getActivePrice,
+  getCurrentSubscription,
+  previewPlanChange as previewPlanChangeForSubscription,
+} from '@/lib/plan-changes';
+import {
+  cancelSubscription as cancelSubscriptionForSubscription,
+  pauseSubscription as pauseSubscriptionForSubscription,
+  resumeSubscription as resumeSubscriptionForSubscription,
+} from '@/lib/subscription-lifecycle';
+import {
+  acceptRetentionOffer as acceptRetentionOfferForSubscription,
+  declineRetentionOffers,
+  getRetentionOffers as getRetentionOffersForSubscription,
+} from '@/lib/retention-offers';
 
 // Mock dependencies
 jest.mock('../config');
@@ -16,14 +34,40 @@ jest.mock('@/utils/helpers', () => {
   };
 });
 jest.mock('next/headers', () => ({
-  headers: jest.fn(() => ({
-    get: jest.fn((key: string) => {
-      if (key === 'x-user-id') return 'user-123';
-      if (key === 'x-user-email') return 'test@example.com';
-      return null;
+  cookies: jest.fn(() => ({
+    get: jest.fn((name: string) => {
+      if (name === 'access_token') return mockAccessToken ? { value: mockAccessToken } : undefined;
+      if (name === 'current_organization' && mockOrganizationCookie) {
+        return { value: mockOrganizationCookie };
+      }
+      return undefined;
     }),
   })),
 }));
+jest.mock('@/lib/auth', () => ({
+  getUser: jest.fn(),
+}));
+jest.mock('@/lib/organizations', () => ({
+  getOrganization: jest.fn(),
+  getSeatCount: jest.fn(),
+}));
+jest.mock('@/lib/plan-changes', () => ({
+  changePlan: jest.fn(),
+  getActivePrice: jest.fn(),
+  getCurrentSubscription: jest.fn(),
+  previewPlanChange: jest.fn(),
+}));
+jest.mock('@/lib/subscription-lifecycle', () => ({
+  cancelSubscription: jest.fn(),
+  pauseSubscription: jest.fn(),
+  resumeSubscription: jest.fn(),
+}));
+jest.mock('@/lib/retention-offers', () => ({
+  acceptRetentionOffer: jest.fn(),
+  declineRetentionOffers: jest.fn(),
+  getRetentionOffers: jest.fn(),
+  signRetentionOffers: jest.fn(() => 'offer-token'),
+}));
 jest.mock('@/lib/zerodb', () => ({
   query: jest.fn(),
 }));
@@ -31,10 +75,46 @@ jest.mock('@/lib/zerodb', () => ({
 const mockStripe = stripe as jest.Mocked<typeof stripe>;
 const mockGetURL = getURL as jest.MockedFunction<typeof getURL>;
 const mockQuery = require('@/lib/zerodb').query as jest.MockedFunction<any>;
+const mockGetUser = getUser as jest.MockedFunction<typeof getUser>;
+const mockGetOrganization = getOrganization as jest.MockedFunction<typeof getOrganization>;
+const mockGetSeatCount = getSeatCount as jest.MockedFunction<typeof getSeatCount>;
+const mockGetCurrentSubscription = getCurrentSubscription as jest.MockedFunction<
+  typeof getCurrentSubscription
+>;
+const mockPreviewPlanChange = previewPlanChangeForSubscription as jest.MockedFunction<
+  typeof previewPlanChangeForSubscription
+>;
+const mockChangePlan = changePlan as jest.MockedFunction<typeof changePlan>;
+const mockGetActivePrice = getActivePrice as jest.MockedFunction<typeof getActivePrice>;
+const mockCancelSubscription = cancelSubscriptionForSubscription as jest.MockedFunction<
+  typeof cancelSubscriptionForSubscription
+>;
+const mockPauseSubscription = pauseSubscriptionForSubscription as jest.MockedFunction<
+  typeof pauseSubscriptionForSubscription
+>;
+const mockResumeSubscription = resumeSubscriptionForSubscription as jest.MockedFunction<
+  typeof resumeSubscriptionForSubscription
+>;
+const mockGetRetentionOffers = getRetentionOffersForSubscription as jest.MockedFunction<
+  typeof getRetentionOffersForSubscription
+>;
+const mockAcceptRetentionOffer = acceptRetentionOfferForSubscription as jest.MockedFunction<
+  typeof acceptRetentionOfferForSubscription
+>;
+const mockDeclineRetentionOffers = declineRetentionOffers as jest.MockedFunction<
+  typeof declineRetentionOffers
+>;
+
+// Organization picked in the account page switcher, if any
+let mockOrganizationCookie: string | undefined;
+// Access token cookie of the signed-in user, if any
+let mockAccessToken: string | undefined = 'access-token';
 
 describe('Stripe Server Utilities', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockAccessToken = 'access-token';
+    mockGetUser.mockResolvedValue({ id: 'user-123', email: 'test@example.com' });
     mockGetURL.mockImplementation((path) => `http://localhost:3000${path || ''}`);
 
     // Mock database query for customer lookup
@@ -45,6 +125,9 @@ describe('Stripe Server Utilities', () => {
       if (sql.includes('UPDATE users SET stripe_customer_id')) {
         return Promise.resolve({ rows: [] });
       }
+      if (sql.includes('SELECT email_verified_at')) {
+        return Promise.resolve({ rows: [{ email_verified_at: '2024-01-01T00:00:00Z' }] });
+      }
       return Promise.resolve({ rows: [] });
     });
 
@@ -152,6 +235,22 @@ describe('Stripe Server Utilities', () => {
 
     const mockCurrentPath = '/pricing';
 
+    it('should refuse checkout until the email is verified', async () => {
+      mockQuery.mockImplementation((sql: string) => {
+        if (sql.includes('SELECT email_verified_at')) {
+          return Promise.resolve({ rows: [{ email_verified_at: null }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const result = await checkoutWithStripe(mockPrice, mockCurrentPath);
+
+      expect(result.sessionId).toBeUndefined();
+      expect(result.errorRedirect).toContain('/pricing');
+      expect(result.errorRedirect).toContain('verify%20your%20email');
+      expect(mockStripe.checkout.sessions.create).not.toHaveBeenCalled();
+    });
+
     it('should create checkout session for valid price', async () => {
       const mockSession = {
         id: 'cs_test_123',
@@ -284,6 +383,431 @@ describe('Stripe Server Utilities', () => {
         })
       );
     });
+
+    describe('for an organization', () => {
+      const organization = {
+        id: '11111111-1111-4111-8111-111111111111',
+        name: 'Acme',
+        role: 'owner' as const,
+        memberCount: 3,
+      };
+
+      beforeEach(() => {
+        mockOrganizationCookie = organization.id;
+        mockGetOrganization.mockResolvedValue(organization);
+        mockGetSeatCount.mockResolvedValue(3);
+        mockQuery.mockImplementation((sql: string) => {
+          if (sql.includes('FROM organizations')) {
+            return Promise.resolve({ rows: [{ stripe_customer_id: null }] });
+          }
+          if (sql.includes('SELECT email_verified_at')) {
+            return Promise.resolve({ rows: [{ email_verified_at: '2024-01-01T00:00:00Z' }] });
+          }
+          return Promise.resolve({ rows: [] });
+        });
+        (mockStripe.customers.create as jest.Mock).mockResolvedValue({ id: 'cus_org' });
+      });
+
+      afterEach(() => {
+        mockOrganizationCookie = undefined;
+        mockGetOrganization.mockReset();
+      });
+
+      it('should buy one seat per member on the organization customer', async () => {
+        (mockStripe.checkout.sessions.create as jest.Mock).mockResolvedValue({ id: 'cs_org' });
+
+        const result = await checkoutWithStripe(mockPrice, mockCurrentPath);
+
+        expect(result.sessionId).toBe('cs_org');
+        expect(mockGetOrganization).toHaveBeenCalledWith('user-123', organization.id);
+        expect(mockStripe.customers.create).toHaveBeenCalledWith({
+          name: 'Acme',
+          email: 'test@example.com',
+          metadata: { organization_id: organization.id },
+        });
+        expect(mockQuery).toHaveBeenCalledWith(
+          'UPDATE organizations SET stripe_customer_id = $1 WHERE id = $2',
+          ['cus_org', organization.id]
+        );
+        expect(mockStripe.checkout.sessions.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            customer: 'cus_org',
+            line_items: [{ price: 'price_123', quantity: 3 }],
+            subscription_data: expect.objectContaining({
+              metadata: { organization_id: organization.id },
+            }),
+          })
+        );
+      });
+
+      it('should refuse one-time prices', async () => {
+        const result = await checkoutWithStripe(
+          { ...mockPrice, type: 'one_time' as const },
+          mockCurrentPath
+        );
+
+        expect(result.errorRedirect).toContain(
+          encodeURIComponent('Organizations can only buy subscription plans.')
+        );
+        expect(mockStripe.checkout.sessions.create).not.toHaveBeenCalled();
+      });
+
+      it('should open the portal for the organization customer', async () => {
+        mockQuery.mockImplementation(() =>
+          Promise.resolve({ rows: [{ stripe_customer_id: 'cus_org' }] })
+        );
+        (mockStripe.billingPortal.sessions.create as jest.Mock).mockResolvedValue({
+          url: 'https://billing.stripe.com/session/org',
+        } as any);
+
+        await createStripePortal('/account');
+
+        expect(mockStripe.billingPortal.sessions.create).toHaveBeenCalledWith(
+          expect.objectContaining({ customer: 'cus_org' })
+        );
+        expect(mockQuery).toHaveBeenCalledWith(
+          'SELECT stripe_customer_id FROM organizations WHERE id = $1',
+          [organization.id]
+        );
+      });
+
+      it('should let billing admins check out', async () => {
+        mockGetOrganization.mockResolvedValue({ ...organization, role: 'billing_admin' });
+        (mockStripe.checkout.sessions.create as jest.Mock).mockResolvedValue({ id: 'cs_org' });
+
+        const result = await checkoutWithStripe(mockPrice, mockCurrentPath);
+
+        expect(result.sessionId).toBe('cs_org');
+      });
+
+      it('should not let members check out', async () => {
+        mockGetOrganization.mockResolvedValue({ ...organization, role: 'member' });
+
+        const result = await checkoutWithStripe(mockPrice, mockCurrentPath);
+
+        expect(result.errorRedirect).toContain(
+          encodeURIComponent('Only owners and billing admins can manage billing.')
+        );
+        expect(mockStripe.customers.create).not.toHaveBeenCalled();
+        expect(mockStripe.checkout.sessions.create).not.toHaveBeenCalled();
+      });
+
+      it('should not open the portal for members', async () => {
+        mockGetOrganization.mockResolvedValue({ ...organization, role: 'member' });
+
+        const result = await createStripePortal('/account');
+
+        expect(result).toContain(
+          encodeURIComponent('Only owners and billing admins can manage billing.')
+        );
+        expect(mockStripe.billingPortal.sessions.create).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('plan switching', () => {
+    const mockPrice = {
+      id: 'price_pro',
+      product_id: 'prod_pro',
+      active: true,
+      currency: 'usd',
+      type: 'recurring' as const,
+      unit_amount: 2000,
+      interval: 'month' as const,
+      interval_count: 1,
+      trial_period_days: null,
+      description: null,
+      metadata: {},
+    };
+    const subscription = {
+      id: 'sub_123',
+      status: 'active' as const,
+      cancelAtPeriodEnd: false,
+      priceId: 'price_hobby',
+      quantity: 1,
+      currentPeriodEnd: 1704067200,
+      unitAmount: 1000,
+      currency: 'usd',
+      interval: 'month' as const,
+      intervalCount: 1,
+      userId: 'user-123',
+      organizationId: null,
+    };
+
+    beforeEach(() => {
+      mockGetOrganization.mockResolvedValue(null);
+      mockGetCurrentSubscription.mockResolvedValue(subscription);
+      mockGetActivePrice.mockResolvedValue(mockPrice);
+    });
+
+    afterEach(() => {
+      mockGetOrganization.mockReset();
+    });
+
+    it('should preview the switch for the current subscription', async () => {
+      const preview = {
+        timing: 'immediate' as const,
+        amountDue: 500,
+        currency: 'usd',
+        effectiveAt: 1700000000,
+        prorationDate: 1700000000,
+      };
+      mockPreviewPlanChange.mockResolvedValue(preview);
+
+      await expect(previewPlanChange('price_pro', '/')).resolves.toEqual({ preview });
+      expect(mockGetCurrentSubscription).toHaveBeenCalledWith('user-123', null);
+      expect(mockGetActivePrice).toHaveBeenCalledWith('price_pro');
+      expect(mockPreviewPlanChange).toHaveBeenCalledWith(subscription, mockPrice);
+    });
+
+    it('should refuse prices that are not sold', async () => {
+      mockGetActivePrice.mockRejectedValue(new Error('That plan is no longer available.'));
+
+      const result = await switchPlan('price_gone', undefined, '/');
+
+      expect(result).toContain(encodeURIComponent('That plan is no longer available.'));
+      expect(mockChangePlan).not.toHaveBeenCalled();
+    });
+
+    it('should redirect with an error without a subscription', async () => {
+      mockGetCurrentSubscription.mockResolvedValue(null);
+
+      const result = await previewPlanChange('price_pro', '/');
+
+      expect(result.errorRedirect).toContain(
+        encodeURIComponent('You do not have a plan to switch from.')
+      );
+      expect(mockPreviewPlanChange).not.toHaveBeenCalled();
+    });
+
+    it('should switch with the preview proration date', async () => {
+      mockChangePlan.mockResolvedValue({ timing: 'immediate', effectiveAt: 1700000000 });
+
+      const result = await switchPlan('price_pro', 1700000000, '/');
+
+      expect(mockChangePlan).toHaveBeenCalledWith(subscription, mockPrice, 1700000000);
+      expect(result).toContain('status=Success');
+      expect(result).toContain(encodeURIComponent('Your plan has been switched.'));
+    });
+
+    it('should say when a downgrade takes effect', async () => {
+      mockChangePlan.mockResolvedValue({ timing: 'period_end', effectiveAt: 1704067200 });
+
+      const result = await switchPlan('price_pro', undefined, '/');
+
+      expect(result).toContain(encodeURIComponent('Your plan will switch on'));
+    });
+
+    it('should take the user from the access token cookie', async () => {
+      mockChangePlan.mockResolvedValue({ timing: 'immediate', effectiveAt: 1700000000 });
+
+      await switchPlan('price_pro', undefined, '/');
+
+      expect(mockGetUser).toHaveBeenCalledWith('access-token');
+      expect(mockGetCurrentSubscription).toHaveBeenCalledWith('user-123', null);
+    });
+
+    it('should refuse requests without a valid access token', async () => {
+      mockGetUser.mockRejectedValue(new Error('Invalid token'));
+
+      const result = await switchPlan('price_pro', undefined, '/');
+
+      expect(result).toContain(encodeURIComponent('Could not get user session.'));
+      expect(mockChangePlan).not.toHaveBeenCalled();
+
+      mockAccessToken = undefined;
+      await switchPlan('price_pro', undefined, '/');
+      expect(mockChangePlan).not.toHaveBeenCalled();
+    });
+
+    it('should not let organization members switch plans', async () => {
+      mockGetOrganization.mockResolvedValue({
+        id: '11111111-1111-4111-8111-111111111111',
+        name: 'Acme',
+        role: 'member',
+        memberCount: 3,
+      });
+
+      const result = await switchPlan('price_pro', undefined, '/');
+
+      expect(result).toContain(
+        encodeURIComponent('Only owners and billing admins can manage billing.')
+      );
+      expect(mockChangePlan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscription lifecycle', () => {
+    const subscription = {
+      id: 'sub_123',
+      status: 'active' as const,
+      cancelAtPeriodEnd: false,
+      priceId: 'price_hobby',
+      quantity: 1,
+      currentPeriodEnd: 1704067200,
+      unitAmount: 1000,
+      currency: 'usd',
+      interval: 'month' as const,
+      intervalCount: 1,
+      userId: 'user-123',
+      organizationId: null,
+    };
+
+    function surveyForm(fields: Record<string, string>) {
+      const formData = new FormData();
+      Object.keys(fields).forEach((key) => formData.append(key, fields[key]));
+      return formData;
+    }
+
+    beforeEach(() => {
+      mockGetOrganization.mockResolvedValue(null);
+      mockGetCurrentSubscription.mockResolvedValue(subscription);
+    });
+
+    afterEach(() => {
+      mockGetOrganization.mockReset();
+    });
+
+    it('should cancel at the period end with the survey answer', async () => {
+      const result = await cancelSubscription(
+        surveyForm({ reason: 'too_expensive', comment: 'Budget cuts', mode: 'period_end' })
+      );
+
+      expect(mockCancelSubscription).toHaveBeenCalledWith(
+        subscription,
+        'period_end',
+        { reason: 'too_expensive', comment: 'Budget cuts' },
+        'user-123'
+      );
+      expect(result).toContain(encodeURIComponent('You keep access until'));
+      expect(mockDeclineRetentionOffers).not.toHaveBeenCalled();
+    });
+
+    it('should record the offers shown as declined', async () => {
+      await cancelSubscription(
+        surveyForm({ reason: 'too_expensive', mode: 'period_end', offerToken: 'offer-token' })
+      );
+
+      expect(mockDeclineRetentionOffers).toHaveBeenCalledWith(
+        subscription,
+        'offer-token',
+        'user-123'
+      );
+    });
+
+    it('should cancel immediately when asked', async () => {
+      const result = await cancelSubscription(
+        surveyForm({ reason: 'unused', mode: 'immediate' })
+      );
+
+      expect(mockCancelSubscription).toHaveBeenCalledWith(
+        subscription,
+        'immediate',
+        { reason: 'unused', comment: null },
+        'user-123'
+      );
+      expect(result).toContain(encodeURIComponent('Your subscription has ended.'));
+    });
+
+    it('should redirect with the error when canceling fails', async () => {
+      mockCancelSubscription.mockRejectedValueOnce(
+        new Error('Please tell us why you are canceling.')
+      );
+
+      const result = await cancelSubscription(surveyForm({ mode: 'period_end' }));
+
+      expect(result).toContain(encodeURIComponent('Please tell us why you are canceling.'));
+    });
+
+    it('should pause and resume the current subscription', async () => {
+      const paused = await pauseSubscription();
+      const resumed = await resumeSubscription();
+
+      expect(mockPauseSubscription).toHaveBeenCalledWith(subscription);
+      expect(mockResumeSubscription).toHaveBeenCalledWith(subscription);
+      expect(paused).toContain(encodeURIComponent('Subscription paused.'));
+      expect(resumed).toContain(encodeURIComponent('Your subscription has been resumed.'));
+    });
+
+    it('should redirect with an error without a subscription', async () => {
+      mockGetCurrentSubscription.mockResolvedValue(null);
+
+      const result = await pauseSubscription();
+
+      expect(result).toContain(encodeURIComponent('You do not have a subscription to pause.'));
+      expect(mockPauseSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should only show what the dialog needs of retention offers', async () => {
+      mockGetRetentionOffers.mockResolvedValue([
+        {
+          id: 'half_price_3_months',
+          kind: 'discount',
+          title: '50% off for 3 months',
+          description: 'Stay on your plan at half price.',
+          percentOff: 50,
+          durationInMonths: 3,
+          when: { reasons: ['too_expensive'] },
+        },
+      ]);
+
+      await expect(getRetentionOffers('too_expensive')).resolves.toEqual({
+        offers: [
+          {
+            id: 'half_price_3_months',
+            kind: 'discount',
+            title: '50% off for 3 months',
+            description: 'Stay on your plan at half price.',
+          },
+        ],
+        offerToken: 'offer-token',
+      });
+      expect(mockGetRetentionOffers).toHaveBeenCalledWith(subscription, 'too_expensive');
+    });
+
+    it('should accept a retention offer', async () => {
+      mockAcceptRetentionOffer.mockResolvedValue({
+        id: 'half_price_3_months',
+        kind: 'discount',
+        title: '50% off for 3 months',
+        description: 'Stay on your plan at half price.',
+        percentOff: 50,
+        durationInMonths: 3,
+        when: {},
+      });
+
+      const result = await acceptRetentionOffer(
+        surveyForm({ offerId: 'half_price_3_months', offerToken: 'offer-token' })
+      );
+
+      expect(mockAcceptRetentionOffer).toHaveBeenCalledWith(
+        subscription,
+        'half_price_3_months',
+        'offer-token',
+        'user-123'
+      );
+      expect(result).toContain(
+        encodeURIComponent('50% off for 3 months has been applied to your subscription.')
+      );
+    });
+
+    it('should not let organization members cancel', async () => {
+      mockGetOrganization.mockResolvedValue({
+        id: '11111111-1111-4111-8111-111111111111',
+        name: 'Acme',
+        role: 'member',
+        memberCount: 3,
+      });
+
+      const result = await cancelSubscription(
+        surveyForm({ reason: 'other', mode: 'immediate' })
+      );
+
+      expect(result).toContain(
+        encodeURIComponent('Only owners and billing admins can manage billing.')
+      );
+      expect(mockCancelSubscription).not.toHaveBeenCalled();
+    });
   });
 
   describe('createStripePortal', () => {
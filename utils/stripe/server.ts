@@ -3,9 +3,36 @@
 import Stripe from 'stripe';
 import { stripe } from '@/utils/stripe/config';
 import { query } from '@/lib/zerodb';
-import { headers } from 'next/headers';
+import { isEmailVerified } from '@/lib/email-verification';
+import { getOrganization, getSeatCount, type Organization } from '@/lib/organizations';
+import { assertCan } from '@/lib/authorization';
+import {
+  changePlan,
+  getActivePrice,
+  getCurrentSubscription,
+  previewPlanChange as previewPlanChangeForSubscription,
+  type PlanChangePreview
+} from '@/lib/plan-changes';
+import {
+  cancelSubscription as cancelSubscriptionForSubscription,
+  pauseSubscription as pauseSubscriptionForSubscription,
+  resumeSubscription as resumeSubscriptionForSubscription,
+  type CancellationMode,
+  type CancellationReason
+} from '@/lib/subscription-lifecycle';
+import {
+  acceptRetentionOffer as acceptRetentionOfferForSubscription,
+  declineRetentionOffers,
+  getRetentionOffers as getRetentionOffersForSubscription,
+  signRetentionOffers,
+  type RetentionOfferSummary
+} from '@/lib/retention-offers';
+import { getUser } from '@/lib/auth';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/auth-cookies';
+import { cookies } from 'next/headers';
 import {
   getURL,
+  getStatusRedirect,
   getErrorRedirect as getErrorRedirectHelper,
   calculateTrialEndUnixTimestamp as calculateTrialHelper
 } from '@/utils/helpers';
@@ -53,21 +80,68 @@ async function createOrRetrieveCustomer(userId: string, email: string): Promise<
 }
 
 /**
- * Get the current user from request headers (set by middleware)
+ * Create or retrieve the Stripe customer billed for an organization
  */
-async function getCurrentUser(): Promise<{ id: string; email: string } | null> {
-  const headersList = headers();
-  const userId = headersList.get('x-user-id');
-  const userEmail = headersList.get('x-user-email');
+async function createOrRetrieveOrganizationCustomer(
+  organization: Organization,
+  email: string
+): Promise<string> {
+  try {
+    const result = await query(
+      'SELECT stripe_customer_id FROM organizations WHERE id = $1',
+      [organization.id]
+    );
+
+    if (result.rows.length > 0 && result.rows[0].stripe_customer_id) {
+      return result.rows[0].stripe_customer_id;
+    }
 
-  if (!userId || !userEmail) {
+    const customer = await stripe.customers.create({
+      name: organization.name,
+      email,
+      metadata: {
+        organization_id: organization.id,
+      },
+    });
+
+    await query(
+      'UPDATE organizations SET stripe_customer_id = $1 WHERE id = $2',
+      [customer.id, organization.id]
+    );
+
+    return customer.id;
+  } catch (error) {
+    console.error('Error creating/retrieving organization customer:', error);
+    throw new Error('Unable to access customer record.');
+  }
+}
+
+/**
+ * Get the organization picked in the account page switcher
+ * @returns The organization, or null when billing the personal account
+ */
+async function getCurrentOrganization(userId: string): Promise<Organization | null> {
+  const organizationId = cookies().get('current_organization')?.value;
+  return getOrganization(userId, organizationId);
+}
+
+/**
+ * Get the signed-in user from the access token cookie
+ * Request headers are not trusted here: these actions also run on public
+ * pages, where middleware does not verify the user.
+ */
+async function getCurrentUser(): Promise<{ id: string; email: string } | null> {
+  const token = cookies().get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!token) {
     return null;
   }
 
-  return {
-    id: userId,
-    email: userEmail,
-  };
+  try {
+    const user = await getUser(token);
+    return { id: user.id, email: user.email };
+  } catch (error) {
+    return null;
+  }
 }
 
 type CheckoutResponse = {
@@ -87,15 +161,39 @@ export async function checkoutWithStripe(
       throw new Error('Could not get user session.');
     }
 
+    // Purchases go to a Stripe customer keyed by this email, so it must be proven
+    if (!(await isEmailVerified(user.id))) {
+      return {
+        errorRedirect: getErrorRedirectHelper(
+          redirectPath,
+          'Please verify your email address.',
+          'Follow the link we emailed you, or resend it from your account page.'
+        )
+      };
+    }
+
+    // Organizations buy one seat per member on their own customer
+    const organization = await getCurrentOrganization(user.id);
+    if (organization) {
+      assertCan(organization, 'manage_billing');
+      if (price.type !== 'recurring') {
+        throw new Error('Organizations can only buy subscription plans.');
+      }
+    }
+
     // Retrieve or create the customer in Stripe
     let customer: string;
     try {
-      customer = await createOrRetrieveCustomer(user.id, user.email);
+      customer = organization
+        ? await createOrRetrieveOrganizationCustomer(organization, user.email)
+        : await createOrRetrieveCustomer(user.id, user.email);
     } catch (err) {
       console.error(err);
       throw new Error('Unable to access customer record.');
     }
 
+    const quantity = organization ? await getSeatCount(organization.id) : 1;
+
     let params: Stripe.Checkout.SessionCreateParams = {
       allow_promotion_codes: true,
       billing_address_collection: 'required',
@@ -106,7 +204,7 @@ export async function checkoutWithStripe(
       line_items: [
         {
           price: price.id,
-          quantity: 1
+          quantity
         }
       ],
       cancel_url: getURL(),
@@ -122,7 +220,10 @@ export async function checkoutWithStripe(
         ...params,
         mode: 'subscription',
         subscription_data: {
-          trial_end: calculateTrialHelper(price.trial_period_days)
+          trial_end: calculateTrialHelper(price.trial_period_days),
+          ...(organization && {
+            metadata: { organization_id: organization.id }
+          })
         }
       };
     } else if (price.type === 'one_time') {
@@ -177,9 +278,16 @@ export async function createStripePortal(currentPath: string) {
       throw new Error('Could not get user session.');
     }
 
+    const organization = await getCurrentOrganization(user.id);
+    if (organization) {
+      assertCan(organization, 'manage_billing');
+    }
+
     let customer;
     try {
-      customer = await createOrRetrieveCustomer(user.id, user.email);
+      customer = organization
+        ? await createOrRetrieveOrganizationCustomer(organization, user.email)
+        : await createOrRetrieveCustomer(user.id, user.email);
     } catch (err) {
       console.error(err);
       throw new Error('Unable to access customer record.');
@@ -219,3 +327,253 @@ export async function createStripePortal(currentPath: string) {
     }
   }
 }
+
+/**
+ * Find the subscription the signed-in user may manage
+ * @throws Error if signed out, not allowed to manage billing, or not subscribed
+ */
+async function getManagedSubscription(notFoundMessage: string) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    throw new Error('Could not get user session.');
+  }
+
+  const organization = await getCurrentOrganization(user.id);
+  if (organization) {
+    assertCan(organization, 'manage_billing');
+  }
+
+  const subscription = await getCurrentSubscription(user.id, organization?.id ?? null);
+  if (!subscription) {
+    throw new Error(notFoundMessage);
+  }
+
+  return { user, subscription };
+}
+
+type PlanChangePreviewResponse = {
+  errorRedirect?: string;
+  preview?: PlanChangePreview;
+};
+
+export async function previewPlanChange(
+  priceId: string,
+  redirectPath: string = '/account'
+): Promise<PlanChangePreviewResponse> {
+  try {
+    const { subscription } = await getManagedSubscription(
+      'You do not have a plan to switch from.'
+    );
+    const price = await getActivePrice(priceId);
+    return { preview: await previewPlanChangeForSubscription(subscription, price) };
+  } catch (error) {
+    console.error(error);
+    return {
+      errorRedirect: getErrorRedirectHelper(
+        redirectPath,
+        error instanceof Error ? error.message : 'An unknown error occurred.',
+        'Please try again later or contact a system administrator.'
+      )
+    };
+  }
+}
+
+export async function switchPlan(
+  priceId: string,
+  prorationDate?: number,
+  redirectPath: string = '/account'
+): Promise<string> {
+  try {
+    const { subscription } = await getManagedSubscription(
+      'You do not have a plan to switch from.'
+    );
+    const price = await getActivePrice(priceId);
+    const { timing, effectiveAt } = await changePlan(subscription, price, prorationDate);
+
+    return getStatusRedirect(
+      redirectPath,
+      'Success!',
+      timing === 'immediate'
+        ? 'Your plan has been switched.'
+        : `Your plan will switch on ${new Date(effectiveAt * 1000).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric'
+          })}.`
+    );
+  } catch (error) {
+    console.error(error);
+    return getErrorRedirectHelper(
+      redirectPath,
+      error instanceof Error ? error.message : 'An unknown error occurred.',
+      'Please try again later or contact a system administrator.'
+    );
+  }
+}
+
+const formatPeriodEnd = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export async function cancelSubscription(formData: FormData): Promise<string> {
+  try {
+    const { user, subscription } = await getManagedSubscription(
+      'You do not have a subscription to cancel.'
+    );
+    const mode: CancellationMode =
+      String(formData.get('mode')) === 'immediate' ? 'immediate' : 'period_end';
+    // Checked against the known reasons before anything is canceled
+    const reason = String(formData.get('reason')) as CancellationReason;
+
+    await cancelSubscriptionForSubscription(
+      subscription,
+      mode,
+      {
+        reason,
+        comment: formData.get('comment') ? String(formData.get('comment')) : null
+      },
+      user.id
+    );
+
+    // Set when retention offers were shown before the cancellation
+    const offerToken = formData.get('offerToken');
+    if (offerToken) {
+      try {
+        await declineRetentionOffers(subscription, String(offerToken), user.id);
+      } catch (error) {
+        // The cancellation went through; only the report is missing an entry
+        console.error(error);
+      }
+    }
+
+    return getStatusRedirect(
+      '/account',
+      'Subscription canceled.',
+      mode === 'immediate'
+        ? 'Your subscription has ended. Thank you for your feedback.'
+        : `You keep access until ${formatPeriodEnd(subscription.currentPeriodEnd)}. Thank you for your feedback.`
+    );
+  } catch (error) {
+    console.error(error);
+    return getErrorRedirectHelper(
+      '/account',
+      error instanceof Error ? error.message : 'An unknown error occurred.',
+      'Please try again later or contact a system administrator.'
+    );
+  }
+}
+
+export async function pauseSubscription(): Promise<string> {
+  try {
+    const { subscription } = await getManagedSubscription(
+      'You do not have a subscription to pause.'
+    );
+    await pauseSubscriptionForSubscription(subscription);
+
+    return getStatusRedirect(
+      '/account',
+      'Subscription paused.',
+      'You will not be charged until you resume it.'
+    );
+  } catch (error) {
+    console.error(error);
+    return getErrorRedirectHelper(
+      '/account',
+      error instanceof Error ? error.message : 'An unknown error occurred.',
+      'Please try again later or contact a system administrator.'
+    );
+  }
+}
+
+export async function resumeSubscription(): Promise<string> {
+  try {
+    const { subscription } = await getManagedSubscription(
+      'You do not have a subscription to resume.'
+    );
+    await resumeSubscriptionForSubscription(subscription);
+
+    return getStatusRedirect('/account', 'Success!', 'Your subscription has been resumed.');
+  } catch (error) {
+    console.error(error);
+    return getErrorRedirectHelper(
+      '/account',
+      error instanceof Error ? error.message : 'An unknown error occurred.',
+      'Please try again later or contact a system administrator.'
+    );
+  }
+}
+
+type RetentionOffersResponse = {
+  errorRedirect?: string;
+  offers?: RetentionOfferSummary[];
+  /** Sent back with the answer to the offers */
+  offerToken?: string;
+};
+
+export async function getRetentionOffers(reason: string): Promise<RetentionOffersResponse> {
+  try {
+    const { subscription } = await getManagedSubscription(
+      'You do not have a subscription to cancel.'
+    );
+    const offers = await getRetentionOffersForSubscription(
+      subscription,
+      reason as CancellationReason
+    );
+
+    return {
+      offers: offers.map(({ id, kind, title, description }) => ({
+        id,
+        kind,
+        title,
+        description
+      })),
+      offerToken: signRetentionOffers(
+        subscription,
+        reason as CancellationReason,
+        offers
+      )
+    };
+  } catch (error) {
+    console.error(error);
+    return {
+      errorRedirect: getErrorRedirectHelper(
+        '/account',
+        error instanceof Error ? error.message : 'An unknown error occurred.',
+        'Please try again later or contact a system administrator.'
+      )
+    };
+  }
+}
+
+export async function acceptRetentionOffer(formData: FormData): Promise<string> {
+  try {
+    const { user, subscription } = await getManagedSubscription(
+      'You do not have a subscription to keep.'
+    );
+    const offer = await acceptRetentionOfferForSubscription(
+      subscription,
+      String(formData.get('offerId')),
+      String(formData.get('offerToken') ?? ''),
+      user.id
+    );
+
+    return getStatusRedirect(
+      '/account',
+      'Thanks for staying!',
+      offer.kind === 'discount'
+        ? `${offer.title} has been applied to your subscription.`
+        : `Your plan will switch on ${formatPeriodEnd(subscription.currentPeriodEnd)}.`
+    );
+  } catch (error) {
+    console.error(error);
+    return getErrorRedirectHelper(
+      '/account',
+      error instanceof Error ? error.message : 'An unknown error occurred.',
+      'Please try again later or contact a system administrator.'
+    );
+  }
+}
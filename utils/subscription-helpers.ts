@@ -172,3 +172,39 @@ export function formatSubscriptionPrice(subscription: any): string {
 
   return `${amount}${interval}`;
 }
+
+/**
+ * Get a human-readable status for an invoice or payment
+ * @param status - Invoice or payment status enum value
+ * @param amount - Billed amount in smallest currency unit
+ * @param amountRefunded - Refunded amount in smallest currency unit
+ * @returns Human-readable status string, reporting refunds over the paid status
+ */
+export function getBillingStatus(
+  status: string | null | undefined,
+  amount = 0,
+  amountRefunded = 0
+): string {
+  if (amountRefunded > 0) {
+    return amountRefunded >= amount ? 'Refunded' : 'Partially Refunded';
+  }
+
+  if (!status) {
+    return 'Unknown';
+  }
+
+  const statusMap: Record<string, string> = {
+    draft: 'Draft',
+    open: 'Due',
+    paid: 'Paid',
+    uncollectible: 'Uncollectible',
+    void: 'Void',
+    pending: 'Pending',
+    succeeded: 'Paid',
+    failed: 'Failed',
+    partially_refunded: 'Partially Refunded',
+    refunded: 'Refunded',
+  };
+
+  return statusMap[status] || status;
+}